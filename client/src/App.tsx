@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { LanguageProvider } from "@/contexts/LanguageContext";
+import { AppLockProvider } from "@/contexts/AppLockContext";
 import { Layout } from "@/components/Layout";
 import Home from "@/pages/Home";
 import Login from "@/pages/Login";
@@ -13,6 +14,9 @@ import Records from "@/pages/Records";
 import Medicines from "@/pages/Medicines";
 import Profile from "@/pages/Profile";
 import VideoConsultation from "@/pages/VideoConsultation";
+import AppointmentChat from "@/pages/AppointmentChat";
+import DoctorWorkspace from "@/pages/DoctorWorkspace";
+import WaitingRoom from "@/pages/WaitingRoom";
 import PharmacistDashboard from "@/pages/PharmacistDashboard";
 import AdminDashboard from "@/pages/AdminDashboard";
 import NotFound from "@/pages/not-found";
@@ -27,6 +31,9 @@ function Router() {
       <Route path="/medicines" component={Medicines} />
       <Route path="/profile" component={Profile} />
       <Route path="/video/:roomId" component={VideoConsultation} />
+      <Route path="/chat/:appointmentId" component={AppointmentChat} />
+      <Route path="/doctor" component={DoctorWorkspace} />
+      <Route path="/walk-in" component={WaitingRoom} />
       <Route path="/pharmacist" component={PharmacistDashboard} />
       <Route path="/admin" component={AdminDashboard} />
       {/* Fallback to 404 */}
@@ -41,10 +48,12 @@ function App() {
       <TooltipProvider>
         <AuthProvider>
           <LanguageProvider>
-            <Layout>
-              <Toaster />
-              <Router />
-            </Layout>
+            <AppLockProvider>
+              <Layout>
+                <Toaster />
+                <Router />
+              </Layout>
+            </AppLockProvider>
           </LanguageProvider>
         </AuthProvider>
       </TooltipProvider>
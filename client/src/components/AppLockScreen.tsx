@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PIN_PATTERN } from '@/lib/offlineCrypto';
+
+interface AppLockScreenProps {
+  mode: 'checking' | 'setup' | 'locked';
+  userName: string;
+  onUnlock: (pin: string) => Promise<boolean>;
+  onSetPin: (pin: string) => Promise<void>;
+  onForgotPin: () => Promise<void>;
+  onSignOut: () => Promise<void>;
+}
+
+/**
+ * Full-screen PIN prompt. In setup mode the user picks the PIN that encrypts
+ * their offline data on this device; otherwise it unlocks that data.
+ */
+export function AppLockScreen({ mode, userName, onUnlock, onSetPin, onForgotPin, onSignOut }: AppLockScreenProps) {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmingForgot, setConfirmingForgot] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    if (mode === 'setup') {
+      if (!PIN_PATTERN.test(pin)) {
+        setError('PIN must be 6 to 12 digits');
+        return;
+      }
+      if (pin !== confirmPin) {
+        setError('PINs do not match');
+        return;
+      }
+    }
+
+    setBusy(true);
+    try {
+      if (mode === 'setup') {
+        await onSetPin(pin);
+      } else if (!(await onUnlock(pin))) {
+        setError('Incorrect PIN');
+        setPin('');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not open offline data');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleForgot = async () => {
+    setBusy(true);
+    try {
+      await onForgotPin();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (mode === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <i className="fas fa-spinner fa-spin text-2xl text-muted-foreground"></i>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <i className="fas fa-lock text-3xl text-primary mb-2"></i>
+          <CardTitle>{mode === 'setup' ? 'Set a PIN' : `Welcome back, ${userName}`}</CardTitle>
+          <CardDescription>
+            {mode === 'setup'
+              ? 'Your health data is stored encrypted on this device. Choose a PIN to unlock it; it cannot be recovered if forgotten.'
+              : 'Enter your PIN to unlock your data on this device.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="app-lock-pin">PIN</Label>
+              <Input
+                id="app-lock-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                autoFocus
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                data-testid="input-app-lock-pin"
+              />
+            </div>
+            {mode === 'setup' && (
+              <div>
+                <Label htmlFor="app-lock-confirm-pin">Confirm PIN</Label>
+                <Input
+                  id="app-lock-confirm-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                  data-testid="input-app-lock-confirm-pin"
+                />
+              </div>
+            )}
+            {error && (
+              <p className="text-sm text-destructive" data-testid="text-app-lock-error">{error}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={busy || pin.length === 0} data-testid="button-app-unlock">
+              {busy ? <i className="fas fa-spinner fa-spin mr-2"></i> : null}
+              {mode === 'setup' ? 'Set PIN' : 'Unlock'}
+            </Button>
+          </form>
+
+          <div className="mt-6 pt-4 border-t space-y-2">
+            {mode === 'locked' && (confirmingForgot ? (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  This erases your data from this device, including changes not yet synced, and signs you out.
+                  Data already on the server is kept.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="destructive" size="sm" className="flex-1" onClick={handleForgot} disabled={busy} data-testid="button-confirm-forgot-pin">
+                    Erase and sign out
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setConfirmingForgot(false)} disabled={busy}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="link" size="sm" className="w-full" onClick={() => setConfirmingForgot(true)} data-testid="button-forgot-pin">
+                Forgot PIN?
+              </Button>
+            ))}
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => onSignOut()} data-testid="button-app-lock-sign-out">
+              <i className="fas fa-sign-out-alt mr-2"></i>
+              Sign out
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
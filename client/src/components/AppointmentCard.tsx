@@ -23,11 +23,12 @@ interface Appointment {
 interface AppointmentCardProps {
   appointment: Appointment;
   onJoin?: (appointment: Appointment) => void;
+  onChat?: (appointment: Appointment) => void;
   onReschedule?: (appointment: Appointment) => void;
   onCancel?: (appointment: Appointment) => void;
 }
 
-export function AppointmentCard({ appointment, onJoin, onReschedule, onCancel }: AppointmentCardProps) {
+export function AppointmentCard({ appointment, onJoin, onChat, onReschedule, onCancel }: AppointmentCardProps) {
   const appointmentDate = new Date(appointment.scheduledAt);
   const isPastAppointment = isPast(appointmentDate) && appointment.status !== 'ongoing';
   
@@ -143,6 +144,18 @@ export function AppointmentCard({ appointment, onJoin, onReschedule, onCancel }:
               </Button>
             )}
             
+            {appointment.status !== 'cancelled' && onChat && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onChat(appointment)}
+                data-testid="button-chat-appointment"
+              >
+                <i className="fas fa-comment mr-1"></i>
+                Chat
+              </Button>
+            )}
+            
             {canReschedule() && onReschedule && (
               <Button
                 size="sm"
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { format, startOfToday, addDays } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useDoctorSlots, useBookAppointment } from '@/hooks/useAppointments';
+import { useToast } from '@/hooks/use-toast';
+import type { Appointment } from '@shared/schema';
+import type { AvailableSlot } from '@shared/scheduling';
+
+// How far ahead patients may book
+const BOOKING_WINDOW_DAYS = 30;
+
+interface AppointmentSlotPickerProps {
+  doctor: {
+    id: string;
+    specialty: string;
+    user: { name: string };
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBooked?: (appointment: Appointment) => void;
+}
+
+export function AppointmentSlotPicker({ doctor, open, onOpenChange, onBooked }: AppointmentSlotPickerProps) {
+  const { toast } = useToast();
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(startOfToday());
+  const [selectedSlot, setSelectedSlot] = useState<AvailableSlot | null>(null);
+
+  const dateKey = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : undefined;
+  const { data: slots = [], isLoading } = useDoctorSlots(doctor?.id, dateKey);
+  const bookAppointment = useBookAppointment();
+
+  const handleDateSelect = (date: Date | undefined) => {
+    setSelectedDate(date);
+    setSelectedSlot(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!doctor || !selectedSlot) return;
+
+    try {
+      const appointment = await bookAppointment.mutateAsync({
+        doctorId: doctor.id,
+        slot: selectedSlot,
+        specialty: doctor.specialty,
+      });
+      toast({
+        title: "Appointment Booked",
+        description: `Dr. ${doctor.user.name} on ${format(new Date(selectedSlot.start), 'PPP p')}`,
+      });
+      setSelectedSlot(null);
+      onBooked?.(appointment);
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast({
+        title: "Booking Failed",
+        description: message.startsWith('409')
+          ? "This slot was just taken. Please choose another time."
+          : "Could not book the appointment. Please try again.",
+        variant: "destructive"
+      });
+      setSelectedSlot(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Book Appointment{doctor ? ` with Dr. ${doctor.user.name}` : ''}</DialogTitle>
+          <DialogDescription>Choose a date, then pick one of the available time slots.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={handleDateSelect}
+            disabled={{ before: startOfToday(), after: addDays(startOfToday(), BOOKING_WINDOW_DAYS) }}
+            className="rounded-md border"
+            data-testid="calendar-appointment-date"
+          />
+
+          <div>
+            <h4 className="font-medium mb-2">
+              {selectedDate ? format(selectedDate, 'EEEE, d MMMM') : 'Select a date'}
+            </h4>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading available slots...</p>
+            ) : slots.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-slots">
+                No free slots on this day. Please try another date.
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2 max-h-72 overflow-y-auto">
+                {slots.map((slot) => (
+                  <Button
+                    key={slot.start}
+                    size="sm"
+                    variant={selectedSlot?.start === slot.start ? 'default' : 'outline'}
+                    onClick={() => setSelectedSlot(slot)}
+                    data-testid={`button-slot-${slot.start}`}
+                  >
+                    {format(new Date(slot.start), 'h:mm a')}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-booking">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!selectedSlot || bookAppointment.isPending}
+            data-testid="button-confirm-booking"
+          >
+            <i className="fas fa-calendar-check mr-2"></i>
+            {bookAppointment.isPending ? 'Booking...' : 'Confirm Booking'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
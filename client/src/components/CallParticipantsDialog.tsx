@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useCallParticipants, useConfirmCallParticipant, useInviteCallParticipant, useRemoveCallParticipant } from '@/hooks/useAppointments';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { UserCheck, UserMinus, UserPlus } from 'lucide-react';
+
+interface CallParticipantsDialogProps {
+  appointmentId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// People invited into the call besides the patient and doctor, e.g. a family member or the patient's ASHA worker
+export function CallParticipantsDialog({ appointmentId, open, onOpenChange }: CallParticipantsDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [phone, setPhone] = useState('');
+  const { data: participants = [], isLoading } = useCallParticipants(open ? appointmentId : undefined);
+  const inviteParticipant = useInviteCallParticipant(appointmentId);
+  const removeParticipant = useRemoveCallParticipant(appointmentId);
+  const confirmParticipant = useConfirmCallParticipant(appointmentId);
+  const canConfirm = user?.role === 'doctor' || user?.role === 'admin';
+
+  const handleInvite = async () => {
+    try {
+      const result = await inviteParticipant.mutateAsync({ phone: phone.trim() });
+      toast({ title: "Participant Invited", description: result.message });
+      setPhone('');
+    } catch (error) {
+      toast({
+        title: "Could not invite",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleConfirm = async (userId: string) => {
+    try {
+      await confirmParticipant.mutateAsync(userId);
+    } catch (error) {
+      toast({
+        title: "Could not confirm participant",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    try {
+      await removeParticipant.mutateAsync(userId);
+    } catch (error) {
+      toast({
+        title: "Could not remove participant",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Call Participants</DialogTitle>
+          <DialogDescription>
+            Invite a family member or the patient's ASHA worker by their registered phone number. Only the patient,
+            the doctor and invited people can join; people the patient invites join once the doctor confirms.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="invite-phone">Phone number</Label>
+            <div className="flex gap-2">
+              <Input
+                id="invite-phone"
+                type="tel"
+                value={phone}
+                placeholder="Registered mobile number"
+                onChange={(e) => setPhone(e.target.value)}
+                data-testid="input-invite-phone"
+              />
+              <Button
+                onClick={handleInvite}
+                disabled={inviteParticipant.isPending || phone.trim().length < 10}
+                data-testid="button-invite-participant"
+              >
+                <UserPlus className="h-4 w-4 mr-1" />
+                Invite
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-gray-500">Loading participants...</p>
+          ) : participants.length === 0 ? (
+            <p className="text-gray-500 text-center py-2">Nobody else has been invited</p>
+          ) : (
+            <div className="space-y-2">
+              {participants.map(participant => (
+                <div
+                  key={participant.id}
+                  className="flex items-center justify-between p-2 rounded-lg border"
+                  data-testid={`call-participant-${participant.userId}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{participant.user.name}</span>
+                    <Badge variant="outline">{participant.user.role}</Badge>
+                    {!participant.confirmedAt && <Badge variant="secondary">Awaiting doctor</Badge>}
+                  </div>
+                  <div className="flex items-center">
+                    {canConfirm && !participant.confirmedAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleConfirm(participant.userId)}
+                        disabled={confirmParticipant.isPending}
+                        data-testid={`button-confirm-participant-${participant.userId}`}
+                      >
+                        <UserCheck className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(participant.userId)}
+                      disabled={removeParticipant.isPending}
+                      data-testid={`button-remove-participant-${participant.userId}`}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, Check, CheckCheck, Clock, FileText, Loader2, Paperclip, Send } from 'lucide-react';
+import { fetchFileUrl, openFile } from '@/lib/queryClient';
+import type { PendingChatMessage } from '@/hooks/useConsultationChat';
+import { CONSULTATION_MESSAGE_MAX_LENGTH, type ChatAttachment, type ConsultationChatMessage } from '@shared/consultationChat';
+
+interface ConsultationChatProps {
+  messages: ConsultationChatMessage[];
+  pending?: PendingChatMessage[];
+  currentUserId: string | undefined;
+  onSend: (body: string) => void;
+  // Omitted where files cannot be shared
+  onShareFile?: (file: File) => void;
+  sharing?: boolean;
+  disabled?: boolean;
+}
+
+// Text chat of a consultation, with shared photos and reports; inside a call it is the only channel left once the link cannot carry audio
+export function ConsultationChat({ messages, pending = [], currentUserId, onSend, onShareFile, sharing, disabled }: ConsultationChatProps) {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, pending.length]);
+
+  const handleSend = () => {
+    const body = draft.trim();
+    if (!body) return;
+    onSend(body);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white" data-testid="consultation-chat">
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {messages.length === 0 && pending.length === 0 ? (
+          <p className="text-gray-500 text-center text-sm py-4">No messages yet</p>
+        ) : (
+          <>
+            {messages.map(message => {
+              const own = message.senderId === currentUserId;
+              return (
+                <div key={message.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`} data-testid={`chat-message-${message.id}`}>
+                  <div className={`max-w-[80%] rounded-lg px-3 py-2 ${own ? 'bg-primary text-primary-foreground' : 'bg-gray-100 text-gray-900'}`}>
+                    {!own && <p className="text-xs font-medium mb-1">{message.sender.name}</p>}
+                    {message.attachment && <AttachmentPreview attachment={message.attachment} />}
+                    {message.body && <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>}
+                    <p className="text-[10px] opacity-70 flex items-center justify-end gap-1 mt-1">
+                      {format(new Date(message.createdAt), 'HH:mm')}
+                      {own && <DeliveryStatus message={message} />}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+            {pending.map(message => (
+              <div key={message.clientMessageId} className="flex justify-end" data-testid={`chat-pending-${message.clientMessageId}`}>
+                <div className="max-w-[80%] rounded-lg px-3 py-2 bg-primary/70 text-primary-foreground">
+                  <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+                  <p className="text-[10px] opacity-70 flex items-center justify-end gap-1 mt-1">
+                    {message.state === 'failed' ? (
+                      <>
+                        <AlertCircle className="h-3 w-3" />
+                        {message.error ?? 'Not sent'}
+                      </>
+                    ) : message.state === 'queued' ? (
+                      <>
+                        <Clock className="h-3 w-3" />
+                        Sends when back online
+                      </>
+                    ) : (
+                      <Clock className="h-3 w-3" />
+                    )}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+        <div ref={endRef} />
+      </div>
+      <div className="border-t p-2 flex gap-2">
+        {onShareFile && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,application/pdf"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onShareFile(file);
+                e.target.value = '';
+              }}
+              data-testid="input-chat-file"
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled || sharing}
+              title="Share a photo or report"
+              data-testid="button-share-file"
+            >
+              {sharing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+            </Button>
+          </>
+        )}
+        <Input
+          value={draft}
+          maxLength={CONSULTATION_MESSAGE_MAX_LENGTH}
+          placeholder="Type a message"
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSend();
+          }}
+          disabled={disabled}
+          data-testid="input-chat-message"
+        />
+        <Button onClick={handleSend} disabled={disabled || !draft.trim()} data-testid="button-send-chat">
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// One tick once saved, two once delivered, two highlighted once read
+function DeliveryStatus({ message }: { message: ConsultationChatMessage }) {
+  if (message.readAt) {
+    return <CheckCheck className="h-3 w-3 text-sky-300" aria-label="Read" />;
+  }
+  if (message.deliveredAt) {
+    return <CheckCheck className="h-3 w-3" aria-label="Delivered" />;
+  }
+  return <Check className="h-3 w-3" aria-label="Sent" />;
+}
+
+function AttachmentPreview({ attachment }: { attachment: ChatAttachment }) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const isImage = attachment.contentType.startsWith('image/');
+
+  useEffect(() => {
+    if (!isImage) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    fetchFileUrl(attachment.fileUrl)
+      .then(url => {
+        objectUrl = url;
+        if (cancelled) {
+          URL.revokeObjectURL(url);
+        } else {
+          setImageUrl(url);
+        }
+      })
+      .catch(error => console.error('Failed to load shared photo:', error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.fileUrl, isImage]);
+
+  const open = () => openFile(attachment.fileUrl).catch(error => console.error('Failed to open shared file:', error));
+
+  if (isImage) {
+    return imageUrl ? (
+      <img
+        src={imageUrl}
+        alt={attachment.fileName}
+        className="rounded mb-1 max-h-48 cursor-pointer"
+        onClick={open}
+        data-testid={`chat-attachment-${attachment.recordId}`}
+      />
+    ) : (
+      <div className="h-24 w-32 rounded mb-1 bg-black/10 flex items-center justify-center">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={open}
+      className="flex items-center gap-2 text-sm underline mb-1"
+      data-testid={`chat-attachment-${attachment.recordId}`}
+    >
+      <FileText className="h-4 w-4 shrink-0" />
+      <span className="break-all">{attachment.fileName}</span>
+      <span className="opacity-70 no-underline">({Math.max(1, Math.round(attachment.size / 1024))} KB)</span>
+    </button>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useSaveConsultationNote } from '@/hooks/useDoctorWorkspace';
+import { useToast } from '@/hooks/use-toast';
+import type { ConsultationDiagnosis, QueueEntry } from '@shared/consultation';
+
+interface ConsultationNoteEditorProps {
+  appointment: QueueEntry;
+}
+
+const SOAP_SECTIONS = [
+  { key: 'subjective', label: 'Subjective', placeholder: 'Presenting complaint and history in the patient\'s words' },
+  { key: 'objective', label: 'Objective', placeholder: 'Examination findings, vitals, test results' },
+  { key: 'assessment', label: 'Assessment', placeholder: 'Clinical impression' },
+  { key: 'plan', label: 'Plan', placeholder: 'Treatment, advice, referrals and follow-up' },
+] as const;
+
+type SoapKey = typeof SOAP_SECTIONS[number]['key'];
+
+const emptySections = (): Record<SoapKey, string> => ({ subjective: '', objective: '', assessment: '', plan: '' });
+
+// SOAP note for the visit; each diagnosis is also filed in the patient's health records
+export function ConsultationNoteEditor({ appointment }: ConsultationNoteEditorProps) {
+  const { toast } = useToast();
+  const saveNote = useSaveConsultationNote();
+  const [sections, setSections] = useState(emptySections);
+  const [diagnoses, setDiagnoses] = useState<ConsultationDiagnosis[]>([]);
+  const [diagnosisTitle, setDiagnosisTitle] = useState('');
+  const [diagnosisCode, setDiagnosisCode] = useState('');
+
+  // Load the saved note when switching patients, not on every queue refetch
+  useEffect(() => {
+    const note = appointment.consultationNote;
+    setSections(note
+      ? { subjective: note.subjective, objective: note.objective, assessment: note.assessment, plan: note.plan }
+      : emptySections());
+    setDiagnoses(note?.diagnoses ?? []);
+    setDiagnosisTitle('');
+    setDiagnosisCode('');
+  }, [appointment.id]);
+
+  const addDiagnosis = () => {
+    const title = diagnosisTitle.trim();
+    if (!title || diagnoses.some(diagnosis => diagnosis.title.toLowerCase() === title.toLowerCase())) return;
+    setDiagnoses([...diagnoses, { title, code: diagnosisCode.trim() || undefined }]);
+    setDiagnosisTitle('');
+    setDiagnosisCode('');
+  };
+
+  const handleSave = async (complete: boolean) => {
+    try {
+      const { diagnoses: filed } = await saveNote.mutateAsync({
+        appointmentId: appointment.id,
+        ...sections,
+        diagnoses,
+        complete,
+      });
+      toast({
+        title: complete ? "Consultation Completed" : "Note Saved",
+        description: filed.length > 0
+          ? `${filed.length} ${filed.length === 1 ? 'diagnosis' : 'diagnoses'} added to ${appointment.patient.name}'s records`
+          : `Saved for ${appointment.patient.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save note",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const isEmpty = Object.values(sections).every(value => !value.trim()) && diagnoses.length === 0;
+  const isClosed = appointment.status === 'completed';
+
+  return (
+    <Card data-testid="card-consultation-note">
+      <CardHeader>
+        <CardTitle>Consultation Note</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {SOAP_SECTIONS.map(section => (
+          <div key={section.key}>
+            <Label htmlFor={`note-${section.key}`}>{section.label}</Label>
+            <Textarea
+              id={`note-${section.key}`}
+              value={sections[section.key]}
+              placeholder={section.placeholder}
+              rows={3}
+              onChange={(e) => setSections(current => ({ ...current, [section.key]: e.target.value }))}
+              data-testid={`textarea-note-${section.key}`}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label>Diagnoses</Label>
+          {diagnoses.map(diagnosis => (
+            <div key={diagnosis.title} className="flex justify-between items-center border rounded px-3 py-2 text-sm">
+              <span>
+                {diagnosis.title}
+                {diagnosis.code && <span className="text-gray-500"> ({diagnosis.code})</span>}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setDiagnoses(diagnoses.filter(candidate => candidate.title !== diagnosis.title))}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              value={diagnosisTitle}
+              placeholder="Diagnosis"
+              onChange={(e) => setDiagnosisTitle(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addDiagnosis()}
+              data-testid="input-diagnosis-title"
+            />
+            <Input
+              value={diagnosisCode}
+              placeholder="ICD-10 (optional)"
+              className="w-40"
+              onChange={(e) => setDiagnosisCode(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addDiagnosis()}
+            />
+            <Button variant="outline" onClick={addDiagnosis} disabled={!diagnosisTitle.trim()} data-testid="button-add-diagnosis">
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleSave(false)}
+            disabled={saveNote.isPending || isEmpty}
+            data-testid="button-save-note"
+          >
+            Save Draft
+          </Button>
+          {!isClosed && (
+            <Button
+              onClick={() => handleSave(true)}
+              disabled={saveNote.isPending || isEmpty}
+              data-testid="button-complete-consultation"
+            >
+              {saveNote.isPending ? 'Saving...' : 'Save & Complete'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { usePrescriptionHistory, useUpdatePrescriptionStatus, type PharmacyPrescription } from '@/hooks/usePrescriptions';
+import { useToast } from '@/hooks/use-toast';
+
+interface DispensePrescriptionDialogProps {
+  prescription: PharmacyPrescription;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Hand over some or all of a prescription. Quantities default to what is still
+ * owed; anything left over keeps the prescription partially dispensed.
+ */
+export function DispensePrescriptionDialog({ prescription, open, onOpenChange }: DispensePrescriptionDialogProps) {
+  const { toast } = useToast();
+  const { data: history = [] } = usePrescriptionHistory(prescription.id, open);
+  const updateStatus = useUpdatePrescriptionStatus();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [note, setNote] = useState('');
+
+  const owed = useMemo(() => {
+    const dispensed: Record<string, number> = {};
+    history.flatMap(entry => entry.dispenseItems).forEach(item => {
+      dispensed[item.medicineId] = (dispensed[item.medicineId] ?? 0) + item.quantity;
+    });
+    return Object.fromEntries(prescription.medicines.map(medicine => [
+      medicine.medicineId,
+      Math.max(0, medicine.quantity - (dispensed[medicine.medicineId] ?? 0)),
+    ]));
+  }, [history, prescription.medicines]);
+
+  useEffect(() => {
+    if (open) {
+      setQuantities(owed);
+      setNote('');
+    }
+  }, [open, owed]);
+
+  const handleDispense = async () => {
+    try {
+      const { prescription: updated, outstanding } = await updateStatus.mutateAsync({
+        prescriptionId: prescription.id,
+        status: 'dispensed',
+        note: note.trim() || undefined,
+        items: prescription.medicines
+          .filter(medicine => owed[medicine.medicineId] > 0)
+          .map(medicine => ({ medicineId: medicine.medicineId, quantity: quantities[medicine.medicineId] ?? 0 })),
+      });
+      toast({
+        title: updated.status === 'dispensed' ? "Prescription Dispensed" : "Partially Dispensed",
+        description: outstanding.length > 0
+          ? `${outstanding.length} medicine(s) still to be collected`
+          : 'All medicines have been handed over',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Could not dispense",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Dispense Prescription #{prescription.id.slice(-6)}</DialogTitle>
+          <DialogDescription>
+            Stock is deducted from your pharmacy, earliest-expiring batch first. Lower a quantity if you cannot supply all of it now.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {prescription.medicines.map(medicine => (
+            <div key={medicine.medicineId} className="flex items-center justify-between gap-3" data-testid={`row-dispense-${medicine.medicineId}`}>
+              <div className="flex-1">
+                <p className="font-medium text-sm">{medicine.medicineName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {owed[medicine.medicineId] ?? medicine.quantity} of {medicine.quantity} still owed
+                </p>
+              </div>
+              <Input
+                type="number"
+                className="w-24"
+                min={0}
+                max={owed[medicine.medicineId] ?? medicine.quantity}
+                value={quantities[medicine.medicineId] ?? 0}
+                disabled={owed[medicine.medicineId] === 0}
+                onChange={(e) => setQuantities({ ...quantities, [medicine.medicineId]: Math.max(0, Number(e.target.value)) })}
+                data-testid={`input-dispense-${medicine.medicineId}`}
+              />
+            </div>
+          ))}
+
+          <Textarea
+            placeholder="Note (optional), e.g. substituted brand"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            data-testid="textarea-dispense-note"
+          />
+
+          {history.length > 0 && (
+            <div className="border-t pt-3">
+              <p className="text-sm font-medium mb-2">History</p>
+              <ul className="space-y-1 text-xs text-muted-foreground">
+                {history.map(entry => (
+                  <li key={entry.id}>
+                    {format(new Date(entry.createdAt), 'MMM dd, HH:mm')} — {entry.fromStatus.replace('_', ' ')} → {entry.toStatus.replace('_', ' ')} by {entry.changedByName}
+                    {entry.note ? ` (${entry.note})` : ''}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleDispense}
+            disabled={updateStatus.isPending || Object.values(quantities).every(quantity => !quantity)}
+            data-testid="button-confirm-dispense"
+          >
+            {updateStatus.isPending ? 'Dispensing...' : 'Dispense'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
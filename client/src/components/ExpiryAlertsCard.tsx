@@ -0,0 +1,104 @@
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useExpiryAlerts, useWriteOffBatch } from '@/hooks/useInventory';
+import { useToast } from '@/hooks/use-toast';
+import { medicineStockManager } from '@/lib/medicineStockManager';
+import type { ExpiryAlert } from '@shared/inventory';
+
+interface ExpiryAlertsCardProps {
+  pharmacyId: string;
+}
+
+/**
+ * Expired batches still on the shelf, and batches expiring within 90 days.
+ * Expired batches can only leave stock by being written off here.
+ */
+export function ExpiryAlertsCard({ pharmacyId }: ExpiryAlertsCardProps) {
+  const { toast } = useToast();
+  const { data: alerts = [], isLoading } = useExpiryAlerts(pharmacyId);
+  const writeOff = useWriteOffBatch(pharmacyId);
+
+  const handleWriteOff = async (alert: ExpiryAlert) => {
+    try {
+      await writeOff.mutateAsync({ batchId: alert.batch.id, type: 'expired' });
+      toast({
+        title: "Batch Written Off",
+        description: `${alert.batch.quantity} units of ${alert.medicineName} (batch ${alert.batch.batchNumber}) removed from stock`,
+      });
+      medicineStockManager.refresh();
+    } catch (error) {
+      toast({
+        title: "Could not write off batch",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const expired = alerts.filter(alert => alert.state === 'expired');
+  const nearExpiry = alerts.filter(alert => alert.state === 'near_expiry');
+
+  return (
+    <Card data-testid="card-expiry-alerts">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Expiry Alerts
+          {expired.length > 0 && (
+            <Badge className="bg-red-100 text-red-800">{expired.length} expired</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500">Loading batches...</p>
+        ) : alerts.length === 0 ? (
+          <div className="text-center py-4">
+            <p className="text-gray-500">No batches expiring in the next 90 days</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {[...expired, ...nearExpiry].map(alert => (
+              <div
+                key={alert.batch.id}
+                className={`p-3 rounded-lg border ${
+                  alert.state === 'expired' ? 'bg-red-50 border-red-200'
+                    : alert.daysLeft <= 30 ? 'bg-orange-50 border-orange-200'
+                    : 'bg-yellow-50 border-yellow-200'
+                }`}
+                data-testid={`expiry-alert-${alert.batch.id}`}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="font-medium">{alert.medicineName}</p>
+                    <p className="text-sm text-gray-600">
+                      Batch {alert.batch.batchNumber} • {alert.batch.quantity} units
+                      {alert.batch.supplier && ` • ${alert.batch.supplier}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {alert.state === 'expired'
+                        ? `Expired ${format(new Date(alert.batch.expiryDate), 'MMM dd, yyyy')}`
+                        : `Expires ${format(new Date(alert.batch.expiryDate), 'MMM dd, yyyy')} (${alert.daysLeft} days)`}
+                    </p>
+                  </div>
+                  {alert.state === 'expired' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleWriteOff(alert)}
+                      disabled={writeOff.isPending}
+                      data-testid={`button-write-off-${alert.batch.id}`}
+                    >
+                      Write Off
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
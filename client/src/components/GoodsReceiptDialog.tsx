@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useReceiveGoods } from '@/hooks/usePurchasing';
+import { useToast } from '@/hooks/use-toast';
+import { medicineStockManager } from '@/lib/medicineStockManager';
+import type { PurchaseOrderDetail } from '@shared/purchasing';
+
+interface GoodsReceiptDialogProps {
+  pharmacyId: string;
+  order: PurchaseOrderDetail;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ReceiptLine {
+  lineId: string;
+  medicineName: string;
+  outstanding: number;
+  quantity: number;
+  batchNumber: string;
+  expiryDate: string;
+}
+
+// Goods-received note: what actually arrived against the order, one batch per line
+export function GoodsReceiptDialog({ pharmacyId, order, open, onOpenChange }: GoodsReceiptDialogProps) {
+  const { toast } = useToast();
+  const receiveGoods = useReceiveGoods(pharmacyId);
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [lines, setLines] = useState<ReceiptLine[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setInvoiceNumber('');
+      setLines(order.lines
+        .filter(line => line.quantityReceived < line.quantityOrdered)
+        .map(line => ({
+          lineId: line.id,
+          medicineName: line.medicineName,
+          outstanding: line.quantityOrdered - line.quantityReceived,
+          quantity: line.quantityOrdered - line.quantityReceived,
+          batchNumber: '',
+          expiryDate: '',
+        })));
+    }
+  }, [open, order.id]);
+
+  const updateLine = (lineId: string, changes: Partial<ReceiptLine>) => {
+    setLines(current => current.map(line => line.lineId === lineId ? { ...line, ...changes } : line));
+  };
+
+  // Lines left at zero did not arrive in this delivery
+  const delivered = lines.filter(line => line.quantity > 0);
+  const incomplete = delivered.some(line => !line.batchNumber.trim() || !line.expiryDate);
+
+  const handleReceive = async () => {
+    try {
+      const { order: updated } = await receiveGoods.mutateAsync({
+        orderId: order.id,
+        invoiceNumber: invoiceNumber.trim() || undefined,
+        lines: delivered.map(line => ({
+          lineId: line.lineId,
+          quantity: line.quantity,
+          batchNumber: line.batchNumber.trim(),
+          expiryDate: line.expiryDate,
+        })),
+      });
+      toast({
+        title: "Goods Received",
+        description: updated.status === 'received'
+          ? 'The order is complete and the stock has been added'
+          : 'Stock added; the rest of the order is still outstanding',
+      });
+      medicineStockManager.refresh();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Could not receive goods",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Goods</DialogTitle>
+          <DialogDescription>
+            {order.supplier?.name ?? 'Supplier'} • enter the batch and expiry printed on each delivered item.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="grn-invoice">Supplier invoice number (optional)</Label>
+            <Input id="grn-invoice" value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} data-testid="input-grn-invoice" />
+          </div>
+
+          {lines.map(line => (
+            <div key={line.lineId} className="rounded border p-3 space-y-2" data-testid={`grn-line-${line.lineId}`}>
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{line.medicineName}</span>
+                <span className="text-muted-foreground">{line.outstanding} outstanding</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label htmlFor={`grn-quantity-${line.lineId}`}>Received</Label>
+                  <Input
+                    id={`grn-quantity-${line.lineId}`}
+                    type="number"
+                    min={0}
+                    max={line.outstanding}
+                    value={line.quantity}
+                    onChange={(e) => updateLine(line.lineId, {
+                      quantity: Math.min(line.outstanding, Math.max(0, Math.floor(Number(e.target.value))))
+                    })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`grn-batch-${line.lineId}`}>Batch / lot</Label>
+                  <Input
+                    id={`grn-batch-${line.lineId}`}
+                    value={line.batchNumber}
+                    onChange={(e) => updateLine(line.lineId, { batchNumber: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`grn-expiry-${line.lineId}`}>Expiry</Label>
+                  <Input
+                    id={`grn-expiry-${line.lineId}`}
+                    type="date"
+                    value={line.expiryDate}
+                    onChange={(e) => updateLine(line.lineId, { expiryDate: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleReceive}
+            disabled={receiveGoods.isPending || delivered.length === 0 || incomplete}
+            data-testid="button-confirm-grn"
+          >
+            {receiveGoods.isPending ? 'Saving...' : 'Receive'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,13 @@
-import { useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { useHealthRecords } from '@/hooks/useAppointments';
-import { useOfflineStatus, offlineManager } from '@/lib/offline';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { useSyncQueue } from '@/hooks/useSyncQueue';
+import { offlineStore } from '@/lib/offlineStore';
+import { openFile } from '@/lib/queryClient';
 import { format } from 'date-fns';
 
 interface HealthRecord {
@@ -22,33 +23,18 @@ export function HealthRecords() {
   const { user } = useAuth();
   const { t } = useLanguage();
   const isOnline = useOfflineStatus();
-  const [offlineRecords, setOfflineRecords] = useState<HealthRecord[]>([]);
+  const { syncNow } = useSyncQueue();
 
-  const { data: onlineRecords = [], isLoading } = useHealthRecords();
-
-  useEffect(() => {
-    // Load offline records when component mounts
-    loadOfflineRecords();
-  }, []);
-
-  useEffect(() => {
-    // Sync records when coming back online
-    if (isOnline && onlineRecords) {
-      offlineManager.saveHealthRecords(onlineRecords);
-      offlineManager.setLastSync(Date.now());
-    }
-  }, [isOnline, onlineRecords]);
-
-  const loadOfflineRecords = async () => {
-    try {
-      const records = await offlineManager.getHealthRecords();
-      setOfflineRecords(records);
-    } catch (error) {
-      console.error('Error loading offline records:', error);
-    }
-  };
-
-  const records = isOnline ? onlineRecords : offlineRecords;
+  // Always read this user's offline copy; the change feed keeps it current while online
+  const { data: records = [], isLoading } = useQuery({
+    queryKey: ['health-records', user?.id, 'offline'],
+    queryFn: async () => {
+      const stored = await offlineStore.partition(user!.id).getAll('healthRecords');
+      return (stored as unknown as HealthRecord[])
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    },
+    enabled: !!user,
+  });
 
   const getTypeColor = (type: string) => {
     switch (type) {
@@ -157,7 +143,7 @@ export function HealthRecords() {
           <Button 
             variant="outline" 
             size="sm" 
-            onClick={loadOfflineRecords}
+            onClick={() => syncNow()}
             data-testid="button-refresh-records"
           >
             <i className="fas fa-sync-alt mr-2"></i>
@@ -213,12 +199,12 @@ export function HealthRecords() {
                 )}
                 {record.type === 'report' && (
                   <div className="space-y-2">
-                    <p className="text-sm">{record.data.summary}</p>
+                    <p className="text-sm">{record.data.summary ?? record.data.fileName}</p>
                     {record.fileUrl && (
                       <Button 
                         variant="outline" 
                         size="sm"
-                        onClick={() => window.open(record.fileUrl, '_blank')}
+                        onClick={() => openFile(record.fileUrl!).catch(error => console.error('Failed to open file:', error))}
                         data-testid={`button-download-${record.id}`}
                       >
                         <i className="fas fa-download mr-2"></i>
@@ -1,7 +1,9 @@
 import { Header } from './Header';
 import { BottomNavigation } from './BottomNavigation';
 import { RoleBasedNavigation } from './RoleBasedNavigation';
-import { useOfflineStatus } from '@/lib/offline';
+import { SyncQueuePanel } from './SyncQueuePanel';
+import { UpdatePrompt } from './UpdatePrompt';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Menu, X } from 'lucide-react';
@@ -27,6 +29,8 @@ export function Layout({ children }: LayoutProps) {
       )}
 
       <Header />
+      <UpdatePrompt />
+      {user && <SyncQueuePanel />}
       
       <div className="flex">
         {/* Sidebar for desktop */}
@@ -1,53 +1,47 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { useMedicines, useMedicineStock } from '@/hooks/useAppointments';
-
-interface Medicine {
-  id: string;
-  name: string;
-  genericName?: string;
-  dosage: string;
-  manufacturer?: string;
-  price: number;
-}
-
-interface MedicineStock {
-  id: string;
-  quantity: number;
-  status: 'available' | 'limited' | 'out_of_stock';
-  pharmacy: {
-    id: string;
-    name: string;
-    address: string;
-    phone?: string;
-  };
-}
+import {
+  useGroupedMedicineSearch, useMedicineAlternatives, useMedicineAvailability, useNearbyMedicineStock,
+} from '@/hooks/usePrescriptions';
+import { useCurrentLocation } from '@/hooks/useCurrentLocation';
+import { NearbyPharmacyStock } from './NearbyPharmacyStock';
+import type { Medicine } from '@shared/schema';
 
 export function MedicineTracker() {
   const { t } = useLanguage();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedMedicine, setSelectedMedicine] = useState<Medicine | null>(null);
+  const [villageInput, setVillageInput] = useState('');
+  const [village, setVillage] = useState<string | null>(null);
+  const { location, error: locationError, locating, requestLocation, clearLocation } = useCurrentLocation();
 
-  const { data: allMedicines = [], isLoading: searchLoading } = useMedicines();
-  const { data: allMedicineStock = [], isLoading: stockLoading } = useMedicineStock();
+  const { data: medicineGroups = [], isLoading: searchLoading } = useGroupedMedicineSearch(searchQuery);
+  const { data: medicineStock = [], isLoading: stockLoading } = useMedicineAvailability(selectedMedicine?.id);
+  const {
+    data: nearby,
+    isFetching: nearbyLoading,
+    error: nearbyError,
+  } = useNearbyMedicineStock(selectedMedicine?.id, location ?? (village ? { village } : null));
+  // A village resolved by the server also orders the alternatives by distance
+  const searchOrigin = location ?? (nearby ? { lat: nearby.origin.lat, lng: nearby.origin.lng } : null);
+  const { data: alternatives = [], isLoading: alternativesLoading } = useMedicineAlternatives(selectedMedicine?.id, searchOrigin);
 
-  // Filter medicines based on search query
-  const medicines = searchQuery.length > 2 
-    ? allMedicines.filter((medicine: Medicine) => 
-        medicine.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        medicine.genericName?.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : [];
+  const locateMe = () => {
+    setVillage(null);
+    requestLocation();
+  };
 
-  // Filter stock for selected medicine
-  const medicineStock = selectedMedicine 
-    ? allMedicineStock.filter((stock: any) => stock.medicineId === selectedMedicine.id)
-    : [];
+  const searchVillage = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = villageInput.trim();
+    if (name.length < 2) return;
+    clearLocation();
+    setVillage(name);
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -100,7 +94,7 @@ export function MedicineTracker() {
         <CardContent className="space-y-4">
           <div className="flex space-x-2">
             <Input
-              placeholder="Search medicine (e.g., Paracetamol, Amoxicillin)"
+              placeholder="Search medicine (e.g., Paracetamol, पैरासिटामोल, ਪੈਰਾਸੀਟਾਮੋਲ)"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               data-testid="input-medicine-search"
@@ -124,41 +118,51 @@ export function MedicineTracker() {
             </div>
           )}
 
-          {medicines && medicines.length > 0 && (
+          {medicineGroups.length > 0 && (
             <div className="space-y-2">
               <h4 className="font-medium">Search Results:</h4>
-              <div className="space-y-2 max-h-48 overflow-y-auto">
-                {medicines.map((medicine: Medicine) => (
-                  <div
-                    key={medicine.id}
-                    className={`p-3 border rounded-lg cursor-pointer hover:bg-muted transition-colors ${
-                      selectedMedicine?.id === medicine.id ? 'bg-accent border-primary' : ''
-                    }`}
-                    onClick={() => setSelectedMedicine(medicine)}
-                    data-testid={`medicine-item-${medicine.id}`}
-                  >
-                    <div className="flex justify-between items-center">
-                      <div>
-                        <h5 className="font-medium">{medicine.name}</h5>
-                        <p className="text-sm text-muted-foreground">
-                          {medicine.dosage}
-                          {medicine.genericName && ` • ${medicine.genericName}`}
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-medium">₹{medicine.price}</p>
-                        {medicine.manufacturer && (
-                          <p className="text-xs text-muted-foreground">{medicine.manufacturer}</p>
-                        )}
+              <div className="space-y-3 max-h-72 overflow-y-auto">
+                {medicineGroups.map((group) => (
+                  <div key={group.genericName ?? group.medicines[0].id} className="space-y-2" data-testid="medicine-group">
+                    {group.genericName && (
+                      <p className="text-xs font-medium uppercase text-muted-foreground">
+                        {group.genericName}
+                        {group.medicines.length > 1 && ` • ${group.medicines.length} brands`}
+                      </p>
+                    )}
+                    {group.medicines.map((medicine) => (
+                      <div
+                        key={medicine.id}
+                        className={`p-3 border rounded-lg cursor-pointer hover:bg-muted transition-colors ${
+                          selectedMedicine?.id === medicine.id ? 'bg-accent border-primary' : ''
+                        }`}
+                        onClick={() => setSelectedMedicine(medicine)}
+                        data-testid={`medicine-item-${medicine.id}`}
+                      >
+                        <div className="flex justify-between items-center">
+                          <div>
+                            <h5 className="font-medium">{medicine.name}</h5>
+                            <p className="text-sm text-muted-foreground">
+                              {medicine.dosage}
+                              {medicine.genericName && ` • ${medicine.genericName}`}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium">₹{medicine.price}</p>
+                            {medicine.manufacturer && (
+                              <p className="text-xs text-muted-foreground">{medicine.manufacturer}</p>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
                 ))}
               </div>
             </div>
           )}
 
-          {searchQuery.length > 2 && medicines && medicines.length === 0 && !searchLoading && (
+          {searchQuery.trim().length >= 2 && medicineGroups.length === 0 && !searchLoading && (
             <div className="text-center py-4 text-muted-foreground">
               <i className="fas fa-search text-2xl mb-2"></i>
               <p>No medicines found for "{searchQuery}"</p>
@@ -183,8 +187,44 @@ export function MedicineTracker() {
               </Badge>
             </CardTitle>
           </CardHeader>
-          <CardContent>
-            {stockLoading ? (
+          <CardContent className="space-y-4">
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button
+                variant="outline"
+                onClick={locateMe}
+                disabled={locating}
+                data-testid="button-use-my-location"
+              >
+                <i className={`fas ${locating ? 'fa-spinner fa-spin' : 'fa-location-arrow'} mr-2`}></i>
+                Use My Location
+              </Button>
+              <form className="flex flex-1 gap-2" onSubmit={searchVillage}>
+                <Input
+                  placeholder="Or enter your village / town"
+                  value={villageInput}
+                  onChange={(e) => setVillageInput(e.target.value)}
+                  data-testid="input-village"
+                />
+                <Button type="submit" variant="outline" disabled={villageInput.trim().length < 2} data-testid="button-search-village">
+                  Find
+                </Button>
+              </form>
+            </div>
+            {locationError && (
+              <p className="text-sm text-destructive">{locationError}</p>
+            )}
+            {nearbyError && (
+              <p className="text-sm text-destructive">{nearbyError.message}</p>
+            )}
+
+            {nearbyLoading ? (
+              <div className="text-center py-4">
+                <i className="fas fa-spinner fa-spin text-primary mr-2"></i>
+                Finding the nearest pharmacies...
+              </div>
+            ) : nearby ? (
+              <NearbyPharmacyStock medicine={selectedMedicine} response={nearby} />
+            ) : stockLoading ? (
               <div className="space-y-3">
                 {[1, 2, 3].map((i) => (
                   <div key={i} className="animate-pulse">
@@ -194,7 +234,7 @@ export function MedicineTracker() {
               </div>
             ) : medicineStock && medicineStock.length > 0 ? (
               <div className="space-y-3">
-                {medicineStock.map((stock: MedicineStock) => (
+                {medicineStock.map((stock) => (
                   <div
                     key={stock.id}
                     className="flex items-center justify-between p-4 border rounded-lg"
@@ -255,6 +295,80 @@ export function MedicineTracker() {
           </CardContent>
         </Card>
       )}
+
+      {selectedMedicine && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <div>
+                <span>Generic Alternatives</span>
+                <p className="text-sm font-normal text-muted-foreground">
+                  In-stock substitutes with the same salt and strength
+                  {selectedMedicine.genericName && ` (${selectedMedicine.genericName} ${selectedMedicine.dosage})`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={locateMe}
+                disabled={locating}
+                data-testid="button-sort-by-distance"
+              >
+                <i className={`fas ${locating ? 'fa-spinner fa-spin' : 'fa-location-arrow'} mr-1`}></i>
+                {searchOrigin ? 'Update Location' : 'Nearest First'}
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {alternativesLoading ? (
+              <div className="animate-pulse">
+                <div className="h-16 bg-muted rounded-lg"></div>
+              </div>
+            ) : alternatives.length > 0 ? (
+              alternatives.map(({ medicine, availability }) => (
+                <div key={medicine.id} className="p-4 border rounded-lg space-y-2" data-testid={`alternative-item-${medicine.id}`}>
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <h5 className="font-medium">{medicine.name}</h5>
+                      {medicine.manufacturer && (
+                        <p className="text-xs text-muted-foreground">{medicine.manufacturer}</p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium">₹{medicine.price}</p>
+                      {medicine.price < selectedMedicine.price && (
+                        <Badge className="bg-green-100 text-green-800">
+                          Save ₹{selectedMedicine.price - medicine.price}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {availability.map((entry) => (
+                      <li key={entry.pharmacy.id} className="flex justify-between">
+                        <span>
+                          <i className="fas fa-clinic-medical mr-1"></i>
+                          {entry.pharmacy.name}
+                        </span>
+                        <span>
+                          {entry.quantity} in stock
+                          {entry.distanceKm !== null && ` • ${entry.distanceKm} km`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                {selectedMedicine.genericName
+                  ? 'No substitutes are in stock nearby.'
+                  : 'No generic name is recorded for this medicine, so substitutes cannot be matched.'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PharmacyMap, type PharmacyMapMarker } from './PharmacyMap';
+import { parseCoordinates } from '@shared/geo';
+import type { Medicine } from '@shared/schema';
+import type { NearbyStock, NearbyStockResponse, OpenStatus } from '@shared/pharmacyLocator';
+
+interface NearbyPharmacyStockProps {
+  medicine: Medicine;
+  response: NearbyStockResponse;
+}
+
+function OpenStatusBadge({ status }: { status: OpenStatus }) {
+  if (status.isOpen === null) {
+    return <Badge variant="outline">Hours not listed</Badge>;
+  }
+  if (status.isOpen) {
+    return (
+      <Badge className="bg-green-100 text-green-800">
+        Open{status.closesAt && ` until ${format(new Date(status.closesAt), 'h:mm a')}`}
+      </Badge>
+    );
+  }
+  return (
+    <Badge className="bg-gray-100 text-gray-800">
+      Closed{status.opensAt && ` • opens ${format(new Date(status.opensAt), 'EEE h:mm a')}`}
+    </Badge>
+  );
+}
+
+function formatMinutes(minutes: number) {
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+// Pharmacies stocking the medicine, nearest first, on a map and as a list
+export function NearbyPharmacyStock({ medicine, response }: NearbyPharmacyStockProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { origin, results } = response;
+
+  const markers: PharmacyMapMarker[] = results.flatMap((entry: NearbyStock, index) => {
+    const location = parseCoordinates(entry.pharmacy.latitude, entry.pharmacy.longitude);
+    return location ? [{ ...location, id: entry.stockId, label: String(index + 1), title: entry.pharmacy.name }] : [];
+  });
+
+  const directionsUrl = (entry: NearbyStock) =>
+    `https://www.google.com/maps/dir/?api=1&origin=${origin.lat},${origin.lng}`
+    + `&destination=${entry.pharmacy.latitude},${entry.pharmacy.longitude}`;
+
+  return (
+    <div className="space-y-3">
+      {origin.label && (
+        <p className="text-sm text-muted-foreground">
+          <i className="fas fa-map-marker-alt mr-1"></i>
+          Showing pharmacies near {origin.label}
+        </p>
+      )}
+
+      <PharmacyMap origin={origin} markers={markers} selectedId={selectedId} onSelect={setSelectedId} />
+
+      {results.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <i className="fas fa-store-slash text-3xl mb-2"></i>
+          <p>No pharmacy near you has {medicine.name} in stock. Check the generic alternatives below.</p>
+        </div>
+      ) : (
+        results.map((entry, index) => (
+          <div
+            key={entry.stockId}
+            className={`flex items-start justify-between gap-4 p-4 border rounded-lg cursor-pointer ${
+              selectedId === entry.stockId ? 'border-primary bg-accent' : ''
+            }`}
+            onClick={() => setSelectedId(entry.stockId)}
+            data-testid={`nearby-stock-${entry.stockId}`}
+          >
+            <div className="flex-1 space-y-1">
+              <h5 className="font-medium">
+                <span className="mr-2 inline-flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-xs text-white">
+                  {index + 1}
+                </span>
+                {entry.pharmacy.name}
+              </h5>
+              <p className="text-sm text-muted-foreground">{entry.pharmacy.address}</p>
+              {entry.travel ? (
+                <p className="text-sm">
+                  <span className="font-medium">{entry.distanceKm} km</span>
+                  <span className="text-muted-foreground">
+                    {' '}• <i className="fas fa-walking mx-1"></i>~{formatMinutes(entry.travel.walkingMinutes)}
+                    {' '}• <i className="fas fa-car mx-1"></i>~{formatMinutes(entry.travel.drivingMinutes)}
+                  </span>
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">Distance unknown</p>
+              )}
+              {entry.stockUpdatedAt && (
+                <p className="text-xs text-muted-foreground">
+                  Stock updated {formatDistanceToNow(new Date(entry.stockUpdatedAt), { addSuffix: true })}
+                </p>
+              )}
+            </div>
+
+            <div className="text-right space-y-2">
+              <OpenStatusBadge status={entry.openStatus} />
+              <p className="text-sm">
+                <span className="font-medium">₹{medicine.price}</span>
+                <span className="text-muted-foreground ml-2">({entry.quantity} in stock)</span>
+              </p>
+              <div className="flex justify-end gap-2">
+                {entry.pharmacy.phone && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => window.open(`tel:${entry.pharmacy.phone}`, '_self')}
+                    data-testid={`button-call-${entry.stockId}`}
+                  >
+                    <i className="fas fa-phone mr-1"></i>
+                    Call
+                  </Button>
+                )}
+                {entry.travel && (
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={directionsUrl(entry)} target="_blank" rel="noreferrer" data-testid={`link-directions-${entry.stockId}`}>
+                      <i className="fas fa-directions mr-1"></i>
+                      Directions
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Travel times are estimates from straight-line distance.
+      </p>
+    </div>
+  );
+}
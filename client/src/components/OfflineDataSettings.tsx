@@ -0,0 +1,220 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { useToast } from '@/hooks/use-toast';
+import { offlineStore } from '@/lib/offlineStore';
+import { PIN_PATTERN } from '@/lib/offlineCrypto';
+import { useLocation } from 'wouter';
+
+type PinAction = 'export' | 'import' | 'change-pin';
+
+const ACTION_TITLES: Record<PinAction, string> = {
+  export: 'Export Encrypted Backup',
+  import: 'Restore Backup',
+  'change-pin': 'Change PIN',
+};
+
+/**
+ * Controls for the encrypted offline data kept on this device: lock, PIN,
+ * encrypted backup and restore, and wiping the device.
+ */
+export function OfflineDataSettings() {
+  const { user } = useAuth();
+  const { lock, changePin, wipeDevice } = useAppLock();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [action, setAction] = useState<PinAction | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [confirmWipe, setConfirmWipe] = useState(false);
+
+  if (!user) return null;
+  const partition = offlineStore.partition(user.id);
+
+  const open = (next: PinAction) => {
+    setPin('');
+    setNewPin('');
+    setAction(next);
+  };
+
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0] ?? null;
+    event.target.value = '';
+    if (chosen) {
+      setFile(chosen);
+      open('import');
+    }
+  };
+
+  const download = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `sehatsetu-backup-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    try {
+      if (action === 'export') {
+        download(await partition.exportData(pin));
+        toast({ title: "Backup Exported", description: "Keep your PIN; it is needed to restore this file." });
+      } else if (action === 'import' && file) {
+        const restored = await partition.importData(file, pin);
+        queryClient.invalidateQueries({ queryKey: ['health-records'] });
+        toast({ title: "Backup Restored", description: `${restored} records restored to this device.` });
+      } else if (action === 'change-pin') {
+        if (!PIN_PATTERN.test(newPin)) {
+          throw new Error('New PIN must be 6 to 12 digits');
+        }
+        if (!(await offlineStore.verifyPin(user.id, pin))) {
+          throw new Error('Incorrect PIN');
+        }
+        await changePin(newPin);
+        toast({ title: "PIN Changed", description: "Use your new PIN to unlock this device." });
+      }
+      setAction(null);
+    } catch (error) {
+      toast({
+        title: "Action Failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleWipe = async () => {
+    try {
+      await wipeDevice();
+      navigate('/login');
+    } catch (error) {
+      toast({
+        title: "Wipe Failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Data on This Device</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-sm text-muted-foreground mb-2">
+          Offline data is encrypted with your PIN and locks after 5 minutes without use.
+        </p>
+        <Button variant="outline" className="w-full" onClick={lock} data-testid="button-lock-now">
+          <i className="fas fa-lock mr-2"></i>
+          Lock Now
+        </Button>
+        <Button variant="outline" className="w-full" onClick={() => open('change-pin')} data-testid="button-change-pin">
+          <i className="fas fa-key mr-2"></i>
+          Change PIN
+        </Button>
+        <Button variant="outline" className="w-full" onClick={() => open('export')} data-testid="button-export-backup">
+          <i className="fas fa-download mr-2"></i>
+          Export Encrypted Backup
+        </Button>
+        <Button variant="outline" className="w-full" onClick={() => fileInput.current?.click()} data-testid="button-import-backup">
+          <i className="fas fa-upload mr-2"></i>
+          Restore Backup
+        </Button>
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChosen} />
+        <Button variant="destructive" className="w-full" onClick={() => setConfirmWipe(true)} data-testid="button-wipe-device">
+          <i className="fas fa-trash-alt mr-2"></i>
+          Wipe This Device
+        </Button>
+      </CardContent>
+
+      <Dialog open={action !== null} onOpenChange={(isOpen) => !isOpen && setAction(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{action ? ACTION_TITLES[action] : ''}</DialogTitle>
+            <DialogDescription>
+              {action === 'import'
+                ? `Enter the PIN that was in use when ${file?.name ?? 'this backup'} was exported.`
+                : action === 'export'
+                  ? 'Enter your PIN. The backup is encrypted with it.'
+                  : 'Enter your current PIN and choose a new one.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="offline-data-pin">{action === 'change-pin' ? 'Current PIN' : 'PIN'}</Label>
+              <Input
+                id="offline-data-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                data-testid="input-offline-data-pin"
+              />
+            </div>
+            {action === 'change-pin' && (
+              <div>
+                <Label htmlFor="offline-data-new-pin">New PIN</Label>
+                <Input
+                  id="offline-data-new-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={newPin}
+                  onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                  data-testid="input-offline-data-new-pin"
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button onClick={handleConfirm} disabled={busy || pin.length === 0} data-testid="button-confirm-offline-data">
+              {busy ? <i className="fas fa-spinner fa-spin mr-2"></i> : null}
+              Continue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmWipe} onOpenChange={setConfirmWipe}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Wipe this device?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All offline data for everyone who has used SehatSetu on this device is deleted, including
+              changes that have not synced yet, and you are signed out. Data on the server is not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleWipe} data-testid="button-confirm-wipe">
+              Wipe Device
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
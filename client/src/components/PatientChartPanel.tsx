@@ -0,0 +1,171 @@
+import { differenceInYears, format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { usePatientChart } from '@/hooks/useDoctorWorkspace';
+
+interface PatientChartPanelProps {
+  patientId: string;
+  // The visit being consulted; left out of the past visits list
+  currentAppointmentId?: string;
+}
+
+const RECORD_COLORS: Record<string, string> = {
+  vital: 'bg-blue-100 text-blue-800',
+  report: 'bg-green-100 text-green-800',
+  prescription: 'bg-purple-100 text-purple-800',
+  diagnosis: 'bg-orange-100 text-orange-800',
+};
+
+const SEVERITY_COLORS: Record<string, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  emergency: 'bg-red-100 text-red-800',
+};
+
+// Symptoms arrive as an array, or as the JSON/comma-separated text SQLite stored
+function symptomList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string' || value.length === 0) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [value];
+  } catch {
+    return value.split(',').map(symptom => symptom.trim()).filter(Boolean);
+  }
+}
+
+function formatDate(value: Date | string | null | undefined): string {
+  return value ? format(new Date(value), 'MMM dd, yyyy') : '';
+}
+
+/**
+ * The patient's health records, symptom checks, prescriptions and earlier
+ * visits, for the doctor to read while consulting.
+ */
+export function PatientChartPanel({ patientId, currentAppointmentId }: PatientChartPanelProps) {
+  const { data: chart, isLoading, error } = usePatientChart(patientId);
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <p className="text-gray-500">Loading patient chart...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !chart) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <p className="text-red-600">Could not load the patient chart</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { patient } = chart;
+  const age = patient.dateOfBirth ? differenceInYears(new Date(), new Date(patient.dateOfBirth)) : null;
+  const pastVisits = chart.visits.filter(visit => visit.id !== currentAppointmentId && visit.status !== 'cancelled');
+
+  return (
+    <Card data-testid="card-patient-chart">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          {patient.name}
+          {age !== null && <span className="text-sm font-normal text-gray-500">{age} yrs</span>}
+          {patient.gender && <span className="text-sm font-normal text-gray-500 capitalize">{patient.gender}</span>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="records">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="records">Records ({chart.healthRecords.length})</TabsTrigger>
+            <TabsTrigger value="symptoms">Symptoms ({chart.symptomChecks.length})</TabsTrigger>
+            <TabsTrigger value="prescriptions">Rx ({chart.prescriptions.length})</TabsTrigger>
+            <TabsTrigger value="visits">Visits ({pastVisits.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="records" className="space-y-2 max-h-96 overflow-y-auto">
+            {chart.healthRecords.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No health records</p>
+            ) : chart.healthRecords.map(record => (
+              <div key={record.id} className="border rounded p-3" data-testid={`chart-record-${record.id}`}>
+                <div className="flex justify-between items-start gap-2">
+                  <p className="font-medium">{record.title}</p>
+                  <Badge className={RECORD_COLORS[record.type] ?? 'bg-gray-100 text-gray-800'}>{record.type}</Badge>
+                </div>
+                {record.value && (
+                  <p className="text-sm">
+                    {record.value} {record.unit}
+                    {record.normalRange && <span className="text-gray-500"> (normal {record.normalRange})</span>}
+                  </p>
+                )}
+                {record.notes && <p className="text-sm text-gray-600">{record.notes}</p>}
+                <p className="text-xs text-gray-500">{formatDate(record.recordDate ?? record.createdAt)}</p>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="symptoms" className="space-y-2 max-h-96 overflow-y-auto">
+            {chart.symptomChecks.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No symptom checks</p>
+            ) : chart.symptomChecks.map(check => (
+              <div key={check.id} className="border rounded p-3">
+                <div className="flex justify-between items-start gap-2">
+                  <p className="text-sm">{symptomList(check.symptoms).join(', ')}</p>
+                  <Badge className={SEVERITY_COLORS[check.severity] ?? 'bg-gray-100 text-gray-800'}>{check.severity}</Badge>
+                </div>
+                <p className="text-xs text-gray-500">{formatDate(check.createdAt)}</p>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="prescriptions" className="space-y-2 max-h-96 overflow-y-auto">
+            {chart.prescriptions.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No prescriptions</p>
+            ) : chart.prescriptions.map(prescription => (
+              <div key={prescription.id} className="border rounded p-3">
+                <div className="flex justify-between items-start gap-2">
+                  <p className="text-sm font-medium">Dr. {prescription.doctorName}</p>
+                  <Badge variant="outline">{prescription.status.replace('_', ' ')}</Badge>
+                </div>
+                <ul className="text-sm text-gray-700 list-disc pl-5">
+                  {prescription.medicines.map(medicine => (
+                    <li key={medicine.medicineId}>
+                      {medicine.medicineName} {medicine.dosage} • {medicine.frequency} for {medicine.durationDays} days
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-gray-500">{formatDate(prescription.createdAt)}</p>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="visits" className="space-y-2 max-h-96 overflow-y-auto">
+            {pastVisits.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No earlier visits</p>
+            ) : pastVisits.map(visit => (
+              <div key={visit.id} className="border rounded p-3">
+                <div className="flex justify-between items-start gap-2">
+                  <p className="text-sm font-medium">Dr. {visit.doctor.name} • {visit.doctor.specialty}</p>
+                  <span className="text-xs text-gray-500">{formatDate(visit.scheduledAt)}</span>
+                </div>
+                {visit.reason && <p className="text-sm text-gray-600">Reason: {visit.reason}</p>}
+                {visit.consultationNote?.assessment && (
+                  <p className="text-sm"><span className="font-medium">A:</span> {visit.consultationNote.assessment}</p>
+                )}
+                {visit.consultationNote?.plan && (
+                  <p className="text-sm"><span className="font-medium">P:</span> {visit.consultationNote.plan}</p>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
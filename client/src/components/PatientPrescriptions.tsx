@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePatientPrescriptions, usePharmacies, useRoutePrescription, downloadPrescriptionPdf, type PatientPrescription } from '@/hooks/usePrescriptions';
+import { useToast } from '@/hooks/use-toast';
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending': return 'bg-blue-100 text-blue-800';
+    case 'processing': return 'bg-yellow-100 text-yellow-800';
+    case 'ready': return 'bg-green-100 text-green-800';
+    case 'partially_dispensed': return 'bg-orange-100 text-orange-800';
+    case 'dispensed': return 'bg-gray-100 text-gray-800';
+    case 'cancelled': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+function PharmacyChooser({ prescription }: { prescription: PatientPrescription }) {
+  const { toast } = useToast();
+  const { data: pharmacies = [] } = usePharmacies();
+  const routePrescription = useRoutePrescription();
+  const [pharmacyId, setPharmacyId] = useState<string>(prescription.pharmacyId ?? '');
+
+  const handleSend = async () => {
+    try {
+      await routePrescription.mutateAsync({ prescriptionId: prescription.id, pharmacyId });
+      const pharmacy = pharmacies.find(p => p.id === pharmacyId);
+      toast({
+        title: "Sent to Pharmacy",
+        description: `${pharmacy?.name ?? 'The pharmacy'} will prepare your medicines.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not send prescription",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2 mt-3">
+      <Select value={pharmacyId} onValueChange={setPharmacyId}>
+        <SelectTrigger className="sm:w-72" data-testid={`select-pharmacy-${prescription.id}`}>
+          <SelectValue placeholder="Choose a pharmacy" />
+        </SelectTrigger>
+        <SelectContent>
+          {pharmacies.map(pharmacy => (
+            <SelectItem key={pharmacy.id} value={pharmacy.id}>
+              {pharmacy.name}{pharmacy.address ? ` — ${pharmacy.address}` : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        size="sm"
+        onClick={handleSend}
+        disabled={!pharmacyId || pharmacyId === prescription.pharmacyId || routePrescription.isPending}
+        data-testid={`button-route-${prescription.id}`}
+      >
+        <i className="fas fa-paper-plane mr-2"></i>
+        {prescription.pharmacyId ? 'Change Pharmacy' : 'Send to Pharmacy'}
+      </Button>
+    </div>
+  );
+}
+
+export function PatientPrescriptions() {
+  const { toast } = useToast();
+  const { data: prescriptions = [], isLoading } = usePatientPrescriptions();
+
+  const handleDownload = async (prescriptionId: string) => {
+    try {
+      await downloadPrescriptionPdf(prescriptionId);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <i className="fas fa-prescription-bottle-alt mr-2 text-primary"></i>
+          My Prescriptions
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading prescriptions...</p>
+        ) : prescriptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-prescriptions">
+            Prescriptions from your consultations will appear here.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {prescriptions.map(prescription => (
+              <div key={prescription.id} className="border rounded-lg p-4" data-testid={`card-prescription-${prescription.id}`}>
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <p className="font-medium">Dr. {prescription.doctor.user.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {prescription.doctor.specialty} • {format(new Date(prescription.createdAt), 'MMM dd, yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className={getStatusColor(prescription.status)}>
+                      {prescription.status.replace('_', ' ')}
+                    </Badge>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDownload(prescription.id)}
+                      data-testid={`button-download-prescription-${prescription.id}`}
+                    >
+                      <i className="fas fa-file-pdf mr-1"></i>
+                      PDF
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  {prescription.medicines.map(medicine => (
+                    <div key={medicine.medicineId} className="text-sm bg-muted/50 p-2 rounded">
+                      <span className="font-medium">{medicine.medicineName}</span>
+                      <span className="text-muted-foreground"> — {medicine.dosage}, {medicine.frequency} for {medicine.durationDays} days</span>
+                      {medicine.instructions && (
+                        <p className="text-xs text-muted-foreground mt-1">{medicine.instructions}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {prescription.instructions && (
+                  <p className="text-sm text-muted-foreground mt-2">
+                    <i className="fas fa-sticky-note mr-1"></i>
+                    {prescription.instructions}
+                  </p>
+                )}
+
+                {prescription.validUntil && prescription.status !== 'dispensed' && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Valid until {format(new Date(prescription.validUntil), 'MMM dd, yyyy')}
+                  </p>
+                )}
+
+                {prescription.pharmacy && (
+                  <p className="text-sm mt-2">
+                    <i className="fas fa-clinic-medical mr-1 text-secondary"></i>
+                    {prescription.pharmacy.name}
+                  </p>
+                )}
+
+                {prescription.status === 'pending' && <PharmacyChooser prescription={prescription} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Coordinates } from '@shared/geo';
+
+/**
+ * Small static map built from OpenStreetMap tiles: the patient's position and
+ * numbered pins for pharmacies, zoomed to fit them all. Plain <img> tiles keep
+ * it light on slow connections; panning and zooming are left to the
+ * "Directions" link, which opens a full map app.
+ */
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 4;
+const MAX_ZOOM = 16;
+const MAP_HEIGHT = 260;
+const PADDING = 32;
+
+export interface PharmacyMapMarker extends Coordinates {
+  id: string;
+  label: string;
+  title: string;
+}
+
+interface PharmacyMapProps {
+  origin: Coordinates;
+  markers: PharmacyMapMarker[];
+  selectedId?: string | null;
+  onSelect?: (id: string) => void;
+}
+
+// Web Mercator pixel position at a zoom level
+function project({ lat, lng }: Coordinates, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin(lat * Math.PI / 180);
+  return {
+    x: (lng + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+function fitZoom(points: Coordinates[], width: number, height: number): number {
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const projected = points.map(point => project(point, zoom));
+    const xs = projected.map(p => p.x);
+    const ys = projected.map(p => p.y);
+    if (Math.max(...xs) - Math.min(...xs) <= width - 2 * PADDING
+      && Math.max(...ys) - Math.min(...ys) <= height - 2 * PADDING) {
+      return zoom;
+    }
+  }
+  return MIN_ZOOM;
+}
+
+export function PharmacyMap({ origin, markers, selectedId, onSelect }: PharmacyMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const points = [origin, ...markers];
+  const zoom = width > 0 ? fitZoom(points, width, MAP_HEIGHT) : MIN_ZOOM;
+  const projected = points.map(point => project(point, zoom));
+  const center = {
+    x: (Math.min(...projected.map(p => p.x)) + Math.max(...projected.map(p => p.x))) / 2,
+    y: (Math.min(...projected.map(p => p.y)) + Math.max(...projected.map(p => p.y))) / 2,
+  };
+  const left = center.x - width / 2;
+  const top = center.y - MAP_HEIGHT / 2;
+
+  const tiles: { x: number; y: number }[] = [];
+  const tileCount = 2 ** zoom;
+  for (let x = Math.floor(left / TILE_SIZE); x <= Math.floor((left + width) / TILE_SIZE); x++) {
+    for (let y = Math.floor(top / TILE_SIZE); y <= Math.floor((top + MAP_HEIGHT) / TILE_SIZE); y++) {
+      if (y >= 0 && y < tileCount) tiles.push({ x, y });
+    }
+  }
+
+  const position = (point: Coordinates) => {
+    const { x, y } = project(point, zoom);
+    return { left: x - left, top: y - top };
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative overflow-hidden rounded-lg border bg-muted"
+      style={{ height: MAP_HEIGHT }}
+      data-testid="pharmacy-map"
+    >
+      {width > 0 && tiles.map(({ x, y }) => (
+        <img
+          key={`${zoom}/${x}/${y}`}
+          src={`https://tile.openstreetmap.org/${zoom}/${((x % tileCount) + tileCount) % tileCount}/${y}.png`}
+          alt=""
+          loading="lazy"
+          draggable={false}
+          className="absolute select-none"
+          style={{ width: TILE_SIZE, height: TILE_SIZE, left: x * TILE_SIZE - left, top: y * TILE_SIZE - top }}
+        />
+      ))}
+
+      {width > 0 && (
+        <>
+          <div
+            className="absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-blue-600 shadow"
+            style={position(origin)}
+            title="You are here"
+            data-testid="map-origin"
+          />
+          {markers.map((marker) => (
+            <button
+              key={marker.id}
+              type="button"
+              className={`absolute flex h-7 w-7 -translate-x-1/2 -translate-y-full items-center justify-center rounded-full border-2 border-white text-xs font-bold text-white shadow ${
+                selectedId === marker.id ? 'z-10 bg-primary scale-110' : 'bg-red-600'
+              }`}
+              style={position(marker)}
+              title={marker.title}
+              onClick={() => onSelect?.(marker.id)}
+              data-testid={`map-marker-${marker.id}`}
+            >
+              {marker.label}
+            </button>
+          ))}
+        </>
+      )}
+
+      <a
+        href="https://www.openstreetmap.org/copyright"
+        target="_blank"
+        rel="noreferrer"
+        className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-gray-700"
+      >
+        © OpenStreetMap contributors
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useMedicineSearch, useCreatePrescription } from '@/hooks/usePrescriptions';
+import { useToast } from '@/hooks/use-toast';
+import { prescriptionMedicinesSchema, MAX_MEDICINES_PER_PRESCRIPTION, type PrescriptionMedicine } from '@shared/prescriptions';
+import type { Medicine } from '@shared/schema';
+
+// Common Indian dosing shorthand (morning-afternoon-night)
+const FREQUENCY_PRESETS = ['1-0-0', '0-0-1', '1-0-1', '1-1-1', 'SOS'];
+
+interface PrescriptionEditorProps {
+  appointmentId: string;
+  patientName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Doses per day implied by a "1-0-1" style frequency; used to suggest a quantity
+function dosesPerDay(frequency: string): number | null {
+  if (!/^\d(-\d){2,3}$/.test(frequency)) return null;
+  return frequency.split('-').reduce((sum, part) => sum + Number(part), 0);
+}
+
+function newLine(medicine: Medicine): PrescriptionMedicine {
+  return {
+    medicineId: medicine.id,
+    medicineName: medicine.name,
+    dosage: medicine.dosage,
+    frequency: '1-0-1',
+    durationDays: 5,
+    quantity: 10,
+    instructions: '',
+  };
+}
+
+export function PrescriptionEditor({ appointmentId, patientName, open, onOpenChange }: PrescriptionEditorProps) {
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [lines, setLines] = useState<PrescriptionMedicine[]>([]);
+  const [instructions, setInstructions] = useState('');
+
+  const { data: results = [], isFetching } = useMedicineSearch(query);
+  const createPrescription = useCreatePrescription();
+
+  const addMedicine = (medicine: Medicine) => {
+    if (lines.some(line => line.medicineId === medicine.id)) return;
+    setLines([...lines, newLine(medicine)]);
+    setQuery('');
+  };
+
+  const updateLine = (index: number, changes: Partial<PrescriptionMedicine>) => {
+    setLines(lines.map((line, i) => {
+      if (i !== index) return line;
+      const updated = { ...line, ...changes };
+      // Keep the suggested quantity in step unless the doctor typed one
+      if (!('quantity' in changes) && ('frequency' in changes || 'durationDays' in changes)) {
+        const perDay = dosesPerDay(updated.frequency);
+        if (perDay) updated.quantity = Math.max(1, perDay * updated.durationDays);
+      }
+      return updated;
+    }));
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+  };
+
+  const reset = () => {
+    setQuery('');
+    setLines([]);
+    setInstructions('');
+  };
+
+  const handleSubmit = async () => {
+    const medicines = lines.map(line => ({ ...line, instructions: line.instructions || undefined }));
+    const validation = prescriptionMedicinesSchema.safeParse(medicines);
+    if (!validation.success) {
+      toast({
+        title: "Check the prescription",
+        description: validation.error.issues[0]?.message ?? 'Some medicine details are missing',
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await createPrescription.mutateAsync({
+        appointmentId,
+        medicines: validation.data,
+        instructions: instructions.trim() || undefined,
+      });
+      toast({
+        title: "Prescription Sent",
+        description: "The patient can now choose a pharmacy to collect it from.",
+      });
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Could not save prescription",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Write Prescription{patientName ? ` for ${patientName}` : ''}</DialogTitle>
+          <DialogDescription>Search the medicine catalogue and set dose, frequency and duration for each item.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="relative">
+            <Label htmlFor="medicine-search">Add medicine</Label>
+            <Input
+              id="medicine-search"
+              placeholder="Search by name or generic name..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              disabled={lines.length >= MAX_MEDICINES_PER_PRESCRIPTION}
+              data-testid="input-prescription-medicine-search"
+            />
+            {query.trim().length >= 2 && (
+              <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md max-h-56 overflow-y-auto">
+                {isFetching && results.length === 0 ? (
+                  <p className="p-3 text-sm text-muted-foreground">Searching...</p>
+                ) : results.length === 0 ? (
+                  <p className="p-3 text-sm text-muted-foreground">No medicines found</p>
+                ) : results.map((medicine) => (
+                  <button
+                    key={medicine.id}
+                    type="button"
+                    className="w-full text-left px-3 py-2 hover:bg-accent"
+                    onClick={() => addMedicine(medicine)}
+                    data-testid={`option-medicine-${medicine.id}`}
+                  >
+                    <span className="font-medium">{medicine.name}</span>
+                    <span className="text-sm text-muted-foreground ml-2">
+                      {medicine.genericName ? `${medicine.genericName} • ` : ''}{medicine.dosage}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6" data-testid="text-prescription-empty">
+              <i className="fas fa-prescription-bottle-alt mr-2"></i>
+              No medicines added yet
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {lines.map((line, index) => (
+                <div key={line.medicineId} className="border rounded-lg p-3" data-testid={`row-prescription-${line.medicineId}`}>
+                  <div className="flex justify-between items-center mb-2">
+                    <h4 className="font-medium">{line.medicineName}</h4>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeLine(index)}
+                      data-testid={`button-remove-${line.medicineId}`}
+                    >
+                      <i className="fas fa-times"></i>
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <div>
+                      <Label className="text-xs">Dose</Label>
+                      <Input
+                        value={line.dosage}
+                        onChange={(e) => updateLine(index, { dosage: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Frequency</Label>
+                      <Input
+                        list="prescription-frequencies"
+                        value={line.frequency}
+                        onChange={(e) => updateLine(index, { frequency: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Days</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={line.durationDays}
+                        onChange={(e) => updateLine(index, { durationDays: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">Quantity</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                  <Input
+                    className="mt-2"
+                    placeholder="Instructions, e.g. after meals"
+                    value={line.instructions ?? ''}
+                    onChange={(e) => updateLine(index, { instructions: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <datalist id="prescription-frequencies">
+            {FREQUENCY_PRESETS.map(preset => <option key={preset} value={preset} />)}
+          </datalist>
+
+          <div>
+            <Label htmlFor="prescription-instructions">General advice</Label>
+            <Textarea
+              id="prescription-instructions"
+              placeholder="Diet, rest, follow-up..."
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              data-testid="textarea-prescription-instructions"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-prescription">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={lines.length === 0 || createPrescription.isPending}
+            data-testid="button-submit-prescription"
+          >
+            <i className="fas fa-file-prescription mr-2"></i>
+            {createPrescription.isPending ? 'Saving...' : 'Send Prescription'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useVerifyPrescription } from '@/hooks/usePrescriptions';
+import { decodePrescriptionQr, type PrescriptionVerification } from '@shared/prescriptions';
+
+const CHECK_LABELS: Record<keyof PrescriptionVerification['checks'], string> = {
+  signature: "Doctor's signature",
+  matchesPresentedCode: 'QR code matches prescription',
+  keyActive: 'Signing key valid',
+  notExpired: 'Within validity period',
+  notDispensed: 'Not yet dispensed',
+  notCancelled: 'Not cancelled',
+};
+
+/**
+ * Reads a prescription QR code from the camera (or a typed code) and shows
+ * whether the prescription is genuine and can still be dispensed.
+ */
+export function PrescriptionVerifier() {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [scanning, setScanning] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const verify = useVerifyPrescription();
+
+  const submitCode = (text: string) => {
+    const decoded = decodePrescriptionQr(text);
+    // A bare prescription id can be checked too, but only if the caller can already see it
+    const request = decoded ?? (text.trim() && !text.includes(':') ? { prescriptionId: text.trim() } : null);
+    if (!request) {
+      setCodeError('This is not a SehatSetu prescription code');
+      return;
+    }
+    setCodeError(null);
+    verify.mutate(request);
+  };
+
+  useEffect(() => {
+    if (!scanning) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          if (code?.data) {
+            setScanning(false);
+            submitCode(code.data);
+            return;
+          }
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play().catch(() => undefined);
+        }
+        frame = requestAnimationFrame(tick);
+      })
+      .catch(() => {
+        setCameraError('Camera unavailable. Enter the code printed under the QR instead.');
+        setScanning(false);
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [scanning]);
+
+  const result = verify.data;
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg bg-muted/50 overflow-hidden">
+        {scanning ? (
+          <video ref={videoRef} className="w-full aspect-square object-cover" muted playsInline data-testid="video-qr-scanner" />
+        ) : (
+          <div className="p-8 text-center">
+            <i className="fas fa-qrcode text-5xl text-muted-foreground mb-3"></i>
+            <p className="text-sm text-muted-foreground">
+              {cameraError ?? "Scan the QR code on the patient's printed prescription"}
+            </p>
+          </div>
+        )}
+        <canvas ref={canvasRef} className="hidden" />
+      </div>
+
+      <Button
+        className="w-full"
+        variant={scanning ? 'outline' : 'default'}
+        onClick={() => {
+          setCameraError(null);
+          setScanning(!scanning);
+        }}
+        data-testid="button-toggle-scanner"
+      >
+        <i className={`fas ${scanning ? 'fa-stop' : 'fa-camera'} mr-2`}></i>
+        {scanning ? 'Stop Camera' : 'Start Camera'}
+      </Button>
+
+      <div>
+        <Label htmlFor="prescription-code">Or enter the code</Label>
+        <div className="flex gap-2 mt-1">
+          <Input
+            id="prescription-code"
+            placeholder="SEHATRX1:... or prescription ID"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            data-testid="input-prescription-code"
+          />
+          <Button
+            variant="outline"
+            onClick={() => submitCode(manualCode)}
+            disabled={!manualCode.trim() || verify.isPending}
+            data-testid="button-verify-code"
+          >
+            Verify
+          </Button>
+        </div>
+        {codeError && <p className="text-sm text-destructive mt-1">{codeError}</p>}
+      </div>
+
+      {verify.isPending && <p className="text-sm text-muted-foreground">Verifying...</p>}
+      {verify.error && (
+        <p className="text-sm text-destructive" data-testid="text-verify-error">{verify.error.message}</p>
+      )}
+
+      {result && !verify.isPending && (
+        <div
+          className={`border rounded-lg p-4 ${result.valid ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'}`}
+          data-testid="card-verification-result"
+        >
+          <div className="flex items-center justify-between mb-3">
+            <p className={`font-semibold ${result.valid ? 'text-green-800' : 'text-red-800'}`}>
+              <i className={`fas ${result.valid ? 'fa-check-circle' : 'fa-times-circle'} mr-2`}></i>
+              {result.valid ? 'Valid prescription' : 'Do not dispense'}
+            </p>
+            <Badge variant="outline">{result.prescription.status}</Badge>
+          </div>
+
+          <div className="text-sm space-y-1 mb-3">
+            <p><span className="text-muted-foreground">Patient:</span> {result.prescription.patientName}</p>
+            <p>
+              <span className="text-muted-foreground">Doctor:</span> Dr. {result.prescription.doctorName}
+              {result.prescription.licenseNumber && ` (Reg. ${result.prescription.licenseNumber})`}
+            </p>
+            {result.prescription.validUntil && (
+              <p>
+                <span className="text-muted-foreground">Valid until:</span>{' '}
+                {format(new Date(result.prescription.validUntil), 'MMM dd, yyyy HH:mm')}
+              </p>
+            )}
+          </div>
+
+          <ul className="text-sm space-y-1 mb-3">
+            {(Object.keys(CHECK_LABELS) as (keyof PrescriptionVerification['checks'])[]).map(check => (
+              <li key={check} className={result.checks[check] ? 'text-green-700' : 'text-red-700'}>
+                <i className={`fas ${result.checks[check] ? 'fa-check' : 'fa-times'} mr-2 w-4`}></i>
+                {CHECK_LABELS[check]}
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-1">
+            {result.prescription.medicines.map(medicine => (
+              <div key={medicine.medicineId} className="text-sm bg-white/70 p-2 rounded">
+                <span className="font-medium">{medicine.medicineName}</span>
+                <span className="text-muted-foreground"> — {medicine.dosage} x {medicine.quantity}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GoodsReceiptDialog } from './GoodsReceiptDialog';
+import {
+  useCancelPurchaseOrder, useCreateSupplier, usePurchaseOrders, useSendPurchaseOrder, useSuppliers, useUpdatePurchaseOrder
+} from '@/hooks/usePurchasing';
+import { useToast } from '@/hooks/use-toast';
+import type { PurchaseOrderDetail, PurchaseOrderStatus } from '@shared/purchasing';
+
+interface PurchaseOrdersPanelProps {
+  pharmacyId: string;
+}
+
+const STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-blue-100 text-blue-800',
+  sent: 'bg-yellow-100 text-yellow-800',
+  partially_received: 'bg-orange-100 text-orange-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+function AddSupplierDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const createSupplier = useCreateSupplier();
+  const [name, setName] = useState('');
+  const [contactName, setContactName] = useState('');
+  const [phone, setPhone] = useState('');
+
+  const handleCreate = async () => {
+    try {
+      await createSupplier.mutateAsync({
+        name: name.trim(),
+        contactName: contactName.trim() || undefined,
+        phone: phone.trim() || undefined,
+      });
+      toast({ title: "Supplier Added", description: `${name.trim()} can now be chosen on orders` });
+      setName('');
+      setContactName('');
+      setPhone('');
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Could not add supplier",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Supplier</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="supplier-name">Name</Label>
+            <Input id="supplier-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-supplier-name" />
+          </div>
+          <div>
+            <Label htmlFor="supplier-contact">Contact person (optional)</Label>
+            <Input id="supplier-contact" value={contactName} onChange={(e) => setContactName(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="supplier-phone">Phone (optional)</Label>
+            <Input id="supplier-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={createSupplier.isPending || !name.trim()} data-testid="button-confirm-supplier">
+            {createSupplier.isPending ? 'Saving...' : 'Add'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Purchase orders for the pharmacy. Drafts (including those raised from
+ * reorder alerts) wait here until the pharmacist picks a supplier, checks
+ * the quantities and approves them; deliveries are booked in with a GRN.
+ */
+export function PurchaseOrdersPanel({ pharmacyId }: PurchaseOrdersPanelProps) {
+  const { toast } = useToast();
+  const { data: orders = [], isLoading } = usePurchaseOrders(pharmacyId);
+  const { data: suppliers = [] } = useSuppliers();
+  const updateOrder = useUpdatePurchaseOrder(pharmacyId);
+  const sendOrder = useSendPurchaseOrder(pharmacyId);
+  const cancelOrder = useCancelPurchaseOrder(pharmacyId);
+  const [supplierDialogOpen, setSupplierDialogOpen] = useState(false);
+  const [receiving, setReceiving] = useState<PurchaseOrderDetail | null>(null);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({ title: success });
+    } catch (error) {
+      toast({
+        title: "Order not updated",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const changeQuantity = (order: PurchaseOrderDetail, lineId: string, quantity: number) => {
+    const line = order.lines.find(candidate => candidate.id === lineId);
+    if (!line || quantity < 1 || quantity === line.quantityOrdered) return;
+    run(() => updateOrder.mutateAsync({
+      orderId: order.id,
+      lines: order.lines.map(candidate => ({
+        medicineId: candidate.medicineId,
+        quantity: candidate.id === lineId ? quantity : candidate.quantityOrdered,
+        unitCost: candidate.unitCost ?? undefined,
+      })),
+    }), 'Quantity updated');
+  };
+
+  const busy = updateOrder.isPending || sendOrder.isPending || cancelOrder.isPending;
+
+  return (
+    <Card data-testid="card-purchase-orders">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Purchase Orders</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setSupplierDialogOpen(true)} data-testid="button-add-supplier">
+            Add Supplier
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500">Loading orders...</p>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-4">
+            <p className="text-gray-500">No purchase orders yet. Reorder alerts will draft them here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map(order => (
+              <div key={order.id} className="border rounded-lg p-4 space-y-3" data-testid={`purchase-order-${order.id}`}>
+                <div className="flex flex-wrap justify-between items-start gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold">{order.supplier?.name ?? 'No supplier chosen'}</h3>
+                      <Badge className={STATUS_COLORS[order.status]}>
+                        {order.status.replace('_', ' ').toUpperCase()}
+                      </Badge>
+                      {order.autoDrafted && <Badge variant="outline">From reorder alert</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      Created {format(new Date(order.createdAt), 'MMM dd, yyyy')}
+                      {order.sentAt && ` • Sent ${format(new Date(order.sentAt), 'MMM dd, yyyy')}`}
+                      {order.receipts.length > 0 && ` • ${order.receipts.length} ${order.receipts.length === 1 ? 'delivery' : 'deliveries'}`}
+                    </p>
+                  </div>
+
+                  <div className="flex gap-2">
+                    {order.status === 'draft' && (
+                      <Button
+                        size="sm"
+                        onClick={() => run(() => sendOrder.mutateAsync(order.id), 'Order approved and sent')}
+                        disabled={busy || !order.supplierId}
+                        data-testid={`button-send-order-${order.id}`}
+                      >
+                        Approve & Send
+                      </Button>
+                    )}
+                    {(order.status === 'sent' || order.status === 'partially_received') && (
+                      <Button size="sm" onClick={() => setReceiving(order)} data-testid={`button-receive-order-${order.id}`}>
+                        Receive Goods
+                      </Button>
+                    )}
+                    {(order.status === 'draft' || order.status === 'sent') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => run(() => cancelOrder.mutateAsync({ orderId: order.id }), 'Order cancelled')}
+                        disabled={busy}
+                        data-testid={`button-cancel-order-${order.id}`}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {order.status === 'draft' && (
+                  <Select
+                    value={order.supplierId ?? undefined}
+                    onValueChange={(supplierId) => run(() => updateOrder.mutateAsync({ orderId: order.id, supplierId }), 'Supplier updated')}
+                  >
+                    <SelectTrigger className="w-64" data-testid={`select-order-supplier-${order.id}`}>
+                      <SelectValue placeholder="Choose supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map(supplier => (
+                        <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                <div className="space-y-1 text-sm">
+                  {order.lines.map(line => (
+                    <div key={line.id} className="flex justify-between items-center gap-2">
+                      <span>{line.medicineName}</span>
+                      {order.status === 'draft' ? (
+                        <Input
+                          type="number"
+                          min={1}
+                          defaultValue={line.quantityOrdered}
+                          className="w-24 h-8"
+                          onBlur={(e) => changeQuantity(order, line.id, Math.floor(Number(e.target.value)))}
+                          data-testid={`input-line-quantity-${line.id}`}
+                        />
+                      ) : (
+                        <span className="text-gray-600">
+                          {line.quantityReceived} / {line.quantityOrdered} received
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {order.notes && <p className="text-xs text-gray-500 whitespace-pre-line">{order.notes}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AddSupplierDialog open={supplierDialogOpen} onOpenChange={setSupplierDialogOpen} />
+      {receiving && (
+        <GoodsReceiptDialog
+          pharmacyId={pharmacyId}
+          order={receiving}
+          open={!!receiving}
+          onOpenChange={(open) => !open && setReceiving(null)}
+        />
+      )}
+    </Card>
+  );
+}
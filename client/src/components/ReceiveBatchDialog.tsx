@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useMedicineSearch } from '@/hooks/usePrescriptions';
+import { useReceiveBatch } from '@/hooks/useInventory';
+import { useToast } from '@/hooks/use-toast';
+import { medicineStockManager } from '@/lib/medicineStockManager';
+import type { Medicine } from '@shared/schema';
+
+interface ReceiveBatchDialogProps {
+  pharmacyId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Book a delivery into stock as a batch with its lot number and expiry
+export function ReceiveBatchDialog({ pharmacyId, open, onOpenChange }: ReceiveBatchDialogProps) {
+  const { toast } = useToast();
+  const receiveBatch = useReceiveBatch(pharmacyId);
+  const [query, setQuery] = useState('');
+  const [medicine, setMedicine] = useState<Medicine | null>(null);
+  const [batchNumber, setBatchNumber] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [quantity, setQuantity] = useState(0);
+  const [unitCost, setUnitCost] = useState('');
+  const [supplier, setSupplier] = useState('');
+  const { data: results = [] } = useMedicineSearch(medicine ? '' : query);
+
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setMedicine(null);
+      setBatchNumber('');
+      setExpiryDate('');
+      setQuantity(0);
+      setUnitCost('');
+      setSupplier('');
+    }
+  }, [open]);
+
+  const handleReceive = async () => {
+    if (!medicine) return;
+    try {
+      await receiveBatch.mutateAsync({
+        medicineId: medicine.id,
+        batchNumber: batchNumber.trim(),
+        expiryDate,
+        quantity,
+        unitCost: unitCost ? Math.round(Number(unitCost)) : undefined,
+        supplier: supplier.trim() || undefined,
+      });
+      toast({
+        title: "Batch Received",
+        description: `${quantity} units of ${medicine.name} (batch ${batchNumber.trim()}) added to stock`,
+      });
+      medicineStockManager.refresh();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Could not receive batch",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Receive Stock</DialogTitle>
+          <DialogDescription>
+            Each delivery is tracked as its own batch so the earliest expiry is dispensed first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="receive-medicine">Medicine</Label>
+            {medicine ? (
+              <div className="flex items-center justify-between rounded border p-2 text-sm">
+                <span>{medicine.name} • {medicine.dosage}</span>
+                <Button variant="ghost" size="sm" onClick={() => setMedicine(null)}>Change</Button>
+              </div>
+            ) : (
+              <>
+                <Input
+                  id="receive-medicine"
+                  placeholder="Search medicine..."
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  data-testid="input-receive-medicine"
+                />
+                {results.length > 0 && (
+                  <ul className="mt-1 max-h-40 overflow-y-auto rounded border text-sm">
+                    {results.map(result => (
+                      <li key={result.id}>
+                        <button
+                          type="button"
+                          className="w-full px-2 py-1 text-left hover:bg-muted"
+                          onClick={() => setMedicine(result)}
+                        >
+                          {result.name} • {result.dosage}
+                          {result.manufacturer && <span className="text-muted-foreground"> ({result.manufacturer})</span>}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="receive-batch">Batch / lot number</Label>
+              <Input id="receive-batch" value={batchNumber} onChange={(e) => setBatchNumber(e.target.value)} data-testid="input-receive-batch" />
+            </div>
+            <div>
+              <Label htmlFor="receive-expiry">Expiry date</Label>
+              <Input id="receive-expiry" type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} data-testid="input-receive-expiry" />
+            </div>
+            <div>
+              <Label htmlFor="receive-quantity">Quantity</Label>
+              <Input
+                id="receive-quantity"
+                type="number"
+                min={1}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.max(0, Math.floor(Number(e.target.value))))}
+                data-testid="input-receive-quantity"
+              />
+            </div>
+            <div>
+              <Label htmlFor="receive-cost">Unit cost (₹, optional)</Label>
+              <Input
+                id="receive-cost"
+                type="number"
+                min={0}
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+                data-testid="input-receive-cost"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="receive-supplier">Supplier (optional)</Label>
+            <Input id="receive-supplier" value={supplier} onChange={(e) => setSupplier(e.target.value)} data-testid="input-receive-supplier" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleReceive}
+            disabled={receiveBatch.isPending || !medicine || !batchNumber.trim() || !expiryDate || quantity < 1}
+            data-testid="button-confirm-receive"
+          >
+            {receiveBatch.isPending ? 'Saving...' : 'Receive'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useReorderRules, useSaveReorderRule, useSuppliers } from '@/hooks/usePurchasing';
+import { useToast } from '@/hooks/use-toast';
+import { medicineStockManager } from '@/lib/medicineStockManager';
+
+interface ReorderRuleDialogProps {
+  pharmacyId: string;
+  medicine: { medicineId: string; medicineName: string; minimumStock: number } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_SUPPLIER = 'none';
+
+// When stock falls to the reorder point, a draft order for the reorder quantity is created
+export function ReorderRuleDialog({ pharmacyId, medicine, onOpenChange }: ReorderRuleDialogProps) {
+  const { toast } = useToast();
+  const { data: rules = [] } = useReorderRules(pharmacyId);
+  const { data: suppliers = [] } = useSuppliers();
+  const saveRule = useSaveReorderRule(pharmacyId);
+  const [reorderPoint, setReorderPoint] = useState(0);
+  const [reorderQuantity, setReorderQuantity] = useState(0);
+  const [supplierId, setSupplierId] = useState(NO_SUPPLIER);
+
+  const existing = medicine ? rules.find(rule => rule.medicineId === medicine.medicineId) : undefined;
+
+  useEffect(() => {
+    if (medicine) {
+      setReorderPoint(existing?.reorderPoint ?? medicine.minimumStock);
+      setReorderQuantity(existing?.reorderQuantity ?? medicine.minimumStock * 2);
+      setSupplierId(existing?.preferredSupplierId ?? NO_SUPPLIER);
+    }
+  }, [medicine, existing?.id]);
+
+  const handleSave = async () => {
+    if (!medicine) return;
+    try {
+      await saveRule.mutateAsync({
+        medicineId: medicine.medicineId,
+        reorderPoint,
+        reorderQuantity,
+        preferredSupplierId: supplierId === NO_SUPPLIER ? null : supplierId,
+      });
+      toast({
+        title: "Reorder Rule Saved",
+        description: `${medicine.medicineName} will be reordered at ${reorderPoint} units`,
+      });
+      medicineStockManager.refresh();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Could not save rule",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!medicine} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reorder Rule - {medicine?.medicineName}</DialogTitle>
+          <DialogDescription>
+            At or below the reorder point, a draft purchase order is prepared for you to approve.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="rule-point">Reorder point</Label>
+              <Input
+                id="rule-point"
+                type="number"
+                min={0}
+                value={reorderPoint}
+                onChange={(e) => setReorderPoint(Math.max(0, Math.floor(Number(e.target.value))))}
+                data-testid="input-reorder-point"
+              />
+            </div>
+            <div>
+              <Label htmlFor="rule-quantity">Reorder quantity</Label>
+              <Input
+                id="rule-quantity"
+                type="number"
+                min={1}
+                value={reorderQuantity}
+                onChange={(e) => setReorderQuantity(Math.max(0, Math.floor(Number(e.target.value))))}
+                data-testid="input-reorder-quantity"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Preferred supplier</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger data-testid="select-reorder-supplier">
+                <SelectValue placeholder="Choose supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SUPPLIER}>Choose when approving</SelectItem>
+                {suppliers.map(supplier => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleSave}
+            disabled={saveRule.isPending || reorderQuantity < 1}
+            data-testid="button-save-reorder-rule"
+          >
+            {saveRule.isPending ? 'Saving...' : 'Save Rule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,7 +13,8 @@ import {
   Package,
   Settings,
   BarChart3,
-  Shield
+  Shield,
+  DoorOpen
 } from 'lucide-react';
 import { useLocation } from 'wouter';
 
@@ -40,6 +41,20 @@ const navigationItems: NavigationItem[] = [
     roles: ['patient'],
     description: 'Find and book doctors'
   },
+  {
+    path: '/doctor',
+    label: 'Doctor Workspace',
+    icon: Users,
+    roles: ['doctor'],
+    description: 'Patient queue and consultations'
+  },
+  {
+    path: '/walk-in',
+    label: 'Walk-in Queue',
+    icon: DoorOpen,
+    roles: ['patient', 'asha', 'admin'],
+    description: 'Wait for the next available doctor'
+  },
   {
     path: '/records',
     label: 'Health Records',
@@ -72,7 +87,7 @@ const navigationItems: NavigationItem[] = [
     path: '/profile',
     label: 'Profile',
     icon: User,
-    roles: ['patient', 'doctor', 'pharmacist', 'admin'],
+    roles: ['patient', 'doctor', 'pharmacist', 'asha', 'admin'],
     description: 'User profile and settings'
   }
 ];
@@ -94,6 +109,7 @@ export function RoleBasedNavigation() {
       case 'patient': return 'bg-blue-100 text-blue-800';
       case 'doctor': return 'bg-green-100 text-green-800';
       case 'pharmacist': return 'bg-purple-100 text-purple-800';
+      case 'asha': return 'bg-teal-100 text-teal-800';
       case 'admin': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
@@ -167,11 +183,41 @@ export function RoleBasedNavigation() {
                 <Pill className="h-4 w-4 mr-2" />
                 Check Medicine Stock
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => navigate('/walk-in')}
+              >
+                <DoorOpen className="h-4 w-4 mr-2" />
+                Join Walk-in Queue
+              </Button>
             </>
           )}
+
+          {userRole === 'asha' && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => navigate('/walk-in')}
+            >
+              <DoorOpen className="h-4 w-4 mr-2" />
+              Register a Walk-in
+            </Button>
+          )}
           
           {userRole === 'doctor' && (
             <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => navigate('/doctor')}
+              >
+                <Video className="h-4 w-4 mr-2" />
+                Open Patient Queue
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -0,0 +1,63 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useStockMovements } from '@/hooks/useInventory';
+import type { StockMovementType } from '@shared/inventory';
+
+interface StockActivityCardProps {
+  pharmacyId: string;
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  in: 'Received',
+  out: 'Issued',
+  adjustment: 'Adjusted',
+  expired: 'Expired',
+  damaged: 'Damaged',
+  dispensed: 'Dispensed',
+};
+
+// Latest entries from the pharmacy's stock movement ledger
+export function StockActivityCard({ pharmacyId }: StockActivityCardProps) {
+  const { data, isLoading } = useStockMovements(pharmacyId, { pageSize: 10 });
+  const movements = data?.movements ?? [];
+
+  return (
+    <Card data-testid="card-stock-activity">
+      <CardHeader>
+        <CardTitle>Recent Activity</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500">Loading activity...</p>
+        ) : movements.length === 0 ? (
+          <div className="text-center py-4">
+            <p className="text-gray-500">No stock changes recorded yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {movements.map(movement => (
+              <div key={movement.id} className="flex items-start justify-between gap-3" data-testid={`stock-movement-${movement.id}`}>
+                <div>
+                  <p className="text-sm font-medium">
+                    {MOVEMENT_LABELS[movement.type]}: {movement.medicineName}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(movement.createdAt), { addSuffix: true })}
+                    {movement.userName && ` • ${movement.userName}`}
+                    {movement.reason && ` • ${movement.reason}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={`text-sm font-semibold ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                  </p>
+                  <p className="text-xs text-gray-500">{movement.balanceAfter} left</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useStockReconciliation } from '@/hooks/useInventory';
+import { todayInClinic } from '@shared/inventory';
+
+interface StockReconciliationCardProps {
+  pharmacyId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Opening and closing balance per medicine over a period, with large manual
+ * adjustments listed for review. A non-zero discrepancy means the stored
+ * quantity no longer matches the ledger.
+ */
+export function StockReconciliationCard({ pharmacyId }: StockReconciliationCardProps) {
+  const [from, setFrom] = useState(() => todayInClinic(new Date(Date.now() - 29 * DAY_MS)));
+  const [to, setTo] = useState(() => todayInClinic());
+  const { data: report, isLoading, error } = useStockReconciliation(pharmacyId, from, to);
+
+  // Medicines with nothing to reconcile would only pad the table
+  const lines = (report?.lines ?? []).filter(line =>
+    line.openingBalance !== 0 || line.closingBalance !== 0 || line.discrepancy !== 0
+  );
+
+  return (
+    <Card className="md:col-span-2" data-testid="card-stock-reconciliation">
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-end gap-3">
+          <CardTitle>Stock Reconciliation</CardTitle>
+          <div className="flex gap-2">
+            <div>
+              <Label htmlFor="reconciliation-from" className="text-xs">From</Label>
+              <Input id="reconciliation-from" type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} className="h-8" />
+            </div>
+            <div>
+              <Label htmlFor="reconciliation-to" className="text-xs">To</Label>
+              <Input id="reconciliation-to" type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} className="h-8" />
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-gray-500">Loading report...</p>
+        ) : error || !report ? (
+          <p className="text-red-600">Could not load the reconciliation report</p>
+        ) : (
+          <>
+            {report.flaggedAdjustments.length > 0 && (
+              <div className="space-y-2" data-testid="flagged-adjustments">
+                <p className="text-sm font-medium">
+                  Manual adjustments of {report.threshold} or more units
+                </p>
+                {report.flaggedAdjustments.map(adjustment => (
+                  <div key={adjustment.id} className="p-2 rounded border bg-yellow-50 border-yellow-200 text-sm flex justify-between gap-3">
+                    <div>
+                      <p className="font-medium">{adjustment.medicineName}</p>
+                      <p className="text-xs text-gray-600">
+                        {format(new Date(adjustment.createdAt), 'MMM dd, yyyy HH:mm')}
+                        {adjustment.userName && ` • ${adjustment.userName}`}
+                        {adjustment.reason && ` • ${adjustment.reason}`}
+                      </p>
+                    </div>
+                    <span className={`font-semibold ${adjustment.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {adjustment.quantity > 0 ? '+' : ''}{adjustment.quantity}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {lines.length === 0 ? (
+              <div className="text-center py-4">
+                <p className="text-gray-500">No stock movements in this period</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-2">Medicine</th>
+                      <th className="py-2 px-2 text-right">Opening</th>
+                      <th className="py-2 px-2 text-right">Received</th>
+                      <th className="py-2 px-2 text-right">Dispensed</th>
+                      <th className="py-2 px-2 text-right">Written off</th>
+                      <th className="py-2 px-2 text-right">Adjusted</th>
+                      <th className="py-2 pl-2 text-right">Closing</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map(line => (
+                      <tr key={line.stockId} className="border-b last:border-0" data-testid={`reconciliation-line-${line.stockId}`}>
+                        <td className="py-2 pr-2">
+                          {line.medicineName}
+                          {line.discrepancy !== 0 && (
+                            <Badge className="ml-2 bg-red-100 text-red-800">
+                              {line.discrepancy > 0 ? '+' : ''}{line.discrepancy} off ledger
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="py-2 px-2 text-right">{line.openingBalance}</td>
+                        <td className="py-2 px-2 text-right">{line.received}</td>
+                        <td className="py-2 px-2 text-right">{line.dispensed + line.issued}</td>
+                        <td className="py-2 px-2 text-right">{line.writtenOff}</td>
+                        <td className="py-2 px-2 text-right">{line.adjusted > 0 ? '+' : ''}{line.adjusted}</td>
+                        <td className="py-2 pl-2 text-right font-medium">{line.closingBalance}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,11 +9,13 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { auth } from '@/lib/firebase';
 import { offlineAI } from '@/lib/offlineAI';
-import { offlineStorage } from '@/lib/offlineStorage';
+import { offlineStore } from '@/lib/offlineStore';
 import { useToast } from '@/hooks/use-toast';
+import { syncQueueKey } from '@/hooks/useSyncQueue';
 
 export function SymptomChecker() {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const { t, language } = useLanguage();
   const { toast } = useToast();
   const [currentSymptom, setCurrentSymptom] = useState('');
@@ -76,7 +79,14 @@ export function SymptomChecker() {
         createdAt: new Date()
       };
       
-      await offlineStorage.saveSymptomCheck(symptomCheck);
+      const partition = offlineStore.partition(currentUser.id);
+      await partition.put('symptomChecks', symptomCheck);
+      if (user) {
+        // Sent to the server by the sync queue, now or once back online
+        const { id, createdAt: _createdAt, ...data } = symptomCheck;
+        await partition.enqueue('symptomChecks', 'create', id, data);
+        queryClient.invalidateQueries({ queryKey: syncQueueKey(user.id) });
+      }
       setResult(analysis);
       
       toast({
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { SyncQueueItem } from '@/lib/offlineStore';
+
+type Resolution = { keep: 'server' } | { keep: 'local'; data: Record<string, unknown> };
+
+interface SyncConflictDialogProps {
+  item: SyncQueueItem | null;
+  onOpenChange: (open: boolean) => void;
+  onResolve: (item: SyncQueueItem, resolution: Resolution) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  type: 'Type',
+  data: 'Details',
+  value: 'Value',
+  unit: 'Unit',
+  normalRange: 'Normal range',
+  recordDate: 'Record date',
+  notes: 'Notes',
+  fileUrl: 'Attachment',
+};
+
+const display = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Shows an offline edit next to the server's copy of the same record. For
+ * edits both sides changed, each differing field can be taken from either side.
+ */
+export function SyncConflictDialog({ item, onOpenChange, onResolve }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, 'local' | 'server'>>({});
+  const [saving, setSaving] = useState(false);
+
+  const server = item?.serverRecord ?? null;
+  const fields = useMemo(
+    () => item && server && item.type === 'update'
+      ? Object.keys(item.data).filter(field => !same(item.data[field], server[field]))
+      : [],
+    [item, server]
+  );
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(fields.map(field => [field, 'local' as const])));
+  }, [fields]);
+
+  if (!item) return null;
+
+  const resolve = async (resolution: Resolution) => {
+    setSaving(true);
+    try {
+      await onResolve(item, resolution);
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Taking every field from the server is the same as keeping the server's copy
+  const merged = (): Resolution => {
+    const data = Object.fromEntries(
+      fields.filter(field => choices[field] === 'local').map(field => [field, item.data[field]])
+    );
+    return Object.keys(data).length > 0 ? { keep: 'local', data } : { keep: 'server' };
+  };
+
+  const title = display(item.data.title ?? server?.title ?? 'Health record');
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Resolve conflict: {title}</DialogTitle>
+          <DialogDescription>
+            {!server
+              ? 'This record was deleted on the server after you changed it on this device.'
+              : item.type === 'delete'
+                ? 'You deleted this record on this device, but it was changed on the server in the meantime.'
+                : 'This record was changed on the server while you were editing it offline.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {fields.length > 0 && (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {fields.map(field => (
+              <div key={field} className="border rounded-lg p-3" data-testid={`conflict-field-${field}`}>
+                <p className="text-sm font-medium mb-2">{FIELD_LABELS[field] ?? field}</p>
+                <RadioGroup
+                  value={choices[field]}
+                  onValueChange={(value) => setChoices({ ...choices, [field]: value as 'local' | 'server' })}
+                >
+                  <div className="flex items-start gap-2">
+                    <RadioGroupItem value="local" id={`${field}-local`} />
+                    <Label htmlFor={`${field}-local`} className="text-sm font-normal break-all">
+                      <span className="text-muted-foreground">Yours:</span> {display(item.data[field])}
+                    </Label>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <RadioGroupItem value="server" id={`${field}-server`} />
+                    <Label htmlFor={`${field}-server`} className="text-sm font-normal break-all">
+                      <span className="text-muted-foreground">Server:</span> {display(server?.[field])}
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => resolve({ keep: 'server' })}
+            disabled={saving}
+            data-testid="button-keep-server"
+          >
+            {server ? 'Keep server version' : 'Discard my changes'}
+          </Button>
+          {fields.length > 0 ? (
+            <Button
+              onClick={() => resolve(merged())}
+              disabled={saving}
+              data-testid="button-save-merged"
+            >
+              Save merged version
+            </Button>
+          ) : (
+            <Button
+              variant={item.type === 'delete' ? 'destructive' : 'default'}
+              onClick={() => resolve({ keep: 'local', data: item.data })}
+              disabled={saving}
+              data-testid="button-keep-local"
+            >
+              {!server ? 'Restore my version' : item.type === 'delete' ? 'Delete anyway' : 'Keep my version'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SyncConflictDialog } from '@/components/SyncConflictDialog';
+import { useSyncQueue } from '@/hooks/useSyncQueue';
+import { useToast } from '@/hooks/use-toast';
+import type { SyncQueueItem } from '@/lib/offlineStore';
+
+const ENTITY_LABELS: Record<SyncQueueItem['entity'], string> = {
+  healthRecords: 'Health record',
+  symptomChecks: 'Symptom check',
+  consultationMessages: 'Chat message',
+};
+
+const describe = (item: SyncQueueItem) =>
+  `${ENTITY_LABELS[item.entity]} ${item.type === 'create' ? 'added' : item.type === 'update' ? 'edited' : 'deleted'}` +
+  (item.data.title ? `: ${item.data.title}` : '');
+
+/**
+ * Runs the offline sync queue for the signed-in user and, when changes could
+ * not be synced, shows a banner leading to the list of them.
+ */
+export function SyncQueuePanel() {
+  const { toast } = useToast();
+  const { pending, failed, conflicts, syncNow, retry, discard, resolve } = useSyncQueue({ autoSync: true });
+  const [open, setOpen] = useState(false);
+  const [resolving, setResolving] = useState<SyncQueueItem | null>(null);
+
+  const needsAttention = [...conflicts, ...failed];
+  if (needsAttention.length === 0 && !open) {
+    return null;
+  }
+
+  const handleDiscard = async (item: SyncQueueItem) => {
+    await discard(item);
+    toast({ title: "Change Discarded", description: describe(item) });
+  };
+
+  return (
+    <>
+      <div className="bg-amber-100 text-amber-900 text-sm px-4 py-2 flex items-center justify-between" data-testid="banner-sync-attention">
+        <span>
+          <i className="fas fa-exclamation-triangle mr-2"></i>
+          {needsAttention.length} offline change{needsAttention.length === 1 ? '' : 's'} could not be synced
+        </span>
+        <Button size="sm" variant="outline" onClick={() => setOpen(true)} data-testid="button-review-sync">
+          Review
+        </Button>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Offline Changes</DialogTitle>
+            <DialogDescription>
+              {pending.length > 0 ? `${pending.length} waiting to sync. ` : ''}
+              Changes below need you to decide what happens to them.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {needsAttention.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">Everything is synced.</p>
+            )}
+            {needsAttention.map(item => (
+              <div key={item.id} className="border rounded-lg p-3" data-testid={`sync-item-${item.id}`}>
+                <div className="flex items-center justify-between mb-1">
+                  <p className="text-sm font-medium">{describe(item)}</p>
+                  <Badge variant={item.state === 'conflict' ? 'default' : 'destructive'}>
+                    {item.state === 'conflict' ? 'Conflict' : 'Failed'}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Made {format(new Date(item.createdAt), 'MMM dd, HH:mm')}
+                  {item.lastError ? ` — ${item.lastError}` : ''}
+                </p>
+                <div className="flex gap-2 justify-end">
+                  {item.state === 'conflict' ? (
+                    <Button size="sm" onClick={() => setResolving(item)} data-testid={`button-resolve-${item.id}`}>
+                      Resolve
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => retry(item)} data-testid={`button-retry-${item.id}`}>
+                      Retry
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => handleDiscard(item)} data-testid={`button-discard-${item.id}`}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <Button variant="outline" onClick={() => syncNow()} data-testid="button-sync-now">
+            <i className="fas fa-sync-alt mr-2"></i>
+            Sync Now
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <SyncConflictDialog
+        item={resolving}
+        onOpenChange={(isOpen) => !isOpen && setResolving(null)}
+        onResolve={resolve}
+      />
+    </>
+  );
+}
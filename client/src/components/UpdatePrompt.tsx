@@ -0,0 +1,33 @@
+import { useState, useSyncExternalStore } from 'react';
+import { Button } from '@/components/ui/button';
+import { applyUpdate, isUpdateWaiting, subscribeToUpdates } from '@/lib/serviceWorker';
+
+/**
+ * Banner shown when a newer build has been downloaded by the service worker.
+ * The switch only happens when the user asks, so work in progress is not lost.
+ */
+export function UpdatePrompt() {
+  const updateWaiting = useSyncExternalStore(subscribeToUpdates, isUpdateWaiting);
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!updateWaiting || dismissed) {
+    return null;
+  }
+
+  return (
+    <div className="bg-primary text-primary-foreground text-sm px-4 py-2 flex items-center justify-between" data-testid="banner-app-update">
+      <span>
+        <i className="fas fa-arrow-circle-up mr-2"></i>
+        A new version of Sehat Nabha is available
+      </span>
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" onClick={applyUpdate} data-testid="button-apply-update">
+          Update
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setDismissed(true)} data-testid="button-dismiss-update">
+          Later
+        </Button>
+      </div>
+    </div>
+  );
+}
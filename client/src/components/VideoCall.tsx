@@ -5,36 +5,77 @@ import { Badge } from '@/components/ui/badge';
 import { useWebSocket } from '@/lib/websocket';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useConsultationChat } from '@/hooks/useConsultationChat';
+import { PrescriptionEditor } from '@/components/PrescriptionEditor';
+import { CallParticipantsDialog } from '@/components/CallParticipantsDialog';
+import { ConsultationChat } from '@/components/ConsultationChat';
+import {
+  STATS_INTERVAL_MS, adaptToLink, applySenderLimits, initialAdaptation, rateLink, sampleLink,
+  type AdaptationState, type LinkQuality, type StatsCounters
+} from '@/lib/callQuality';
+import {
+  appointmentRoomId, lighterCallMode,
+  type CallMode, type CallModeMessage, type CallRole, type JoinRefusedMessage, type JoinRefusedReason, type RoomJoinedMessage
+} from '@shared/callSessions';
 
 interface VideoCallProps {
-  roomId: string;
+  appointmentId: string;
   onEnd: () => void;
 }
 
-export function VideoCall({ roomId, onEnd }: VideoCallProps) {
+const JOIN_REFUSED_MESSAGES: Record<JoinRefusedReason, string> = {
+  not_an_appointment_room: 'This call link is not valid.',
+  appointment_not_found: 'This appointment no longer exists.',
+  not_a_participant: 'You have not been invited to this consultation.',
+  call_closed: 'This consultation has already ended.',
+};
+
+const MODE_CHANGE_MESSAGES: Record<Exclude<CallMode, 'video'>, { title: string; description: string }> = {
+  audio: { title: "Switched to Audio Only", description: "Video is off for everyone to keep the call going on a weak connection." },
+  chat: { title: "Switched to Chat", description: "The call has stopped; continue the consultation by text." },
+};
+
+export function VideoCall({ appointmentId, onEnd }: VideoCallProps) {
+  const roomId = appointmentRoomId(appointmentId);
   const { user } = useAuth();
   const { toast } = useToast();
-  const { send, subscribe } = useWebSocket();
+  const { send, subscribe, isConnected } = useWebSocket();
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
   const localStreamRef = useRef<MediaStream | null>(null);
-  
-  const [isCallActive, setIsCallActive] = useState(false);
+  // Read from socket and timer callbacks, which outlive any one render
+  const adaptationRef = useRef<AdaptationState | null>(null);
+  const statsCountersRef = useRef<StatsCounters | null>(null);
+  const statsTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
   const [isMuted, setIsMuted] = useState(false);
   const [isVideoOff, setIsVideoOff] = useState(false);
   const [connectionState, setConnectionState] = useState<'connecting' | 'connected' | 'disconnected' | 'failed'>('connecting');
   const [callDuration, setCallDuration] = useState(0);
-  const [useFallback, setUseFallback] = useState(false);
-  const [callQuality, setCallQuality] = useState<'high' | 'medium' | 'low'>('high');
+  const [callQuality, setCallQuality] = useState<LinkQuality>('high');
+  const [prescriptionOpen, setPrescriptionOpen] = useState(false);
+  const [participantsOpen, setParticipantsOpen] = useState(false);
+  // Confirmed by the server once it lets us into the room
+  const [callRole, setCallRole] = useState<CallRole | null>(null);
+  const [mode, setMode] = useState<CallMode | null>(null);
+  const [chatOpen, setChatOpen] = useState(false);
+
+  // Guests only see the messages sent while they are in the call
+  const chat = useConsultationChat(appointmentId, {
+    visible: chatOpen || mode === 'chat',
+    loadHistory: !!callRole && callRole !== 'guest',
+  });
 
   useEffect(() => {
-    initializeCall();
-    
     const unsubscribeOffer = subscribe('webrtc-offer', handleOffer);
     const unsubscribeAnswer = subscribe('webrtc-answer', handleAnswer);
     const unsubscribeIceCandidate = subscribe('webrtc-ice-candidate', handleIceCandidate);
     const unsubscribeUserJoined = subscribe('user-joined', handleUserJoined);
+    const unsubscribeRoomJoined = subscribe('room-joined', handleRoomJoined);
+    const unsubscribeJoinRefused = subscribe('join-refused', handleJoinRefused);
+    const unsubscribeCallEnded = subscribe('call-ended', handleCallEnded);
+    const unsubscribeCallMode = subscribe('call-mode', (data: CallModeMessage) => switchMode(data.mode, false));
 
     // Call duration timer
     const timer = setInterval(() => {
@@ -48,17 +89,49 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
       unsubscribeAnswer();
       unsubscribeIceCandidate();
       unsubscribeUserJoined();
+      unsubscribeRoomJoined();
+      unsubscribeJoinRefused();
+      unsubscribeCallEnded();
+      unsubscribeCallMode();
     };
   }, []);
 
-  const initializeCall = async () => {
+  // The server forgets room membership with the socket, so join again after every reconnect.
+  // It checks we belong to the appointment before letting us in.
+  useEffect(() => {
+    if (isConnected) {
+      send('join-room', { roomId });
+    }
+  }, [isConnected]);
+
+  const handleRoomJoined = (data: RoomJoinedMessage) => {
+    setCallRole(data.role);
+    const current = adaptationRef.current;
+    if (!current) {
+      // First join: open in the mode the room is in
+      adaptationRef.current = initialAdaptation(data.mode);
+      setMode(data.mode);
+      startMedia(data.mode);
+    } else if (current.mode !== data.mode) {
+      // Rejoined after a reconnect; whoever stepped down further wins
+      const lighter = lighterCallMode(current.mode, data.mode);
+      if (lighter !== data.mode) {
+        send('call-mode', { roomId, mode: lighter });
+      }
+      switchMode(lighter, false);
+    }
+  };
+
+  const startMedia = async (initialMode: CallMode) => {
+    if (initialMode === 'chat') return;
+
     try {
       // Get user media
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
+        video: initialMode === 'video',
         audio: true,
       });
-      
+
       localStreamRef.current = stream;
       if (localVideoRef.current) {
         localVideoRef.current.srcObject = stream;
@@ -71,7 +144,7 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
           { urls: 'stun:stun1.l.google.com:19302' },
           { urls: 'stun:stun2.l.google.com:19302' },
           // Add TURN servers for better connectivity in rural areas
-          { 
+          {
             urls: 'turn:turn.sehatsetu.com:3478',
             username: 'sehatsetu',
             credential: 'turnpassword'
@@ -82,10 +155,15 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
 
       // Monitor connection state
       peerConnectionRef.current.onconnectionstatechange = () => {
-        const state = peerConnectionRef.current?.connectionState;
+        const connection = peerConnectionRef.current;
+        const state = connection?.connectionState;
         if (state === 'connected') {
           setConnectionState('connected');
-          setCallQuality('high');
+          // Encodings exist once negotiated, so the caps go on now
+          if (connection && adaptationRef.current) {
+            applySenderLimits(connection, adaptationRef.current)
+              .catch(error => console.error('Error limiting call bitrate:', error));
+          }
         } else if (state === 'connecting') {
           setConnectionState('connecting');
         } else if (state === 'disconnected' || state === 'failed') {
@@ -98,18 +176,6 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
         }
       };
 
-      // Monitor ICE connection state
-      peerConnectionRef.current.oniceconnectionstatechange = () => {
-        const iceState = peerConnectionRef.current?.iceConnectionState;
-        if (iceState === 'connected') {
-          setCallQuality('high');
-        } else if (iceState === 'checking') {
-          setCallQuality('medium');
-        } else if (iceState === 'disconnected') {
-          setCallQuality('low');
-        }
-      };
-
       // Add local stream to peer connection
       stream.getTracks().forEach(track => {
         peerConnectionRef.current!.addTrack(track, stream);
@@ -132,20 +198,87 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
         }
       };
 
-      // Join the room
-      send('join-room', { roomId, userId: user?.id });
-      setIsCallActive(true);
+      statsTimerRef.current = setInterval(monitorLink, STATS_INTERVAL_MS);
     } catch (error) {
       console.error('Error initializing call:', error);
+      toast({
+        title: "Camera or Microphone Unavailable",
+        description: "You can still talk to the doctor by chat.",
+        variant: "destructive"
+      });
+      setChatOpen(true);
+    }
+  };
+
+  // Sample the link and step the call down (or a video profile back up) as it changes
+  const monitorLink = async () => {
+    const connection = peerConnectionRef.current;
+    const state = adaptationRef.current;
+    if (!connection || !state || connection.connectionState !== 'connected') return;
+
+    try {
+      const { sample, counters } = await sampleLink(connection, statsCountersRef.current);
+      statsCountersRef.current = counters;
+      setCallQuality(rateLink(sample, state));
+
+      const next = adaptToLink(state, sample);
+      if (next.mode !== state.mode) {
+        adaptationRef.current = { ...next, mode: state.mode };
+        await switchMode(next.mode, true);
+      } else {
+        adaptationRef.current = next;
+        if (next.videoProfile !== state.videoProfile) {
+          await applySenderLimits(connection, next);
+        }
+      }
+    } catch (error) {
+      console.error('Error sampling call quality:', error);
+    }
+  };
+
+  // Step down to a lighter mode; `announce` tells the rest of the room to follow
+  const switchMode = async (nextMode: CallMode, announce: boolean) => {
+    const current = adaptationRef.current;
+    if (!current || lighterCallMode(current.mode, nextMode) === current.mode) return;
+
+    adaptationRef.current = { ...current, mode: nextMode, poorSamples: 0, goodSamples: 0 };
+    setMode(nextMode);
+    if (announce) {
+      send('call-mode', { roomId, mode: nextMode });
+    }
+    toast(MODE_CHANGE_MESSAGES[nextMode as Exclude<CallMode, 'video'>]);
+
+    if (nextMode === 'chat') {
+      stopMedia();
+      return;
+    }
+
+    // Audio only: stop sending video and cap the voice bitrate
+    const stream = localStreamRef.current;
+    stream?.getVideoTracks().forEach(track => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+    const connection = peerConnectionRef.current;
+    if (connection) {
+      try {
+        await Promise.all(connection.getSenders()
+          .filter(sender => sender.track?.kind === 'video')
+          .map(sender => sender.replaceTrack(null)));
+        await applySenderLimits(connection, adaptationRef.current);
+      } catch (error) {
+        console.error('Error switching to audio only:', error);
+      }
     }
   };
 
   const handleUserJoined = async () => {
-    // Create and send offer when another user joins
+    // Create and send offer when another user joins; there is nothing to offer in a chat-only call
+    if (!peerConnectionRef.current) return;
     try {
-      const offer = await peerConnectionRef.current!.createOffer();
-      await peerConnectionRef.current!.setLocalDescription(offer);
-      
+      const offer = await peerConnectionRef.current.createOffer();
+      await peerConnectionRef.current.setLocalDescription(offer);
+
       send('webrtc-offer', {
         offer,
         roomId,
@@ -155,12 +288,44 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
     }
   };
 
+  const handleJoinRefused = (data: JoinRefusedMessage) => {
+    toast({
+      title: "Cannot Join Call",
+      description: JOIN_REFUSED_MESSAGES[data.reason] ?? 'Please try again.',
+      variant: "destructive"
+    });
+    cleanup();
+    onEnd();
+  };
+
+  const handleCallEnded = () => {
+    toast({
+      title: "Consultation Ended",
+      description: "The doctor has ended this consultation.",
+    });
+    cleanup();
+    onEnd();
+  };
+
+  const shareChatFile = (file: File) => {
+    chat.shareFile.mutate({ file }, {
+      onError: (error) => {
+        toast({
+          title: "File Not Shared",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
   const handleOffer = async (data: any) => {
+    if (!peerConnectionRef.current) return;
     try {
-      await peerConnectionRef.current!.setRemoteDescription(data.offer);
-      const answer = await peerConnectionRef.current!.createAnswer();
-      await peerConnectionRef.current!.setLocalDescription(answer);
-      
+      await peerConnectionRef.current.setRemoteDescription(data.offer);
+      const answer = await peerConnectionRef.current.createAnswer();
+      await peerConnectionRef.current.setLocalDescription(answer);
+
       send('webrtc-answer', {
         answer,
         roomId,
@@ -172,7 +337,7 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
 
   const handleAnswer = async (data: any) => {
     try {
-      await peerConnectionRef.current!.setRemoteDescription(data.answer);
+      await peerConnectionRef.current?.setRemoteDescription(data.answer);
     } catch (error) {
       console.error('Error handling answer:', error);
     }
@@ -180,7 +345,7 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
 
   const handleIceCandidate = async (data: any) => {
     try {
-      await peerConnectionRef.current!.addIceCandidate(data.candidate);
+      await peerConnectionRef.current?.addIceCandidate(data.candidate);
     } catch (error) {
       console.error('Error handling ICE candidate:', error);
     }
@@ -207,20 +372,14 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
   };
 
   const endCall = () => {
+    // The doctor ends the consultation for everyone; others just leave and may rejoin
+    if (callRole === 'doctor') {
+      send('end-call', { roomId });
+    }
     cleanup();
     onEnd();
   };
 
-  const switchToFallback = () => {
-    setUseFallback(true);
-    toast({
-      title: "Switching to Fallback",
-      description: "Using Jitsi Meet for better connectivity",
-    });
-    // In a real implementation, this would open Jitsi Meet
-    window.open(`https://meet.jit.si/${roomId}`, '_blank');
-  };
-
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -246,139 +405,227 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
     }
   };
 
-  const cleanup = () => {
+  const stopMedia = () => {
+    if (statsTimerRef.current) {
+      clearInterval(statsTimerRef.current);
+      statsTimerRef.current = null;
+    }
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach(track => track.stop());
+      localStreamRef.current = null;
     }
     if (peerConnectionRef.current) {
       peerConnectionRef.current.close();
+      peerConnectionRef.current = null;
     }
-    setIsCallActive(false);
   };
 
-  if (useFallback) {
-    return (
-      <div className="fixed inset-0 bg-black z-50 flex items-center justify-center">
-        <Card className="w-96">
-          <CardHeader>
-            <CardTitle className="text-center">Fallback Video Call</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <p className="text-center text-gray-600">
-              Opening Jitsi Meet for better connectivity...
-            </p>
-            <div className="flex justify-center space-x-2">
-              <Button onClick={() => setUseFallback(false)} variant="outline">
-                Back to WebRTC
-              </Button>
-              <Button onClick={endCall} variant="destructive">
-                End Call
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
+  const cleanup = () => {
+    send('leave-room', { roomId });
+    stopMedia();
+  };
+
+  const chatPanel = (
+    <ConsultationChat
+      messages={chat.messages}
+      pending={chat.pending}
+      currentUserId={user?.id}
+      onSend={chat.sendMessage}
+      onShareFile={shareChatFile}
+      sharing={chat.shareFile.isPending}
+      disabled={!callRole}
+    />
+  );
 
   return (
     <div className="fixed inset-0 bg-black z-50 flex flex-col">
       {/* Status Bar */}
       <div className="absolute top-4 left-4 right-4 z-10 flex justify-between items-center">
         <div className="flex space-x-2">
-          <Badge className={getConnectionStatusColor()}>
-            {connectionState.toUpperCase()}
-          </Badge>
-          <Badge className={getQualityColor()}>
-            {callQuality.toUpperCase()} QUALITY
-          </Badge>
+          {mode === 'chat' ? (
+            <Badge className="bg-blue-100 text-blue-800">CHAT ONLY</Badge>
+          ) : (
+            <>
+              <Badge className={getConnectionStatusColor()}>
+                {connectionState.toUpperCase()}
+              </Badge>
+              <Badge className={getQualityColor()}>
+                {callQuality.toUpperCase()} QUALITY
+              </Badge>
+              {mode === 'audio' && <Badge className="bg-blue-100 text-blue-800">AUDIO ONLY</Badge>}
+            </>
+          )}
           <Badge variant="outline" className="text-white border-white">
             {formatDuration(callDuration)}
           </Badge>
         </div>
-        
+
         <div className="flex space-x-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={switchToFallback}
-            className="text-white border-white hover:bg-white hover:text-black"
-          >
-            <i className="fas fa-external-link-alt mr-1"></i>
-            Fallback
-          </Button>
+          {callRole && callRole !== 'guest' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setParticipantsOpen(true)}
+              className="text-white border-white hover:bg-white hover:text-black"
+              data-testid="button-call-participants"
+            >
+              <i className="fas fa-user-plus mr-1"></i>
+              Invite
+            </Button>
+          )}
+          {callRole === 'doctor' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPrescriptionOpen(true)}
+              className="text-white border-white hover:bg-white hover:text-black"
+              data-testid="button-open-prescription"
+            >
+              <i className="fas fa-file-prescription mr-1"></i>
+              Prescribe
+            </Button>
+          )}
+          {mode === 'video' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => switchMode('audio', true)}
+              className="text-white border-white hover:bg-white hover:text-black"
+              data-testid="button-audio-only"
+            >
+              <i className="fas fa-phone mr-1"></i>
+              Audio Only
+            </Button>
+          )}
+          {(mode === 'video' || mode === 'audio') && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => switchMode('chat', true)}
+              className="text-white border-white hover:bg-white hover:text-black"
+              data-testid="button-chat-only"
+            >
+              <i className="fas fa-comment mr-1"></i>
+              Chat Only
+            </Button>
+          )}
         </div>
       </div>
 
-      {/* Video Container */}
-      <div className="flex-1 relative">
-        {/* Remote Video */}
-        <video
-          ref={remoteVideoRef}
-          autoPlay
-          playsInline
-          className="w-full h-full object-cover"
-          data-testid="video-remote"
-        />
-        
-        {/* Local Video */}
-        <video
-          ref={localVideoRef}
-          autoPlay
-          playsInline
-          muted
-          className="absolute top-16 right-4 w-32 h-24 object-cover rounded-lg border-2 border-white"
-          data-testid="video-local"
-        />
-
-        {/* Connection Issues Overlay */}
-        {connectionState === 'failed' && (
-          <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-            <Card className="w-80">
-              <CardHeader>
-                <CardTitle className="text-center text-red-600">
-                  Connection Issues
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <p className="text-center text-gray-600">
-                  Having trouble connecting? Try our fallback option for better connectivity.
-                </p>
-                <div className="flex justify-center space-x-2">
-                  <Button onClick={switchToFallback} variant="outline">
-                    Use Fallback
-                  </Button>
-                  <Button onClick={endCall} variant="destructive">
-                    End Call
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        )}
-      </div>
+      {mode === 'chat' ? (
+        <div className="flex-1 pt-16 max-w-2xl w-full mx-auto">
+          {chatPanel}
+        </div>
+      ) : (
+        <div className="flex-1 relative">
+          {/* Remote Video; still plays the remote audio when video is off */}
+          <video
+            ref={remoteVideoRef}
+            autoPlay
+            playsInline
+            className={`w-full h-full object-cover ${mode === 'audio' ? 'hidden' : ''}`}
+            data-testid="video-remote"
+          />
+          {mode === 'audio' && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+              <i className="fas fa-phone-volume text-6xl mb-4"></i>
+              <p>Audio-only call</p>
+            </div>
+          )}
+
+          {/* Local Video */}
+          {mode === 'video' && (
+            <video
+              ref={localVideoRef}
+              autoPlay
+              playsInline
+              muted
+              className="absolute top-16 right-4 w-32 h-24 object-cover rounded-lg border-2 border-white"
+              data-testid="video-local"
+            />
+          )}
+
+          {chatOpen && (
+            <div className="absolute top-16 bottom-0 right-0 w-full sm:w-80 z-10">
+              {chatPanel}
+            </div>
+          )}
+
+          {/* Connection Issues Overlay */}
+          {connectionState === 'failed' && (
+            <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+              <Card className="w-80">
+                <CardHeader>
+                  <CardTitle className="text-center text-red-600">
+                    Connection Issues
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-center text-gray-600">
+                    Having trouble connecting? A lighter mode may get through on a weak network.
+                  </p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {mode === 'video' && (
+                      <Button onClick={() => switchMode('audio', true)} variant="outline">
+                        Audio Only
+                      </Button>
+                    )}
+                    <Button onClick={() => switchMode('chat', true)} variant="outline">
+                      Continue in Chat
+                    </Button>
+                    <Button onClick={endCall} variant="destructive">
+                      End Call
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Call Controls */}
       <div className="bg-black/80 p-4 flex justify-center items-center space-x-4">
-        <Button
-          variant={isMuted ? "destructive" : "secondary"}
-          size="lg"
-          onClick={toggleMute}
-          className="rounded-full w-12 h-12"
-          data-testid="button-mute"
-        >
-          <i className={`fas ${isMuted ? 'fa-microphone-slash' : 'fa-microphone'}`}></i>
-        </Button>
+        {mode !== 'chat' && (
+          <Button
+            variant={isMuted ? "destructive" : "secondary"}
+            size="lg"
+            onClick={toggleMute}
+            className="rounded-full w-12 h-12"
+            data-testid="button-mute"
+          >
+            <i className={`fas ${isMuted ? 'fa-microphone-slash' : 'fa-microphone'}`}></i>
+          </Button>
+        )}
 
-        <Button
-          variant={isVideoOff ? "destructive" : "secondary"}
-          size="lg"
-          onClick={toggleVideo}
-          className="rounded-full w-12 h-12"
-          data-testid="button-video"
-        >
-          <i className={`fas ${isVideoOff ? 'fa-video-slash' : 'fa-video'}`}></i>
-        </Button>
+        {mode === 'video' && (
+          <Button
+            variant={isVideoOff ? "destructive" : "secondary"}
+            size="lg"
+            onClick={toggleVideo}
+            className="rounded-full w-12 h-12"
+            data-testid="button-video"
+          >
+            <i className={`fas ${isVideoOff ? 'fa-video-slash' : 'fa-video'}`}></i>
+          </Button>
+        )}
+
+        {mode !== 'chat' && (
+          <Button
+            variant={chatOpen ? "default" : "secondary"}
+            size="lg"
+            onClick={() => setChatOpen(!chatOpen)}
+            className="rounded-full w-12 h-12 relative"
+            data-testid="button-toggle-chat"
+          >
+            <i className="fas fa-comment"></i>
+            {chat.unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full min-w-5 h-5 px-1 flex items-center justify-center">
+                {chat.unreadCount}
+              </span>
+            )}
+          </Button>
+        )}
 
         <Button
           variant="destructive"
@@ -390,6 +637,22 @@ export function VideoCall({ roomId, onEnd }: VideoCallProps) {
           <i className="fas fa-phone-slash"></i>
         </Button>
       </div>
+
+      {callRole && callRole !== 'guest' && (
+        <CallParticipantsDialog
+          appointmentId={appointmentId}
+          open={participantsOpen}
+          onOpenChange={setParticipantsOpen}
+        />
+      )}
+
+      {callRole === 'doctor' && (
+        <PrescriptionEditor
+          appointmentId={appointmentId}
+          open={prescriptionOpen}
+          onOpenChange={setPrescriptionOpen}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,91 @@
+import { useLocation } from 'wouter';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCallNextWalkIn, useWalkInQueue } from '@/hooks/useWalkIns';
+import { useToast } from '@/hooks/use-toast';
+import { DoorOpen, Video } from 'lucide-react';
+
+interface WalkInQueuePanelProps {
+  doctorId: string;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  emergency: 'bg-red-100 text-red-800',
+};
+
+// Walk-ins waiting for this doctor or for anyone, most urgent first
+export function WalkInQueuePanel({ doctorId }: WalkInQueuePanelProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { data: queue = [], isLoading } = useWalkInQueue(doctorId);
+  const callNext = useCallNextWalkIn();
+
+  const handleCallNext = async () => {
+    try {
+      const { walkIn, appointment } = await callNext.mutateAsync(doctorId);
+      toast({ title: "Patient Called", description: `${walkIn.patient.name} has been asked to join the call` });
+      navigate(`/video/appointment-${appointment.id}`);
+    } catch (error) {
+      toast({
+        title: "Could not call the next patient",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card data-testid="card-walk-in-queue">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <DoorOpen className="h-5 w-5" />
+            Walk-ins
+          </span>
+          <Badge variant="outline">{queue.length} waiting</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-gray-500">Loading walk-ins...</p>
+        ) : queue.length === 0 ? (
+          <p className="text-gray-500 text-center py-2">Nobody is waiting</p>
+        ) : (
+          queue.slice(0, 5).map(walkIn => (
+            <div key={walkIn.id} className="p-3 rounded-lg border" data-testid={`walk-in-entry-${walkIn.id}`}>
+              <div className="flex justify-between items-start gap-2">
+                <div>
+                  <p className="font-medium">{walkIn.patient.name}</p>
+                  <p className="text-xs text-gray-500">
+                    Waiting {formatDistanceToNow(new Date(walkIn.createdAt))}
+                    {walkIn.location && ` • ${walkIn.location}`}
+                  </p>
+                  {walkIn.reason && <p className="text-xs text-gray-500">{walkIn.reason}</p>}
+                </div>
+                {walkIn.severity && (
+                  <Badge className={SEVERITY_COLORS[walkIn.severity] ?? 'bg-gray-100 text-gray-800'}>
+                    {walkIn.severity}
+                  </Badge>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        <Button
+          className="w-full"
+          onClick={handleCallNext}
+          disabled={callNext.isPending || queue.length === 0}
+          data-testid="button-call-next-walk-in"
+        >
+          <Video className="h-4 w-4 mr-2" />
+          {callNext.isPending ? 'Calling...' : 'Call Next Patient'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
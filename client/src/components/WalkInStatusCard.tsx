@@ -0,0 +1,120 @@
+import { useLocation } from 'wouter';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCancelWalkIn, useWalkIn } from '@/hooks/useWalkIns';
+import { useToast } from '@/hooks/use-toast';
+import { Clock, Video } from 'lucide-react';
+
+interface WalkInStatusCardProps {
+  walkInId: string;
+  // The patient's own view offers to join the call once the doctor is ready
+  isPatient?: boolean;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  emergency: 'bg-red-100 text-red-800',
+};
+
+// Live place in the walk-in queue, updated over the WebSocket as the queue moves
+export function WalkInStatusCard({ walkInId, isPatient = false }: WalkInStatusCardProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { data: walkIn, isLoading } = useWalkIn(walkInId);
+  const cancelWalkIn = useCancelWalkIn();
+
+  const handleCancel = async () => {
+    try {
+      await cancelWalkIn.mutateAsync(walkInId);
+      toast({ title: "Left the Queue", description: "The walk-in has been cancelled." });
+    } catch (error) {
+      toast({
+        title: "Could not leave the queue",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (isLoading || !walkIn) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <p className="text-gray-500">Loading waiting room status...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card data-testid={`card-walk-in-${walkIn.id}`}>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span>{isPatient ? 'Waiting Room' : walkIn.patient.name}</span>
+          {walkIn.severity && (
+            <Badge className={SEVERITY_COLORS[walkIn.severity] ?? 'bg-gray-100 text-gray-800'}>
+              {walkIn.severity}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {walkIn.status === 'waiting' && (
+          <>
+            <div className="text-center">
+              <p className="text-sm text-gray-600">{isPatient ? 'Your place in line' : 'Place in line'}</p>
+              <p className="text-5xl font-bold text-primary" data-testid={`text-walk-in-position-${walkIn.id}`}>
+                {walkIn.position ?? '-'}
+              </p>
+            </div>
+            <p className="text-sm text-gray-600 text-center">
+              {walkIn.doctorName
+                ? `To be seen by Dr. ${walkIn.doctorName}`
+                : 'To be seen by the next available doctor'}
+            </p>
+            <div className="flex items-center justify-center gap-1 text-xs text-gray-500">
+              <Clock className="h-3 w-3" />
+              Registered at {format(new Date(walkIn.createdAt), 'h:mm a')}
+              {walkIn.location && ` • ${walkIn.location}`}
+            </div>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleCancel}
+              disabled={cancelWalkIn.isPending}
+              data-testid={`button-cancel-walk-in-${walkIn.id}`}
+            >
+              Leave Queue
+            </Button>
+          </>
+        )}
+
+        {walkIn.status === 'called' && (
+          <>
+            <p className="text-center font-medium text-green-700">
+              Dr. {walkIn.doctorName} is ready to see {isPatient ? 'you' : walkIn.patient.name}
+            </p>
+            {isPatient && walkIn.appointmentId && (
+              <Button
+                className="w-full"
+                onClick={() => navigate(`/video/appointment-${walkIn.appointmentId}`)}
+                data-testid={`button-join-walk-in-${walkIn.id}`}
+              >
+                <Video className="h-4 w-4 mr-2" />
+                Join Call
+              </Button>
+            )}
+          </>
+        )}
+
+        {walkIn.status === 'cancelled' && (
+          <p className="text-center text-gray-500">This walk-in was cancelled</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
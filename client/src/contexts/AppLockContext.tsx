@@ -0,0 +1,142 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppLockScreen } from '@/components/AppLockScreen';
+import { offlineStore } from '@/lib/offlineStore';
+import { clearCachedApiResponses } from '@/lib/serviceWorker';
+
+// Lock after this long without a tap or key press
+const INACTIVITY_LOCK_MS = 5 * 60_000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'] as const;
+
+type LockState = 'checking' | 'setup' | 'locked' | 'unlocked';
+
+interface AppLockContextType {
+  lock: () => void;
+  changePin: (pin: string) => Promise<void>;
+  wipeDevice: () => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+/**
+ * Keeps the signed-in user's offline data locked behind their PIN. Until it is
+ * unlocked (or a PIN is first set) the app renders only the lock screen, so
+ * nothing reads the offline store or shows cached records.
+ */
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const { user, signOut } = useAuth();
+  const queryClient = useQueryClient();
+  const [state, setState] = useState<LockState>('checking');
+  const lastActivity = useRef(Date.now());
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    if (offlineStore.isUnlocked(user.id)) {
+      setState('unlocked');
+    } else {
+      setState('checking');
+      offlineStore.hasPin(user.id)
+        .then(hasPin => !cancelled && setState(hasPin ? 'locked' : 'setup'))
+        .catch(error => {
+          console.error('Error opening offline store:', error);
+          if (!cancelled) setState('locked');
+        });
+    }
+
+    // Signing out or switching user forgets the previous key
+    return () => {
+      cancelled = true;
+      offlineStore.lock(user.id);
+    };
+  }, [user?.id]);
+
+  const lock = useCallback(() => {
+    if (!user) return;
+    offlineStore.lock(user.id);
+    // Decrypted records may still sit in the query cache
+    queryClient.clear();
+    setState('locked');
+  }, [user?.id, queryClient]);
+
+  useEffect(() => {
+    if (state !== 'unlocked') return;
+
+    const touch = () => { lastActivity.current = Date.now(); };
+    const check = () => {
+      if (Date.now() - lastActivity.current >= INACTIVITY_LOCK_MS) lock();
+    };
+
+    touch();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, touch, { passive: true }));
+    // Timers are throttled in background tabs; check again when the app comes back
+    document.addEventListener('visibilitychange', check);
+    const timer = setInterval(check, 15_000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, touch));
+      document.removeEventListener('visibilitychange', check);
+      clearInterval(timer);
+    };
+  }, [state, lock]);
+
+  const unlock = async (pin: string) => {
+    if (!user || !(await offlineStore.unlock(user.id, pin))) return false;
+    setState('unlocked');
+    return true;
+  };
+
+  const setPin = async (pin: string) => {
+    if (!user) return;
+    await offlineStore.setPin(user.id, pin);
+    setState('unlocked');
+  };
+
+  const changePin = async (pin: string) => {
+    if (!user) return;
+    await offlineStore.setPin(user.id, pin);
+  };
+
+  // Forgotten PIN: the data cannot be recovered, only removed
+  const forgetUser = async () => {
+    if (!user) return;
+    await offlineStore.wipePartition(user.id);
+    queryClient.clear();
+    await signOut();
+  };
+
+  const wipeDevice = async () => {
+    await offlineStore.wipeDevice();
+    await clearCachedApiResponses();
+    queryClient.clear();
+    await signOut();
+  };
+
+  // Checked against the store too, so a new user never gets one render of the previous state
+  const unlocked = state === 'unlocked' && !!user && offlineStore.isUnlocked(user.id);
+
+  return (
+    <AppLockContext.Provider value={{ lock, changePin, wipeDevice }}>
+      {user && !unlocked ? (
+        <AppLockScreen
+          mode={state === 'setup' || state === 'locked' ? state : 'checking'}
+          userName={user.name}
+          onUnlock={unlock}
+          onSetPin={setPin}
+          onForgotPin={forgetUser}
+          onSignOut={signOut}
+        />
+      ) : children}
+    </AppLockContext.Provider>
+  );
+}
+
+export function useAppLock() {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+}
@@ -2,17 +2,31 @@ import { createContext, useContext, useEffect, useState } from 'react';
 import { User as FirebaseUser, onAuthStateChanged } from 'firebase/auth';
 import { auth, handleRedirect } from '@/lib/firebase';
 import { User } from '@shared/schema';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, authFetch, getAuthToken, setAuthToken } from '@/lib/queryClient';
+import { wsManager } from '@/lib/websocket';
 
 interface AuthContextType {
   firebaseUser: FirebaseUser | null;
   user: User | null;
   loading: boolean;
   signOut: () => Promise<void>;
+  devSignIn: (email: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Restore the session from a previously issued access token, if it is still valid
+async function fetchCurrentUser(): Promise<User | null> {
+  if (!getAuthToken()) return null;
+
+  const response = await authFetch('/api/auth/me');
+  if (response.ok) {
+    return await response.json();
+  }
+  setAuthToken(null);
+  return null;
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null);
   const [user, setUser] = useState<User | null>(null);
@@ -22,58 +36,65 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // Handle redirect result on page load
     handleRedirect().catch(console.error);
 
-    // If Firebase is not configured, just set loading to false and return
+    // If Firebase is not configured, fall back to any stored (dev) session
     if (!auth) {
       console.warn('Firebase not configured. Authentication features disabled.');
-      setLoading(false);
+      fetchCurrentUser()
+        .then(setUser)
+        .catch(console.error)
+        .finally(() => setLoading(false));
       return;
     }
 
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
       setFirebaseUser(firebaseUser);
-      
-      if (firebaseUser) {
-        try {
-          // Try to get existing user
-          const response = await fetch(`/api/users/firebase/${firebaseUser.uid}`);
-          if (response.ok) {
-            const userData = await response.json();
-            setUser(userData);
-          } else if (response.status === 404) {
-            // Create new user
-            const newUserData = {
-              firebaseUid: firebaseUser.uid,
-              email: firebaseUser.email!,
-              name: firebaseUser.displayName || firebaseUser.email!.split('@')[0],
-              phone: firebaseUser.phoneNumber,
-              role: 'patient' as const,
-              profilePicture: firebaseUser.photoURL,
-            };
-            
-            const createResponse = await apiRequest('POST', '/api/users', newUserData);
-            const userData = await createResponse.json();
-            setUser(userData);
-          }
-        } catch (error) {
-          console.error('Error managing user data:', error);
+
+      try {
+        if (firebaseUser) {
+          // Exchange the Firebase ID token for our own API access token.
+          // The server provisions a patient account on first sign-in.
+          const idToken = await firebaseUser.getIdToken();
+          const response = await apiRequest('POST', '/api/auth/token', { idToken });
+          const { token, user: userData } = await response.json();
+          setAuthToken(token);
+          setUser(userData);
+        } else {
+          setUser(await fetchCurrentUser());
         }
-      } else {
+      } catch (error) {
+        console.error('Error managing user data:', error);
+        setAuthToken(null);
         setUser(null);
       }
-      
+
       setLoading(false);
     });
 
     return () => unsubscribe();
   }, []);
 
+  const devSignIn = async (email: string) => {
+    const response = await apiRequest('POST', '/api/auth/dev-token', { email });
+    const { token, user: userData } = await response.json();
+    setAuthToken(token);
+    setUser(userData);
+  };
+
   const signOut = async () => {
+    if (getAuthToken()) {
+      await apiRequest('POST', '/api/auth/logout').catch(console.error);
+    }
+    setAuthToken(null);
+    setUser(null);
+    // The socket was authenticated as this user
+    wsManager.disconnect();
+
     const { logout } = await import('@/lib/firebase');
     await logout();
   };
 
   return (
-    <AuthContext.Provider value={{ firebaseUser, user, loading, signOut }}>
+    <AuthContext.Provider value={{ firebaseUser, user, loading, signOut, devSignIn }}>
       {children}
     </AuthContext.Provider>
   );
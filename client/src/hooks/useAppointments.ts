@@ -1,5 +1,10 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest, authFetch } from '@/lib/queryClient';
+import type { Appointment } from '@shared/schema';
+import type { AvailableSlot } from '@shared/scheduling';
+import type { CallParticipant, InviteParticipantRequest, InviteParticipantResponse } from '@shared/callSessions';
+import type { ConsultationChatMessage } from '@shared/consultationChat';
 
 export function useAppointments() {
   const { user } = useAuth();
@@ -10,7 +15,7 @@ export function useAppointments() {
       if (!user) return [];
       
       try {
-        const response = await fetch(`/api/appointments?patientId=${user.id}`);
+        const response = await authFetch(`/api/appointments?patientId=${user.id}`);
         if (!response.ok) {
           throw new Error('Failed to fetch appointments');
         }
@@ -30,7 +35,7 @@ export function useOnlineDoctors() {
     queryKey: ['doctors', 'online'],
     queryFn: async () => {
       try {
-        const response = await fetch('/api/doctors?online=true');
+        const response = await authFetch('/api/doctors?online=true');
         if (!response.ok) {
           throw new Error('Failed to fetch online doctors');
         }
@@ -49,7 +54,7 @@ export function useDoctors() {
     queryKey: ['doctors'],
     queryFn: async () => {
       try {
-        const response = await fetch('/api/doctors');
+        const response = await authFetch('/api/doctors');
         if (!response.ok) {
           throw new Error('Failed to fetch doctors');
         }
@@ -72,7 +77,7 @@ export function useHealthRecords() {
       if (!user) return [];
       
       try {
-        const response = await fetch(`/api/health-records?patientId=${user.id}`);
+        const response = await authFetch(`/api/health-records?patientId=${user.id}`);
         if (!response.ok) {
           throw new Error('Failed to fetch health records');
         }
@@ -96,7 +101,7 @@ export function useSymptomChecks() {
       if (!user) return [];
       
       try {
-        const response = await fetch(`/api/symptom-checks?patientId=${user.id}`);
+        const response = await authFetch(`/api/symptom-checks?patientId=${user.id}`);
         if (!response.ok) {
           throw new Error('Failed to fetch symptom checks');
         }
@@ -111,40 +116,125 @@ export function useSymptomChecks() {
   });
 }
 
-export function useMedicines() {
+export function useDoctorSlots(doctorId: string | undefined, date: string | undefined) {
   return useQuery({
-    queryKey: ['medicines'],
+    queryKey: ['doctor-slots', doctorId, date],
     queryFn: async () => {
-      try {
-        const response = await fetch('/api/medicines');
-        if (!response.ok) {
-          throw new Error('Failed to fetch medicines');
-        }
-        return await response.json();
-      } catch (error) {
-        console.error('Error fetching medicines:', error);
-        return [];
+      const response = await authFetch(`/api/doctors/${doctorId}/slots?date=${date}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch available slots');
       }
+      const data = await response.json();
+      return data.slots as AvailableSlot[];
+    },
+    enabled: !!doctorId && !!date,
+    staleTime: 30 * 1000, // 30 seconds, slots fill up quickly
+  });
+}
+
+export function useBookAppointment() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (booking: {
+      doctorId: string;
+      slot: AvailableSlot;
+      type?: 'video' | 'audio' | 'chat';
+      specialty?: string;
+      reason?: string;
+    }) => {
+      if (!user) {
+        throw new Error('Please sign in to book an appointment');
+      }
+
+      const response = await apiRequest('POST', '/api/appointments', {
+        patientId: user.id,
+        doctorId: booking.doctorId,
+        scheduledAt: booking.slot.start,
+        durationMinutes: booking.slot.durationMinutes,
+        type: booking.type ?? 'video',
+        specialty: booking.specialty,
+        reason: booking.reason,
+      });
+      return await response.json() as Appointment;
+    },
+    onSettled: (_data, _error, booking) => {
+      // A 409 means someone else took the slot, so refresh the picker either way
+      queryClient.invalidateQueries({ queryKey: ['doctor-slots', booking.doctorId] });
+      queryClient.invalidateQueries({ queryKey: ['appointments', user?.id] });
     },
-    staleTime: 10 * 60 * 1000, // 10 minutes
   });
 }
 
-export function useMedicineStock() {
+// People invited into the appointment's video call besides the patient and doctor
+export function useCallParticipants(appointmentId: string | undefined) {
   return useQuery({
-    queryKey: ['medicine-stock'],
+    queryKey: ['call-participants', appointmentId],
     queryFn: async () => {
-      try {
-        const response = await fetch('/api/medicine-stock');
-        if (!response.ok) {
-          throw new Error('Failed to fetch medicine stock');
-        }
-        return await response.json();
-      } catch (error) {
-        console.error('Error fetching medicine stock:', error);
-        return [];
+      const response = await authFetch(`/api/appointments/${appointmentId}/participants`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch call participants');
       }
+      return await response.json() as CallParticipant[];
     },
-    staleTime: 2 * 60 * 1000, // 2 minutes
+    enabled: !!appointmentId,
+  });
+}
+
+export function useInviteCallParticipant(appointmentId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invite: InviteParticipantRequest) => {
+      const response = await apiRequest('POST', `/api/appointments/${appointmentId}/participants`, invite);
+      return await response.json() as InviteParticipantResponse;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['call-participants', appointmentId] });
+    },
+  });
+}
+
+// The doctor lets in a guest the patient invited
+export function useConfirmCallParticipant(appointmentId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('POST', `/api/appointments/${appointmentId}/participants/${userId}/confirm`);
+      return await response.json() as CallParticipant;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['call-participants', appointmentId] });
+    },
+  });
+}
+
+export function useRemoveCallParticipant(appointmentId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest('DELETE', `/api/appointments/${appointmentId}/participants/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['call-participants', appointmentId] });
+    },
+  });
+}
+
+// The appointment's chat transcript; messages arriving during the call are appended to it
+export function useConsultationMessages(appointmentId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ['consultation-messages', appointmentId],
+    queryFn: async () => {
+      const response = await authFetch(`/api/appointments/${appointmentId}/messages`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch consultation messages');
+      }
+      return await response.json() as ConsultationChatMessage[];
+    },
+    enabled: !!appointmentId && enabled,
   });
 }
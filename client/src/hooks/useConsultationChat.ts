@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWebSocket } from '@/lib/websocket';
+import { apiRequest } from '@/lib/queryClient';
+import { offlineStore } from '@/lib/offlineStore';
+import { OfflineLockedError } from '@/lib/offlineCrypto';
+import { useConsultationMessages } from '@/hooks/useAppointments';
+import { syncQueueKey, useSyncQueue } from '@/hooks/useSyncQueue';
+import {
+  CHAT_ATTACHMENT_MAX_BYTES, CHAT_ATTACHMENT_TYPES, consultationChatChannel,
+  type ChatAttachmentType, type ChatReceiptStatus, type ChatReceiptUpdate, type ConsultationChatMessage
+} from '@shared/consultationChat';
+
+// A message of ours the server has not confirmed yet
+export interface PendingChatMessage {
+  clientMessageId: string;
+  body: string;
+  createdAt: Date;
+  // sending: over the socket now or on reconnect; queued: waiting in the offline sync queue
+  state: 'sending' | 'queued' | 'failed';
+  error?: string;
+}
+
+// Photos are shrunk to this on their longest side before upload
+const PHOTO_MAX_DIMENSION = 1600;
+const PHOTO_QUALITY = 0.8;
+
+/**
+ * The chat of one appointment. Messages go out over the socket while it is
+ * connected and through the offline sync queue otherwise; either way the
+ * server's echo on the chat channel replaces the pending copy. Messages from
+ * others are acknowledged as delivered when they arrive and as read while
+ * `visible`.
+ */
+export function useConsultationChat(
+  appointmentId: string | undefined,
+  { visible = true, loadHistory = true }: { visible?: boolean; loadHistory?: boolean } = {}
+) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { isConnected, send, subscribe, joinChannel } = useWebSocket();
+  const { items: queueItems } = useSyncQueue();
+  const { data: messages = [] } = useConsultationMessages(appointmentId, loadHistory);
+  const [outbox, setOutbox] = useState<PendingChatMessage[]>([]);
+  const [pageVisible, setPageVisible] = useState(() => document.visibilityState === 'visible');
+  // Receipts already sent, so each message is acknowledged once per status
+  const receiptsSentRef = useRef({ delivered: new Set<string>(), read: new Set<string>() });
+  const messagesKey = ['consultation-messages', appointmentId];
+
+  useEffect(() => {
+    if (!appointmentId) return;
+
+    const leave = joinChannel(consultationChatChannel(appointmentId));
+    const unsubscribeMessage = subscribe('chat-message', (data: { message: ConsultationChatMessage }) => {
+      if (data.message.appointmentId !== appointmentId) return;
+      queryClient.setQueryData<ConsultationChatMessage[]>(messagesKey, (current = []) =>
+        current.some(message => message.id === data.message.id) ? current : [...current, data.message]
+      );
+      setOutbox(pending => pending.filter(message => message.clientMessageId !== data.message.clientMessageId));
+    });
+    const unsubscribeReceipt = subscribe('chat-receipt', (update: ChatReceiptUpdate) => {
+      if (update.appointmentId !== appointmentId) return;
+      const ids = new Set(update.messageIds);
+      const at = new Date(update.at);
+      queryClient.setQueryData<ConsultationChatMessage[]>(messagesKey, (current = []) =>
+        current.map(message => {
+          if (!ids.has(message.id)) return message;
+          return update.status === 'read'
+            ? { ...message, deliveredAt: message.deliveredAt ?? at, readAt: message.readAt ?? at }
+            : { ...message, deliveredAt: message.deliveredAt ?? at };
+        })
+      );
+    });
+    const unsubscribeError = subscribe('chat-error', (data: { clientMessageId?: string; error: string }) => {
+      setOutbox(pending => pending.map(message =>
+        message.clientMessageId === data.clientMessageId ? { ...message, state: 'failed', error: data.error } : message
+      ));
+    });
+
+    return () => {
+      unsubscribeMessage();
+      unsubscribeReceipt();
+      unsubscribeError();
+      leave();
+    };
+  }, [appointmentId, queryClient]);
+
+  // Catch up on whatever was said while the socket was down, then resend what never left
+  useEffect(() => {
+    if (!isConnected || !appointmentId) return;
+    if (loadHistory) {
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+    }
+    outbox
+      .filter(message => message.state === 'sending')
+      .forEach(message => send('chat-message', { appointmentId, clientMessageId: message.clientMessageId, body: message.body }));
+  }, [isConnected, appointmentId]);
+
+  const fromOthers = messages.filter(message => message.senderId !== user?.id);
+
+  useEffect(() => {
+    if (!isConnected || !appointmentId) return;
+
+    const acknowledge = (status: ChatReceiptStatus, unacknowledged: ConsultationChatMessage[]) => {
+      const sent = receiptsSentRef.current[status];
+      const messageIds = unacknowledged.map(message => message.id).filter(id => !sent.has(id));
+      if (messageIds.length === 0) return;
+      messageIds.forEach(id => sent.add(id));
+      send('chat-receipt', { appointmentId, messageIds, status });
+    };
+
+    if (visible && pageVisible) {
+      acknowledge('read', fromOthers.filter(message => !message.readAt));
+    } else {
+      acknowledge('delivered', fromOthers.filter(message => !message.deliveredAt));
+    }
+  }, [isConnected, appointmentId, visible, pageVisible, messages]);
+
+  // A chat left open in a background tab has not been read
+  useEffect(() => {
+    const onVisibilityChange = () => setPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  const delivered = new Set(messages.map(message => message.clientMessageId));
+  const queued: PendingChatMessage[] = queueItems
+    .filter(item => item.entity === 'consultationMessages' && item.data.appointmentId === appointmentId)
+    .map(item => ({
+      clientMessageId: item.entityId,
+      body: typeof item.data.body === 'string' ? item.data.body : '',
+      createdAt: new Date(item.createdAt),
+      state: item.state === 'pending' ? 'queued' : 'failed',
+      error: item.lastError,
+    }));
+  const pending = useMemo(
+    () => [...outbox, ...queued]
+      .filter(message => !delivered.has(message.clientMessageId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    [outbox, queueItems, messages]
+  );
+
+  const sendMessage = async (body: string) => {
+    if (!appointmentId || !user) return;
+    const message = { appointmentId, clientMessageId: crypto.randomUUID(), body };
+
+    if (isConnected) {
+      setOutbox(current => [...current, { ...message, createdAt: new Date(), state: 'sending' }]);
+      send('chat-message', message);
+      return;
+    }
+
+    try {
+      // Sent by the sync queue once the device is back online
+      await offlineStore.partition(user.id).enqueue('consultationMessages', 'create', message.clientMessageId, message);
+      queryClient.invalidateQueries({ queryKey: syncQueueKey(user.id) });
+    } catch (error) {
+      if (!(error instanceof OfflineLockedError)) throw error;
+      // The queue cannot be written while offline data is locked; hold it until the socket is back
+      setOutbox(current => [...current, { ...message, createdAt: new Date(), state: 'sending' }]);
+    }
+  };
+
+  const shareFile = useMutation({
+    mutationFn: async ({ file, body = '' }: { file: File; body?: string }) => {
+      if (!CHAT_ATTACHMENT_TYPES.includes(file.type as ChatAttachmentType)) {
+        throw new Error('Only photos (JPEG, PNG, WebP) and PDF reports can be shared');
+      }
+      const upload = file.type.startsWith('image/') ? await shrinkPhoto(file) : file;
+      if (upload.size > CHAT_ATTACHMENT_MAX_BYTES) {
+        throw new Error('File is larger than 5 MB');
+      }
+      const response = await apiRequest('POST', `/api/appointments/${appointmentId}/attachments`, {
+        clientMessageId: crypto.randomUUID(),
+        fileName: upload.name,
+        contentType: upload.type,
+        data: await toBase64(upload),
+        body,
+      });
+      return await response.json() as ConsultationChatMessage;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<ConsultationChatMessage[]>(messagesKey, (current = []) =>
+        current.some(existing => existing.id === message.id) ? current : [...current, message]
+      );
+      queryClient.invalidateQueries({ queryKey: ['health-records'] });
+    },
+  });
+
+  return {
+    messages,
+    pending,
+    unreadCount: fromOthers.filter(message => !message.readAt).length,
+    isConnected,
+    sendMessage,
+    shareFile,
+  };
+}
+
+// Re-encode a photo as a JPEG no larger than PHOTO_MAX_DIMENSION on either side
+async function shrinkPhoto(file: File): Promise<File> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const element = new Image();
+      element.onload = () => resolve(element);
+      element.onerror = () => reject(new Error('Could not read the photo'));
+      element.src = url;
+    });
+    const scale = Math.min(1, PHOTO_MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY));
+    if (!blob || blob.size >= file.size) return file;
+    return new File([blob], file.name.replace(/\.[^.]*$/, '') + '.jpg', { type: 'image/jpeg' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function toBase64(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+}
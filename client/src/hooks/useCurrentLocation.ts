@@ -0,0 +1,40 @@
+import { useCallback, useState } from 'react';
+import type { Coordinates } from '@shared/geo';
+
+/**
+ * The device's position, asked for only when the user opts in (e.g. "sort by
+ * distance"), so the browser's permission prompt has a clear reason.
+ */
+export function useCurrentLocation() {
+  const [location, setLocation] = useState<Coordinates | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  const requestLocation = useCallback(() => {
+    if (!('geolocation' in navigator)) {
+      setError('Location is not supported on this device');
+      return;
+    }
+
+    setLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocation({ lat: position.coords.latitude, lng: position.coords.longitude });
+        setLocating(false);
+      },
+      (positionError) => {
+        setError(positionError.code === positionError.PERMISSION_DENIED
+          ? 'Location permission was denied'
+          : 'Could not get your location');
+        setLocating(false);
+      },
+      // A recent fix is fine for finding nearby pharmacies and saves battery
+      { enableHighAccuracy: false, timeout: 15_000, maximumAge: 10 * 60_000 }
+    );
+  }, []);
+
+  const clearLocation = useCallback(() => setLocation(null), []);
+
+  return { location, error, locating, requestLocation, clearLocation };
+}
@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest, authFetch } from '@/lib/queryClient';
+import type { Doctor } from '@shared/schema';
+import type { ConsultationNoteRequest, ConsultationNoteResult, PatientChart, QueueEntry } from '@shared/consultation';
+
+export function useCurrentDoctor() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['doctor', 'user', user?.id],
+    queryFn: async () => {
+      const response = await authFetch(`/api/doctors/user/${user!.id}`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error('Failed to fetch doctor profile');
+      }
+      return await response.json() as Doctor;
+    },
+    enabled: user?.role === 'doctor',
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useDoctorQueue(doctorId: string | null | undefined, date?: string) {
+  return useQuery({
+    queryKey: ['doctor-queue', doctorId, date ?? 'today'],
+    queryFn: async () => {
+      const params = date ? `?date=${date}` : '';
+      const response = await authFetch(`/api/doctors/${doctorId}/queue${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch patient queue');
+      }
+      return await response.json() as QueueEntry[];
+    },
+    enabled: !!doctorId,
+    refetchInterval: 60 * 1000, // pick up new bookings while the doctor works
+  });
+}
+
+export function usePatientChart(patientId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['patient-chart', patientId],
+    queryFn: async () => {
+      const response = await authFetch(`/api/patients/${patientId}/chart`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch patient chart');
+      }
+      return await response.json() as PatientChart;
+    },
+    enabled: !!patientId,
+  });
+}
+
+export function useSaveConsultationNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ appointmentId, ...note }: ConsultationNoteRequest & { appointmentId: string }) => {
+      const response = await apiRequest('PUT', `/api/appointments/${appointmentId}/consultation-note`, note);
+      return await response.json() as ConsultationNoteResult;
+    },
+    onSuccess: ({ appointment }) => {
+      queryClient.invalidateQueries({ queryKey: ['doctor-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['patient-chart', appointment.patientId] });
+    },
+  });
+}
@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, authFetch } from '@/lib/queryClient';
+import type { MedicineStock, StockBatch, StockMovement } from '@shared/schema';
+import type {
+  ExpiryAlert, ReceiveBatchRequest, StockMovementPage, StockMovementsQuery, StockReconciliationReport, WriteOffBatchRequest
+} from '@shared/inventory';
+
+export function usePharmacyBatches(pharmacyId: string | null | undefined, medicineId?: string) {
+  return useQuery({
+    queryKey: ['inventory', pharmacyId, 'batches', medicineId ?? 'all'],
+    queryFn: async () => {
+      const params = medicineId ? `?medicineId=${encodeURIComponent(medicineId)}` : '';
+      const response = await authFetch(`/api/pharmacies/${pharmacyId}/batches${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch batches');
+      }
+      return await response.json() as StockBatch[];
+    },
+    enabled: !!pharmacyId,
+  });
+}
+
+export function useExpiryAlerts(pharmacyId: string | null | undefined, days?: number) {
+  return useQuery({
+    queryKey: ['inventory', pharmacyId, 'expiry-alerts', days],
+    queryFn: async () => {
+      const params = days ? `?days=${days}` : '';
+      const response = await authFetch(`/api/pharmacies/${pharmacyId}/batches/expiry-alerts${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch expiry alerts');
+      }
+      return await response.json() as ExpiryAlert[];
+    },
+    enabled: !!pharmacyId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useReceiveBatch(pharmacyId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (batch: ReceiveBatchRequest) => {
+      const response = await apiRequest('POST', `/api/pharmacies/${pharmacyId}/batches`, batch);
+      return await response.json() as { batch: StockBatch; stock: MedicineStock };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory', pharmacyId] });
+    },
+  });
+}
+
+export function useWriteOffBatch(pharmacyId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ batchId, ...writeOff }: Partial<WriteOffBatchRequest> & { batchId: string }) => {
+      const response = await apiRequest('POST', `/api/pharmacies/${pharmacyId}/batches/${batchId}/write-off`, writeOff);
+      return await response.json() as { batch: StockBatch; stock: MedicineStock; movement: StockMovement };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory', pharmacyId] });
+    },
+  });
+}
+
+export function useStockMovements(pharmacyId: string | null | undefined, filters: Partial<StockMovementsQuery> = {}) {
+  return useQuery({
+    queryKey: ['inventory', pharmacyId, 'movements', filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, String(value));
+      });
+      const query = params.toString();
+      const response = await authFetch(`/api/pharmacies/${pharmacyId}/stock-movements${query ? `?${query}` : ''}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch stock movements');
+      }
+      return await response.json() as StockMovementPage;
+    },
+    enabled: !!pharmacyId,
+  });
+}
+
+export function useStockReconciliation(pharmacyId: string | null | undefined, from: string, to: string, threshold?: number) {
+  return useQuery({
+    queryKey: ['inventory', pharmacyId, 'reconciliation', from, to, threshold],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to });
+      if (threshold) params.set('threshold', String(threshold));
+      const response = await authFetch(`/api/pharmacies/${pharmacyId}/stock-reconciliation?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch stock reconciliation');
+      }
+      return await response.json() as StockReconciliationReport;
+    },
+    enabled: !!pharmacyId,
+  });
+}
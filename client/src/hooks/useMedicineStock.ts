@@ -2,6 +2,9 @@ import { useState, useEffect, useCallback } from 'react';
 import { medicineStockManager } from '@/lib/medicineStockManager';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useQueryClient } from '@tanstack/react-query';
+import { authFetch } from '@/lib/queryClient';
+import type { PurchaseOrderDetail } from '@shared/purchasing';
 
 interface MedicineStock {
   id: string;
@@ -31,28 +34,16 @@ interface ReorderAlert {
   message: string;
   createdAt: string;
   acknowledged: boolean;
-  autoOrdered: boolean;
-}
-
-interface StockMovement {
-  id: string;
-  medicineId: string;
-  pharmacyId: string;
-  type: 'in' | 'out' | 'adjustment' | 'expired' | 'damaged';
-  quantity: number;
-  reason: string;
-  timestamp: string;
-  userId: string;
-  userName: string;
+  orderDrafted: boolean;
 }
 
 export function useMedicineStock(pharmacyId?: string) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   
   const [stock, setStock] = useState<MedicineStock[]>([]);
   const [alerts, setAlerts] = useState<ReorderAlert[]>([]);
-  const [movements, setMovements] = useState<StockMovement[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
 
@@ -64,7 +55,6 @@ export function useMedicineStock(pharmacyId?: string) {
     const handleStockUpdate = (data: any) => {
       setStock(data.stock);
       setAlerts(data.alerts);
-      setMovements(data.movements);
       setIsLoading(false);
     };
 
@@ -84,7 +74,6 @@ export function useMedicineStock(pharmacyId?: string) {
       
       setStock(filteredStock);
       setAlerts(medicineStockManager.getReorderAlerts());
-      setMovements(medicineStockManager.getStockMovements());
       setIsLoading(false);
     } catch (error) {
       console.error('Failed to load stock data:', error);
@@ -108,13 +97,8 @@ export function useMedicineStock(pharmacyId?: string) {
 
     setIsUpdating(true);
     try {
-      const updatedStock = await medicineStockManager.updateStock(
-        stockId,
-        newQuantity,
-        reason,
-        user.id,
-        user.name
-      );
+      const updatedStock = await medicineStockManager.updateStock(stockId, newQuantity, reason);
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
 
       toast({
         title: "Stock Updated",
@@ -133,11 +117,11 @@ export function useMedicineStock(pharmacyId?: string) {
     } finally {
       setIsUpdating(false);
     }
-  }, [user, toast]);
+  }, [user, toast, queryClient]);
 
   const acknowledgeAlert = useCallback(async (alertId: string) => {
     try {
-      const response = await fetch(`/api/reorder-alerts/${alertId}/acknowledge`, {
+      const response = await authFetch(`/api/reorder-alerts/${alertId}/acknowledge`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ acknowledged: true })
@@ -160,54 +144,36 @@ export function useMedicineStock(pharmacyId?: string) {
     }
   }, [toast]);
 
-  const createManualOrder = useCallback(async (
-    medicineId: string,
-    quantity: number,
-    supplier: string,
-    urgency: 'low' | 'medium' | 'high' | 'critical' = 'medium'
-  ) => {
-    if (!user) {
-      toast({
-        title: "Error",
-        description: "You must be logged in to create orders",
-        variant: "destructive"
-      });
-      return;
-    }
-
+  // Adds the medicine to a draft purchase order; the pharmacist approves it from the Orders tab
+  const draftReorder = useCallback(async (alert: ReorderAlert) => {
     try {
-      const response = await fetch('/api/medicine-orders', {
+      const response = await authFetch(`/api/pharmacies/${alert.pharmacyId}/purchase-orders/auto-draft`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          medicineId,
-          pharmacyId: pharmacyId || 'default',
-          quantity,
-          supplier,
-          urgency,
-          autoOrdered: false,
-          createdBy: user.id,
-          createdByName: user.name
-        })
+        body: JSON.stringify({ medicineIds: [alert.medicineId] })
       });
-
-      if (response.ok) {
-        toast({
-          title: "Order Created",
-          description: `Order for ${quantity} units has been created`,
-        });
-      } else {
-        throw new Error('Failed to create order');
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(error);
       }
+
+      const drafts: PurchaseOrderDetail[] = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['purchasing', alert.pharmacyId, 'orders'] });
+      toast({
+        title: drafts.length > 0 ? "Order Drafted" : "Already On Order",
+        description: drafts.length > 0
+          ? `${alert.medicineName} was added to a draft purchase order for your approval`
+          : `${alert.medicineName} is already on an open purchase order`,
+      });
     } catch (error) {
-      console.error('Failed to create order:', error);
+      console.error('Failed to draft order:', error);
       toast({
         title: "Order Failed",
-        description: "Failed to create order. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to draft the order. Please try again.",
         variant: "destructive"
       });
     }
-  }, [user, pharmacyId, toast]);
+  }, [queryClient, toast]);
 
   const getStockByStatus = useCallback((status: string) => {
     return stock.filter(item => item.status === status);
@@ -217,10 +183,6 @@ export function useMedicineStock(pharmacyId?: string) {
     return medicineStockManager.getLowStockItems();
   }, []);
 
-  const getStockMovements = useCallback((medicineId?: string) => {
-    return medicineStockManager.getStockMovements(medicineId, pharmacyId);
-  }, [pharmacyId]);
-
   const getStockStatistics = useCallback(() => {
     const totalItems = stock.length;
     const availableItems = stock.filter(item => item.status === 'available').length;
@@ -266,15 +228,13 @@ export function useMedicineStock(pharmacyId?: string) {
   return {
     stock,
     alerts,
-    movements,
     isLoading,
     isUpdating,
     updateStock,
     acknowledgeAlert,
-    createManualOrder,
+    draftReorder,
     getStockByStatus,
     getLowStockItems,
-    getStockMovements,
     getStockStatistics,
     searchStock,
     getExpiringSoon,
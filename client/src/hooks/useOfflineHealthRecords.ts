@@ -1,14 +1,19 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { offlineStorage } from '@/lib/offlineStorage';
+import { offlineStore } from '@/lib/offlineStore';
+import { syncPendingChanges } from '@/lib/offlineSync';
+import { syncQueueKey } from '@/hooks/useSyncQueue';
 import { HealthRecord, InsertHealthRecord } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { authFetch } from '@/lib/queryClient';
 
 export function useOfflineHealthRecords(patientId: string) {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'error'>('idle');
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  // Everything cached here stays in this patient's partition of the device store
+  const partition = useMemo(() => offlineStore.partition(patientId), [patientId]);
 
   // Monitor online status
   useEffect(() => {
@@ -36,15 +41,24 @@ export function useOfflineHealthRecords(patientId: string) {
     
     setSyncStatus('syncing');
     try {
-      await offlineStorage.syncPendingChanges();
+      const { applied, conflicts, failed } = await syncPendingChanges(partition);
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['health-records', patientId] });
-      setSyncStatus('idle');
-      
-      toast({
-        title: "Data Synced",
-        description: "Your offline data has been synchronized with the server.",
-      });
+      queryClient.invalidateQueries({ queryKey: syncQueueKey(patientId) });
+      setSyncStatus(conflicts + failed > 0 ? 'error' : 'idle');
+
+      if (conflicts + failed > 0) {
+        toast({
+          title: "Some Changes Need Attention",
+          description: `${applied} synced, ${conflicts + failed} could not be synced. Review them from the banner above.`,
+          variant: "destructive",
+        });
+      } else if (applied > 0) {
+        toast({
+          title: "Data Synced",
+          description: "Your offline data has been synchronized with the server.",
+        });
+      }
     } catch (error) {
       console.error('Sync failed:', error);
       setSyncStatus('error');
@@ -55,7 +69,7 @@ export function useOfflineHealthRecords(patientId: string) {
         variant: "destructive",
       });
     }
-  }, [isOnline, patientId, queryClient, toast]);
+  }, [isOnline, partition, patientId, queryClient, toast]);
 
   // Query for health records (combines online and offline data)
   const { data: healthRecords = [], isLoading } = useQuery({
@@ -64,12 +78,13 @@ export function useOfflineHealthRecords(patientId: string) {
       if (isOnline) {
         try {
           // Try to fetch from server first
-          const response = await fetch(`/api/health-records/patient/${patientId}`);
+          const response = await authFetch(`/api/health-records/patient/${patientId}`);
           if (response.ok) {
             const serverRecords = await response.json();
             // Also get offline records and merge
-            const offlineRecords = await offlineStorage.getHealthRecords(patientId);
-            return [...serverRecords, ...offlineRecords];
+            const offlineRecords = await partition.getAll('healthRecords');
+            const serverIds = new Set(serverRecords.map((record: HealthRecord) => record.id));
+            return [...serverRecords, ...offlineRecords.filter(record => !serverIds.has(record.id))];
           }
         } catch (error) {
           console.warn('Failed to fetch from server, using offline data:', error);
@@ -77,7 +92,7 @@ export function useOfflineHealthRecords(patientId: string) {
       }
       
       // Fallback to offline data
-      return await offlineStorage.getHealthRecords(patientId);
+      return await partition.getAll('healthRecords');
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
@@ -96,36 +111,24 @@ export function useOfflineHealthRecords(patientId: string) {
         value: recordData.value || null,
         unit: recordData.unit || null,
         normalRange: recordData.normalRange || null,
+        version: 1,
         createdAt: new Date(),
+        updatedAt: new Date(),
       };
 
-      // Always save to offline storage first
-      await offlineStorage.saveHealthRecord(newRecord);
+      // Always save to offline storage first, then hand it to the sync queue
+      await partition.put('healthRecords', newRecord);
+      await partition.enqueue('healthRecords', 'create', newRecord.id, recordData);
 
-      // If online, also try to sync to server
       if (isOnline) {
-        try {
-          const response = await fetch('/api/health-records', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(recordData),
-          });
-
-          if (response.ok) {
-            const serverRecord = await response.json();
-            // Update offline storage with server response
-            await offlineStorage.saveHealthRecord(serverRecord);
-            return serverRecord;
-          }
-        } catch (error) {
-          console.warn('Failed to sync to server, saved offline:', error);
-        }
+        await syncPendingChanges(partition);
       }
 
       return newRecord;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['health-records', patientId] });
+      queryClient.invalidateQueries({ queryKey: syncQueueKey(patientId) });
       
       toast({
         title: isOnline ? "Health Record Saved" : "Health Record Saved Offline",
@@ -146,27 +149,27 @@ export function useOfflineHealthRecords(patientId: string) {
 
   // Get cache statistics
   const getCacheStats = useCallback(async () => {
-    return await offlineStorage.getCacheSize();
-  }, []);
+    return await partition.getCacheSize();
+  }, [partition]);
 
   // Clear cache
   const clearCache = useCallback(async () => {
-    await offlineStorage.clearCache();
+    await partition.clear();
     queryClient.invalidateQueries({ queryKey: ['health-records', patientId] });
     
     toast({
       title: "Cache Cleared",
       description: "All offline data has been cleared.",
     });
-  }, [patientId, queryClient, toast]);
+  }, [partition, patientId, queryClient, toast]);
 
-  // Export data
-  const exportData = useCallback(async () => {
-    const blob = await offlineStorage.exportData();
+  // Export an encrypted backup; the same PIN is needed to import it
+  const exportData = useCallback(async (pin: string) => {
+    const blob = await partition.exportData(pin);
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `health-records-backup-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = `sehatsetu-backup-${new Date().toISOString().split('T')[0]}.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -174,14 +177,14 @@ export function useOfflineHealthRecords(patientId: string) {
     
     toast({
       title: "Data Exported",
-      description: "Your health records have been exported successfully.",
+      description: "Your health records have been exported as an encrypted backup.",
     });
-  }, [toast]);
+  }, [partition, toast]);
 
   // Import data
-  const importData = useCallback(async (file: File) => {
+  const importData = useCallback(async (file: File, pin: string) => {
     try {
-      await offlineStorage.importData(file);
+      await partition.importData(file, pin);
       queryClient.invalidateQueries({ queryKey: ['health-records', patientId] });
       
       toast({
@@ -192,11 +195,11 @@ export function useOfflineHealthRecords(patientId: string) {
       console.error('Import failed:', error);
       toast({
         title: "Import Failed",
-        description: "Failed to import health records. Please check the file format.",
+        description: error instanceof Error ? error.message : "Failed to import health records.",
         variant: "destructive",
       });
     }
-  }, [patientId, queryClient, toast]);
+  }, [partition, patientId, queryClient, toast]);
 
   return {
     healthRecords,
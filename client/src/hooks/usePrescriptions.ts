@@ -0,0 +1,330 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest, authFetch } from '@/lib/queryClient';
+import { wsManager } from '@/lib/websocket';
+import type { Medicine, MedicineStock, Pharmacist, Pharmacy, User } from '@shared/schema';
+import type {
+  PrescriptionMedicine,
+  PrescriptionStatus,
+  CreatePrescriptionRequest,
+  UpdatePrescriptionStatusRequest,
+  PrescriptionVerification,
+} from '@shared/prescriptions';
+import type { MedicineAlternative, MedicineGroup } from '@shared/medicineSearch';
+import type { Coordinates } from '@shared/geo';
+import type { NearbyStockResponse } from '@shared/pharmacyLocator';
+
+// Where to search from: the device's position, or a village name resolved by the server
+export type NearbySearchOrigin = Coordinates | { village: string };
+
+export type { PrescriptionStatus };
+
+export interface PrescriptionDetails {
+  id: string;
+  patientId: string;
+  doctorId: string;
+  appointmentId: string | null;
+  medicines: PrescriptionMedicine[];
+  instructions: string | null;
+  status: PrescriptionStatus;
+  pharmacyId: string | null;
+  pharmacistId: string | null;
+  signature: string | null;
+  signingKeyId: string | null;
+  signedAt: string | null;
+  validUntil: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PrescriptionHistoryEntry {
+  id: string;
+  prescriptionId: string;
+  fromStatus: PrescriptionStatus;
+  toStatus: PrescriptionStatus;
+  changedBy: string;
+  changedByName: string;
+  note: string | null;
+  createdAt: string;
+  dispenseItems: { id: string; medicineId: string; pharmacyId: string; batchId: string | null; quantity: number; createdAt: string }[];
+}
+
+export interface PrescriptionTransitionResult {
+  prescription: PrescriptionDetails;
+  outstanding: { medicineId: string; quantity: number }[];
+}
+
+export interface PharmacyPrescription extends PrescriptionDetails {
+  patient: User;
+  doctor: { id: string; specialty: string; user: User };
+}
+
+export interface PatientPrescription extends PrescriptionDetails {
+  doctor: { id: string; specialty: string; user: User };
+  pharmacy: Pharmacy | null;
+}
+
+export function useMedicineSearch(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ['medicines', 'search', trimmed],
+    queryFn: async () => {
+      const response = await authFetch(`/api/medicines/search?q=${encodeURIComponent(trimmed)}`);
+      if (!response.ok) {
+        throw new Error('Failed to search medicines');
+      }
+      return await response.json() as Medicine[];
+    },
+    enabled: trimmed.length >= 2,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Brands grouped under their generic name; Hindi/Punjabi spellings and typos match too
+export function useGroupedMedicineSearch(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ['medicines', 'search', trimmed, 'generic'],
+    queryFn: async () => {
+      const response = await authFetch(`/api/medicines/search?q=${encodeURIComponent(trimmed)}&group=generic`);
+      if (!response.ok) {
+        throw new Error('Failed to search medicines');
+      }
+      return await response.json() as MedicineGroup[];
+    },
+    enabled: trimmed.length >= 2,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useMedicineAvailability(medicineId: string | undefined) {
+  return useQuery({
+    queryKey: ['medicines', medicineId, 'stock'],
+    queryFn: async () => {
+      const response = await authFetch(`/api/medicines/${medicineId}/stock`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch medicine stock');
+      }
+      return await response.json() as (MedicineStock & { pharmacy: Pharmacy })[];
+    },
+    enabled: !!medicineId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+export function useNearbyMedicineStock(medicineId: string | undefined, origin: NearbySearchOrigin | null) {
+  const params = origin
+    ? 'village' in origin
+      ? `village=${encodeURIComponent(origin.village)}`
+      : `lat=${origin.lat}&lng=${origin.lng}`
+    : '';
+
+  return useQuery({
+    queryKey: ['medicines', medicineId, 'nearby', params],
+    queryFn: async () => {
+      const response = await authFetch(`/api/medicines/${medicineId}/nearby?${params}`);
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(error || 'Failed to find nearby pharmacies');
+      }
+      return await response.json() as NearbyStockResponse;
+    },
+    enabled: !!medicineId && !!origin,
+    retry: false,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+export function useMedicineAlternatives(medicineId: string | undefined, origin: Coordinates | null) {
+  return useQuery({
+    queryKey: ['medicines', medicineId, 'alternatives', origin?.lat, origin?.lng],
+    queryFn: async () => {
+      const params = origin ? `?lat=${origin.lat}&lng=${origin.lng}` : '';
+      const response = await authFetch(`/api/medicines/${medicineId}/alternatives${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch alternatives');
+      }
+      return await response.json() as MedicineAlternative[];
+    },
+    enabled: !!medicineId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+export function usePharmacies() {
+  return useQuery({
+    queryKey: ['pharmacies'],
+    queryFn: async () => {
+      const response = await authFetch('/api/pharmacies');
+      if (!response.ok) {
+        throw new Error('Failed to fetch pharmacies');
+      }
+      return await response.json() as Pharmacy[];
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useCurrentPharmacist() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['pharmacist', 'user', user?.id],
+    queryFn: async () => {
+      const response = await authFetch(`/api/pharmacists/user/${user!.id}`);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error('Failed to fetch pharmacist profile');
+      }
+      return await response.json() as Pharmacist;
+    },
+    enabled: user?.role === 'pharmacist',
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Prescriptions routed to the pharmacist's pharmacy. Refreshes as soon as a
+ * patient routes a new prescription here or another pharmacist updates one.
+ */
+export function usePharmacyPrescriptions(pharmacist: Pharmacist | null | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = ['prescriptions', 'pharmacist', pharmacist?.id];
+
+  useEffect(() => {
+    if (!pharmacist?.pharmacyId) return;
+
+    wsManager.connect();
+    const leave = wsManager.joinChannel(`pharmacy:${pharmacist.pharmacyId}`);
+    const refresh = () => queryClient.invalidateQueries({ queryKey: ['prescriptions', 'pharmacist', pharmacist.id] });
+    const unsubscribers = [
+      wsManager.subscribe('prescription-routed', refresh),
+      wsManager.subscribe('prescription-withdrawn', refresh),
+      wsManager.subscribe('prescription-updated', refresh),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      leave();
+    };
+  }, [pharmacist?.id, pharmacist?.pharmacyId, queryClient]);
+
+  return useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await authFetch(`/api/pharmacists/${pharmacist!.id}/prescriptions`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch prescriptions');
+      }
+      return await response.json() as PharmacyPrescription[];
+    },
+    enabled: !!pharmacist,
+  });
+}
+
+export function usePatientPrescriptions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['prescriptions', 'patient', user?.id],
+    queryFn: async () => {
+      const response = await authFetch(`/api/prescriptions/patient/${user!.id}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch prescriptions');
+      }
+      return await response.json() as PatientPrescription[];
+    },
+    enabled: user?.role === 'patient',
+  });
+}
+
+export function useCreatePrescription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (prescription: CreatePrescriptionRequest) => {
+      const response = await apiRequest('POST', '/api/prescriptions', prescription);
+      return await response.json() as PrescriptionDetails;
+    },
+    onSuccess: (prescription) => {
+      queryClient.invalidateQueries({ queryKey: ['prescriptions', 'patient', prescription.patientId] });
+    },
+  });
+}
+
+export function useRoutePrescription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ prescriptionId, pharmacyId }: { prescriptionId: string; pharmacyId: string }) => {
+      const response = await apiRequest('PUT', `/api/prescriptions/${prescriptionId}/pharmacy`, { pharmacyId });
+      return await response.json() as PrescriptionDetails;
+    },
+    onSuccess: (prescription) => {
+      queryClient.invalidateQueries({ queryKey: ['prescriptions', 'patient', prescription.patientId] });
+    },
+  });
+}
+
+export function usePrescriptionHistory(prescriptionId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['prescriptions', 'history', prescriptionId],
+    queryFn: async () => {
+      const response = await authFetch(`/api/prescriptions/${prescriptionId}/history`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch prescription history');
+      }
+      return await response.json() as PrescriptionHistoryEntry[];
+    },
+    enabled,
+  });
+}
+
+export function useUpdatePrescriptionStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ prescriptionId, ...update }: UpdatePrescriptionStatusRequest & { prescriptionId: string }) => {
+      const response = await apiRequest('PUT', `/api/prescriptions/${prescriptionId}/status`, update);
+      return await response.json() as PrescriptionTransitionResult;
+    },
+    onSuccess: ({ prescription }) => {
+      queryClient.invalidateQueries({ queryKey: ['prescriptions', 'pharmacist'] });
+      queryClient.invalidateQueries({ queryKey: ['prescriptions', 'history', prescription.id] });
+    },
+  });
+}
+
+// Verification checks the printed QR code's signature when one is presented
+export function useVerifyPrescription() {
+  return useMutation({
+    mutationFn: async ({ prescriptionId, signature }: { prescriptionId: string; signature?: string }) => {
+      const params = signature ? `?signature=${encodeURIComponent(signature)}` : '';
+      const response = await authFetch(`/api/prescriptions/${encodeURIComponent(prescriptionId)}/verify${params}`);
+      if (response.status === 404) {
+        throw new Error('No prescription matches this code');
+      }
+      if (!response.ok) {
+        throw new Error('Could not verify the prescription');
+      }
+      return await response.json() as PrescriptionVerification;
+    },
+  });
+}
+
+export async function downloadPrescriptionPdf(prescriptionId: string): Promise<void> {
+  const response = await authFetch(`/api/prescriptions/${prescriptionId}/pdf`);
+  if (!response.ok) {
+    throw new Error('Failed to download prescription');
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `prescription-${prescriptionId}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
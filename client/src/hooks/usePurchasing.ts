@@ -0,0 +1,145 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, authFetch } from '@/lib/queryClient';
+import type { GoodsReceipt, ReorderRule, StockBatch, Supplier } from '@shared/schema';
+import type {
+  CreatePurchaseOrderRequest, GoodsReceiptRequest, PurchaseOrderDetail, PurchaseOrderStatus,
+  ReorderRuleRequest, SupplierRequest, UpdatePurchaseOrderRequest
+} from '@shared/purchasing';
+
+export function useSuppliers() {
+  return useQuery({
+    queryKey: ['suppliers'],
+    queryFn: async () => {
+      const response = await authFetch('/api/suppliers');
+      if (!response.ok) {
+        throw new Error('Failed to fetch suppliers');
+      }
+      return await response.json() as Supplier[];
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+export function useCreateSupplier() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (supplier: SupplierRequest) => {
+      const response = await apiRequest('POST', '/api/suppliers', supplier);
+      return await response.json() as Supplier;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    },
+  });
+}
+
+export function useReorderRules(pharmacyId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['purchasing', pharmacyId, 'reorder-rules'],
+    queryFn: async () => {
+      const response = await authFetch(`/api/pharmacies/${pharmacyId}/reorder-rules`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch reorder rules');
+      }
+      return await response.json() as (ReorderRule & { medicineName: string })[];
+    },
+    enabled: !!pharmacyId,
+  });
+}
+
+export function useSaveReorderRule(pharmacyId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ medicineId, ...rule }: ReorderRuleRequest & { medicineId: string }) => {
+      const response = await apiRequest('PUT', `/api/pharmacies/${pharmacyId}/reorder-rules/${medicineId}`, rule);
+      return await response.json() as ReorderRule;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchasing', pharmacyId, 'reorder-rules'] });
+    },
+  });
+}
+
+export function usePurchaseOrders(pharmacyId: string | null | undefined, status?: PurchaseOrderStatus) {
+  return useQuery({
+    queryKey: ['purchasing', pharmacyId, 'orders', status ?? 'all'],
+    queryFn: async () => {
+      const params = status ? `?status=${status}` : '';
+      const response = await authFetch(`/api/pharmacies/${pharmacyId}/purchase-orders${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch purchase orders');
+      }
+      return await response.json() as PurchaseOrderDetail[];
+    },
+    enabled: !!pharmacyId,
+  });
+}
+
+// Every order mutation returns the order; refetch the lists rather than patching them
+function usePurchaseOrderMutation<TVariables>(
+  pharmacyId: string | null | undefined,
+  request: (variables: TVariables) => Promise<Response>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const response = await request(variables);
+      return await response.json() as PurchaseOrderDetail;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchasing', pharmacyId, 'orders'] });
+    },
+  });
+}
+
+export function useCreatePurchaseOrder(pharmacyId: string | null | undefined) {
+  return usePurchaseOrderMutation(pharmacyId, (order: CreatePurchaseOrderRequest) =>
+    apiRequest('POST', `/api/pharmacies/${pharmacyId}/purchase-orders`, order));
+}
+
+export function useUpdatePurchaseOrder(pharmacyId: string | null | undefined) {
+  return usePurchaseOrderMutation(pharmacyId, ({ orderId, ...updates }: UpdatePurchaseOrderRequest & { orderId: string }) =>
+    apiRequest('PUT', `/api/pharmacies/${pharmacyId}/purchase-orders/${orderId}`, updates));
+}
+
+export function useSendPurchaseOrder(pharmacyId: string | null | undefined) {
+  return usePurchaseOrderMutation(pharmacyId, (orderId: string) =>
+    apiRequest('POST', `/api/pharmacies/${pharmacyId}/purchase-orders/${orderId}/send`));
+}
+
+export function useCancelPurchaseOrder(pharmacyId: string | null | undefined) {
+  return usePurchaseOrderMutation(pharmacyId, ({ orderId, reason }: { orderId: string; reason?: string }) =>
+    apiRequest('POST', `/api/pharmacies/${pharmacyId}/purchase-orders/${orderId}/cancel`, { reason }));
+}
+
+export function useDraftReorderOrders(pharmacyId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (medicineIds: string[]) => {
+      const response = await apiRequest('POST', `/api/pharmacies/${pharmacyId}/purchase-orders/auto-draft`, { medicineIds });
+      return await response.json() as PurchaseOrderDetail[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchasing', pharmacyId, 'orders'] });
+    },
+  });
+}
+
+export function useReceiveGoods(pharmacyId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, ...receipt }: GoodsReceiptRequest & { orderId: string }) => {
+      const response = await apiRequest('POST', `/api/pharmacies/${pharmacyId}/purchase-orders/${orderId}/receipts`, receipt);
+      return await response.json() as { receipt: GoodsReceipt; batches: StockBatch[]; order: PurchaseOrderDetail };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchasing', pharmacyId, 'orders'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory', pharmacyId] });
+    },
+  });
+}
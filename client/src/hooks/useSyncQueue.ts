@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { offlineStore, type SyncQueueItem } from '@/lib/offlineStore';
+import { syncPendingChanges, pullChanges, retrySyncItem, discardSyncItem, resolveSyncConflict } from '@/lib/offlineSync';
+import { handleBackgroundSync, requestBackgroundSync } from '@/lib/serviceWorker';
+
+export const syncQueueKey = (userId?: string) => ['sync-queue', userId];
+
+// Longest we go without pulling server changes while online
+const MAX_IDLE_MS = 5 * 60_000;
+
+/**
+ * The signed-in user's offline change queue. Mount `autoSync` once (the layout
+ * does) to push it and pull server changes on start, when the device comes
+ * online (or the service worker's background sync fires), whenever a
+ * backed-off retry falls due and every few minutes; other callers just read and
+ * act on it.
+ */
+export function useSyncQueue({ autoSync = false }: { autoSync?: boolean } = {}) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const partition = useMemo(() => (user ? offlineStore.partition(user.id) : null), [user?.id]);
+
+  const { data: items = [] } = useQuery({
+    queryKey: syncQueueKey(user?.id),
+    queryFn: () => partition!.getQueue(),
+    enabled: !!partition,
+  });
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: syncQueueKey(user?.id) });
+    queryClient.invalidateQueries({ queryKey: ['health-records'] });
+  }, [queryClient, user?.id]);
+
+  const syncNow = useCallback(async () => {
+    if (!partition) return null;
+    const summary = await syncPendingChanges(partition);
+    await pullChanges(partition).catch(error => console.warn('Failed to pull server changes:', error));
+    refresh();
+    return summary;
+  }, [partition, refresh]);
+
+  const pending = items.filter(item => item.state === 'pending');
+  const nextAttemptAt = pending.length > 0 ? Math.min(...pending.map(item => item.nextAttemptAt)) : null;
+
+  useEffect(() => {
+    if (autoSync && partition && navigator.onLine) {
+      syncNow();
+    }
+  }, [autoSync, partition, syncNow]);
+
+  useEffect(() => {
+    if (!autoSync || !partition) return;
+
+    // Offline, nothing can go out until the 'online' event
+    const due = nextAttemptAt !== null && navigator.onLine;
+    const wait = due ? Math.min(MAX_IDLE_MS, Math.max(0, nextAttemptAt - Date.now())) : MAX_IDLE_MS;
+    const timer = setTimeout(() => {
+      if (navigator.onLine) {
+        syncNow();
+      } else {
+        refresh();
+      }
+    }, wait);
+    window.addEventListener('online', syncNow);
+
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', syncNow);
+    };
+    // items: re-arm after every run, which may have left more due than one batch holds
+  }, [autoSync, partition, items, nextAttemptAt, syncNow, refresh]);
+
+  useEffect(() => {
+    if (!autoSync || !partition) return;
+    return handleBackgroundSync(syncNow);
+  }, [autoSync, partition, syncNow]);
+
+  useEffect(() => {
+    if (autoSync && pending.length > 0 && !navigator.onLine) {
+      requestBackgroundSync().catch(error => console.warn('Background sync unavailable:', error));
+    }
+  }, [autoSync, pending.length]);
+
+  const withRefresh = <A extends unknown[]>(action: (...args: A) => Promise<void>) =>
+    async (...args: A) => {
+      await action(...args);
+      refresh();
+    };
+
+  return {
+    items,
+    pending,
+    failed: items.filter(item => item.state === 'failed'),
+    conflicts: items.filter(item => item.state === 'conflict'),
+    syncNow,
+    retry: withRefresh((item: SyncQueueItem) => retrySyncItem(partition!, item)),
+    discard: withRefresh((item: SyncQueueItem) => discardSyncItem(partition!, item)),
+    resolve: withRefresh((item: SyncQueueItem, resolution: Parameters<typeof resolveSyncConflict>[2]) =>
+      resolveSyncConflict(partition!, item, resolution)),
+  };
+}
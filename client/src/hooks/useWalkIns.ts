@@ -0,0 +1,148 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, authFetch } from '@/lib/queryClient';
+import { wsManager } from '@/lib/websocket';
+import type { Appointment, WalkIn } from '@shared/schema';
+import {
+  walkInChannel, WALK_IN_QUEUE_CHANNEL,
+  type WalkInEntry, type WalkInRegistration, type WalkInUpdateMessage
+} from '@shared/triage';
+
+// The patient's walk-in still waiting or in consultation, if any
+export function useActiveWalkIn(patientId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['walk-in', 'patient', patientId],
+    queryFn: async () => {
+      const response = await authFetch(`/api/walk-ins/patient/${patientId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch waiting room status');
+      }
+      return await response.json() as WalkInEntry | null;
+    },
+    enabled: !!patientId,
+  });
+}
+
+/**
+ * One walk-in, kept live from the queue broadcasts: the place in line is
+ * updated in place, while a call, cancellation or reassignment refetches the
+ * entry for the doctor's name and appointment.
+ */
+export function useWalkIn(walkInId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!walkInId) return;
+
+    wsManager.connect();
+    const leave = wsManager.joinChannel(walkInChannel(walkInId));
+    const unsubscribe = wsManager.subscribe('walk-in-updated', (message: WalkInUpdateMessage) => {
+      if (message.walkInId !== walkInId) return;
+      const current = queryClient.getQueryData<WalkInEntry>(['walk-in', walkInId]);
+      if (current && current.status === message.status && current.doctorId === message.doctorId) {
+        queryClient.setQueryData(['walk-in', walkInId], { ...current, position: message.position });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['walk-in'] });
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      leave();
+    };
+  }, [walkInId, queryClient]);
+
+  return useQuery({
+    queryKey: ['walk-in', walkInId],
+    queryFn: async () => {
+      const response = await authFetch(`/api/walk-ins/${walkInId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch walk-in');
+      }
+      return await response.json() as WalkInEntry;
+    },
+    enabled: !!walkInId,
+  });
+}
+
+/**
+ * Patients waiting for this doctor (or for anyone), refreshed whenever the
+ * queue changes
+ */
+export function useWalkInQueue(doctorId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!doctorId) return;
+
+    wsManager.connect();
+    const leave = wsManager.joinChannel(WALK_IN_QUEUE_CHANNEL);
+    const unsubscribe = wsManager.subscribe('walk-in-queue-changed', () => {
+      queryClient.invalidateQueries({ queryKey: ['walk-ins'] });
+    });
+
+    return () => {
+      unsubscribe();
+      leave();
+    };
+  }, [doctorId, queryClient]);
+
+  return useQuery({
+    queryKey: ['walk-ins', doctorId],
+    queryFn: async () => {
+      const response = await authFetch(`/api/walk-ins?doctorId=${doctorId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch walk-in queue');
+      }
+      return await response.json() as WalkInEntry[];
+    },
+    enabled: !!doctorId,
+  });
+}
+
+export function useRegisterWalkIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (registration: WalkInRegistration) => {
+      const response = await apiRequest('POST', '/api/walk-ins', registration);
+      return await response.json() as WalkInEntry;
+    },
+    onSuccess: (walkIn) => {
+      queryClient.setQueryData(['walk-in', walkIn.id], walkIn);
+      queryClient.invalidateQueries({ queryKey: ['walk-in', 'patient', walkIn.patientId] });
+      queryClient.invalidateQueries({ queryKey: ['walk-ins'] });
+    },
+  });
+}
+
+export function useCancelWalkIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (walkInId: string) => {
+      const response = await apiRequest('POST', `/api/walk-ins/${walkInId}/cancel`);
+      return await response.json() as WalkIn;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['walk-in'] });
+      queryClient.invalidateQueries({ queryKey: ['walk-ins'] });
+    },
+  });
+}
+
+// Take the next walk-in; the caller opens the video room for the new appointment
+export function useCallNextWalkIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (doctorId: string) => {
+      const response = await apiRequest('POST', `/api/doctors/${doctorId}/walk-ins/next`);
+      return await response.json() as { walkIn: WalkInEntry; appointment: Appointment };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['walk-ins'] });
+      queryClient.invalidateQueries({ queryKey: ['doctor-queue'] });
+    },
+  });
+}
@@ -0,0 +1,160 @@
+import type { CallMode } from '@shared/callSessions';
+
+/**
+ * Keeps a consultation going on weak 2G/3G links. The call samples
+ * RTCPeerConnection.getStats() every few seconds; while the link keeps falling
+ * short, video is capped to a lower bitrate and resolution, then dropped for
+ * audio-only, then the call carries on as text chat. Stepping down is
+ * deliberate (several poor samples in a row) and only video profiles step
+ * back up, since renegotiating media on a link that just failed rarely helps.
+ */
+
+export type LinkQuality = 'high' | 'medium' | 'low';
+
+export const STATS_INTERVAL_MS = 4_000;
+
+// Sender caps from best to lightest; each one halves the resolution of the one before
+export const VIDEO_PROFILES = [
+  { maxBitrateKbps: 800, scaleResolutionDownBy: 1 },
+  { maxBitrateKbps: 350, scaleResolutionDownBy: 2 },
+  { maxBitrateKbps: 150, scaleResolutionDownBy: 4 },
+] as const;
+
+export const AUDIO_MAX_BITRATE_KBPS = 32;
+
+// Consecutive samples needed before changing anything
+const STEP_DOWN_AFTER = 2;
+const STEP_UP_AFTER = 4;
+
+const POOR_PACKET_LOSS_PERCENT = 10;
+const GOOD_PACKET_LOSS_PERCENT = 2;
+const POOR_ROUND_TRIP_MS = 1_000;
+const GOOD_ROUND_TRIP_MS = 400;
+
+export interface LinkSample {
+  availableBitrateKbps: number | null; // sender-side estimate of what the link can carry
+  roundTripMs: number | null;
+  packetLossPercent: number | null;    // inbound loss since the previous sample
+}
+
+export interface StatsCounters {
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+export interface AdaptationState {
+  mode: CallMode;
+  videoProfile: number; // index into VIDEO_PROFILES
+  poorSamples: number;
+  goodSamples: number;
+}
+
+export function initialAdaptation(mode: CallMode): AdaptationState {
+  return { mode, videoProfile: 0, poorSamples: 0, goodSamples: 0 };
+}
+
+export async function sampleLink(
+  connection: RTCPeerConnection,
+  previous: StatsCounters | null
+): Promise<{ sample: LinkSample; counters: StatsCounters }> {
+  const report = await connection.getStats();
+  const sample: LinkSample = { availableBitrateKbps: null, roundTripMs: null, packetLossPercent: null };
+  const counters: StatsCounters = { packetsReceived: 0, packetsLost: 0 };
+
+  report.forEach((stat: RTCStats) => {
+    if (isCandidatePair(stat) && stat.state === 'succeeded' && stat.nominated) {
+      if (typeof stat.availableOutgoingBitrate === 'number') {
+        sample.availableBitrateKbps = stat.availableOutgoingBitrate / 1000;
+      }
+      if (typeof stat.currentRoundTripTime === 'number') {
+        sample.roundTripMs = stat.currentRoundTripTime * 1000;
+      }
+    } else if (isInboundRtp(stat)) {
+      counters.packetsReceived += stat.packetsReceived ?? 0;
+      counters.packetsLost += stat.packetsLost ?? 0;
+    }
+  });
+
+  if (previous) {
+    const received = counters.packetsReceived - previous.packetsReceived;
+    const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+    if (received + lost > 0) {
+      sample.packetLossPercent = (lost / (received + lost)) * 100;
+    }
+  }
+
+  return { sample, counters };
+}
+
+const isCandidatePair = (stat: RTCStats): stat is RTCIceCandidatePairStats => stat.type === 'candidate-pair';
+const isInboundRtp = (stat: RTCStats): stat is RTCInboundRtpStreamStats => stat.type === 'inbound-rtp';
+
+// The bitrate the current mode needs to hold up
+function requiredKbps(state: AdaptationState): number {
+  return state.mode === 'video' ? VIDEO_PROFILES[state.videoProfile].maxBitrateKbps : AUDIO_MAX_BITRATE_KBPS;
+}
+
+// How the link is coping with what the call currently sends
+export function rateLink(sample: LinkSample, state: AdaptationState): LinkQuality {
+  const required = requiredKbps(state);
+  const loss = sample.packetLossPercent ?? 0;
+  const roundTrip = sample.roundTripMs ?? 0;
+  const bitrate = sample.availableBitrateKbps;
+
+  if (loss >= POOR_PACKET_LOSS_PERCENT || roundTrip >= POOR_ROUND_TRIP_MS || (bitrate !== null && bitrate < required)) {
+    return 'low';
+  }
+  if (loss < GOOD_PACKET_LOSS_PERCENT && roundTrip < GOOD_ROUND_TRIP_MS && (bitrate === null || bitrate >= required * 2)) {
+    return 'high';
+  }
+  return 'medium';
+}
+
+// The next state after one sample; a change of mode or video profile is for the caller to apply
+export function adaptToLink(state: AdaptationState, sample: LinkSample): AdaptationState {
+  if (state.mode === 'chat') return state;
+
+  const quality = rateLink(sample, state);
+  if (quality === 'low') {
+    const poorSamples = state.poorSamples + 1;
+    if (poorSamples < STEP_DOWN_AFTER) {
+      return { ...state, poorSamples, goodSamples: 0 };
+    }
+    if (state.mode === 'video' && state.videoProfile < VIDEO_PROFILES.length - 1) {
+      return { ...state, videoProfile: state.videoProfile + 1, poorSamples: 0, goodSamples: 0 };
+    }
+    return { ...state, mode: state.mode === 'video' ? 'audio' : 'chat', poorSamples: 0, goodSamples: 0 };
+  }
+
+  if (quality === 'high' && state.mode === 'video' && state.videoProfile > 0) {
+    const goodSamples = state.goodSamples + 1;
+    const better = VIDEO_PROFILES[state.videoProfile - 1];
+    const fits = sample.availableBitrateKbps === null || sample.availableBitrateKbps >= better.maxBitrateKbps * 1.5;
+    if (goodSamples >= STEP_UP_AFTER && fits) {
+      return { ...state, videoProfile: state.videoProfile - 1, poorSamples: 0, goodSamples: 0 };
+    }
+    return { ...state, poorSamples: 0, goodSamples };
+  }
+
+  return { ...state, poorSamples: 0, goodSamples: 0 };
+}
+
+// Cap what this side sends: the video profile for video calls, a voice bitrate otherwise
+export async function applySenderLimits(connection: RTCPeerConnection, state: AdaptationState): Promise<void> {
+  const profile = VIDEO_PROFILES[state.videoProfile];
+  await Promise.all(connection.getSenders().map(async sender => {
+    const kind = sender.track?.kind;
+    if (!kind) return;
+    const parameters = sender.getParameters();
+    if (!parameters.encodings?.length) {
+      parameters.encodings = [{}];
+    }
+    if (kind === 'video') {
+      parameters.encodings[0].maxBitrate = profile.maxBitrateKbps * 1000;
+      parameters.encodings[0].scaleResolutionDownBy = profile.scaleResolutionDownBy;
+    } else if (state.mode !== 'video') {
+      parameters.encodings[0].maxBitrate = AUDIO_MAX_BITRATE_KBPS * 1000;
+    }
+    await sender.setParameters(parameters);
+  }));
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import type { StockSyncItem, StockSyncResponse } from '@shared/stockSync';
+
+vi.mock('./offlineStore', () => ({
+  offlineStore: {
+    shared: {
+      getAll: vi.fn(async () => []),
+      put: vi.fn(async () => {}),
+      putMany: vi.fn(async () => {}),
+    },
+  },
+}));
+
+vi.mock('./queryClient', () => ({ authFetch: vi.fn() }));
+
+import { authFetch } from './queryClient';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => void storage.set(key, value),
+});
+
+const row = (currentStock: number, version: number): StockSyncItem => ({
+  id: 'stock-1',
+  medicineId: 'med-1',
+  medicineName: 'Paracetamol 500mg',
+  pharmacyId: 'pharmacy-1',
+  pharmacyName: 'Nabha Medical Store',
+  currentStock,
+  minimumStock: 20,
+  maximumStock: 500,
+  unitPrice: 25,
+  lastUpdated: '2026-10-19T08:00:00.000Z',
+  status: 'available',
+  supplier: 'Sun Pharma',
+  version,
+});
+
+const syncResponses: StockSyncResponse[] = [];
+const respondWith = (response: Partial<StockSyncResponse>) =>
+  syncResponses.push({ updates: [], conflicts: [], serverTime: '2026-10-19T08:00:00.000Z', ...response });
+vi.mocked(authFetch).mockImplementation(async () => new Response(JSON.stringify(syncResponses.shift())));
+
+const sentChanges = (call: number) => JSON.parse(vi.mocked(authFetch).mock.calls[call][1]!.body as string).localChanges;
+
+respondWith({ updates: [row(100, 1)] });
+const { medicineStockManager } = await import('./medicineStockManager');
+
+describe('MedicineStockManager conflicts', () => {
+  afterAll(() => medicineStockManager.destroy());
+
+  it('replays a local sale on top of a concurrent server change', async () => {
+    await vi.waitFor(() => expect(medicineStockManager.getAllStock()).toHaveLength(1));
+
+    // Meanwhile another counter sold 20 (100 -> 80, now version 2)
+    respondWith({
+      conflicts: [{
+        id: 'stock-1',
+        medicineId: 'med-1',
+        medicineName: 'Paracetamol 500mg',
+        localVersion: { id: 'stock-1', version: 1, currentStock: 97 },
+        serverVersion: row(80, 2),
+      }],
+    });
+    await medicineStockManager.updateStock('stock-1', 97, 'sold 3');
+
+    expect(sentChanges(1)).toEqual([expect.objectContaining({ version: 1, currentStock: 97, reason: 'sold 3' })]);
+    expect(medicineStockManager.getAllStock()[0]).toMatchObject({ currentStock: 77, version: 2 });
+
+    // The merged quantity is resubmitted against the server's version and accepted
+    respondWith({ updates: [row(77, 3)] });
+    await medicineStockManager.refresh();
+
+    expect(sentChanges(2)).toEqual([expect.objectContaining({ version: 2, currentStock: 77, reason: 'sold 3' })]);
+    expect(medicineStockManager.getAllStock()[0]).toMatchObject({ currentStock: 77, version: 3 });
+
+    respondWith({});
+    await medicineStockManager.refresh();
+    expect(sentChanges(3)).toEqual([]);
+  });
+});
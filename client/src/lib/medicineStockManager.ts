@@ -1,4 +1,7 @@
-import { offlineStorage } from './offlineStorage';
+import { offlineStore } from './offlineStore';
+import { authFetch } from './queryClient';
+import type { StockConflict, StockLocalChange, StockSyncResponse } from '@shared/stockSync';
+import type { PurchaseOrderDetail } from '@shared/purchasing';
 
 interface MedicineStock {
   id: string;
@@ -15,6 +18,15 @@ interface MedicineStock {
   supplier: string;
   expiryDate?: string;
   batchNumber?: string;
+  version: number;
+}
+
+// A quantity edited here but not yet accepted by the server
+interface PendingStockChange {
+  version: number;   // server version the edit started from
+  baseStock: number; // quantity at that version
+  currentStock: number;
+  reason?: string;   // kept on the server's ledger entry for this change
 }
 
 interface ReorderAlert {
@@ -28,25 +40,13 @@ interface ReorderAlert {
   message: string;
   createdAt: string;
   acknowledged: boolean;
-  autoOrdered: boolean;
-}
-
-interface StockMovement {
-  id: string;
-  medicineId: string;
-  pharmacyId: string;
-  type: 'in' | 'out' | 'adjustment' | 'expired' | 'damaged';
-  quantity: number;
-  reason: string;
-  timestamp: string;
-  userId: string;
-  userName: string;
+  orderDrafted: boolean;
 }
 
 class MedicineStockManager {
   private stockData: Map<string, MedicineStock> = new Map();
   private reorderAlerts: ReorderAlert[] = [];
-  private stockMovements: StockMovement[] = [];
+  private pendingChanges: Map<string, PendingStockChange> = new Map();
   private listeners: Set<(data: any) => void> = new Set();
   private syncInterval: NodeJS.Timeout | null = null;
 
@@ -57,14 +57,8 @@ class MedicineStockManager {
 
   private async initializeStockData(): Promise<void> {
     try {
-      // Load initial stock data from API or offline storage
-      const response = await fetch('/api/medicine-stock/all');
-      if (response.ok) {
-        const stockData = await response.json();
-        stockData.forEach((stock: MedicineStock) => {
-          this.stockData.set(stock.id, stock);
-        });
-      } else {
+      // Full sync: nothing is held in memory yet, whatever lastStockSync says
+      if (!await this.syncWithServer(true)) {
         // Fallback to offline data
         console.warn('Failed to load stock data from API, using offline data');
         await this.loadOfflineStockData();
@@ -79,7 +73,13 @@ class MedicineStockManager {
   }
 
   private async loadOfflineStockData(): Promise<void> {
-    // In a real implementation, this would load from IndexedDB or SQLite
+    const cached = await offlineStore.shared.getAll('stock').catch(() => []);
+    if (cached.length > 0) {
+      cached.forEach(stock => this.stockData.set(stock.id, stock));
+      return;
+    }
+
+    // Nothing cached on this device yet
     const mockStockData: MedicineStock[] = [
       {
         id: 'stock-1',
@@ -95,7 +95,8 @@ class MedicineStockManager {
         status: 'available',
         supplier: 'Sun Pharma',
         expiryDate: '2025-12-31',
-        batchNumber: 'SP2024001'
+        batchNumber: 'SP2024001',
+        version: 1
       },
       {
         id: 'stock-2',
@@ -111,7 +112,8 @@ class MedicineStockManager {
         status: 'reorder_needed',
         supplier: 'Cipla',
         expiryDate: '2025-06-30',
-        batchNumber: 'CP2024002'
+        batchNumber: 'CP2024002',
+        version: 1
       },
       {
         id: 'stock-3',
@@ -127,7 +129,8 @@ class MedicineStockManager {
         status: 'out_of_stock',
         supplier: 'Novo Nordisk',
         expiryDate: '2025-03-15',
-        batchNumber: 'NN2024003'
+        batchNumber: 'NN2024003',
+        version: 1
       }
     ];
 
@@ -143,147 +146,134 @@ class MedicineStockManager {
     }, 30000);
   }
 
-  private async syncWithServer(): Promise<void> {
+  private async syncWithServer(full = false): Promise<boolean> {
+    const submitted = new Map(this.pendingChanges);
     try {
-      const response = await fetch('/api/medicine-stock/sync', {
+      const response = await authFetch('/api/medicine-stock/sync', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          lastSync: localStorage.getItem('lastStockSync') || new Date(0).toISOString(),
-          localChanges: this.getLocalChanges()
+          lastSync: (!full && localStorage.getItem('lastStockSync')) || new Date(0).toISOString(),
+          localChanges: this.getLocalChanges(submitted)
         })
       });
 
-      if (response.ok) {
-        const { updates, conflicts } = await response.json();
-        
-        // Apply server updates
-        updates.forEach((update: MedicineStock) => {
-          this.stockData.set(update.id, update);
-        });
-
-        // Handle conflicts
-        if (conflicts.length > 0) {
-          console.warn('Stock conflicts detected:', conflicts);
-          this.handleConflicts(conflicts);
+      if (!response.ok) {
+        return false;
+      }
+      const { updates, conflicts, serverTime }: StockSyncResponse = await response.json();
+
+      // Apply server updates; our own accepted edits come back with a newer version
+      updates.forEach((update) => {
+        const pending = this.pendingChanges.get(update.id);
+        if (pending && pending === submitted.get(update.id) && update.version > pending.version) {
+          this.pendingChanges.delete(update.id);
+        } else if (pending) {
+          // Edited again while the request was in flight; keep the local quantity
+          return;
         }
+        this.stockData.set(update.id, { ...this.stockData.get(update.id), ...update });
+      });
+      await offlineStore.shared.putMany('stock', updates.filter(update => !this.pendingChanges.has(update.id)));
 
-        localStorage.setItem('lastStockSync', new Date().toISOString());
-        this.checkReorderAlerts();
-        this.notifyListeners();
+      if (conflicts.length > 0) {
+        console.warn('Stock conflicts detected:', conflicts);
+        this.handleConflicts(conflicts);
       }
+
+      localStorage.setItem('lastStockSync', serverTime);
+      this.checkReorderAlerts();
+      this.notifyListeners();
+      return true;
     } catch (error) {
       console.error('Failed to sync with server:', error);
+      return false;
     }
   }
 
-  private getLocalChanges(): any[] {
-    // Return local changes that need to be synced
-    return Array.from(this.stockData.values()).filter(stock => 
-      new Date(stock.lastUpdated) > new Date(localStorage.getItem('lastStockSync') || 0)
-    );
+  private getLocalChanges(pending: Map<string, PendingStockChange>): StockLocalChange[] {
+    return Array.from(pending.entries()).map(([id, change]) => ({
+      id,
+      version: change.version,
+      currentStock: change.currentStock,
+      lastUpdated: this.stockData.get(id)?.lastUpdated,
+      reason: change.reason
+    }));
   }
 
-  private handleConflicts(conflicts: any[]): void {
-    // In a real implementation, this would handle conflicts intelligently
-    conflicts.forEach(conflict => {
-      console.log('Resolving conflict for:', conflict.medicineId);
-      // For now, just use server version
-      this.stockData.set(conflict.id, conflict.serverVersion);
+  /**
+   * Someone else changed the row since we edited it. Stock counts merge
+   * naturally: replay our adjustment (e.g. "sold 3") on top of the server
+   * quantity and resubmit against the server's version on the next sync.
+   */
+  private handleConflicts(conflicts: StockConflict[]): void {
+    conflicts.forEach(({ id, serverVersion }) => {
+      const pending = this.pendingChanges.get(id);
+      const adjustment = pending ? pending.currentStock - pending.baseStock : 0;
+      const merged = Math.max(0, serverVersion.currentStock + adjustment);
+
+      this.stockData.set(id, {
+        ...this.stockData.get(id),
+        ...serverVersion,
+        currentStock: merged,
+        status: this.statusFor(merged, serverVersion.minimumStock)
+      });
+
+      if (adjustment === 0) {
+        this.pendingChanges.delete(id);
+      } else {
+        this.pendingChanges.set(id, {
+          version: serverVersion.version,
+          baseStock: serverVersion.currentStock,
+          currentStock: merged,
+          reason: pending?.reason
+        });
+      }
     });
   }
 
+  private statusFor(quantity: number, minimumStock: number): MedicineStock['status'] {
+    if (quantity === 0) return 'out_of_stock';
+    if (quantity <= minimumStock) return 'reorder_needed';
+    if (quantity <= minimumStock * 1.5) return 'limited';
+    return 'available';
+  }
+
   // Public API methods
-  async updateStock(
-    stockId: string, 
-    newQuantity: number, 
-    reason: string, 
-    userId: string,
-    userName: string
-  ): Promise<MedicineStock> {
+  // The server records the change, with its reason, in the stock movement ledger
+  async updateStock(stockId: string, newQuantity: number, reason: string): Promise<MedicineStock> {
     const stock = this.stockData.get(stockId);
     if (!stock) {
       throw new Error('Stock not found');
     }
 
-    const oldQuantity = stock.currentStock;
+    const pending = this.pendingChanges.get(stockId);
+    this.pendingChanges.set(stockId, {
+      version: pending?.version ?? stock.version,
+      baseStock: pending?.baseStock ?? stock.currentStock,
+      currentStock: newQuantity,
+      reason
+    });
+
     stock.currentStock = newQuantity;
     stock.lastUpdated = new Date().toISOString();
-    
-    // Update status based on stock level
-    if (newQuantity === 0) {
-      stock.status = 'out_of_stock';
-    } else if (newQuantity <= stock.minimumStock) {
-      stock.status = 'reorder_needed';
-    } else if (newQuantity <= stock.minimumStock * 1.5) {
-      stock.status = 'limited';
-    } else {
-      stock.status = 'available';
-    }
-
-    // Record stock movement
-    const movement: StockMovement = {
-      id: `movement-${Date.now()}`,
-      medicineId: stock.medicineId,
-      pharmacyId: stock.pharmacyId,
-      type: newQuantity > oldQuantity ? 'in' : 'out',
-      quantity: Math.abs(newQuantity - oldQuantity),
-      reason,
-      timestamp: new Date().toISOString(),
-      userId,
-      userName
-    };
-
-    this.stockMovements.push(movement);
+    stock.status = this.statusFor(newQuantity, stock.minimumStock);
 
     // Check for reorder alerts
     this.checkReorderAlerts();
 
     // Save to offline storage
-    await offlineStorage.saveHealthRecord({
-      id: `stock-${stockId}`,
-      patientId: 'system',
-      doctorId: null,
-      appointmentId: null,
-      type: 'vital',
-      title: `Stock Update - ${stock.medicineName}`,
-      data: { stock, movement },
-      fileUrl: null,
-      recordDate: null,
-      value: null,
-      unit: null,
-      normalRange: null,
-      notes: null,
-      createdAt: new Date()
-    });
+    await offlineStore.shared.put('stock', stock);
 
     // Notify listeners
     this.notifyListeners();
 
-    // Try to sync with server
-    try {
-      await this.syncStockToServer(stock);
-    } catch (error) {
-      console.warn('Failed to sync stock update to server:', error);
+    // Push now; if offline the change stays pending for the next sync
+    if (!await this.syncWithServer()) {
+      console.warn('Failed to sync stock update to server; will retry');
     }
 
-    return stock;
-  }
-
-  private async syncStockToServer(stock: MedicineStock): Promise<void> {
-    const response = await fetch(`/api/medicine-stock/${stock.id}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        quantity: stock.currentStock,
-        status: stock.status,
-        lastUpdated: stock.lastUpdated
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to sync stock to server');
-    }
+    return this.stockData.get(stockId) ?? stock;
   }
 
   private checkReorderAlerts(): void {
@@ -306,14 +296,14 @@ class MedicineStockManager {
             message: this.generateAlertMessage(stock, urgency),
             createdAt: new Date().toISOString(),
             acknowledged: false,
-            autoOrdered: false
+            orderDrafted: false
           };
 
           this.reorderAlerts.push(alert);
           
-          // Auto-order for critical items
+          // Critical items get a draft order straight away
           if (urgency === 'critical') {
-            this.autoOrderMedicine(stock, alert);
+            this.draftPurchaseOrder(stock, alert);
           }
         }
       }
@@ -341,47 +331,24 @@ class MedicineStockManager {
     return messages[urgency as keyof typeof messages] || 'Stock alert';
   }
 
-  private async autoOrderMedicine(stock: MedicineStock, alert: ReorderAlert): Promise<void> {
+  // Drafts go to the pharmacy's purchase orders; nothing is ordered until a pharmacist approves one
+  private async draftPurchaseOrder(stock: MedicineStock, alert: ReorderAlert): Promise<void> {
     try {
-      const orderQuantity = Math.min(stock.maximumStock - stock.currentStock, stock.minimumStock * 2);
-      
-      const response = await fetch('/api/medicine-orders', {
+      const response = await authFetch(`/api/pharmacies/${stock.pharmacyId}/purchase-orders/auto-draft`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          medicineId: stock.medicineId,
-          pharmacyId: stock.pharmacyId,
-          quantity: orderQuantity,
-          supplier: stock.supplier,
-          urgency: 'critical',
-          autoOrdered: true,
-          alertId: alert.id
-        })
+        body: JSON.stringify({ medicineIds: [stock.medicineId] })
       });
 
       if (response.ok) {
-        alert.autoOrdered = true;
-        alert.message += ' (Auto-ordered)';
-        
-        // Record the auto-order
-        const movement: StockMovement = {
-          id: `movement-${Date.now()}`,
-          medicineId: stock.medicineId,
-          pharmacyId: stock.pharmacyId,
-          type: 'in',
-          quantity: orderQuantity,
-          reason: 'Auto-order (critical stock)',
-          timestamp: new Date().toISOString(),
-          userId: 'system',
-          userName: 'Auto-Order System'
-        };
-
-        this.stockMovements.push(movement);
-        
-        console.log(`Auto-ordered ${orderQuantity} units of ${stock.medicineName}`);
+        const drafts: PurchaseOrderDetail[] = await response.json();
+        alert.orderDrafted = true;
+        // No draft means the medicine is already on an open order
+        alert.message += drafts.length > 0 ? ' (Order drafted for approval)' : ' (Already on order)';
+        this.notifyListeners();
       }
     } catch (error) {
-      console.error('Failed to auto-order medicine:', error);
+      console.error('Failed to draft purchase order:', error);
     }
   }
 
@@ -404,18 +371,9 @@ class MedicineStockManager {
     return this.reorderAlerts.filter(alert => !alert.acknowledged);
   }
 
-  getStockMovements(medicineId?: string, pharmacyId?: string): StockMovement[] {
-    let movements = this.stockMovements;
-    
-    if (medicineId) {
-      movements = movements.filter(movement => movement.medicineId === medicineId);
-    }
-    
-    if (pharmacyId) {
-      movements = movements.filter(movement => movement.pharmacyId === pharmacyId);
-    }
-    
-    return movements.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  // Pull server-side changes now (batch receipts, write-offs) instead of waiting for the timer
+  refresh(): Promise<boolean> {
+    return this.syncWithServer();
   }
 
   // Event listeners
@@ -430,8 +388,7 @@ class MedicineStockManager {
   private notifyListeners(): void {
     const data = {
       stock: this.getAllStock(),
-      alerts: this.getReorderAlerts(),
-      movements: this.stockMovements.slice(-10) // Last 10 movements
+      alerts: this.getReorderAlerts()
     };
     
     this.listeners.forEach(callback => callback(data));
@@ -0,0 +1,97 @@
+/**
+ * WebCrypto primitives for the offline store. A random AES-GCM data key
+ * encrypts a user's rows; it is only ever written to disk wrapped by a key
+ * derived from the user's PIN, so nothing readable is left on a lost or shared
+ * phone once the app is locked.
+ */
+
+// Slows down guessing a short numeric PIN from a copy of the device storage
+export const PIN_KDF_ITERATIONS = 600_000;
+export const PIN_PATTERN = /^\d{6,12}$/;
+
+export interface SealedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class OfflineLockedError extends Error {
+  constructor(message = 'Offline data is locked') {
+    super(message);
+    this.name = 'OfflineLockedError';
+  }
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+export async function derivePinKey(
+  pin: string,
+  salt: Uint8Array,
+  iterations: number,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    usages
+  );
+}
+
+// Extractable only so it can be wrapped under a new PIN
+export function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+export async function wrapDataKey(dataKey: CryptoKey, pinKey: CryptoKey): Promise<SealedValue> {
+  const iv = randomBytes(12);
+  return { iv, data: await crypto.subtle.wrapKey('raw', dataKey, pinKey, { name: 'AES-GCM', iv }) };
+}
+
+// Rejects (the GCM tag does not verify) when the PIN was wrong
+export function unwrapDataKey(wrapped: SealedValue, pinKey: CryptoKey): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw', wrapped.data, pinKey, { name: 'AES-GCM', iv: wrapped.iv },
+    { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a JSON value. `context` is bound in as additional data, so a sealed
+ * value copied onto another row, user or file no longer decrypts.
+ */
+export async function seal(key: CryptoKey, value: unknown, context: string): Promise<SealedValue> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    key,
+    encoder.encode(JSON.stringify(value))
+  );
+  return { iv, data };
+}
+
+export async function unseal<T>(key: CryptoKey, sealed: SealedValue, context: string): Promise<T> {
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.iv, additionalData: encoder.encode(context) },
+    key,
+    sealed.data
+  );
+  return JSON.parse(decoder.decode(plain));
+}
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (const byte of view) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
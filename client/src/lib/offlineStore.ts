@@ -0,0 +1,671 @@
+import { openDB, deleteDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { HealthRecord, Appointment, SymptomCheck, Medicine, Prescription, ConsultationMessage } from '@shared/schema';
+import type { StockSyncItem } from '@shared/stockSync';
+import type { SyncEntity, SyncOperationType, SyncedRow } from '@shared/offlineSync';
+import {
+  OfflineLockedError, PIN_KDF_ITERATIONS, derivePinKey, fromBase64, generateDataKey, randomBytes,
+  seal, toBase64, unseal, unwrapDataKey, wrapDataKey, type SealedValue,
+} from './offlineCrypto';
+
+/**
+ * Single offline store for the client. Every row carries the id of the user it
+ * belongs to and is keyed by [ownerId, id], so on a shared village device one
+ * patient's partition is never returned to the next person who signs in.
+ * Catalogue data that is not personal (medicines, pharmacy stock) lives in the
+ * shared partition.
+ *
+ * Personal partitions are encrypted at rest. Each row is stored as an AES-GCM
+ * blob under the owner's data key, which is only held in memory between
+ * unlock() with the user's PIN and lock(). The shared partition stays
+ * plaintext.
+ */
+
+const DB_NAME = 'sehatsetu';
+const DB_VERSION = 4;
+
+const BACKUP_FORMAT = 'sehatsetu-offline-backup';
+const BACKUP_VERSION = 1;
+
+export const SHARED_PARTITION = '*';
+
+// Databases written by earlier versions of the app; imported once, then deleted
+const LEGACY_DATABASES = ['SehatNabhaDB', 'sehatsetu-offline'];
+
+type Owned<T> = T & { ownerId: string };
+type OwnedKey = [string, string];
+
+/**
+ * pending  - waiting to be sent, no earlier than nextAttemptAt
+ * failed   - gave up retrying or the server refused it; needs the user to retry or discard
+ * conflict - the record changed on the server too; needs the user to pick what to keep
+ */
+export type SyncQueueState = 'pending' | 'failed' | 'conflict';
+
+export interface SyncQueueItem {
+  // Doubles as the idempotency key sent to POST /api/sync
+  id: string;
+  entity: SyncEntity;
+  type: SyncOperationType;
+  // Id of the local copy; a temporary id until the server accepts a create
+  entityId: string;
+  // Server version the edit started from (updates and deletes)
+  baseVersion?: number;
+  data: Record<string, unknown>;
+  state: SyncQueueState;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // The server's copy when state is 'conflict'; null if it was deleted there
+  serverRecord?: SyncedRow | null;
+  createdAt: number;
+}
+
+interface OfflineRecords {
+  healthRecords: HealthRecord;
+  appointments: Appointment;
+  symptomChecks: SymptomCheck;
+  medicines: Medicine;
+  prescriptions: Prescription;
+  stock: StockSyncItem;
+  consultationMessages: ConsultationMessage;
+  syncQueue: SyncQueueItem;
+  meta: { id: string; value: unknown };
+}
+
+// An encrypted row; only the key stays readable
+interface SealedRow {
+  ownerId: string;
+  id: string;
+  sealed: SealedValue;
+}
+
+// The user's data key, wrapped by a key derived from their PIN
+interface PinVault {
+  ownerId: string;
+  salt: Uint8Array;
+  iterations: number;
+  wrappedKey: SealedValue;
+  createdAt: number;
+}
+
+type PartitionedStores = {
+  [S in keyof OfflineRecords]: {
+    key: OwnedKey;
+    // Plaintext in the shared partition, and in personal ones until their first unlock
+    value: Owned<OfflineRecords[S]> | SealedRow;
+    indexes: { 'by-owner': string };
+  };
+};
+
+interface OfflineDB extends DBSchema, PartitionedStores {
+  vaults: { key: string; value: PinVault };
+}
+
+export type OfflineCollection = Exclude<keyof OfflineRecords, 'syncQueue' | 'meta'>;
+type OfflineStoreName = keyof OfflineRecords;
+type RecordOf<S extends OfflineStoreName> = OfflineRecords[S];
+// A row of one of the collections changed through the sync queue
+export type SyncedRecord = RecordOf<SyncEntity>;
+
+interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  ownerId: string;
+  exportedAt: string;
+  salt: string;
+  iterations: number;
+}
+
+export const OFFLINE_COLLECTIONS: OfflineCollection[] = [
+  'healthRecords', 'appointments', 'symptomChecks', 'medicines', 'prescriptions', 'stock', 'consultationMessages',
+];
+const ALL_STORES: OfflineStoreName[] = [...OFFLINE_COLLECTIONS, 'syncQueue', 'meta'];
+
+type UpgradeTransaction = IDBPTransaction<OfflineDB, StoreNames<OfflineDB>[], 'versionchange'>;
+
+// Schema migrations, applied in order on upgrade. Never edit a shipped entry; add a new version.
+const MIGRATIONS: Record<number, (db: IDBPDatabase<OfflineDB>, tx: UpgradeTransaction) => void | Promise<void>> = {
+  1: (db) => {
+    for (const name of ALL_STORES) {
+      const store = db.createObjectStore(name, { keyPath: ['ownerId', 'id'] });
+      store.createIndex('by-owner', 'ownerId');
+    }
+  },
+  // Queue items were fire-and-forget POSTs; they now carry idempotency, retry and conflict state
+  2: async (_db, tx) => {
+    let cursor = await tx.objectStore('syncQueue').openCursor();
+    while (cursor) {
+      const item = upgradeQueueItem(cursor.value, cursor.value.ownerId);
+      await (item ? cursor.update(item) : cursor.delete());
+      cursor = await cursor.continue();
+    }
+  },
+  // Per-user PIN vaults for encrypting personal partitions
+  3: (db) => {
+    db.createObjectStore('vaults', { keyPath: 'ownerId' });
+  },
+  // Chat messages sent while offline; a fresh database already has the store from version 1
+  4: (db) => {
+    if (!db.objectStoreNames.contains('consultationMessages')) {
+      const store = db.createObjectStore('consultationMessages', { keyPath: ['ownerId', 'id'] });
+      store.createIndex('by-owner', 'ownerId');
+    }
+  },
+};
+
+const partitionRange = (ownerId: string) => IDBKeyRange.bound([ownerId, ''], [ownerId, '￿']);
+
+function strip<T extends { ownerId: string }>(row: T): Omit<T, 'ownerId'> {
+  const { ownerId: _ownerId, ...record } = row;
+  return record;
+}
+
+// Binds a sealed row to its store and key so it cannot be moved to another row or user
+const rowContext = (store: OfflineStoreName, ownerId: string, id: string) => JSON.stringify([store, ownerId, id]);
+
+const backupContext = (header: BackupHeader) =>
+  JSON.stringify([header.format, header.version, header.ownerId, header.exportedAt, header.salt, header.iterations]);
+
+function isBackupHeader(value: unknown): value is BackupHeader & { iv: string; data: string } {
+  return isObject(value)
+    && value.format === BACKUP_FORMAT
+    && value.version === BACKUP_VERSION
+    && typeof value.ownerId === 'string'
+    && typeof value.exportedAt === 'string'
+    && typeof value.salt === 'string'
+    && typeof value.iterations === 'number'
+    && Number.isInteger(value.iterations)
+    // A forged file could otherwise make the import hang on key derivation
+    && value.iterations >= 100_000 && value.iterations <= 10_000_000
+    && typeof value.iv === 'string'
+    && typeof value.data === 'string';
+}
+
+/**
+ * One user's view of the offline store. Reads and writes never cross into
+ * another partition, and throw OfflineLockedError while a personal partition
+ * is locked.
+ */
+export class OfflinePartition {
+  constructor(private store: OfflineStore, readonly ownerId: string) {}
+
+  private get encrypted(): boolean {
+    return this.ownerId !== SHARED_PARTITION;
+  }
+
+  private async toRow<S extends OfflineStoreName>(name: S, record: RecordOf<S>): Promise<OfflineDB[S]['value']> {
+    if (!this.encrypted) {
+      return { ...record, ownerId: this.ownerId } as OfflineDB[S]['value'];
+    }
+    const { id } = record;
+    const sealed = await seal(this.store.dataKey(this.ownerId), record, rowContext(name, this.ownerId, id));
+    return { ownerId: this.ownerId, id, sealed };
+  }
+
+  private async fromRow<S extends OfflineStoreName>(name: S, row: OfflineDB[S]['value']): Promise<RecordOf<S>> {
+    if (!this.encrypted) {
+      return strip(row as Owned<RecordOf<S>>) as RecordOf<S>;
+    }
+    const key = this.store.dataKey(this.ownerId);
+    if ('sealed' in row) {
+      return unseal<RecordOf<S>>(key, row.sealed, rowContext(name, this.ownerId, row.id));
+    }
+    return strip(row as Owned<RecordOf<S>>) as RecordOf<S>;
+  }
+
+  async get<S extends OfflineCollection>(collection: S, id: string): Promise<RecordOf<S> | undefined> {
+    const db = await this.store.open();
+    const row = await db.get(collection as OfflineCollection, [this.ownerId, id]);
+    return row ? this.fromRow(collection, row as OfflineDB[S]['value']) : undefined;
+  }
+
+  async getAll<S extends OfflineCollection>(collection: S): Promise<RecordOf<S>[]> {
+    const db = await this.store.open();
+    const rows = await db.getAllFromIndex(collection as OfflineCollection, 'by-owner', this.ownerId);
+    return Promise.all(rows.map(row => this.fromRow(collection, row as OfflineDB[S]['value'])));
+  }
+
+  async put<S extends OfflineCollection>(collection: S, record: RecordOf<S>): Promise<void> {
+    await this.putMany(collection, [record]);
+  }
+
+  async putMany<S extends OfflineCollection>(collection: S, records: RecordOf<S>[]): Promise<void> {
+    // Encrypt before opening the transaction; it would auto-commit while waiting on WebCrypto
+    const rows = await Promise.all(records.map(record => this.toRow(collection, record)));
+    const db = await this.store.open();
+    const tx = db.transaction(collection, 'readwrite');
+    await Promise.all([...rows.map(row => tx.store.put(row)), tx.done]);
+  }
+
+  async delete(collection: OfflineCollection, id: string): Promise<void> {
+    const db = await this.store.open();
+    await db.delete(collection, [this.ownerId, id]);
+  }
+
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const db = await this.store.open();
+    const row = await db.get('meta', [this.ownerId, key]);
+    return row ? (await this.fromRow('meta', row)).value as T : undefined;
+  }
+
+  async setMeta(key: string, value: unknown): Promise<void> {
+    const row = await this.toRow('meta', { id: key, value });
+    const db = await this.store.open();
+    await db.put('meta', row);
+  }
+
+  // Sync queue
+  /**
+   * Queue a change for POST /api/sync. Edits to a record whose create has not
+   * been sent yet are folded into that create, and deleting it drops both.
+   */
+  async enqueue(
+    entity: SyncEntity,
+    type: SyncOperationType,
+    entityId: string,
+    data: Record<string, unknown> = {},
+    baseVersion?: number
+  ): Promise<void> {
+    const queue = await this.getQueue();
+    const unsentCreate = queue.find(item => item.entityId === entityId && item.type === 'create' && item.state === 'pending');
+    if (unsentCreate && type === 'update') {
+      await this.saveQueueItem({ ...unsentCreate, data: { ...unsentCreate.data, ...data } });
+      return;
+    }
+    if (unsentCreate && type === 'delete') {
+      await this.removeQueueItem(unsentCreate.id);
+      return;
+    }
+
+    await this.saveQueueItem({
+      id: crypto.randomUUID(),
+      entity,
+      type,
+      entityId,
+      baseVersion,
+      data,
+      state: 'pending',
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: Date.now(),
+    });
+  }
+
+  async getQueue(): Promise<SyncQueueItem[]> {
+    const db = await this.store.open();
+    const rows = await db.getAllFromIndex('syncQueue', 'by-owner', this.ownerId);
+    const items = await Promise.all(rows.map(row => this.fromRow('syncQueue', row)));
+    return items.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveQueueItem(item: SyncQueueItem): Promise<void> {
+    const row = await this.toRow('syncQueue', item);
+    const db = await this.store.open();
+    await db.put('syncQueue', row);
+  }
+
+  async removeQueueItem(id: string): Promise<void> {
+    const db = await this.store.open();
+    await db.delete('syncQueue', [this.ownerId, id]);
+  }
+
+  // Cache management
+  async clear(): Promise<void> {
+    const db = await this.store.open();
+    const tx = db.transaction(ALL_STORES, 'readwrite');
+    await Promise.all([
+      ...ALL_STORES.map(name => tx.objectStore(name).delete(partitionRange(this.ownerId))),
+      tx.done,
+    ]);
+  }
+
+  async getCacheSize(): Promise<Record<OfflineCollection | 'syncQueue', number>> {
+    const db = await this.store.open();
+    const counts = await Promise.all(
+      [...OFFLINE_COLLECTIONS, 'syncQueue' as const].map(async name =>
+        [name, await db.countFromIndex(name, 'by-owner', this.ownerId)] as const
+      )
+    );
+    return Object.fromEntries(counts) as Record<OfflineCollection | 'syncQueue', number>;
+  }
+
+  // Rows written before the partition had a key (legacy imports) are encrypted on first unlock
+  async encryptPlaintextRows(): Promise<void> {
+    if (!this.encrypted) return;
+    const db = await this.store.open();
+    for (const name of ALL_STORES) {
+      const stored: Array<Owned<{ id: string }> | SealedRow> = await db.getAllFromIndex(name, 'by-owner', this.ownerId);
+      const plain = stored.filter((row): row is Owned<{ id: string }> => !('sealed' in row));
+      if (plain.length === 0) continue;
+
+      const rows = await Promise.all(plain.map(row => this.toRow(name, strip(row) as RecordOf<typeof name>)));
+      const tx = db.transaction(name, 'readwrite');
+      await Promise.all([...rows.map((row: SealedRow) => tx.store.put(row as never)), tx.done]);
+    }
+  }
+
+  // Export/Import for backup
+  /**
+   * Backup file of this partition's records, encrypted with a key derived from
+   * the user's PIN. The header (owner, date, KDF parameters) is authenticated
+   * along with the contents, so editing any of it makes the file unreadable.
+   */
+  async exportData(pin: string): Promise<Blob> {
+    if (!(await this.store.verifyPin(this.ownerId, pin))) {
+      throw new Error('Incorrect PIN');
+    }
+
+    const payload: Record<string, unknown> = { ownerId: this.ownerId };
+    for (const collection of OFFLINE_COLLECTIONS) {
+      payload[collection] = await this.getAll(collection);
+    }
+
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      ownerId: this.ownerId,
+      exportedAt: new Date().toISOString(),
+      salt: toBase64(randomBytes(16)),
+      iterations: PIN_KDF_ITERATIONS,
+    };
+    const key = await derivePinKey(pin, fromBase64(header.salt), header.iterations, ['encrypt']);
+    const sealed = await seal(key, payload, backupContext(header));
+    const file = { ...header, iv: toBase64(sealed.iv), data: toBase64(sealed.data) };
+    return new Blob([JSON.stringify(file)], { type: 'application/json' });
+  }
+
+  /**
+   * Restore a file from exportData(). Rejects files of another user and files
+   * that fail to decrypt, whether from a wrong PIN or any alteration. Returns
+   * the number of records restored.
+   */
+  async importData(file: File, pin: string): Promise<number> {
+    let backup: unknown;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      backup = null;
+    }
+    if (!isBackupHeader(backup)) {
+      throw new Error('Not a SehatSetu backup file');
+    }
+    if (backup.ownerId !== this.ownerId) {
+      throw new Error('This backup belongs to a different user');
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      const key = await derivePinKey(pin, fromBase64(backup.salt), backup.iterations, ['decrypt']);
+      const sealed = { iv: fromBase64(backup.iv), data: fromBase64(backup.data).buffer as ArrayBuffer };
+      payload = await unseal(key, sealed, backupContext(backup));
+    } catch {
+      throw new Error('Wrong PIN, or the backup file is damaged or has been altered');
+    }
+    if (payload.ownerId !== this.ownerId) {
+      throw new Error('This backup belongs to a different user');
+    }
+
+    let restored = 0;
+    for (const collection of OFFLINE_COLLECTIONS) {
+      const records = payload[collection];
+      if (Array.isArray(records)) {
+        const valid = records.filter(record => typeof record?.id === 'string');
+        await this.putMany(collection, valid);
+        restored += valid.length;
+      }
+    }
+    return restored;
+  }
+}
+
+class OfflineStore {
+  private db: Promise<IDBPDatabase<OfflineDB>> | null = null;
+  // Unwrapped data keys of unlocked partitions; never persisted
+  private keys = new Map<string, CryptoKey>();
+
+  open(): Promise<IDBPDatabase<OfflineDB>> {
+    if (!this.db) {
+      this.db = openDB<OfflineDB>(DB_NAME, DB_VERSION, {
+        upgrade(db, oldVersion, newVersion, transaction) {
+          for (let version = oldVersion + 1; version <= (newVersion ?? DB_VERSION); version++) {
+            MIGRATIONS[version]?.(db, transaction);
+          }
+        },
+        // Another tab is upgrading or wiping the database; let go of it
+        blocking: () => {
+          this.db?.then(db => db.close());
+          this.db = null;
+        },
+      }).then(async (db) => {
+        await this.importLegacyDatabases(db).catch(error => console.error('Legacy offline data import failed:', error));
+        return db;
+      });
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  partition(ownerId: string): OfflinePartition {
+    if (!ownerId) {
+      throw new Error('Offline data must belong to a user');
+    }
+    return new OfflinePartition(this, ownerId);
+  }
+
+  get shared(): OfflinePartition {
+    return this.partition(SHARED_PARTITION);
+  }
+
+  // PIN and lock
+  dataKey(ownerId: string): CryptoKey {
+    const key = this.keys.get(ownerId);
+    if (!key) {
+      throw new OfflineLockedError();
+    }
+    return key;
+  }
+
+  isUnlocked(ownerId: string): boolean {
+    return this.keys.has(ownerId);
+  }
+
+  async hasPin(ownerId: string): Promise<boolean> {
+    const db = await this.open();
+    return (await db.get('vaults', ownerId)) !== undefined;
+  }
+
+  /**
+   * Set the PIN for a partition, creating its data key the first time. Changing
+   * an existing PIN needs the partition unlocked, and only re-wraps the key.
+   */
+  async setPin(ownerId: string, pin: string): Promise<void> {
+    const db = await this.open();
+    const existing = await db.get('vaults', ownerId);
+    const dataKey = existing ? this.dataKey(ownerId) : await generateDataKey();
+
+    const salt = randomBytes(16);
+    const pinKey = await derivePinKey(pin, salt, PIN_KDF_ITERATIONS, ['wrapKey', 'unwrapKey']);
+    const wrappedKey = await wrapDataKey(dataKey, pinKey);
+    await db.put('vaults', {
+      ownerId,
+      salt,
+      iterations: PIN_KDF_ITERATIONS,
+      wrappedKey,
+      createdAt: existing?.createdAt ?? Date.now(),
+    });
+
+    this.keys.set(ownerId, dataKey);
+    await this.partition(ownerId).encryptPlaintextRows();
+  }
+
+  async unlock(ownerId: string, pin: string): Promise<boolean> {
+    const dataKey = await this.unwrap(ownerId, pin);
+    if (!dataKey) return false;
+
+    this.keys.set(ownerId, dataKey);
+    await this.partition(ownerId).encryptPlaintextRows();
+    return true;
+  }
+
+  async verifyPin(ownerId: string, pin: string): Promise<boolean> {
+    return (await this.unwrap(ownerId, pin)) !== null;
+  }
+
+  // Forget one partition's key, or every key when no owner is given
+  lock(ownerId?: string): void {
+    if (ownerId) {
+      this.keys.delete(ownerId);
+    } else {
+      this.keys.clear();
+    }
+  }
+
+  // Remove a user's data and PIN from this device; unsynced changes are lost
+  async wipePartition(ownerId: string): Promise<void> {
+    await this.partition(ownerId).clear();
+    const db = await this.open();
+    await db.delete('vaults', ownerId);
+    this.keys.delete(ownerId);
+  }
+
+  // Delete the whole offline database, for every user of this device
+  async wipeDevice(): Promise<void> {
+    if (this.db) {
+      const db = await this.db.catch(() => null);
+      db?.close();
+      this.db = null;
+    }
+    this.keys.clear();
+    await deleteDB(DB_NAME);
+    await Promise.all(LEGACY_DATABASES.map(name => deleteDB(name)));
+  }
+
+  private async unwrap(ownerId: string, pin: string): Promise<CryptoKey | null> {
+    const db = await this.open();
+    const vault = await db.get('vaults', ownerId);
+    if (!vault) {
+      throw new Error('No PIN has been set for this user on this device');
+    }
+    const pinKey = await derivePinKey(pin, vault.salt, vault.iterations, ['wrapKey', 'unwrapKey']);
+    return unwrapDataKey(vault.wrappedKey, pinKey).catch(() => null);
+  }
+
+  /**
+   * Copy rows from the two stores earlier versions kept into this one. Personal
+   * rows go to the partition of the patient they belong to; catalogue rows go to
+   * the shared partition. The legacy databases are deleted once copied.
+   */
+  private async importLegacyDatabases(db: IDBPDatabase<OfflineDB>): Promise<void> {
+    if (await db.get('meta', [SHARED_PARTITION, 'legacyImported'])) return;
+
+    for (const name of LEGACY_DATABASES) {
+      const rows = await readLegacyDatabase(name);
+      if (!rows) continue;
+
+      // Personal rows land in plaintext here and are encrypted when their owner first unlocks
+      const tx = db.transaction(ALL_STORES, 'readwrite');
+      const writes: Promise<unknown>[] = [];
+      for (const [storeName, records] of Object.entries(rows)) {
+        for (const record of records) {
+          const target = legacyTarget(storeName, record);
+          if (target) {
+            writes.push(tx.objectStore(target.store).put(target.value as never));
+          }
+        }
+      }
+      await Promise.all([...writes, tx.done]);
+      await deleteDB(name);
+    }
+
+    await db.put('meta', { ownerId: SHARED_PARTITION, id: 'legacyImported', value: new Date().toISOString() });
+  }
+}
+
+// Read every store of a legacy database, or null if it was never created
+async function readLegacyDatabase(name: string): Promise<Record<string, unknown[]> | null> {
+  if (indexedDB.databases) {
+    const existing = await indexedDB.databases();
+    if (!existing.some(database => database.name === name)) return null;
+  }
+
+  const legacy = await openDB(name);
+  try {
+    const storeNames = Array.from(legacy.objectStoreNames);
+    if (storeNames.length === 0) return null;
+
+    const rows: Record<string, unknown[]> = {};
+    for (const storeName of storeNames) {
+      rows[storeName] = await legacy.getAll(storeName);
+    }
+    return rows;
+  } finally {
+    legacy.close();
+    if (legacy.objectStoreNames.length === 0) {
+      await deleteDB(name);
+    }
+  }
+}
+
+// What earlier queues called each entity: store names, or the route the item was posted to
+const LEGACY_QUEUE_ENTITIES: Record<string, SyncEntity> = {
+  healthRecords: 'healthRecords',
+  'health-records': 'healthRecords',
+  symptomChecks: 'symptomChecks',
+  'symptom-check': 'symptomChecks',
+};
+
+// Old queue items were always creates of the record in `data`; anything else cannot be replayed
+function upgradeQueueItem(item: unknown, ownerId: string): Owned<SyncQueueItem> | null {
+  if (!isObject(item)) return null;
+  const entity = typeof item.table === 'string' ? LEGACY_QUEUE_ENTITIES[item.table] : undefined;
+  if (!entity || item.type !== 'create' || !isObject(item.data) || typeof item.id !== 'string') return null;
+
+  const { id, createdAt: _createdAt, ...data } = item.data;
+  return {
+    ownerId,
+    // Keep the key: the v2 migration updates items in place
+    id: item.id,
+    entity,
+    type: 'create',
+    entityId: typeof id === 'string' ? id : `legacy-${item.id}`,
+    data,
+    state: 'pending',
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: typeof item.timestamp === 'number' ? item.timestamp : Date.now(),
+  };
+}
+
+function legacyTarget(storeName: string, record: unknown): { store: OfflineStoreName; value: object } | null {
+  if (!isObject(record) || typeof record.id !== 'string') return null;
+  const patientId = typeof record.patientId === 'string' ? record.patientId : null;
+  const data = isObject(record.data) ? record.data : null;
+
+  switch (storeName) {
+    case 'healthRecords':
+      // MedicineStockManager used to park stock snapshots here as fake "system" records
+      if (patientId === 'system') {
+        return isObject(data?.stock) ? { store: 'stock', value: { ...data.stock, ownerId: SHARED_PARTITION } } : null;
+      }
+      return patientId ? { store: 'healthRecords', value: { ...record, ownerId: patientId } } : null;
+    case 'appointments':
+    case 'symptomChecks':
+      return patientId ? { store: storeName, value: { ...record, ownerId: patientId } } : null;
+    case 'medicines':
+      return { store: 'medicines', value: { ...record, ownerId: SHARED_PARTITION } };
+    case 'syncQueue': {
+      const ownerId = data?.patientId;
+      const item = typeof ownerId === 'string' && ownerId && ownerId !== 'system' ? upgradeQueueItem(record, ownerId) : null;
+      return item ? { store: 'syncQueue', value: item } : null;
+    }
+    default:
+      // 'settings' (last sync time) is rebuilt on the next online fetch
+      return null;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+export const offlineStore = new OfflineStore();
@@ -0,0 +1,260 @@
+import { authFetch } from './queryClient';
+import { offlineStore, type OfflineCollection, type OfflinePartition, type SyncedRecord, type SyncQueueItem } from './offlineStore';
+import { MAX_SYNC_OPERATIONS, type SyncOperation, type SyncOperationResult, type SyncResponse, type SyncedRow } from '@shared/offlineSync';
+import type { Change, ChangesResponse } from '@shared/changeFeed';
+
+/**
+ * Keeps a partition in step with the server. Local changes go up through the
+ * sync queue (POST /api/sync): network and server errors back off
+ * exponentially; after MAX_ATTEMPTS, or when the server refuses a change
+ * outright, the item is kept as "failed" for the user to retry or discard
+ * rather than being dropped. Server changes come down through the change feed
+ * (GET /api/changes).
+ */
+
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 30 * 60_000;
+
+const CHANGES_CURSOR = 'changesCursor';
+
+type UpsertedRecord = Extract<Change, { op: 'upsert' }>['record'];
+
+export interface SyncRunSummary {
+  applied: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+}
+
+// Full jitter around the doubled delay so devices coming online together spread out
+export function backoffDelay(attempts: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+// One run per partition at a time; a second caller waits for the one in flight
+const running = new Map<string, Promise<SyncRunSummary>>();
+
+export function syncPendingChanges(partition: OfflinePartition): Promise<SyncRunSummary> {
+  const inFlight = running.get(partition.ownerId);
+  if (inFlight) return inFlight;
+
+  const run = runSync(partition).finally(() => running.delete(partition.ownerId));
+  running.set(partition.ownerId, run);
+  return run;
+}
+
+async function runSync(partition: OfflinePartition): Promise<SyncRunSummary> {
+  const summary: SyncRunSummary = { applied: 0, conflicts: 0, failed: 0, remaining: 0 };
+  if (!navigator.onLine) {
+    summary.remaining = (await partition.getQueue()).filter(item => item.state === 'pending').length;
+    return summary;
+  }
+
+  const now = Date.now();
+  const due = (await partition.getQueue())
+    .filter(item => item.state === 'pending' && item.nextAttemptAt <= now)
+    .slice(0, MAX_SYNC_OPERATIONS);
+
+  if (due.length > 0) {
+    let results: SyncOperationResult[] | null = null;
+    try {
+      const response = await authFetch('/api/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operations: due.map(toOperation) }),
+      });
+
+      if (response.ok) {
+        results = ((await response.json()) as SyncResponse).results;
+      } else if (response.status === 400) {
+        // The batch itself was malformed; retrying it unchanged will never work
+        const { error } = await response.json().catch(() => ({ error: response.statusText }));
+        for (const item of due) {
+          await partition.saveQueueItem({ ...item, state: 'failed', lastError: error });
+        }
+        summary.failed += due.length;
+      } else {
+        throw new Error(`Sync failed: ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      for (const item of due) {
+        if (await retryLater(partition, item, error instanceof Error ? error.message : 'Network error')) {
+          summary.failed++;
+        }
+      }
+    }
+
+    for (const [index, result] of (results ?? []).entries()) {
+      const item = due[index];
+      if (result.status === 'applied' || result.status === 'duplicate') {
+        await applyResult(partition, item, result.record ?? null);
+        summary.applied++;
+      } else if (result.status === 'conflict') {
+        await partition.saveQueueItem({ ...item, state: 'conflict', serverRecord: result.serverRecord ?? null });
+        summary.conflicts++;
+      } else {
+        await partition.saveQueueItem({ ...item, state: 'failed', lastError: result.error });
+        summary.failed++;
+      }
+    }
+  }
+
+  summary.remaining = (await partition.getQueue()).filter(item => item.state === 'pending').length;
+  return summary;
+}
+
+function toOperation(item: SyncQueueItem): SyncOperation {
+  return {
+    idempotencyKey: item.id,
+    entity: item.entity,
+    type: item.type,
+    entityId: item.type === 'create' ? undefined : item.entityId,
+    baseVersion: item.baseVersion,
+    data: item.data,
+  };
+}
+
+// Returns true when the item has used up its attempts and now needs attention
+async function retryLater(partition: OfflinePartition, item: SyncQueueItem, error: string): Promise<boolean> {
+  const attempts = item.attempts + 1;
+  if (attempts >= MAX_ATTEMPTS) {
+    await partition.saveQueueItem({ ...item, attempts, state: 'failed', lastError: `Gave up after ${attempts} attempts: ${error}` });
+    return true;
+  }
+  await partition.saveQueueItem({ ...item, attempts, nextAttemptAt: Date.now() + backoffDelay(attempts), lastError: error });
+  return false;
+}
+
+// Swap the local copy for the server's and point queued edits of a new record at its real id
+async function applyResult(partition: OfflinePartition, item: SyncQueueItem, record: SyncedRow | null) {
+  await partition.removeQueueItem(item.id);
+  if (item.type === 'delete' || (item.type === 'create' && record?.id !== item.entityId)) {
+    await partition.delete(item.entity, item.entityId);
+  }
+  if (record) {
+    await partition.put(item.entity, asOfflineRecord(record));
+  }
+
+  if (item.type === 'create' && record) {
+    for (const queued of await partition.getQueue()) {
+      if (queued.entityId === item.entityId) {
+        await partition.saveQueueItem({ ...queued, entityId: record.id, baseVersion: queued.baseVersion ?? versionOf(record) });
+      }
+    }
+  }
+}
+
+// The server sends rows in the shape of the entity's offline collection
+function asOfflineRecord(row: SyncedRow): SyncedRecord {
+  return row as SyncedRow & SyncedRecord;
+}
+
+function versionOf(row: SyncedRow): number | undefined {
+  return typeof row.version === 'number' ? row.version : undefined;
+}
+
+// Make a failed item eligible to be sent again straight away
+export async function retrySyncItem(partition: OfflinePartition, item: SyncQueueItem): Promise<void> {
+  await partition.saveQueueItem({ ...item, state: 'pending', attempts: 0, nextAttemptAt: 0, lastError: undefined });
+}
+
+// Drop a change; a record that only ever existed on this device goes with it
+export async function discardSyncItem(partition: OfflinePartition, item: SyncQueueItem): Promise<void> {
+  await partition.removeQueueItem(item.id);
+  if (item.type === 'create') {
+    await partition.delete(item.entity, item.entityId);
+  }
+}
+
+/**
+ * Settle a conflict. 'server' keeps the server's copy and drops the local
+ * change; otherwise `data` (the user's version, or a field-by-field merge) is
+ * resubmitted against the server's current version, or recreated if the
+ * server deleted the record.
+ */
+export async function resolveSyncConflict(
+  partition: OfflinePartition,
+  item: SyncQueueItem,
+  resolution: { keep: 'server' } | { keep: 'local'; data: Record<string, unknown> }
+): Promise<void> {
+  const server = item.serverRecord ?? null;
+  await partition.removeQueueItem(item.id);
+
+  if (resolution.keep === 'server') {
+    if (server) {
+      await partition.put(item.entity, asOfflineRecord(server));
+    } else {
+      await partition.delete(item.entity, item.entityId);
+    }
+    return;
+  }
+
+  if (!server) {
+    if (item.type === 'delete') return;
+    // Deleted on the server while edited here: bring it back as a new record
+    const local = await partition.get(item.entity, item.entityId);
+    const { id: _id, version: _version, createdAt: _createdAt, updatedAt: _updatedAt, ...fields }: Record<string, unknown> = { ...local, ...resolution.data };
+    await partition.enqueue(item.entity, 'create', item.entityId, fields);
+    return;
+  }
+
+  if (item.type === 'update') {
+    await partition.put(item.entity, asOfflineRecord({ ...server, ...resolution.data }));
+  }
+  await partition.enqueue(item.entity, item.type, item.entityId, resolution.data, versionOf(server));
+}
+
+/**
+ * Pull what changed on the server since the stored cursor, page by page. The
+ * cursor is saved after every page, so a pull cut off halfway resumes instead
+ * of starting over. Records with local changes still queued are left alone;
+ * the queue's own result (or conflict) settles them. Returns the number of
+ * changes applied.
+ */
+const pulling = new Map<string, Promise<number>>();
+
+export function pullChanges(partition: OfflinePartition): Promise<number> {
+  const inFlight = pulling.get(partition.ownerId);
+  if (inFlight) return inFlight;
+
+  const run = runPull(partition).finally(() => pulling.delete(partition.ownerId));
+  pulling.set(partition.ownerId, run);
+  return run;
+}
+
+async function runPull(partition: OfflinePartition): Promise<number> {
+  if (!navigator.onLine) return 0;
+
+  let pulled = 0;
+  for (;;) {
+    const cursor = await partition.getMeta<string>(CHANGES_CURSOR);
+    const response = await authFetch(`/api/changes${cursor ? `?since=${encodeURIComponent(cursor)}` : ''}`);
+    if (!response.ok) {
+      throw new Error(`Change feed failed: ${response.status} ${response.statusText}`);
+    }
+    const { changes, cursor: next, hasMore }: ChangesResponse = await response.json();
+
+    const queued = new Set((await partition.getQueue()).map(item => item.entityId));
+    const upserts = new Map<OfflineCollection, UpsertedRecord[]>();
+    for (const change of changes) {
+      if (queued.has(change.id)) continue;
+      // Stock is not personal; it goes to the shared partition
+      const target = change.entity === 'stock' ? offlineStore.shared : partition;
+      if (change.op === 'delete') {
+        // Deletes come first in a page, so writing upserts afterwards keeps a re-added record
+        await target.delete(change.entity, change.id);
+      } else {
+        upserts.set(change.entity, [...(upserts.get(change.entity) ?? []), change.record]);
+      }
+    }
+    for (const [entity, records] of upserts) {
+      await (entity === 'stock' ? offlineStore.shared : partition).putMany(entity, records);
+    }
+
+    await partition.setMeta(CHANGES_CURSOR, next);
+    pulled += changes.length;
+    if (!hasMore) return pulled;
+  }
+}
@@ -1,6 +1,8 @@
 // Client-side EndlessMedical functionality will be handled through backend API calls
 // This file provides types and utilities for symptom checking using FREE EndlessMedical API
 
+import { authFetch } from './queryClient';
+
 export interface SymptomCheckResponse {
   possibleConditions: string[];
   severity: 'low' | 'medium' | 'high' | 'emergency';
@@ -19,7 +21,7 @@ export interface SymptomCheck {
 }
 
 export async function analyzeSymptoms(symptoms: string[], patientId: string): Promise<SymptomCheck> {
-  const response = await fetch('/api/symptom-check', {
+  const response = await authFetch('/api/symptom-check', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
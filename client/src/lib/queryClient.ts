@@ -1,5 +1,58 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+const AUTH_TOKEN_KEY = "sehat-access-token";
+
+let authToken: string | null = localStorage.getItem(AUTH_TOKEN_KEY);
+
+export function getAuthToken(): string | null {
+  return authToken;
+}
+
+export function setAuthToken(token: string | null) {
+  authToken = token;
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+}
+
+// fetch() with the API access token attached
+export function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (authToken && !headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${authToken}`);
+  }
+  return fetch(input, { ...init, headers, credentials: "include" });
+}
+
+// Files behind the API need the access token too, so they are fetched and shown from a blob URL
+export async function fetchFileUrl(url: string): Promise<string> {
+  const res = await authFetch(url);
+  await throwIfResNotOk(res);
+  return URL.createObjectURL(await res.blob());
+}
+
+export async function openFile(url: string): Promise<void> {
+  if (!url.startsWith("/api/")) {
+    window.open(url, "_blank");
+    return;
+  }
+  // Opened before the download so the browser does not treat it as a popup
+  const view = window.open("", "_blank");
+  try {
+    const objectUrl = await fetchFileUrl(url);
+    if (view) {
+      view.location.href = objectUrl;
+    } else {
+      window.location.href = objectUrl;
+    }
+  } catch (error) {
+    view?.close();
+    throw error;
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -12,11 +65,10 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await authFetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -29,9 +81,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      credentials: "include",
-    });
+    const res = await authFetch(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
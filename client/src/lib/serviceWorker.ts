@@ -0,0 +1,100 @@
+import { RUNTIME_CACHES, SW_MESSAGES, SYNC_QUEUE_TAG } from './swProtocol';
+
+/**
+ * Page side of the service worker (client/sw.ts): registration, the "new
+ * version available" state behind the update prompt, and answering the
+ * worker's background sync requests.
+ */
+
+// A tab left open for days still notices new deploys
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60_000;
+
+let waitingWorker: ServiceWorker | null = null;
+const updateListeners = new Set<() => void>();
+
+function setWaitingWorker(worker: ServiceWorker | null) {
+  waitingWorker = worker;
+  updateListeners.forEach(listener => listener());
+}
+
+export function registerServiceWorker(): void {
+  // Dev builds are served by Vite from source; only production builds have a worker
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+
+      // Only an update when a previous build already controls the page
+      const track = (worker: ServiceWorker | null) => {
+        if (!worker) return;
+        worker.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+            setWaitingWorker(worker);
+          }
+        });
+      };
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(registration.waiting);
+      }
+      track(registration.installing);
+      registration.addEventListener('updatefound', () => track(registration.installing));
+
+      setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL_MS);
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+}
+
+export function subscribeToUpdates(listener: () => void): () => void {
+  updateListeners.add(listener);
+  return () => updateListeners.delete(listener);
+}
+
+export function isUpdateWaiting(): boolean {
+  return waitingWorker !== null;
+}
+
+// Reload once the new worker takes control; a first install also changes controller but must not reload
+export function applyUpdate(): void {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: SW_MESSAGES.skipWaiting });
+}
+
+/**
+ * Ask the browser to fire a background sync once connectivity returns, even
+ * if this tab has been backgrounded. Not every browser supports it; the
+ * 'online' listener still covers an open, active tab.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return;
+  const registration = await navigator.serviceWorker.ready;
+  const sync = (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync;
+  await sync?.register(SYNC_QUEUE_TAG);
+}
+
+// Run `drain` whenever the worker's background sync asks this window to
+export function handleBackgroundSync(drain: () => Promise<unknown>): () => void {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+
+  const onMessage = async (event: MessageEvent) => {
+    if (event.data?.type !== SW_MESSAGES.syncQueue) return;
+    const port = event.ports[0];
+    try {
+      await drain();
+      port?.postMessage({ ok: true });
+    } catch (error) {
+      port?.postMessage({ ok: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', onMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+}
+
+// Cached API responses; the shell and fonts hold no user data and keep the app starting offline
+export async function clearCachedApiResponses(): Promise<void> {
+  if (!('caches' in window)) return;
+  await caches.delete(RUNTIME_CACHES.api);
+}
@@ -0,0 +1,22 @@
+/**
+ * Names shared by the page and the service worker (client/sw.ts), which is
+ * built separately and talks to the page only through these messages.
+ */
+
+// Background Sync tag for draining the offline change queue
+export const SYNC_QUEUE_TAG = 'sync-queue';
+
+export const SW_MESSAGES = {
+  // page -> worker: activate the waiting build now
+  skipWaiting: 'SKIP_WAITING',
+  // worker -> page: run the offline queue and reply on the transferred port
+  syncQueue: 'SYNC_QUEUE',
+} as const;
+
+// Cache Storage names that are not tied to one build
+export const RUNTIME_CACHES = {
+  api: 'sehatsetu-api',
+  static: 'sehatsetu-static',
+} as const;
+
+export const SHELL_CACHE_PREFIX = 'sehatsetu-shell-';
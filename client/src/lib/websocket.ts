@@ -1,8 +1,10 @@
 import { useEffect, useRef, useState } from 'react';
+import { getAuthToken } from './queryClient';
 
 export class WebSocketManager {
   private ws: WebSocket | null = null;
   private listeners: Map<string, Set<(data: any) => void>> = new Map();
+  private channels: Map<string, number> = new Map();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectInterval = 1000;
@@ -12,14 +14,22 @@ export class WebSocketManager {
       return;
     }
 
+    // The server refuses sockets without a valid access token
+    const token = getAuthToken();
+    if (!token) {
+      return;
+    }
+
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
+    const wsUrl = `${protocol}//${window.location.host}/ws?token=${encodeURIComponent(token)}`;
     
     this.ws = new WebSocket(wsUrl);
 
     this.ws.onopen = () => {
       console.log('WebSocket connected');
       this.reconnectAttempts = 0;
+      // Channel subscriptions live on the connection, so restore them after a reconnect
+      this.channels.forEach((_count, channel) => this.send('subscribe', { channel }));
     };
 
     this.ws.onmessage = (event) => {
@@ -77,6 +87,25 @@ export class WebSocketManager {
     };
   }
 
+  // Reference-counted so several components can watch the same channel
+  joinChannel(channel: string) {
+    const count = this.channels.get(channel) ?? 0;
+    this.channels.set(channel, count + 1);
+    if (count === 0) {
+      this.send('subscribe', { channel });
+    }
+
+    return () => {
+      const remaining = (this.channels.get(channel) ?? 1) - 1;
+      if (remaining > 0) {
+        this.channels.set(channel, remaining);
+      } else {
+        this.channels.delete(channel);
+        this.send('unsubscribe', { channel });
+      }
+    };
+  }
+
   disconnect() {
     if (this.ws) {
       this.ws.close();
@@ -109,5 +138,6 @@ export function useWebSocket() {
     isConnected,
     send: wsManager.send.bind(wsManager),
     subscribe: wsManager.subscribe.bind(wsManager),
+    joinChannel: wsManager.joinChannel.bind(wsManager),
   };
 }
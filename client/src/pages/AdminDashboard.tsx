@@ -61,15 +61,27 @@ interface AnalyticsData {
 
 interface AuditLog {
   id: string;
-  userId: string;
-  userName: string;
+  sequence: number;
+  timestamp: string;
+  userId?: string;
   action: string;
   resource: string;
-  details: string;
-  timestamp: string;
-  ipAddress: string;
+  resourceId?: string;
+  details?: Record<string, unknown>;
+  ipAddress?: string;
+  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  hash: string;
 }
 
+interface AuditLogPage {
+  logs: AuditLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const AUDIT_PAGE_SIZE = 20;
+
 export default function AdminDashboard() {
   const { user } = useAuth();
   const { t } = useLanguage();
@@ -78,6 +90,9 @@ export default function AdminDashboard() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [userRoleFilter, setUserRoleFilter] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [auditRiskFilter, setAuditRiskFilter] = useState<string>('all');
+  const [auditResourceFilter, setAuditResourceFilter] = useState<string>('');
+  const [auditPage, setAuditPage] = useState(1);
 
   // Mock data for demonstration
   const mockUsers: User[] = [
@@ -140,38 +155,16 @@ export default function AdminDashboard() {
     ]
   };
 
-  const mockAuditLogs: AuditLog[] = [
-    {
-      id: '1',
-      userId: '2',
-      userName: 'Dr. Priya Sharma',
-      action: 'LOGIN',
-      resource: 'System',
-      details: 'Logged into doctor dashboard',
-      timestamp: '2024-01-25T10:30:00Z',
-      ipAddress: '192.168.1.100'
-    },
-    {
-      id: '2',
-      userId: '3',
-      userName: 'Amit Singh',
-      action: 'UPDATE',
-      resource: 'Medicine Stock',
-      details: 'Updated Paracetamol stock to 150 units',
-      timestamp: '2024-01-25T09:15:00Z',
-      ipAddress: '192.168.1.101'
-    },
-    {
-      id: '3',
-      userId: '1',
-      userName: 'Rajesh Kumar',
-      action: 'CREATE',
-      resource: 'Appointment',
-      details: 'Booked appointment with Dr. Priya Sharma',
-      timestamp: '2024-01-25T08:45:00Z',
-      ipAddress: '192.168.1.102'
-    }
-  ];
+  const auditParams = new URLSearchParams({ page: String(auditPage), pageSize: String(AUDIT_PAGE_SIZE) });
+  if (auditRiskFilter !== 'all') auditParams.set('riskLevel', auditRiskFilter);
+  if (auditResourceFilter.trim()) auditParams.set('resource', auditResourceFilter.trim());
+
+  const { data: auditLogPage, isLoading: auditLogsLoading } = useQuery<AuditLogPage>({
+    queryKey: [`/api/admin/audit-logs?${auditParams.toString()}`],
+    enabled: user?.role === 'admin',
+  });
+  const auditLogs = auditLogPage?.logs ?? [];
+  const auditPageCount = Math.max(1, Math.ceil((auditLogPage?.total ?? 0) / AUDIT_PAGE_SIZE));
 
   const filteredUsers = mockUsers.filter(user => {
     const matchesRole = userRoleFilter === 'all' || user.role === userRoleFilter;
@@ -444,26 +437,84 @@ export default function AdminDashboard() {
               <CardTitle>Audit Logs</CardTitle>
             </CardHeader>
             <CardContent>
+              <div className="flex flex-col md:flex-row gap-4 mb-4">
+                <Input
+                  placeholder="Filter by resource (e.g. Prescription)"
+                  value={auditResourceFilter}
+                  onChange={(e) => { setAuditResourceFilter(e.target.value); setAuditPage(1); }}
+                  className="md:max-w-xs"
+                  data-testid="input-audit-resource"
+                />
+                <Select value={auditRiskFilter} onValueChange={(value) => { setAuditRiskFilter(value); setAuditPage(1); }}>
+                  <SelectTrigger className="md:w-48" data-testid="select-audit-risk">
+                    <SelectValue placeholder="Risk level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Risk Levels</SelectItem>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-4">
-                {mockAuditLogs.map((log) => (
-                  <div key={log.id} className="border rounded-lg p-4">
+                {auditLogsLoading ? (
+                  <p className="text-sm text-gray-500">Loading audit logs...</p>
+                ) : auditLogs.length === 0 ? (
+                  <p className="text-sm text-gray-500" data-testid="text-no-audit-logs">No audit events match these filters.</p>
+                ) : auditLogs.map((log) => (
+                  <div key={log.id} className="border rounded-lg p-4" data-testid={`audit-log-${log.sequence}`}>
                     <div className="flex justify-between items-start">
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
                           <Badge variant="outline">{log.action}</Badge>
-                          <span className="text-sm text-gray-500">{log.resource}</span>
+                          <span className="text-sm text-gray-500">{log.resource}{log.resourceId ? ` #${log.resourceId}` : ''}</span>
+                          <Badge variant={log.riskLevel === 'high' || log.riskLevel === 'critical' ? 'destructive' : 'secondary'}>
+                            {log.riskLevel}
+                          </Badge>
                         </div>
-                        <p className="font-medium">{log.userName}</p>
-                        <p className="text-gray-600 text-sm">{log.details}</p>
+                        <p className="font-medium">{log.userId ?? 'system'}</p>
+                        {log.details && (
+                          <p className="text-gray-600 text-sm break-all">{JSON.stringify(log.details)}</p>
+                        )}
                         <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
                           <span>{format(new Date(log.timestamp), 'MMM dd, yyyy HH:mm')}</span>
-                          <span>IP: {log.ipAddress}</span>
+                          {log.ipAddress && <span>IP: {log.ipAddress}</span>}
+                          <span className="font-mono">#{log.sequence} {log.hash.slice(0, 12)}</span>
                         </div>
                       </div>
                     </div>
                   </div>
                 ))}
               </div>
+
+              <div className="flex items-center justify-between mt-4">
+                <span className="text-sm text-gray-500">
+                  Page {auditPage} of {auditPageCount} ({auditLogPage?.total ?? 0} events)
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={auditPage <= 1}
+                    onClick={() => setAuditPage(p => p - 1)}
+                    data-testid="button-audit-prev"
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={auditPage >= auditPageCount}
+                    onClick={() => setAuditPage(p => p + 1)}
+                    data-testid="button-audit-next"
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
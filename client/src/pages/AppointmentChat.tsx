@@ -0,0 +1,64 @@
+import { useLocation, useParams } from 'wouter';
+import { useAuth } from '@/contexts/AuthContext';
+import { useConsultationChat } from '@/hooks/useConsultationChat';
+import { useToast } from '@/hooks/use-toast';
+import { ConsultationChat } from '@/components/ConsultationChat';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, WifiOff } from 'lucide-react';
+
+// An appointment's chat outside a call; also how chat-type appointments take place
+export default function AppointmentChat() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const params = useParams();
+  const chat = useConsultationChat(params.appointmentId);
+
+  if (!user) {
+    navigate('/login');
+    return null;
+  }
+
+  const handleShareFile = (file: File) => {
+    chat.shareFile.mutate({ file }, {
+      onError: (error) => {
+        toast({
+          title: "File Not Shared",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto p-4">
+      <Card className="h-[calc(100vh-10rem)] flex flex-col">
+        <CardHeader className="flex flex-row items-center gap-2 space-y-0 border-b py-3">
+          <Button variant="ghost" size="sm" onClick={() => window.history.back()} data-testid="button-chat-back">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <CardTitle className="text-lg flex-1">Consultation Chat</CardTitle>
+          {!chat.isConnected && (
+            <span className="flex items-center gap-1 text-xs text-gray-500" data-testid="chat-offline">
+              <WifiOff className="h-3 w-3" />
+              Offline
+            </span>
+          )}
+        </CardHeader>
+        <CardContent className="flex-1 p-0 min-h-0">
+          <ConsultationChat
+            messages={chat.messages}
+            pending={chat.pending}
+            currentUserId={user.id}
+            onSend={chat.sendMessage}
+            // Files go straight to the server, so they need a connection
+            onShareFile={chat.isConnected ? handleShareFile : undefined}
+            sharing={chat.shareFile.isPending}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
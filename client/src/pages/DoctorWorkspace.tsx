@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCurrentDoctor, useDoctorQueue } from '@/hooks/useDoctorWorkspace';
+import { PatientChartPanel } from '@/components/PatientChartPanel';
+import { ConsultationNoteEditor } from '@/components/ConsultationNoteEditor';
+import { PrescriptionEditor } from '@/components/PrescriptionEditor';
+import { WalkInQueuePanel } from '@/components/WalkInQueuePanel';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Clock, MessageSquare, Users, Video } from 'lucide-react';
+import type { QueueEntry } from '@shared/consultation';
+
+const STATUS_COLORS: Record<string, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  ongoing: 'bg-green-100 text-green-800',
+  completed: 'bg-gray-100 text-gray-800',
+};
+
+export default function DoctorWorkspace() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const { data: doctor, isLoading: doctorLoading } = useCurrentDoctor();
+  const { data: queue = [], isLoading: queueLoading } = useDoctorQueue(doctor?.id);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [prescriptionOpen, setPrescriptionOpen] = useState(false);
+
+  // Default to the first patient still waiting
+  const waiting = queue.filter(entry => entry.status !== 'completed');
+  const selected = queue.find(entry => entry.id === selectedId) ?? waiting[0] ?? null;
+
+  // The appointment moves to "ongoing" by itself once patient and doctor are both in the call
+  const handleJoin = (entry: QueueEntry) => {
+    navigate(`/video/appointment-${entry.id}`);
+  };
+
+  if (!doctorLoading && !doctor) {
+    return (
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-gray-600">No doctor profile is linked to this account. Please contact an administrator.</p>
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  const stats = [
+    { label: 'Waiting', value: queue.filter(entry => entry.status === 'scheduled').length, icon: Clock, color: 'text-yellow-600' },
+    { label: 'In Consultation', value: queue.filter(entry => entry.status === 'ongoing').length, icon: Video, color: 'text-green-600' },
+    { label: 'Seen Today', value: queue.filter(entry => entry.status === 'completed').length, icon: CheckCircle, color: 'text-blue-600' },
+  ];
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          Doctor Workspace
+        </h1>
+        <p className="text-gray-600">
+          Welcome back, Dr. {user?.name}. {format(new Date(), 'EEEE, MMM dd')}
+        </p>
+      </div>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        {stats.map(stat => (
+          <Card key={stat.label}>
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <stat.icon className={`h-8 w-8 ${stat.color}`} />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">{stat.label}</p>
+                  <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 space-y-6">
+          {doctor && <WalkInQueuePanel doctorId={doctor.id} />}
+
+          {/* Today's queue, most urgent first */}
+          <Card data-testid="card-patient-queue">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Today's Queue
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {doctorLoading || queueLoading ? (
+                <p className="text-gray-500">Loading queue...</p>
+              ) : queue.length === 0 ? (
+                <div className="text-center py-4">
+                  <p className="text-gray-500">No appointments today</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {queue.map(entry => (
+                    <div
+                      key={entry.id}
+                      className={`p-3 rounded-lg border cursor-pointer ${
+                        selected?.id === entry.id ? 'border-primary bg-primary/5' : 'hover:bg-gray-50'
+                      } ${entry.status === 'completed' ? 'opacity-60' : ''}`}
+                      onClick={() => setSelectedId(entry.id)}
+                      data-testid={`queue-entry-${entry.id}`}
+                    >
+                      <div className="flex justify-between items-start gap-2">
+                        <div>
+                          <p className="font-medium">{entry.patient.name}</p>
+                          <p className="text-sm text-gray-600">
+                            {format(new Date(entry.scheduledAt), 'h:mm a')} • {entry.type}
+                          </p>
+                          {entry.reason && <p className="text-xs text-gray-500">{entry.reason}</p>}
+                        </div>
+                        <div className="flex flex-col items-end gap-1">
+                          <Badge className={STATUS_COLORS[entry.status] ?? 'bg-gray-100 text-gray-800'}>
+                            {entry.status.toUpperCase()}
+                          </Badge>
+                          {(entry.priority ?? 0) > 0 && (
+                            <Badge className="bg-red-100 text-red-800">Priority {entry.priority}</Badge>
+                          )}
+                        </div>
+                      </div>
+                      {entry.status !== 'completed' && (
+                        <div className="mt-2 flex gap-2">
+                          {entry.type !== 'chat' && (
+                            <Button
+                              size="sm"
+                              className="flex-1"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleJoin(entry);
+                              }}
+                              data-testid={`button-join-${entry.id}`}
+                            >
+                              <Video className="h-4 w-4 mr-2" />
+                              {entry.status === 'ongoing' ? 'Rejoin Call' : 'Join Call'}
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant={entry.type === 'chat' ? 'default' : 'outline'}
+                            className={entry.type === 'chat' ? 'flex-1' : undefined}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate(`/chat/${entry.id}`);
+                            }}
+                            data-testid={`button-chat-${entry.id}`}
+                          >
+                            <MessageSquare className="h-4 w-4 mr-2" />
+                            Chat
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Selected patient */}
+        <div className="lg:col-span-2 space-y-6">
+          {selected ? (
+            <>
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={() => setPrescriptionOpen(true)} data-testid="button-prescribe">
+                  Write Prescription
+                </Button>
+              </div>
+              <PatientChartPanel patientId={selected.patientId} currentAppointmentId={selected.id} />
+              <ConsultationNoteEditor appointment={selected} />
+              <PrescriptionEditor
+                appointmentId={selected.id}
+                patientName={selected.patient.name}
+                open={prescriptionOpen}
+                onOpenChange={setPrescriptionOpen}
+              />
+            </>
+          ) : (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <p className="text-gray-500">Select a patient from the queue to open their chart</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,12 +1,13 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { DoctorCard } from '@/components/DoctorCard';
-import { VideoCall } from '@/components/VideoCall';
+import { DoctorCard, type Doctor } from '@/components/DoctorCard';
+import { AppointmentSlotPicker } from '@/components/AppointmentSlotPicker';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useDoctors, useOnlineDoctors } from '@/hooks/useAppointments';
@@ -16,10 +17,11 @@ export default function Doctors() {
   const { user } = useAuth();
   const { t } = useLanguage();
   const { toast } = useToast();
+  const [, navigate] = useLocation();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedSpecialty, setSelectedSpecialty] = useState('');
-  const [selectedDoctor, setSelectedDoctor] = useState<any>(null);
-  const [activeVideoCall, setActiveVideoCall] = useState<string | null>(null);
+  const [selectedDoctor, setSelectedDoctor] = useState<Doctor | null>(null);
+  const [bookingDoctor, setBookingDoctor] = useState<Doctor | null>(null);
 
   const { data: onlineDoctors = [] } = useOnlineDoctors();
   const { data: allDoctors = [] } = useDoctors();
@@ -56,8 +58,8 @@ export default function Doctors() {
       return;
     }
 
-    const roomId = `consultation-${user?.id}-${doctor.id}-${Date.now()}`;
-    setActiveVideoCall(roomId);
+    // Instant consultations go through the walk-in queue, which books the call
+    navigate('/walk-in');
   };
 
   const handleViewProfile = (doctor: any) => {
@@ -65,21 +67,18 @@ export default function Doctors() {
   };
 
   const handleBookAppointment = (doctor: any) => {
-    // TODO: Implement appointment booking
-    toast({
-      title: "Appointment Booking",
-      description: "Appointment booking feature will be available soon.",
-    });
-  };
+    if (!user) {
+      toast({
+        title: "Sign In Required",
+        description: "Please sign in to book an appointment.",
+        variant: "destructive"
+      });
+      return;
+    }
 
-  if (activeVideoCall) {
-    return (
-      <VideoCall
-        roomId={activeVideoCall}
-        onEnd={() => setActiveVideoCall(null)}
-      />
-    );
-  }
+    setSelectedDoctor(null);
+    setBookingDoctor(doctor);
+  };
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -183,6 +182,12 @@ export default function Doctors() {
         )}
       </div>
 
+      <AppointmentSlotPicker
+        doctor={bookingDoctor}
+        open={!!bookingDoctor}
+        onOpenChange={(open) => !open && setBookingDoctor(null)}
+      />
+
       {/* Doctor Profile Modal */}
       {selectedDoctor && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -11,7 +11,6 @@ import { auth } from '@/lib/firebase';
 import { AppointmentCard } from '@/components/AppointmentCard';
 import { DoctorCard } from '@/components/DoctorCard';
 import { SymptomChecker } from '@/components/SymptomChecker';
-import { VideoCall } from '@/components/VideoCall';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 
@@ -21,7 +20,6 @@ export default function Home() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [showSymptomChecker, setShowSymptomChecker] = useState(false);
-  const [activeVideoCall, setActiveVideoCall] = useState<string | null>(null);
 
   // Use demo user if Firebase is not configured and no user is authenticated
   const currentUser = user || (!auth ? {
@@ -38,11 +36,21 @@ export default function Home() {
   }
 
   // Redirect to role-specific dashboards
+  if (currentUser.role === 'doctor') {
+    navigate('/doctor');
+    return null;
+  }
+
   if (currentUser.role === 'pharmacist') {
     navigate('/pharmacist');
     return null;
   }
   
+  if (currentUser.role === 'asha') {
+    navigate('/walk-in');
+    return null;
+  }
+
   if (currentUser.role === 'admin') {
     navigate('/admin');
     return null;
@@ -52,10 +60,10 @@ export default function Home() {
   const { data: onlineDoctors = [] } = useOnlineDoctors();
   const { data: healthRecords = [] } = useHealthRecords();
 
+  // Calls run inside an appointment; without one the patient waits for the next free doctor
   const handleVideoConsultation = () => {
     if (onlineDoctors && onlineDoctors.length > 0) {
-      const roomId = `consultation-${currentUser.id}-${Date.now()}`;
-      setActiveVideoCall(roomId);
+      navigate('/walk-in');
     } else {
       toast({
         title: "No Doctors Available",
@@ -69,14 +77,12 @@ export default function Home() {
     setShowSymptomChecker(true);
   };
 
-  const handleConsultDoctor = (doctor: any) => {
-    const roomId = `consultation-${currentUser.id}-${doctor.id}-${Date.now()}`;
-    setActiveVideoCall(roomId);
+  const handleConsultDoctor = () => {
+    navigate('/walk-in');
   };
 
   const handleJoinAppointment = (appointment: any) => {
-    const roomId = `appointment-${appointment.id}`;
-    setActiveVideoCall(roomId);
+    navigate(`/video/appointment-${appointment.id}`);
   };
 
   const getGreeting = () => {
@@ -100,15 +106,6 @@ export default function Home() {
     heartRate: "72"
   };
 
-  if (activeVideoCall) {
-    return (
-      <VideoCall
-        roomId={activeVideoCall}
-        onEnd={() => setActiveVideoCall(null)}
-      />
-    );
-  }
-
   if (showSymptomChecker) {
     return (
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -274,6 +271,7 @@ export default function Home() {
                     key={appointment.id}
                     appointment={appointment}
                     onJoin={handleJoinAppointment}
+                    onChat={(apt) => navigate(`/chat/${apt.id}`)}
                   />
                 ))
               ) : (
@@ -1,15 +1,19 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { login } from '@/lib/firebase';
+import { useToast } from '@/hooks/use-toast';
 
 export default function Login() {
-  const { user, loading } = useAuth();
+  const { user, loading, devSignIn } = useAuth();
   const { t } = useLanguage();
+  const { toast } = useToast();
   const [, navigate] = useLocation();
+  const [devEmail, setDevEmail] = useState('');
 
   useEffect(() => {
     if (user && !loading) {
@@ -21,6 +25,18 @@ export default function Login() {
     login();
   };
 
+  const handleDevLogin = async () => {
+    try {
+      await devSignIn(devEmail);
+    } catch (error) {
+      toast({
+        title: "Sign In Failed",
+        description: "No active user with that email.",
+        variant: "destructive"
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -81,6 +97,29 @@ export default function Login() {
             </p>
           </div>
 
+          {import.meta.env.DEV && (
+            <div className="space-y-2 border border-dashed border-border p-4 rounded-lg">
+              <p className="text-xs text-muted-foreground text-center">Development sign-in</p>
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="user@example.com"
+                  value={devEmail}
+                  onChange={(e) => setDevEmail(e.target.value)}
+                  data-testid="input-dev-email"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleDevLogin}
+                  disabled={!devEmail}
+                  data-testid="button-dev-login"
+                >
+                  Sign In
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div className="bg-muted p-4 rounded-lg">
             <h4 className="font-medium mb-2 text-center">Multilingual Support</h4>
             <div className="flex justify-center space-x-4 text-sm">
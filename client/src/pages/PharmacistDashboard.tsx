@@ -1,6 +1,15 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useMedicineStock } from '@/hooks/useMedicineStock';
+import { useCurrentPharmacist, usePharmacyPrescriptions, useUpdatePrescriptionStatus, downloadPrescriptionPdf, type PrescriptionStatus } from '@/hooks/usePrescriptions';
+import { PrescriptionVerifier } from '@/components/PrescriptionVerifier';
+import { DispensePrescriptionDialog } from '@/components/DispensePrescriptionDialog';
+import { ReceiveBatchDialog } from '@/components/ReceiveBatchDialog';
+import { ExpiryAlertsCard } from '@/components/ExpiryAlertsCard';
+import { PurchaseOrdersPanel } from '@/components/PurchaseOrdersPanel';
+import { ReorderRuleDialog } from '@/components/ReorderRuleDialog';
+import { StockActivityCard } from '@/components/StockActivityCard';
+import { StockReconciliationCard } from '@/components/StockReconciliationCard';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -19,8 +28,6 @@ import {
   Plus, 
   Minus, 
   AlertTriangle, 
-  CheckCircle, 
-  Clock,
   QrCode,
   FileText,
   TrendingUp
@@ -43,29 +50,6 @@ interface MedicineStock {
   batchNumber?: string;
 }
 
-interface Prescription {
-  id: string;
-  patient: {
-    id: string;
-    name: string;
-    phone: string;
-  };
-  doctor: {
-    id: string;
-    name: string;
-    specialty: string;
-  };
-  medicines: Array<{
-    medicineId: string;
-    medicineName: string;
-    dosage: string;
-    quantity: number;
-    instructions: string;
-  }>;
-  status: 'pending' | 'processing' | 'ready' | 'dispensed' | 'cancelled';
-  createdAt: string;
-}
-
 export default function PharmacistDashboard() {
   const { user } = useAuth();
   const { t } = useLanguage();
@@ -76,22 +60,27 @@ export default function PharmacistDashboard() {
   const {
     stock: realTimeStock,
     alerts,
-    movements,
     isLoading: stockLoading,
     isUpdating,
     updateStock,
     acknowledgeAlert,
-    createManualOrder,
+    draftReorder,
     getStockStatistics,
     getLowStockItems,
-    searchStock,
-    getExpiringSoon
+    searchStock
   } = useMedicineStock('pharmacy-1'); // Assuming pharmacy-1 for demo
   
   const [selectedMedicine, setSelectedMedicine] = useState<MedicineStock | null>(null);
   const [stockUpdateQuantity, setStockUpdateQuantity] = useState<number>(0);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [qrScannerOpen, setQrScannerOpen] = useState<boolean>(false);
+  const [dispensingId, setDispensingId] = useState<string | null>(null);
+  const [receiveOpen, setReceiveOpen] = useState<boolean>(false);
+  const [ruleFor, setRuleFor] = useState<MedicineStock | null>(null);
+
+  const { data: pharmacist } = useCurrentPharmacist();
+  const { data: prescriptions = [], isLoading: prescriptionsLoading } = usePharmacyPrescriptions(pharmacist);
+  const updatePrescriptionStatus = useUpdatePrescriptionStatus();
 
   // Mock data for demonstration
   const mockStock: MedicineStock[] = [
@@ -142,57 +131,6 @@ export default function PharmacistDashboard() {
     }
   ];
 
-  const mockPrescriptions: Prescription[] = [
-    {
-      id: 'pres1',
-      patient: {
-        id: 'patient1',
-        name: 'Rajesh Kumar',
-        phone: '+91 98765 43210'
-      },
-      doctor: {
-        id: 'doc1',
-        name: 'Dr. Priya Sharma',
-        specialty: 'General Medicine'
-      },
-      medicines: [
-        {
-          medicineId: 'med1',
-          medicineName: 'Paracetamol 500mg',
-          dosage: '500mg',
-          quantity: 10,
-          instructions: 'Take 1 tablet twice daily after meals'
-        }
-      ],
-      status: 'pending',
-      createdAt: new Date().toISOString()
-    },
-    {
-      id: 'pres2',
-      patient: {
-        id: 'patient2',
-        name: 'Sunita Devi',
-        phone: '+91 87654 32109'
-      },
-      doctor: {
-        id: 'doc2',
-        name: 'Dr. Amit Singh',
-        specialty: 'Cardiology'
-      },
-      medicines: [
-        {
-          medicineId: 'med2',
-          medicineName: 'Amoxicillin 250mg',
-          dosage: '250mg',
-          quantity: 14,
-          instructions: 'Take 1 capsule three times daily'
-        }
-      ],
-      status: 'processing',
-      createdAt: new Date().toISOString()
-    }
-  ];
-
   // Use real-time stock data instead of mock data
   const stockData = realTimeStock.length > 0 ? realTimeStock : mockStock;
   const filteredStock = searchQuery 
@@ -213,6 +151,7 @@ export default function PharmacistDashboard() {
       case 'pending': return 'bg-blue-100 text-blue-800';
       case 'processing': return 'bg-yellow-100 text-yellow-800';
       case 'ready': return 'bg-green-100 text-green-800';
+      case 'partially_dispensed': return 'bg-orange-100 text-orange-800';
       case 'dispensed': return 'bg-gray-100 text-gray-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
@@ -229,18 +168,37 @@ export default function PharmacistDashboard() {
     }
   };
 
-  const handlePrescriptionStatusUpdate = (prescriptionId: string, newStatus: string) => {
-    // In a real app, this would make an API call
-    toast({
-      title: "Prescription Updated",
-      description: `Prescription status updated to ${newStatus}`,
-    });
+  const handleDownloadPrescription = async (prescriptionId: string) => {
+    try {
+      await downloadPrescriptionPdf(prescriptionId);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : 'Could not download the prescription',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handlePrescriptionStatusUpdate = async (prescriptionId: string, newStatus: Exclude<PrescriptionStatus, 'pending' | 'partially_dispensed'>) => {
+    try {
+      await updatePrescriptionStatus.mutateAsync({ prescriptionId, status: newStatus });
+      toast({
+        title: "Prescription Updated",
+        description: `Prescription status updated to ${newStatus}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : 'Could not update the prescription',
+        variant: "destructive"
+      });
+    }
   };
 
   const stockStats = getStockStatistics();
   const lowStockMedicines = getLowStockItems();
-  const expiringSoon = getExpiringSoon(30);
-  const pendingPrescriptions = mockPrescriptions.filter(pres => pres.status === 'pending');
+  const pendingPrescriptions = prescriptions.filter(pres => pres.status === 'pending');
 
   return (
     <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -307,9 +265,10 @@ export default function PharmacistDashboard() {
 
       {/* Main Content */}
       <Tabs defaultValue="stock" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="stock">Medicine Stock</TabsTrigger>
           <TabsTrigger value="prescriptions">Prescriptions</TabsTrigger>
+          <TabsTrigger value="orders">Orders</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
         </TabsList>
 
@@ -327,23 +286,22 @@ export default function PharmacistDashboard() {
                         Scan QR Code
                       </Button>
                     </DialogTrigger>
-                    <DialogContent>
+                    <DialogContent className="max-h-[90vh] overflow-y-auto">
                       <DialogHeader>
-                        <DialogTitle>QR Code Scanner</DialogTitle>
+                        <DialogTitle>Verify Prescription</DialogTitle>
                       </DialogHeader>
-                      <div className="p-8 text-center">
-                        <QrCode className="h-16 w-16 mx-auto mb-4 text-gray-400" />
-                        <p className="text-gray-600">QR Scanner functionality would be implemented here</p>
-                        <p className="text-sm text-gray-500 mt-2">
-                          This would integrate with device camera to scan medicine QR codes
-                        </p>
-                      </div>
+                      {qrScannerOpen && <PrescriptionVerifier />}
                     </DialogContent>
                   </Dialog>
                   
-                  <Button size="sm">
+                  <Button
+                    size="sm"
+                    onClick={() => setReceiveOpen(true)}
+                    disabled={!pharmacist?.pharmacyId}
+                    data-testid="button-receive-stock"
+                  >
                     <Plus className="h-4 w-4 mr-2" />
-                    Add Medicine
+                    Receive Stock
                   </Button>
                 </div>
               </div>
@@ -382,6 +340,16 @@ export default function PharmacistDashboard() {
                         </div>
                       </div>
                       <div className="flex gap-2">
+                        {pharmacist?.pharmacyId && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setRuleFor(medicine)}
+                            data-testid={`button-reorder-rule-${medicine.id}`}
+                          >
+                            Reorder Rule
+                          </Button>
+                        )}
                         <Dialog>
                           <DialogTrigger asChild>
                             <Button 
@@ -428,6 +396,8 @@ export default function PharmacistDashboard() {
               </div>
             </CardContent>
           </Card>
+
+          {pharmacist?.pharmacyId && <ExpiryAlertsCard pharmacyId={pharmacist.pharmacyId} />}
         </TabsContent>
 
         {/* Prescriptions Tab */}
@@ -438,14 +408,23 @@ export default function PharmacistDashboard() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {mockPrescriptions.map((prescription) => (
-                  <div key={prescription.id} className="border rounded-lg p-4">
+                {prescriptionsLoading && (
+                  <p className="text-gray-500">Loading prescriptions...</p>
+                )}
+                {!prescriptionsLoading && prescriptions.length === 0 && (
+                  <div className="text-center py-8" data-testid="text-no-prescriptions">
+                    <FileText className="h-10 w-10 mx-auto mb-2 text-gray-400" />
+                    <p className="text-gray-500">No prescriptions routed to your pharmacy yet</p>
+                  </div>
+                )}
+                {prescriptions.map((prescription) => (
+                  <div key={prescription.id} className="border rounded-lg p-4" data-testid={`card-prescription-${prescription.id}`}>
                     <div className="flex justify-between items-start">
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
                           <h3 className="font-semibold">Prescription #{prescription.id.slice(-6)}</h3>
                           <Badge className={getPrescriptionStatusColor(prescription.status)}>
-                            {prescription.status.toUpperCase()}
+                            {prescription.status.replace('_', ' ').toUpperCase()}
                           </Badge>
                         </div>
                         
@@ -457,7 +436,7 @@ export default function PharmacistDashboard() {
                           </div>
                           <div>
                             <p className="text-sm text-gray-600">Doctor</p>
-                            <p className="font-medium">{prescription.doctor.name}</p>
+                            <p className="font-medium">Dr. {prescription.doctor.user.name}</p>
                             <p className="text-sm text-gray-500">{prescription.doctor.specialty}</p>
                           </div>
                         </div>
@@ -465,22 +444,37 @@ export default function PharmacistDashboard() {
                         <div className="mb-3">
                           <p className="text-sm text-gray-600 mb-2">Medicines:</p>
                           <div className="space-y-1">
-                            {prescription.medicines.map((medicine, index) => (
-                              <div key={index} className="text-sm bg-gray-50 p-2 rounded">
+                            {prescription.medicines.map((medicine) => (
+                              <div key={medicine.medicineId} className="text-sm bg-gray-50 p-2 rounded">
                                 <span className="font-medium">{medicine.medicineName}</span>
                                 <span className="text-gray-600"> - {medicine.dosage} x {medicine.quantity}</span>
-                                <p className="text-xs text-gray-500 mt-1">{medicine.instructions}</p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                  {medicine.frequency} for {medicine.durationDays} days{medicine.instructions ? ` • ${medicine.instructions}` : ''}
+                                </p>
                               </div>
                             ))}
+                            {prescription.instructions && (
+                              <p className="text-xs text-gray-500">{prescription.instructions}</p>
+                            )}
                           </div>
                         </div>
 
                         <p className="text-xs text-gray-500">
                           Created: {format(new Date(prescription.createdAt), 'MMM dd, yyyy HH:mm')}
+                          {prescription.validUntil && ` • Valid until: ${format(new Date(prescription.validUntil), 'MMM dd, yyyy')}`}
+                          {!prescription.signature && ' • Unsigned'}
                         </p>
                       </div>
                       
                       <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDownloadPrescription(prescription.id)}
+                          data-testid={`button-download-prescription-${prescription.id}`}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
                         {prescription.status === 'pending' && (
                           <>
                             <Button 
@@ -502,17 +496,31 @@ export default function PharmacistDashboard() {
                             </Button>
                           </>
                         )}
-                        {prescription.status === 'ready' && (
-                          <>
-                            <Button 
-                              size="sm" 
-                              onClick={() => handlePrescriptionStatusUpdate(prescription.id, 'dispensed')}
-                            >
-                              Mark Dispensed
-                            </Button>
-                          </>
+                        {(prescription.status === 'ready' || prescription.status === 'partially_dispensed') && (
+                          <Button 
+                            size="sm" 
+                            onClick={() => setDispensingId(prescription.id)}
+                            data-testid={`button-dispense-${prescription.id}`}
+                          >
+                            {prescription.status === 'ready' ? 'Dispense' : 'Dispense Remaining'}
+                          </Button>
+                        )}
+                        {['pending', 'processing', 'ready'].includes(prescription.status) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handlePrescriptionStatusUpdate(prescription.id, 'cancelled')}
+                            data-testid={`button-cancel-prescription-${prescription.id}`}
+                          >
+                            Cancel
+                          </Button>
                         )}
                       </div>
+                      <DispensePrescriptionDialog
+                        prescription={prescription}
+                        open={dispensingId === prescription.id}
+                        onOpenChange={(open) => setDispensingId(open ? prescription.id : null)}
+                      />
                     </div>
                   </div>
                 ))}
@@ -521,6 +529,15 @@ export default function PharmacistDashboard() {
           </Card>
         </TabsContent>
 
+        {/* Purchase Orders Tab */}
+        <TabsContent value="orders" className="space-y-6">
+          {pharmacist?.pharmacyId ? (
+            <PurchaseOrdersPanel pharmacyId={pharmacist.pharmacyId} />
+          ) : (
+            <p className="text-gray-500">Your account is not linked to a pharmacy yet.</p>
+          )}
+        </TabsContent>
+
         {/* Analytics Tab */}
         <TabsContent value="analytics" className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -550,7 +567,8 @@ export default function PharmacistDashboard() {
                             <Button 
                               size="sm" 
                               variant="outline"
-                              onClick={() => createManualOrder(alert.medicineId, alert.minimumStock * 2, 'Default Supplier', alert.urgency)}
+                              onClick={() => draftReorder(alert)}
+                              disabled={alert.orderDrafted}
                             >
                               Reorder
                             </Button>
@@ -574,39 +592,26 @@ export default function PharmacistDashboard() {
               </CardContent>
             </Card>
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Recent Activity</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  <div className="flex items-center gap-3">
-                    <CheckCircle className="h-5 w-5 text-green-600" />
-                    <div>
-                      <p className="text-sm font-medium">Prescription #123456 dispensed</p>
-                      <p className="text-xs text-gray-500">2 hours ago</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <Package className="h-5 w-5 text-blue-600" />
-                    <div>
-                      <p className="text-sm font-medium">Stock updated for Paracetamol</p>
-                      <p className="text-xs text-gray-500">4 hours ago</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <Clock className="h-5 w-5 text-yellow-600" />
-                    <div>
-                      <p className="text-sm font-medium">New prescription received</p>
-                      <p className="text-xs text-gray-500">6 hours ago</p>
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {pharmacist?.pharmacyId && (
+              <>
+                <StockActivityCard pharmacyId={pharmacist.pharmacyId} />
+                <StockReconciliationCard pharmacyId={pharmacist.pharmacyId} />
+              </>
+            )}
           </div>
         </TabsContent>
       </Tabs>
+
+      {pharmacist?.pharmacyId && (
+        <>
+          <ReceiveBatchDialog pharmacyId={pharmacist.pharmacyId} open={receiveOpen} onOpenChange={setReceiveOpen} />
+          <ReorderRuleDialog
+            pharmacyId={pharmacist.pharmacyId}
+            medicine={ruleFor}
+            onOpenChange={(open) => !open && setRuleFor(null)}
+          />
+        </>
+      )}
     </main>
   );
 }
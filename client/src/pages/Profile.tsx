@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { AppointmentCard } from '@/components/AppointmentCard';
+import { OfflineDataSettings } from '@/components/OfflineDataSettings';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useAppointments, useSymptomChecks } from '@/hooks/useAppointments';
@@ -180,6 +181,8 @@ export default function Profile() {
               </div>
             </CardContent>
           </Card>
+
+          <OfflineDataSettings />
         </div>
 
         {/* Appointments and History */}
@@ -209,6 +212,7 @@ export default function Profile() {
                       key={appointment.id}
                       appointment={appointment}
                       onJoin={(apt) => navigate(`/video/appointment-${apt.id}`)}
+                      onChat={(apt) => navigate(`/chat/${apt.id}`)}
                     />
                   ))}
                   {appointments.length > 5 && (
@@ -1,4 +1,5 @@
 import { HealthRecords } from '@/components/HealthRecords';
+import { PatientPrescriptions } from '@/components/PatientPrescriptions';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLocation } from 'wouter';
 
@@ -12,7 +13,8 @@ export default function Records() {
   }
 
   return (
-    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+      {user.role === 'patient' && <PatientPrescriptions />}
       <HealthRecords />
     </div>
   );
@@ -2,26 +2,28 @@ import { useParams } from 'wouter';
 import { VideoCall } from '@/components/VideoCall';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLocation } from 'wouter';
+import { parseAppointmentRoomId } from '@shared/callSessions';
 
 export default function VideoConsultation() {
   const { user } = useAuth();
   const [, navigate] = useLocation();
   const params = useParams();
-  const roomId = params.roomId;
 
   if (!user) {
     navigate('/login');
     return null;
   }
 
-  if (!roomId) {
+  // Every call belongs to an appointment and runs in the room "appointment-<id>"
+  const appointmentId = parseAppointmentRoomId(params.roomId);
+  if (!appointmentId) {
     navigate('/');
     return null;
   }
 
   return (
     <VideoCall
-      roomId={roomId}
+      appointmentId={appointmentId}
       onEnd={() => navigate('/')}
     />
   );
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useActiveWalkIn, useRegisterWalkIn } from '@/hooks/useWalkIns';
+import { useToast } from '@/hooks/use-toast';
+import { WalkInStatusCard } from '@/components/WalkInStatusCard';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserPlus } from 'lucide-react';
+import type { WalkInSource } from '@shared/triage';
+
+/**
+ * Walk-in teleconsult waiting room. Patients join it themselves; ASHA workers
+ * and hospital desk staff register patients by phone number and can follow
+ * everyone they registered.
+ */
+export default function WaitingRoom() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isPatient = user?.role === 'patient';
+  const { data: active, isLoading } = useActiveWalkIn(isPatient ? user?.id : null);
+  const registerWalkIn = useRegisterWalkIn();
+  const [phone, setPhone] = useState('');
+  const [location, setLocation] = useState('');
+  const [reason, setReason] = useState('');
+  const [source, setSource] = useState<WalkInSource>('desk');
+  // Walk-ins registered from this screen by staff, newest first
+  const [registeredIds, setRegisteredIds] = useState<string[]>([]);
+
+  const handleRegister = async () => {
+    try {
+      const walkIn = await registerWalkIn.mutateAsync({
+        phone: isPatient ? undefined : phone.trim(),
+        location: location.trim() || undefined,
+        reason: reason.trim() || undefined,
+        source: user?.role === 'admin' ? source : undefined,
+      });
+      toast({
+        title: "Added to the Queue",
+        description: isPatient
+          ? `You are number ${walkIn.position} in line`
+          : `${walkIn.patient.name} is number ${walkIn.position} in line`,
+      });
+      if (!isPatient) {
+        setRegisteredIds(ids => [walkIn.id, ...ids.filter(id => id !== walkIn.id)]);
+        setPhone('');
+      }
+      setReason('');
+    } catch (error) {
+      toast({
+        title: "Could not join the queue",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const registrationForm = (
+    <Card data-testid="card-walk-in-registration">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          {isPatient ? 'Join the Waiting Room' : 'Register a Walk-in'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isPatient ? (
+          <p className="text-sm text-gray-600">
+            No appointment? Wait here to be seen by the next available doctor. Patients with
+            urgent symptoms in a recent symptom check are seen first.
+          </p>
+        ) : (
+          <div>
+            <Label htmlFor="walk-in-phone">Patient's phone number</Label>
+            <Input
+              id="walk-in-phone"
+              type="tel"
+              value={phone}
+              placeholder="Registered mobile number"
+              onChange={(e) => setPhone(e.target.value)}
+              data-testid="input-walk-in-phone"
+            />
+          </div>
+        )}
+        <div>
+          <Label htmlFor="walk-in-location">Waiting at</Label>
+          <Input
+            id="walk-in-location"
+            value={location}
+            placeholder="e.g. Nabha civil hospital desk, village health centre"
+            onChange={(e) => setLocation(e.target.value)}
+            data-testid="input-walk-in-location"
+          />
+        </div>
+        <div>
+          <Label htmlFor="walk-in-reason">Reason for visit</Label>
+          <Textarea
+            id="walk-in-reason"
+            value={reason}
+            rows={2}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="textarea-walk-in-reason"
+          />
+        </div>
+        {user?.role === 'admin' && (
+          <div>
+            <Label>Registered through</Label>
+            <Select value={source} onValueChange={(value) => setSource(value as WalkInSource)}>
+              <SelectTrigger data-testid="select-walk-in-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="desk">Hospital desk</SelectItem>
+                <SelectItem value="asha">ASHA worker</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <Button
+          className="w-full"
+          onClick={handleRegister}
+          disabled={registerWalkIn.isPending || (!isPatient && phone.trim().length < 10)}
+          data-testid="button-register-walk-in"
+        >
+          {registerWalkIn.isPending ? 'Registering...' : isPatient ? 'Join Queue' : 'Add to Queue'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Walk-in Teleconsult</h1>
+        <p className="text-gray-600">
+          {isPatient
+            ? 'Your place in the queue updates live while you wait.'
+            : 'Register patients who arrived without an appointment and follow their place in the queue.'}
+        </p>
+      </div>
+
+      {isPatient ? (
+        isLoading ? (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-gray-500">Loading waiting room status...</p>
+            </CardContent>
+          </Card>
+        ) : active ? (
+          <WalkInStatusCard walkInId={active.id} isPatient />
+        ) : registrationForm
+      ) : (
+        <>
+          {registrationForm}
+          {registeredIds.map(id => <WalkInStatusCard key={id} walkInId={id} />)}
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,161 @@
+/// <reference lib="webworker" />
+/**
+ * Service worker. Built by the service-worker plugin in vite.config.ts, which
+ * injects this build's version and the list of files to precache, so each
+ * deploy produces a new worker that the page offers to switch to.
+ *
+ * - The app shell and bundles are precached and served cache-first; any
+ *   navigation falls back to the cached index.html so the app starts offline.
+ * - A few read-only, non-personal API lists are network-first with the last
+ *   response kept for offline use. Nothing else under /api is cached.
+ * - Background sync wakes an open window to drain the offline queue; the
+ *   queue is encrypted with a key only that window holds.
+ */
+import { RUNTIME_CACHES, SHELL_CACHE_PREFIX, SW_MESSAGES, SYNC_QUEUE_TAG } from './src/lib/swProtocol';
+
+declare const self: ServiceWorkerGlobalScope;
+declare const __SW_VERSION__: string;
+declare const __PRECACHE_URLS__: string[];
+
+// Background Sync is not in TypeScript's webworker library yet
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+declare global {
+  interface ServiceWorkerGlobalScopeEventMap {
+    sync: SyncEvent;
+  }
+}
+
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${__SW_VERSION__}`;
+
+const CACHED_API_PATHS = ['/api/doctors/online', '/api/medicines/search', '/api/pharmacies'];
+const MAX_API_ENTRIES = 100;
+
+// Icon font and web fonts used by the shell
+const STATIC_ORIGINS = ['https://cdnjs.cloudflare.com', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+const SYNC_REPLY_TIMEOUT_MS = 60_000;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(__PRECACHE_URLS__)));
+  // No skipWaiting(): the page asks first, so a running session is not swapped mid-use
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names
+        .filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE)
+        .map(name => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === SW_MESSAGES.skipWaiting) {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) {
+    if (request.mode === 'navigate') {
+      event.respondWith(serveShell(request));
+    } else if (CACHED_API_PATHS.includes(url.pathname)) {
+      event.respondWith(networkFirst(request));
+    } else if (!url.pathname.startsWith('/api/')) {
+      event.respondWith(cacheFirst(request));
+    }
+  } else if (STATIC_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+async function serveShell(request: Request): Promise<Response> {
+  const cached = await caches.match('/index.html', { cacheName: SHELL_CACHE });
+  return cached ?? fetch(request);
+}
+
+async function cacheFirst(request: Request): Promise<Response> {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  return cached ?? fetch(request);
+}
+
+async function networkFirst(request: Request): Promise<Response> {
+  const cache = await caches.open(RUNTIME_CACHES.api);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      await trimCache(cache, MAX_API_ENTRIES);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function staleWhileRevalidate(request: Request): Promise<Response> {
+  const cache = await caches.open(RUNTIME_CACHES.static);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(async (response) => {
+      // Opaque (status 0) responses are what cross-origin stylesheets and fonts give us
+      if (response.ok || response.type === 'opaque') {
+        await cache.put(request, response.clone());
+      }
+      return response;
+    });
+  if (cached) {
+    refresh.catch(() => undefined);
+    return cached;
+  }
+  return refresh;
+}
+
+// Oldest entries first; Cache Storage keeps insertion order
+async function trimCache(cache: Cache, maxEntries: number): Promise<void> {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_QUEUE_TAG) {
+    event.waitUntil(requestQueueSync());
+  }
+});
+
+/**
+ * Ask an open window to drain its queue and wait for it to finish. Rejecting
+ * (no window, or it failed) makes the browser retry the sync later.
+ */
+async function requestQueueSync(): Promise<void> {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length === 0) {
+    throw new Error('No open window to sync the offline queue');
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => reject(new Error('Offline queue sync timed out')), SYNC_REPLY_TIMEOUT_MS);
+    channel.port1.onmessage = (message) => {
+      clearTimeout(timer);
+      if (message.data?.ok) {
+        resolve();
+      } else {
+        reject(new Error(message.data?.error ?? 'Offline queue sync failed'));
+      }
+    };
+    windows[0].postMessage({ type: SW_MESSAGES.syncQueue }, [channel.port2]);
+  });
+}
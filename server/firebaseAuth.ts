@@ -0,0 +1,69 @@
+/**
+ * Firebase ID Token Verification
+ * Verifies Firebase Authentication ID tokens against Google's published signing certificates
+ */
+
+import jwt from 'jsonwebtoken';
+
+const FIREBASE_CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || 'telemedicine-2fc1a';
+
+export interface FirebaseIdentity {
+  uid: string;
+  email?: string;
+  name?: string;
+  phone?: string;
+  picture?: string;
+}
+
+let cachedCerts: Record<string, string> | null = null;
+let certsExpireAt = 0;
+
+async function getSigningCerts(): Promise<Record<string, string>> {
+  if (cachedCerts && Date.now() < certsExpireAt) {
+    return cachedCerts;
+  }
+
+  const response = await fetch(FIREBASE_CERTS_URL);
+  if (!response.ok) {
+    throw new Error(`Unable to fetch Firebase signing certificates: ${response.statusText}`);
+  }
+
+  // Respect Google's cache lifetime so rotated keys are picked up
+  const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+  certsExpireAt = Date.now() + (maxAge ? parseInt(maxAge[1], 10) : 3600) * 1000;
+  cachedCerts = await response.json() as Record<string, string>;
+  return cachedCerts;
+}
+
+export async function verifyFirebaseIdToken(idToken: string): Promise<FirebaseIdentity> {
+  const decodedHeader = jwt.decode(idToken, { complete: true });
+  const kid = decodedHeader?.header.kid;
+  if (!kid) {
+    throw new Error('Firebase ID token is missing a key id');
+  }
+
+  const certs = await getSigningCerts();
+  const cert = certs[kid];
+  if (!cert) {
+    throw new Error('Firebase ID token was signed with an unknown key');
+  }
+
+  const payload = jwt.verify(idToken, cert, {
+    algorithms: ['RS256'],
+    audience: FIREBASE_PROJECT_ID,
+    issuer: `https://securetoken.google.com/${FIREBASE_PROJECT_ID}`,
+  }) as jwt.JwtPayload;
+
+  if (!payload.sub) {
+    throw new Error('Firebase ID token has no subject');
+  }
+
+  return {
+    uid: payload.sub,
+    email: payload.email,
+    name: payload.name,
+    phone: payload.phone_number,
+    picture: payload.picture,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Village Geocoding
+ * Resolves a village or town name to coordinates for patients without a GPS
+ * fix, using OpenStreetMap Nominatim limited to Punjab. Results are cached
+ * for the life of the process; Nominatim's usage policy allows about one
+ * request per second and the same few village names come up again and again.
+ */
+
+import type { Coordinates } from '@shared/geo';
+
+const NOMINATIM_URL = process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org/search';
+const GEOCODER_USER_AGENT = 'SehatSetu/1.0 (pharmacy locator)';
+const GEOCODE_TIMEOUT_MS = 5000;
+const MAX_CACHED_PLACES = 500;
+
+export interface GeocodedPlace extends Coordinates {
+  label: string;
+}
+
+export class GeocodingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeocodingError';
+  }
+}
+
+const cache = new Map<string, GeocodedPlace>();
+
+export async function geocodeVillage(name: string): Promise<GeocodedPlace> {
+  const key = name.trim().toLowerCase();
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const url = new URL(NOMINATIM_URL);
+  url.searchParams.set('q', `${name.trim()}, Punjab`);
+  url.searchParams.set('countrycodes', 'in');
+  url.searchParams.set('format', 'jsonv2');
+  url.searchParams.set('limit', '1');
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { 'User-Agent': GEOCODER_USER_AGENT, 'Accept-Language': 'en' },
+      signal: AbortSignal.timeout(GEOCODE_TIMEOUT_MS),
+    });
+  } catch {
+    throw new Error('Place lookup is unavailable right now; share your location instead');
+  }
+  if (!response.ok) {
+    throw new Error(`Place lookup failed: ${response.statusText}`);
+  }
+
+  const [match] = await response.json() as { lat: string; lon: string; display_name: string }[];
+  if (!match) {
+    throw new GeocodingError(`Could not find a place called "${name.trim()}"`);
+  }
+
+  const place = { lat: Number(match.lat), lng: Number(match.lon), label: match.display_name };
+  if (cache.size >= MAX_CACHED_PLACES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, place);
+  return place;
+}
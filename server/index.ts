@@ -3,6 +3,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Files shared in a consultation chat arrive base64 encoded, up to 5 MB before encoding
+app.use('/api/appointments/:id/attachments', express.json({ limit: '8mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
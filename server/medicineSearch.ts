@@ -0,0 +1,107 @@
+import { sql } from 'drizzle-orm';
+import { db } from './db';
+import { medicines, type Medicine } from '@shared/schema';
+import { normalizeSearchText, phoneticKey, searchWords } from '@shared/medicineSearch';
+
+/**
+ * SQLite FTS5 index behind medicine search. Rows hold the normalised
+ * (transliterated, lowercase) name, generic name and manufacturer, plus the
+ * phonetic keys of the name and generic name. The keys are computed in
+ * JavaScript, so the index is written from code rather than by triggers: it is
+ * rebuilt from the medicines table on first use in each process and updated by
+ * indexMedicine() on every write after that.
+ */
+
+const MAX_QUERY_WORDS = 8;
+// Shorter keys ("pr") would match most of the catalogue
+const MIN_PHONETIC_KEY_LENGTH = 3;
+
+const CREATE_SEARCH_TABLE = sql.raw(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS medicine_search USING fts5(
+    medicine_id UNINDEXED, name, generic_name, manufacturer, phonetic,
+    tokenize = 'unicode61', prefix = '2 3'
+  )
+`);
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+let indexReady = false;
+
+function phoneticKeys(...texts: (string | null)[]): string {
+  const keys = texts.flatMap(text => (text ? searchWords(text) : []).map(phoneticKey));
+  return Array.from(new Set(keys)).join(' ');
+}
+
+function insertSearchRow(tx: Transaction, medicine: Medicine) {
+  tx.run(sql`
+    INSERT INTO medicine_search (medicine_id, name, generic_name, manufacturer, phonetic)
+    VALUES (
+      ${medicine.id},
+      ${normalizeSearchText(medicine.name)},
+      ${normalizeSearchText(medicine.genericName ?? '')},
+      ${normalizeSearchText(medicine.manufacturer ?? '')},
+      ${phoneticKeys(medicine.name, medicine.genericName)}
+    )
+  `);
+}
+
+export function ensureMedicineSearchIndex(): void {
+  if (indexReady) return;
+  db.transaction((tx) => {
+    tx.run(CREATE_SEARCH_TABLE);
+    tx.run(sql`DELETE FROM medicine_search`);
+    for (const medicine of tx.select().from(medicines).all()) {
+      insertSearchRow(tx, medicine);
+    }
+  }, { behavior: 'immediate' });
+  indexReady = true;
+}
+
+export function indexMedicine(medicine: Medicine): void {
+  if (!indexReady) {
+    // The first build reads the medicine from the table
+    ensureMedicineSearchIndex();
+    return;
+  }
+  db.transaction((tx) => {
+    tx.run(sql`DELETE FROM medicine_search WHERE medicine_id = ${medicine.id}`);
+    insertSearchRow(tx, medicine);
+  });
+}
+
+function matchIds(match: string, limit: number): string[] {
+  // Name matches count most, then generic name, phonetic keys and manufacturer
+  const rows = db.all<{ medicineId: string }>(sql`
+    SELECT medicine_id AS medicineId FROM medicine_search
+    WHERE medicine_search MATCH ${match}
+    ORDER BY bm25(medicine_search, 0.0, 10.0, 5.0, 1.0, 2.0)
+    LIMIT ${limit}
+  `);
+  return rows.map(row => row.medicineId);
+}
+
+/**
+ * Ids of medicines matching a free-text query, best first. Every word must
+ * match by prefix or phonetic key; if that finds nothing, any word will do.
+ */
+export function searchMedicineIds(query: string, limit: number): string[] {
+  ensureMedicineSearchIndex();
+
+  // Words are [a-z0-9]+ after normalising, so they are safe inside FTS5 quotes
+  const clauses = searchWords(query).slice(0, MAX_QUERY_WORDS).map((word) => {
+    const key = phoneticKey(word);
+    const text = `{name generic_name manufacturer} : "${word}"*`;
+    return key.length >= MIN_PHONETIC_KEY_LENGTH ? `(${text} OR phonetic : "${key}"*)` : `(${text})`;
+  });
+  if (clauses.length === 0) return [];
+
+  const ids = matchIds(clauses.join(' AND '), limit);
+  return ids.length > 0 || clauses.length === 1 ? ids : matchIds(clauses.join(' OR '), limit);
+}
+
+// Candidates sharing a generic name; callers still compare the exact normalised name
+export function searchGenericIds(genericName: string, limit: number): string[] {
+  ensureMedicineSearchIndex();
+  const phrase = normalizeSearchText(genericName);
+  return phrase ? matchIds(`generic_name : "${phrase}"`, limit) : [];
+}
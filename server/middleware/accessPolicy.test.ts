@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { type Request, type Response } from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { User, Doctor, Appointment } from '@shared/schema';
+
+vi.mock('../storage', () => ({
+  storage: {
+    getUser: vi.fn(),
+    getDoctorByUserId: vi.fn(),
+    hasCareRelationship: vi.fn(),
+    hasRegisteredWalkIn: vi.fn(),
+    hasCareHistory: vi.fn(),
+  },
+}));
+
+import { storage } from '../storage';
+import { issueAccessToken, authenticateToken, authorizeRole, classifyData } from './security';
+import { requirePatientAccess, canAccessPatient, canRegisterWalkIn, canJoinAsGuest } from './accessPolicy';
+
+const patient: User = {
+  id: '2b4f7c1e-9a3d-4e8b-b6f0-5c2d1a7e9f66',
+  firebaseUid: 'firebase-patient',
+  email: 'asha.devi@example.com',
+  emailIndex: null,
+  name: 'Asha Devi',
+  phone: '+919812345678',
+  phoneIndex: null,
+  role: 'patient',
+  profilePicture: null,
+  isActive: true,
+  gender: 'female',
+  dateOfBirth: '1990-04-12',
+  address: 'Village Road, Nabha',
+  maritalStatus: null,
+  emergencyContact: null,
+  emergencyPhone: null,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+};
+const doctorUser: User = { ...patient, id: 'doctor-user-1', firebaseUid: 'firebase-doctor', name: 'Dr. Kaur', role: 'doctor' };
+const doctor = { id: 'doctor-1', userId: doctorUser.id } as Doctor;
+const ashaUser: User = { ...patient, id: 'asha-user-1', firebaseUid: 'firebase-asha', name: 'Sunita', role: 'asha' };
+
+// POST /api/appointments as mounted in routes.ts, behind the global classifyData
+function appointmentsApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(classifyData);
+  app.post('/api/appointments',
+    authenticateToken,
+    authorizeRole(['patient', 'doctor', 'admin']),
+    requirePatientAccess('Appointment', req => req.body?.patientId),
+    (req: Request, res: Response) => {
+      res.json(req.body);
+    }
+  );
+  return app;
+}
+
+describe('requirePatientAccess behind classifyData', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    vi.mocked(storage.getUser).mockImplementation(async (id) => (id === patient.id ? patient : undefined));
+    server = appointmentsApp().listen(0);
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    vi.clearAllMocks();
+  });
+
+  const book = (body: Record<string, unknown>) =>
+    fetch(`${baseUrl}/api/appointments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${issueAccessToken(patient).token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+  it('lets a patient book an appointment for themselves', async () => {
+    const body = {
+      patientId: patient.id,
+      doctorId: 'doctor-1',
+      scheduledAt: '2026-10-20T04:30:00.000Z',
+      reason: 'Fever for three days',
+    };
+
+    const response = await book(body);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(body);
+  });
+
+  it('refuses a patient booking for someone else', async () => {
+    const response = await book({
+      patientId: '7d1c0b9e-3f2a-4c5d-8e6f-0a1b2c3d4e5f',
+      doctorId: 'doctor-1',
+      scheduledAt: '2026-10-20T04:30:00.000Z',
+    });
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('canAccessPatient', () => {
+  afterEach(() => vi.clearAllMocks());
+
+  it('lets a doctor reach only patients they have a care relationship with', async () => {
+    vi.mocked(storage.getDoctorByUserId).mockResolvedValue(doctor);
+    vi.mocked(storage.hasCareRelationship).mockImplementation(async (_doctorId, patientId) => patientId === patient.id);
+
+    expect(await canAccessPatient(doctorUser, patient.id)).toBe(true);
+    expect(await canAccessPatient(doctorUser, 'someone-else')).toBe(false);
+    expect(storage.hasCareRelationship).toHaveBeenCalledWith(doctor.id, patient.id);
+  });
+
+  it('refuses a doctor account without a doctor profile', async () => {
+    vi.mocked(storage.getDoctorByUserId).mockResolvedValue(undefined);
+
+    expect(await canAccessPatient(doctorUser, patient.id)).toBe(false);
+  });
+});
+
+describe('canRegisterWalkIn', () => {
+  afterEach(() => vi.clearAllMocks());
+
+  it('lets an ASHA worker queue a patient they brought in before', async () => {
+    vi.mocked(storage.hasRegisteredWalkIn).mockResolvedValue(true);
+    vi.mocked(storage.hasCareHistory).mockResolvedValue(true);
+
+    expect(await canRegisterWalkIn(ashaUser, patient.id)).toBe(true);
+  });
+
+  it('lets an ASHA worker queue someone new to the service', async () => {
+    vi.mocked(storage.hasRegisteredWalkIn).mockResolvedValue(false);
+    vi.mocked(storage.hasCareHistory).mockResolvedValue(false);
+
+    expect(await canRegisterWalkIn(ashaUser, patient.id)).toBe(true);
+  });
+
+  it('refuses an ASHA worker an established patient they have never brought in', async () => {
+    vi.mocked(storage.hasRegisteredWalkIn).mockResolvedValue(false);
+    vi.mocked(storage.hasCareHistory).mockResolvedValue(true);
+
+    expect(await canRegisterWalkIn(ashaUser, patient.id)).toBe(false);
+  });
+
+  it('lets a patient queue only themselves', async () => {
+    expect(await canRegisterWalkIn(patient, patient.id)).toBe(true);
+    expect(await canRegisterWalkIn(patient, 'someone-else')).toBe(false);
+  });
+});
+
+describe('canJoinAsGuest', () => {
+  const appointment = { id: 'appointment-1', patientId: patient.id, doctorId: doctor.id } as Appointment;
+  const relative: User = { ...patient, id: 'relative-1', firebaseUid: 'firebase-relative', name: 'Ravi' };
+
+  afterEach(() => vi.clearAllMocks());
+
+  it('admits a family member with their own patient account', async () => {
+    expect(await canJoinAsGuest(relative, appointment)).toBe(true);
+  });
+
+  it('does not admit the appointment\'s own patient as a guest', async () => {
+    expect(await canJoinAsGuest(patient, appointment)).toBe(false);
+  });
+
+  it('admits an ASHA worker only if they brought this patient in before', async () => {
+    vi.mocked(storage.hasRegisteredWalkIn).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    expect(await canJoinAsGuest(ashaUser, appointment)).toBe(true);
+    expect(await canJoinAsGuest(ashaUser, appointment)).toBe(false);
+    expect(storage.hasRegisteredWalkIn).toHaveBeenCalledWith(ashaUser.id, patient.id);
+  });
+
+  it('does not admit other doctors', async () => {
+    expect(await canJoinAsGuest({ ...doctorUser, id: 'doctor-user-2' }, appointment)).toBe(false);
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * Resource Ownership Policy
+ * Decides which patients, appointments and prescriptions an authenticated user may touch.
+ * Patients see only themselves, doctors only patients they have a care relationship with,
+ * pharmacists only prescriptions routed to their pharmacy, ASHA workers only the walk-ins
+ * they registered. Admins see everything.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { auditService } from '@shared/security';
+import { User, Appointment, HealthRecord, Prescription, WalkIn } from '@shared/schema';
+import { storage } from '../storage';
+import type { CallRole } from '@shared/callSessions';
+import { parseConsultationChatChannel } from '@shared/consultationChat';
+import { parseWalkInChannel, WALK_IN_QUEUE_CHANNEL } from '@shared/triage';
+
+type IdResolver = (req: Request) => string | undefined;
+
+const accessModeFor = (req: Request): 'read' | 'write' | 'delete' => {
+  if (req.method === 'GET') return 'read';
+  if (req.method === 'DELETE') return 'delete';
+  return 'write';
+};
+
+// Record a refused access attempt and answer 403
+export const denyAccess = (
+  req: Request,
+  res: Response,
+  resource: string,
+  resourceId: string,
+  reason: string
+) => {
+  auditService.logDataAccess(
+    resource,
+    resourceId,
+    req.user!.id,
+    accessModeFor(req),
+    {
+      outcome: 'denied',
+      reason,
+      userRole: req.user!.role,
+      endpoint: req.path,
+      method: req.method,
+      ipAddress: req.ip
+    },
+    'high'
+  );
+
+  return res.status(403).json({ error: 'You do not have access to this resource' });
+};
+
+export const canAccessPatient = async (user: User, patientId: string): Promise<boolean> => {
+  switch (user.role) {
+    case 'admin':
+      return true;
+    case 'patient':
+      return user.id === patientId;
+    case 'doctor': {
+      const doctor = await storage.getDoctorByUserId(user.id);
+      return !!doctor && await storage.hasCareRelationship(doctor.id, patientId);
+    }
+    default:
+      return false;
+  }
+};
+
+export const canAccessDoctor = async (user: User, doctorId: string): Promise<boolean> => {
+  if (user.role === 'admin') return true;
+  if (user.role !== 'doctor') return false;
+  const doctor = await storage.getDoctorByUserId(user.id);
+  return doctor?.id === doctorId;
+};
+
+export const canAccessPharmacist = async (user: User, pharmacistId: string): Promise<boolean> => {
+  if (user.role === 'admin') return true;
+  if (user.role !== 'pharmacist') return false;
+  const pharmacist = await storage.getPharmacistByUserId(user.id);
+  return pharmacist?.id === pharmacistId;
+};
+
+export const canAccessPharmacy = async (user: User, pharmacyId: string): Promise<boolean> => {
+  if (user.role === 'admin') return true;
+  if (user.role !== 'pharmacist') return false;
+  const pharmacist = await storage.getPharmacistByUserId(user.id);
+  return !!pharmacist?.pharmacyId && pharmacist.pharmacyId === pharmacyId;
+};
+
+export const canAccessAppointment = async (user: User, appointment: Appointment): Promise<boolean> => {
+  switch (user.role) {
+    case 'admin':
+      return true;
+    case 'patient':
+      return appointment.patientId === user.id;
+    case 'doctor':
+      return canAccessDoctor(user, appointment.doctorId);
+    default:
+      return false;
+  }
+};
+
+// Video calls are open to the appointment's patient and doctor and to invited participants
+// only; admins are not let in unless invited
+export const callRoleFor = async (user: User, appointment: Appointment): Promise<CallRole | null> => {
+  if (appointment.patientId === user.id) return 'patient';
+  if (user.role === 'doctor' && await canAccessDoctor(user, appointment.doctorId)) return 'doctor';
+  return await storage.isAppointmentParticipant(appointment.id, user.id) ? 'guest' : null;
+};
+
+// Guests see the consultation's chat and shared reports: a family member with their own account,
+// or an ASHA worker who has brought this patient in before
+export const canJoinAsGuest = async (invitee: User, appointment: Appointment): Promise<boolean> => {
+  switch (invitee.role) {
+    case 'patient':
+      return invitee.id !== appointment.patientId;
+    case 'asha':
+      return storage.hasRegisteredWalkIn(invitee.id, appointment.patientId);
+    default:
+      return false;
+  }
+};
+
+export const canAccessPrescription = async (user: User, prescription: Prescription): Promise<boolean> => {
+  switch (user.role) {
+    case 'admin':
+      return true;
+    case 'patient':
+      return prescription.patientId === user.id;
+    case 'doctor':
+      return canAccessDoctor(user, prescription.doctorId);
+    case 'pharmacist': {
+      const pharmacist = await storage.getPharmacistByUserId(user.id);
+      if (!pharmacist) return false;
+      return prescription.pharmacistId === pharmacist.id ||
+        (!!prescription.pharmacyId && prescription.pharmacyId === pharmacist.pharmacyId);
+    }
+    default:
+      return false;
+  }
+};
+
+// Record types a patient files about themselves; diagnoses and prescriptions come from a doctor
+const PATIENT_RECORD_TYPES = ['vital', 'report'];
+
+// Reaching a patient is not enough to change their records: a doctor changes only what they
+// filed, a patient only their own vitals and reports
+export const canEditHealthRecord = async (user: User, record: Pick<HealthRecord, 'doctorId' | 'type'>): Promise<boolean> => {
+  switch (user.role) {
+    case 'admin':
+      return true;
+    case 'patient':
+      return !record.doctorId && PATIENT_RECORD_TYPES.includes(record.type);
+    case 'doctor':
+      return !!record.doctorId && canAccessDoctor(user, record.doctorId);
+    default:
+      return false;
+  }
+};
+
+// Staff queue patients they already look after, or someone new to the service with no chart yet
+export const canRegisterWalkIn = async (user: User, patientId: string): Promise<boolean> => {
+  switch (user.role) {
+    case 'admin':
+      return true;
+    case 'patient':
+      return user.id === patientId;
+    case 'asha':
+      return await storage.hasRegisteredWalkIn(user.id, patientId) || !await storage.hasCareHistory(patientId);
+    case 'doctor':
+      return await canAccessPatient(user, patientId) || !await storage.hasCareHistory(patientId);
+    default:
+      return false;
+  }
+};
+
+export const canAccessWalkIn = async (user: User, walkIn: WalkIn): Promise<boolean> => {
+  switch (user.role) {
+    case 'admin':
+      return true;
+    case 'patient':
+      return walkIn.patientId === user.id;
+    case 'asha':
+      return walkIn.registeredBy === user.id;
+    case 'doctor':
+      // Unassigned walk-ins may be called by any doctor
+      return !walkIn.doctorId || canAccessDoctor(user, walkIn.doctorId);
+    default:
+      return false;
+  }
+};
+
+// Socket notification channels follow the REST routes they mirror; unknown channels are refused
+export const canSubscribeToChannel = async (user: User, channel: string): Promise<boolean> => {
+  const chatAppointmentId = parseConsultationChatChannel(channel);
+  if (chatAppointmentId) {
+    const appointment = await storage.getAppointment(chatAppointmentId);
+    return !!appointment && !!await callRoleFor(user, appointment);
+  }
+
+  const walkInId = parseWalkInChannel(channel);
+  if (walkInId) {
+    const walkIn = await storage.getWalkIn(walkInId);
+    return !!walkIn && canAccessWalkIn(user, walkIn);
+  }
+
+  if (channel === WALK_IN_QUEUE_CHANNEL) {
+    return user.role === 'doctor' || user.role === 'admin';
+  }
+
+  const pharmacyId = channel.match(/^pharmacy:(.+)$/)?.[1];
+  if (pharmacyId) {
+    return canAccessPharmacy(user, pharmacyId);
+  }
+
+  return false;
+};
+
+// Middleware: the patient identified by the request must be accessible to the caller
+export const requirePatientAccess = (resource: string, getPatientId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const patientId = getPatientId(req);
+      if (!patientId) {
+        return res.status(400).json({ error: 'Patient ID is required' });
+      }
+      if (!await canAccessPatient(req.user!, patientId)) {
+        return denyAccess(req, res, resource, patientId, 'no_patient_relationship');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const requireDoctorAccess = (resource: string, getDoctorId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const doctorId = getDoctorId(req);
+      if (!doctorId || !await canAccessDoctor(req.user!, doctorId)) {
+        return denyAccess(req, res, resource, doctorId || 'unknown', 'not_own_doctor_profile');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const requirePharmacistAccess = (resource: string, getPharmacistId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const pharmacistId = getPharmacistId(req);
+      if (!pharmacistId || !await canAccessPharmacist(req.user!, pharmacistId)) {
+        return denyAccess(req, res, resource, pharmacistId || 'unknown', 'not_own_pharmacist_profile');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const requireUserAccess = (resource: string, getUserId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = getUserId(req);
+    if (req.user!.role !== 'admin' && req.user!.id !== userId) {
+      return denyAccess(req, res, resource, userId || 'unknown', 'not_own_account');
+    }
+    next();
+  };
+};
+
+export const requireAppointmentAccess = (getAppointmentId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const appointmentId = getAppointmentId(req);
+      const appointment = appointmentId ? await storage.getAppointment(appointmentId) : undefined;
+      if (!appointment) {
+        return res.status(404).json({ error: 'Appointment not found' });
+      }
+      if (!await canAccessAppointment(req.user!, appointment)) {
+        return denyAccess(req, res, 'Appointment', appointment.id, 'not_appointment_participant');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const requireHealthRecordAccess = (getRecordId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const recordId = getRecordId(req);
+      const record = recordId ? await storage.getHealthRecord(recordId) : undefined;
+      if (!record) {
+        return res.status(404).json({ error: 'Health record not found' });
+      }
+      if (!await canAccessPatient(req.user!, record.patientId)) {
+        return denyAccess(req, res, 'HealthRecord', record.id, 'no_patient_relationship');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const requirePrescriptionAccess = (getPrescriptionId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const prescriptionId = getPrescriptionId(req);
+      const prescription = prescriptionId ? await storage.getPrescription(prescriptionId) : undefined;
+      if (!prescription) {
+        return res.status(404).json({ error: 'Prescription not found' });
+      }
+      if (!await canAccessPrescription(req.user!, prescription)) {
+        return denyAccess(req, res, 'Prescription', prescription.id, 'prescription_not_routed_to_caller');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Middleware: pharmacists may only manage their own pharmacy; admins any
+export const requirePharmacyAccess = (resource: string, getPharmacyId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const pharmacyId = getPharmacyId(req);
+      if (!pharmacyId || !await canAccessPharmacy(req.user!, pharmacyId)) {
+        return denyAccess(req, res, resource, pharmacyId || 'unknown', 'not_own_pharmacy');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const requireMedicineStockAccess = (getStockId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const stockId = getStockId(req);
+      const stock = stockId ? await storage.getMedicineStockById(stockId) : undefined;
+      if (!stock) {
+        return res.status(404).json({ error: 'Stock entry not found' });
+      }
+      if (!await canAccessPharmacy(req.user!, stock.pharmacyId)) {
+        return denyAccess(req, res, 'MedicineStock', stock.id, 'not_own_pharmacy');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const requireWalkInAccess = (getWalkInId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const walkInId = getWalkInId(req);
+      const walkIn = walkInId ? await storage.getWalkIn(walkInId) : undefined;
+      if (!walkIn) {
+        return res.status(404).json({ error: 'Walk-in not found' });
+      }
+      if (!await canAccessWalkIn(req.user!, walkIn)) {
+        return denyAccess(req, res, 'WalkIn', walkIn.id, 'not_walk_in_participant');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Everyone who may join the appointment's call may also use its chat
+export const requireConsultationChatAccess = (getAppointmentId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const appointmentId = getAppointmentId(req);
+      const appointment = appointmentId ? await storage.getAppointment(appointmentId) : undefined;
+      if (!appointment) {
+        return res.status(404).json({ error: 'Appointment not found' });
+      }
+      if (!await callRoleFor(req.user!, appointment)) {
+        return denyAccess(req, res, 'Appointment', appointment.id, 'not_chat_participant');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// A file shared in a consultation chat is open to the chat as well as to the patient's care team
+export const requireHealthRecordFileAccess = (getRecordId: IdResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const recordId = getRecordId(req);
+      const record = recordId ? await storage.getHealthRecord(recordId) : undefined;
+      if (!record) {
+        return res.status(404).json({ error: 'Health record not found' });
+      }
+      if (await canAccessPatient(req.user!, record.patientId)) {
+        return next();
+      }
+      const appointment = record.appointmentId ? await storage.getAppointment(record.appointmentId) : undefined;
+      if (!appointment || !await callRoleFor(req.user!, appointment)) {
+        return denyAccess(req, res, 'HealthRecord', record.id, 'no_patient_relationship');
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const AccessPolicy = {
+  denyAccess,
+  canAccessPatient,
+  canAccessDoctor,
+  canAccessPharmacist,
+  canAccessPharmacy,
+  canAccessAppointment,
+  callRoleFor,
+  canJoinAsGuest,
+  canAccessPrescription,
+  canEditHealthRecord,
+  canRegisterWalkIn,
+  canAccessWalkIn,
+  canSubscribeToChannel,
+  requirePatientAccess,
+  requireDoctorAccess,
+  requirePharmacistAccess,
+  requireUserAccess,
+  requireAppointmentAccess,
+  requireHealthRecordAccess,
+  requirePrescriptionAccess,
+  requirePharmacyAccess,
+  requireMedicineStockAccess,
+  requireWalkInAccess,
+  requireConsultationChatAccess,
+  requireHealthRecordFileAccess
+};
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import express, { type RequestHandler } from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { User } from '@shared/schema';
+import { syncRequestSchema } from '@shared/offlineSync';
+import { walkInRegistrationSchema } from '@shared/triage';
+import { inviteParticipantSchema } from '@shared/callSessions';
+
+vi.mock('../storage', () => ({ storage: {} }));
+
+import { classifyData } from './security';
+
+const asha = { id: 'asha-1', role: 'asha' } as User;
+const patientId = '2b4f7c1e-9a3d-4e8b-b6f0-5c2d1a7e9f66';
+const registeredPhones = new Map([['+919812345678', patientId]]);
+
+// The global middleware stack from routes.ts up to a route's handler
+function appWith(path: string, handler: RequestHandler) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = asha;
+    next();
+  });
+  app.use(classifyData);
+  app.post(path, handler);
+  return app;
+}
+
+describe('classifyData', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      const listening = server;
+      await new Promise<void>(resolve => listening.close(() => resolve()));
+      server = undefined;
+    }
+  });
+
+  const post = async (path: string, handler: RequestHandler, body: unknown) => {
+    server = appWith(path, handler).listen(0);
+    await new Promise<void>(resolve => server!.once('listening', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+    return fetch(`http://127.0.0.1:${port}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  };
+
+  it('hands POST /api/sync a batch carrying patient ids that still validates', async () => {
+    const body = {
+      operations: [
+        {
+          idempotencyKey: 'offline-0001',
+          entity: 'healthRecords',
+          type: 'create',
+          data: { patientId, recordType: 'vitals', title: 'BP reading' },
+        },
+        {
+          idempotencyKey: 'offline-0002',
+          entity: 'symptomChecks',
+          type: 'create',
+          data: { patientId, symptoms: ['fever', 'cough'] },
+        },
+      ],
+    };
+
+    const response = await post('/api/sync', (req, res) => {
+      const parsed = syncRequestSchema.safeParse(req.body);
+      res.status(parsed.success ? 200 : 400).json(parsed.success ? parsed.data : parsed.error.issues);
+    }, body);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(body);
+  });
+
+  // POST /api/walk-ins looks the patient up by id or registered phone before registering them
+  const registerWalkIn: RequestHandler = (req, res) => {
+    const registration = walkInRegistrationSchema.parse(req.body);
+    const found = registration.patientId ?? (registration.phone && registeredPhones.get(registration.phone));
+    if (!found) {
+      return res.status(404).json({ error: 'No patient is registered with this phone number' });
+    }
+    res.json({ patientId: found, registration });
+  };
+
+  it('hands POST /api/walk-ins the phone number it looks the patient up by', async () => {
+    const body = { phone: '+919812345678', location: 'PHC Nabha', reason: 'High fever since last night' };
+
+    const response = await post('/api/walk-ins', registerWalkIn, body);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ patientId, registration: body });
+  });
+
+  it('hands POST /api/walk-ins the patient id unmasked', async () => {
+    const body = { patientId, source: 'desk', reason: 'Follow-up dressing' };
+
+    const response = await post('/api/walk-ins', registerWalkIn, body);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ patientId, registration: body });
+  });
+
+  it('hands POST /api/appointments/:id/participants the invitee phone it looks up', async () => {
+    const response = await post('/api/appointments/appointment-1/participants', (req, res) => {
+      const invite = inviteParticipantSchema.parse(req.body);
+      const inviteeId = invite.phone && registeredPhones.get(invite.phone);
+      res.status(inviteeId ? 200 : 404).json({ inviteeId });
+    }, { phone: '+919812345678' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ inviteeId: patientId });
+  });
+});
@@ -4,16 +4,17 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import type { IncomingMessage } from 'http';
 import jwt from 'jsonwebtoken';
 import rateLimit from 'express-rate-limit';
 import { 
   auditService, 
   dataClassificationService, 
   complianceService,
-  encryptionService,
   SECURITY_CONFIG 
 } from '@shared/security';
 import { User } from '@shared/schema';
+import { storage } from '../storage';
 
 // Extend Express Request type to include user and audit info
 declare global {
@@ -35,8 +36,32 @@ declare global {
   }
 }
 
-// JWT Secret (in production, use environment variable)
-const JWT_SECRET = process.env.JWT_SECRET || 'sehatsetu-jwt-secret-change-in-production';
+// JWT signing secret; the built-in one is only for local development
+const JWT_SECRET = (() => {
+  const secret = process.env.JWT_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production; refusing to sign access tokens with a built-in secret');
+  }
+  console.warn('JWT_SECRET is not set; using the development-only signing secret');
+  return 'sehatsetu-jwt-secret-change-in-production';
+})();
+const JWT_ISSUER = 'sehatsetu-api';
+
+interface AccessTokenClaims {
+  sub: string;
+  role: string;
+}
+
+// Issue our own access token for a user loaded from the users table
+export const issueAccessToken = (user: User): { token: string; expiresIn: string } => {
+  const claims: AccessTokenClaims = { sub: user.id, role: user.role };
+  const token = jwt.sign(claims, JWT_SECRET, {
+    expiresIn: SECURITY_CONFIG.JWT_EXPIRY,
+    issuer: JWT_ISSUER,
+  });
+  return { token, expiresIn: SECURITY_CONFIG.JWT_EXPIRY };
+};
 
 // Rate Limiting Middleware
 export const rateLimitMiddleware = rateLimit({
@@ -78,21 +103,40 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
       return res.status(401).json({ error: 'Access token required' });
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
-    
-    // In production, fetch user from database
-    // For now, we'll create a mock user
-    req.user = {
-      id: decoded.userId,
-      email: decoded.email,
-      role: decoded.role,
-      isActive: true,
-      name: decoded.name || '',
-      firebaseUid: decoded.firebaseUid || '',
-      phone: decoded.phone || null,
-      profilePicture: decoded.profilePicture || null,
-      createdAt: decoded.createdAt || null
-    } as User;
+    let decoded: AccessTokenClaims;
+    try {
+      decoded = jwt.verify(token, JWT_SECRET, { issuer: JWT_ISSUER }) as AccessTokenClaims;
+    } catch (error) {
+      auditService.logAuthEvent('login_failed', undefined, {
+        reason: 'invalid_token',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        endpoint: req.path,
+        ipAddress: req.ip
+      });
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    // Always authorize against the live user record, never the token claims alone
+    const user = await storage.getUser(decoded.sub);
+    if (!user) {
+      auditService.logAuthEvent('login_failed', decoded.sub, {
+        reason: 'unknown_user',
+        endpoint: req.path,
+        ipAddress: req.ip
+      });
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    if (!user.isActive) {
+      auditService.logAuthEvent('account_locked', user.id, {
+        reason: 'account_inactive',
+        endpoint: req.path,
+        ipAddress: req.ip
+      });
+      return res.status(403).json({ error: 'Account is deactivated' });
+    }
+
+    req.user = user;
 
     // Log successful authentication
     auditService.logAuthEvent('token_validated', req.user.id, {
@@ -102,15 +146,52 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
 
     next();
   } catch (error) {
-    auditService.logAuthEvent('login_failed', undefined, {
-      reason: 'invalid_token',
+    auditService.logSystemEvent('authentication_error', {
       error: error instanceof Error ? error.message : 'Unknown error',
       endpoint: req.path,
       ipAddress: req.ip
+    }, 'high');
+
+    return res.status(500).json({ error: 'Authentication failed' });
+  }
+};
+
+// WebSocket handshake authentication. Browsers cannot set headers on a WebSocket,
+// so the access token arrives as the "token" query parameter of the socket URL.
+export const authenticateSocket = async (req: IncomingMessage): Promise<User | null> => {
+  const endpoint = req.url?.split('?')[0];
+  const ipAddress = req.socket.remoteAddress;
+  const token = new URL(req.url ?? '', 'http://localhost').searchParams.get('token');
+  if (!token) {
+    auditService.logAuthEvent('login_failed', undefined, { reason: 'no_token', endpoint, ipAddress });
+    return null;
+  }
+
+  let decoded: AccessTokenClaims;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET, { issuer: JWT_ISSUER }) as AccessTokenClaims;
+  } catch (error) {
+    auditService.logAuthEvent('login_failed', undefined, {
+      reason: 'invalid_token',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      endpoint,
+      ipAddress
     });
-    
-    return res.status(403).json({ error: 'Invalid or expired token' });
+    return null;
   }
+
+  const user = await storage.getUser(decoded.sub);
+  if (!user || !user.isActive) {
+    auditService.logAuthEvent('login_failed', decoded.sub, {
+      reason: user ? 'account_inactive' : 'unknown_user',
+      endpoint,
+      ipAddress
+    });
+    return null;
+  }
+
+  auditService.logAuthEvent('token_validated', user.id, { endpoint, ipAddress });
+  return user;
 };
 
 // Authorization Middleware
@@ -145,6 +226,7 @@ export const authorizeRole = (allowedRoles: string[]) => {
 };
 
 // Data Classification Middleware
+// Classifies and audits the request body; handlers always receive it unchanged.
 export const classifyData = (req: Request, res: Response, next: NextFunction) => {
   // Classify request data
   if (req.body && Object.keys(req.body).length > 0) {
@@ -164,11 +246,6 @@ export const classifyData = (req: Request, res: Response, next: NextFunction) =>
         }
       );
     }
-
-    // Apply data masking if needed
-    if (classification === 'restricted' || classification === 'confidential') {
-      req.body = dataClassificationService.maskData(req.body, classification);
-    }
   }
 
   next();
@@ -261,45 +338,6 @@ export const auditMiddleware = (action: string, resource: string) => {
   };
 };
 
-// Encryption Middleware
-export const encryptSensitiveData = (fields: string[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    if (req.body) {
-      for (const field of fields) {
-        if (req.body[field] && typeof req.body[field] === 'string') {
-          req.body[field] = encryptionService.encrypt(req.body[field], 'confidential');
-        }
-      }
-    }
-    next();
-  };
-};
-
-// Decryption Middleware
-export const decryptSensitiveData = (fields: string[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    if (req.body) {
-      for (const field of fields) {
-        if (req.body[field] && typeof req.body[field] === 'string' && req.body[field].includes('encrypted')) {
-          try {
-            req.body[field] = encryptionService.decrypt(req.body[field]);
-          } catch (error) {
-            auditService.logSystemEvent('decryption_failed', {
-              field,
-              error: error instanceof Error ? error.message : 'Unknown error',
-              endpoint: req.path,
-              userId: req.user?.id
-            }, 'high');
-            
-            return res.status(400).json({ error: 'Data decryption failed' });
-          }
-        }
-      }
-    }
-    next();
-  };
-};
-
 // Session Management Middleware
 export const sessionMiddleware = (req: Request, res: Response, next: NextFunction) => {
   if (req.user) {
@@ -402,13 +440,13 @@ export const securityErrorHandler = (error: Error, req: Request, res: Response,
 // Export all middleware functions
 export const SecurityMiddleware = {
   rateLimitMiddleware,
+  issueAccessToken,
   authenticateToken,
+  authenticateSocket,
   authorizeRole,
   classifyData,
   checkCompliance,
   auditMiddleware,
-  encryptSensitiveData,
-  decryptSensitiveData,
   sessionMiddleware,
   geolocationMiddleware,
   securityHeadersMiddleware,
@@ -0,0 +1,90 @@
+/**
+ * Printable Prescription
+ * Renders a signed prescription as an A4 PDF. The QR code carries the prescription id
+ * and signature so a pharmacy can verify the printout against the server.
+ */
+
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { format } from 'date-fns';
+import type { Doctor, Prescription, User } from '@shared/schema';
+import { encodePrescriptionQr, parsePrescriptionMedicines } from '@shared/prescriptions';
+
+export interface PrescriptionPdfInput {
+  prescription: Prescription;
+  patient: User;
+  doctor: Doctor & { user: User };
+  keyFingerprint: string | null;
+}
+
+const formatDate = (value: Date | string | number | null) =>
+  value ? format(new Date(value), 'dd MMM yyyy, HH:mm') : '—';
+
+export async function renderPrescriptionPdf({ prescription, patient, doctor, keyFingerprint }: PrescriptionPdfInput): Promise<Buffer> {
+  const qr = prescription.signature
+    ? await QRCode.toBuffer(encodePrescriptionQr(prescription.id, prescription.signature), {
+      errorCorrectionLevel: 'M',
+      margin: 1,
+      width: 160,
+    })
+    : null;
+
+  const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Prescription ${prescription.id}` } });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const top = doc.y;
+  doc.fontSize(20).font('Helvetica-Bold').text('SehatSetu e-Prescription');
+  doc.moveDown(0.5);
+  doc.fontSize(11).font('Helvetica-Bold').text(`Dr. ${doctor.user.name}`);
+  doc.font('Helvetica').text(doctor.specialty);
+  doc.text(`Reg. No.: ${doctor.licenseNumber ?? '—'}`);
+  if (qr) {
+    doc.image(qr, doc.page.width - doc.page.margins.right - 120, top, { width: 120 });
+  }
+
+  doc.moveDown();
+  doc.text(`Patient: ${patient.name}`);
+  doc.text(`Issued: ${formatDate(prescription.signedAt ?? prescription.createdAt)}`);
+  doc.text(`Valid until: ${formatDate(prescription.validUntil)}`);
+  doc.moveDown();
+  doc.moveTo(doc.page.margins.left, doc.y).lineTo(doc.page.width - doc.page.margins.right, doc.y).stroke();
+  doc.moveDown();
+
+  doc.fontSize(16).font('Helvetica-Bold').text('Rx');
+  doc.moveDown(0.5);
+  parsePrescriptionMedicines(prescription.medicines).forEach((medicine, index) => {
+    doc.fontSize(11).font('Helvetica-Bold').text(`${index + 1}. ${medicine.medicineName}`);
+    doc.font('Helvetica').text(
+      `${medicine.dosage} • ${medicine.frequency} • ${medicine.durationDays} days • Qty ${medicine.quantity}`,
+      { indent: 15 }
+    );
+    if (medicine.instructions) {
+      doc.fillColor('#555555').text(medicine.instructions, { indent: 15 }).fillColor('black');
+    }
+    doc.moveDown(0.5);
+  });
+
+  if (prescription.instructions) {
+    doc.moveDown();
+    doc.font('Helvetica-Bold').text('Advice');
+    doc.font('Helvetica').text(prescription.instructions);
+  }
+
+  doc.moveDown(2);
+  doc.fontSize(8).fillColor('#555555');
+  if (prescription.signature) {
+    doc.text(`Digitally signed. Key fingerprint: ${keyFingerprint ?? 'unknown'}`);
+    doc.text('Scan the QR code in the SehatSetu pharmacy app to verify this prescription.');
+  } else {
+    doc.text('This prescription was issued before digital signing and cannot be verified by QR code.');
+  }
+  doc.text(`Prescription ID: ${prescription.id}`);
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,169 @@
+/**
+ * Prescription Signing
+ * Every issued prescription is signed with an Ed25519 key belonging to the prescribing
+ * doctor. Keys are bound to the doctor's licence number: a doctor without a licence
+ * cannot issue prescriptions, and a changed licence gets a fresh key.
+ */
+
+import crypto from 'crypto';
+import type { Doctor, DoctorSigningKey, Prescription } from '@shared/schema';
+import {
+  canonicalPrescriptionPayload,
+  parsePrescriptionMedicines,
+  PRESCRIPTION_VALIDITY_DAYS,
+  type PrescriptionMedicine,
+  type PrescriptionVerification,
+} from '@shared/prescriptions';
+import { storage } from './storage';
+
+export class PrescriptionSigningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrescriptionSigningError';
+  }
+}
+
+export interface PrescriptionDraft {
+  id: string;
+  patientId: string;
+  appointmentId: string | null;
+  medicines: PrescriptionMedicine[];
+  instructions: string | null;
+}
+
+export interface SignedPrescriptionFields {
+  signature: string;
+  signingKeyId: string;
+  signedAt: Date;
+  validUntil: Date;
+}
+
+const fingerprintOf = (publicKeyPem: string) =>
+  crypto.createHash('sha256').update(publicKeyPem).digest('hex').slice(0, 32);
+
+async function signingKeyFor(doctor: Doctor): Promise<DoctorSigningKey> {
+  if (!doctor.licenseNumber) {
+    throw new PrescriptionSigningError('A registered licence number is required to issue prescriptions');
+  }
+
+  const existing = await storage.getActiveSigningKey(doctor.id);
+  if (existing && existing.licenseNumber === doctor.licenseNumber) {
+    return existing;
+  }
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+
+  return storage.createSigningKey({
+    doctorId: doctor.id,
+    licenseNumber: doctor.licenseNumber,
+    publicKey,
+    privateKey,
+    fingerprint: fingerprintOf(publicKey),
+  });
+}
+
+export async function signPrescription(doctor: Doctor, draft: PrescriptionDraft): Promise<SignedPrescriptionFields> {
+  const key = await signingKeyFor(doctor);
+  const signedAt = new Date();
+  const validUntil = new Date(signedAt.getTime() + PRESCRIPTION_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+  const payload = canonicalPrescriptionPayload({
+    ...draft,
+    doctorId: doctor.id,
+    licenseNumber: key.licenseNumber,
+    signingKeyId: key.id,
+    signedAt,
+    validUntil,
+  });
+  const signature = crypto.sign(null, Buffer.from(payload), key.privateKey).toString('base64url');
+
+  return { signature, signingKeyId: key.id, signedAt, validUntil };
+}
+
+/**
+ * Recompute the signed payload from the stored row and check it against the
+ * doctor's public key, then check the prescription can still be dispensed.
+ * `presentedSignature` is the signature read from a printed QR code, if any.
+ */
+export async function verifyPrescription(
+  prescription: Prescription,
+  presentedSignature?: string
+): Promise<PrescriptionVerification> {
+  const [key, patient, doctor] = await Promise.all([
+    prescription.signingKeyId ? storage.getSigningKey(prescription.signingKeyId) : undefined,
+    storage.getUser(prescription.patientId),
+    storage.getDoctor(prescription.doctorId),
+  ]);
+  const doctorUser = doctor ? await storage.getUser(doctor.userId) : undefined;
+  const medicines = parsePrescriptionMedicines(prescription.medicines);
+  const signedAt = prescription.signedAt ? new Date(prescription.signedAt) : null;
+  const validUntil = prescription.validUntil ? new Date(prescription.validUntil) : null;
+
+  let signatureValid = false;
+  if (key && prescription.signature && signedAt && validUntil) {
+    const payload = canonicalPrescriptionPayload({
+      id: prescription.id,
+      patientId: prescription.patientId,
+      doctorId: prescription.doctorId,
+      appointmentId: prescription.appointmentId,
+      medicines,
+      instructions: prescription.instructions,
+      licenseNumber: key.licenseNumber,
+      signingKeyId: key.id,
+      signedAt,
+      validUntil,
+    });
+    try {
+      signatureValid = key.doctorId === prescription.doctorId && crypto.verify(
+        null,
+        Buffer.from(payload),
+        key.publicKey,
+        Buffer.from(prescription.signature, 'base64url')
+      );
+    } catch {
+      signatureValid = false;
+    }
+  }
+
+  // A key retired after signing still vouches for what it signed before
+  const keyRevokedBeforeSigning = !!key?.revokedAt && !!signedAt && new Date(key.revokedAt) <= signedAt;
+
+  const checks: PrescriptionVerification['checks'] = {
+    signature: signatureValid,
+    matchesPresentedCode: presentedSignature === undefined || presentedSignature === prescription.signature,
+    keyActive: !!key && !keyRevokedBeforeSigning,
+    notExpired: !!validUntil && validUntil.getTime() > Date.now(),
+    notDispensed: prescription.status !== 'dispensed',
+    notCancelled: prescription.status !== 'cancelled',
+  };
+
+  const problems: string[] = [];
+  if (!prescription.signature) problems.push('Prescription was never signed');
+  else if (!checks.signature) problems.push('Signature does not match the prescription contents');
+  if (!checks.matchesPresentedCode) problems.push('Scanned code does not belong to this prescription');
+  if (prescription.signature && !checks.keyActive) problems.push("Doctor's signing key is not valid");
+  if (!checks.notExpired) problems.push('Prescription has expired');
+  if (!checks.notDispensed) problems.push('Prescription has already been dispensed');
+  if (!checks.notCancelled) problems.push('Prescription was cancelled');
+
+  return {
+    valid: problems.length === 0,
+    checks,
+    problems,
+    prescription: {
+      id: prescription.id,
+      status: prescription.status,
+      signedAt: signedAt?.toISOString() ?? null,
+      validUntil: validUntil?.toISOString() ?? null,
+      patientName: patient?.name ?? 'Unknown patient',
+      doctorName: doctorUser?.name ?? 'Unknown doctor',
+      licenseNumber: key?.licenseNumber ?? doctor?.licenseNumber ?? null,
+      keyFingerprint: key?.fingerprint ?? null,
+      medicines,
+      instructions: prescription.instructions,
+    },
+  };
+}
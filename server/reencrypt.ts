@@ -0,0 +1,31 @@
+import { storage } from './storage';
+import { auditService } from '@shared/security';
+
+// Re-encrypt stored sensitive fields under the active MASTER_ENCRYPTION_KEY.
+// Run after rotating keys (keep the old key in RETIRED_ENCRYPTION_KEYS until this succeeds).
+async function reencryptSensitiveFields() {
+  try {
+    auditService.attachStore(storage);
+    console.log('Re-encrypting sensitive fields...');
+
+    const report = await storage.reencryptSensitiveFields();
+    auditService.logSystemEvent('encryption_key_rotation', {
+      keyId: report.keyId,
+      scanned: report.scanned,
+      reencrypted: report.reencrypted,
+      failed: report.failed.length,
+    }, report.failed.length > 0 ? 'high' : 'medium');
+    await auditService.flushLogs();
+
+    console.log(`Scanned ${report.scanned} rows, re-encrypted ${report.reencrypted} under key "${report.keyId}"`);
+    for (const failure of report.failed) {
+      console.error(`Failed ${failure.table}.${failure.field} for ${failure.id}: ${failure.error}`);
+    }
+    process.exit(report.failed.length > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('Error re-encrypting sensitive fields:', error);
+    process.exit(1);
+  }
+}
+
+reencryptSensitiveFields();
@@ -1,11 +1,45 @@
 import type { Express, Request, Response, NextFunction } from "express";
-import { createServer, type Server } from "http";
+import { createServer, type IncomingMessage, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { insertUserSchema, insertDoctorSchema, insertPharmacistSchema, insertAppointmentSchema, insertHealthRecordSchema, insertSymptomCheckSchema, insertPrescriptionSchema, insertAnalyticsSchema, insertAuditLogSchema } from "@shared/schema";
+import { storage, AppointmentConflictError, ConsultationNoteError, InventoryError, PrescriptionTransitionError, StockSyncScopeError, WalkInError, type ChangeFeedScope } from "./storage";
+import { z } from "zod";
+import { insertUserSchema, insertDoctorSchema, insertPharmacistSchema, insertAppointmentSchema, insertDoctorWorkingHoursSchema, insertDoctorBreakSchema, insertDoctorLeaveSchema, insertHealthRecordSchema, insertSymptomCheckSchema, insertPrescriptionSchema, insertAnalyticsSchema, type HealthRecord, type User, type WalkIn } from "@shared/schema";
 import { SecurityMiddleware } from "./middleware/security";
+import { AccessPolicy } from "./middleware/accessPolicy";
+import { verifyFirebaseIdToken } from "./firebaseAuth";
+import { auditService, SECURITY_CONFIG } from "@shared/security";
 import { FHIRTransform } from "@shared/fhirTransform";
 import { createFHIRBundle } from "@shared/fhirTransform";
+import { isValidDateString, isWithinAvailability, toClinicDateString, DEFAULT_SLOT_MINUTES } from "@shared/scheduling";
+import { consultationNoteSchema, doctorQueueQuerySchema } from "@shared/consultation";
+import {
+  CALL_RECONNECT_GRACE_MS, initialCallMode, inviteParticipantSchema, isCallMode, lighterCallMode, parseAppointmentRoomId,
+  type CallMode, type CallModeMessage, type CallRole, type InviteParticipantResponse, type JoinRefusedMessage,
+  type JoinRefusedReason, type RoomJoinedMessage
+} from "@shared/callSessions";
+import {
+  chatAttachmentSchema, chatReceiptSchema, consultationChatChannel, consultationMessageSchema,
+  type ChatReceiptUpdate
+} from "@shared/consultationChat";
+import { walkInRegistrationSchema, walkInQueueQuerySchema, walkInChannel, WALK_IN_QUEUE_CHANNEL, SEVERITY_PRIORITY, type WalkInSource, type WalkInUpdateMessage } from "@shared/triage";
+import { createPrescriptionSchema, updatePrescriptionStatusSchema, withParsedMedicines } from "@shared/prescriptions";
+import { stockSyncRequestSchema } from "@shared/stockSync";
+import { syncRequestSchema, type SyncOperation, type SyncOperationResult } from "@shared/offlineSync";
+import { changesQuerySchema, changeFeedPositionSchema, type ChangeFeedPosition } from "@shared/changeFeed";
+import { medicineSearchQuerySchema, medicineAlternativesQuerySchema, groupByGeneric } from "@shared/medicineSearch";
+import { nearbyStockQuerySchema, type NearbyStockResponse } from "@shared/pharmacyLocator";
+import { geocodeVillage, GeocodingError } from "./geocoding";
+import {
+  receiveBatchSchema, writeOffBatchSchema, expiryAlertsQuerySchema,
+  stockAdjustmentSchema, stockMovementsQuerySchema, stockReconciliationQuerySchema
+} from "@shared/inventory";
+import {
+  supplierSchema, reorderRuleSchema, createPurchaseOrderSchema, updatePurchaseOrderSchema, autoDraftPurchaseOrdersSchema,
+  cancelPurchaseOrderSchema, goodsReceiptSchema, purchaseOrdersQuerySchema
+} from "@shared/purchasing";
+import { signPrescription, verifyPrescription, PrescriptionSigningError } from "./prescriptionSigning";
+import { renderPrescriptionPdf } from "./prescriptionPdf";
+import crypto from "crypto";
 // EndlessMedical API - Free medical diagnosis API
 // Documentation: https://www.endlessmedical.com/about-endlessmedical-api/
 
@@ -246,57 +280,442 @@ function getFallbackAnalysis(symptoms: string[]) {
   };
 }
 
+const riskLevelSchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+const auditLogQuerySchema = z.object({
+  userId: z.string().optional(),
+  resource: z.string().optional(),
+  action: z.string().optional(),
+  riskLevel: riskLevelSchema.optional(),
+  startDate: z.string().datetime({ offset: true }).optional(),
+  endDate: z.string().datetime({ offset: true }).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const manualAuditEntrySchema = z.object({
+  action: z.string().min(1),
+  resource: z.string().min(1),
+  resourceId: z.string().optional(),
+  details: z.record(z.any()).optional(),
+  riskLevel: riskLevelSchema.default('low'),
+});
+
+const appointmentUpdateSchema = insertAppointmentSchema.partial().extend({
+  priority: z.number().int().min(0).max(Math.max(...Object.values(SEVERITY_PRIORITY))).optional(),
+});
+
+const appointmentStatusChangeSchema = z.object({
+  status: z.enum(['scheduled', 'ongoing', 'completed', 'cancelled']).optional(),
+});
+
+// What each role may change through PUT /api/appointments/:id. The time has its own
+// route; the doctor's queue is ordered by priority, so only the care team sets it.
+const APPOINTMENT_UPDATE_FIELDS: Record<string, readonly string[]> = {
+  patient: ['type', 'reason', 'notes'],
+  doctor: ['type', 'reason', 'notes', 'specialty', 'instructions', 'priority'],
+  admin: ['patientId', 'doctorId', 'type', 'reason', 'notes', 'specialty', 'instructions', 'priority', 'prescription', 'appointmentTime'],
+};
+
+// Status changes each role may make by hand: new status -> statuses it may come from.
+// The call starts and completes appointments, and so does the doctor's consultation note.
+const APPOINTMENT_STATUS_CHANGES: Record<string, Record<string, readonly string[]>> = {
+  patient: { cancelled: ['scheduled'] },
+  doctor: { cancelled: ['scheduled'] },
+  admin: { cancelled: ['scheduled', 'ongoing'] },
+};
+
+const rescheduleAppointmentSchema = z.object({
+  scheduledAt: z.coerce.date(),
+  durationMinutes: z.number().int().min(5).max(240).optional(),
+});
+
+// Why a booking at this time cannot be made, or null if the doctor is available then
+async function availabilityError(doctorId: string, scheduledAt: Date, durationMinutes: number): Promise<string | null> {
+  if (scheduledAt.getTime() <= Date.now()) {
+    return "Appointments must be booked in the future";
+  }
+  const schedule = await storage.getDoctorSchedule(doctorId);
+  if (schedule.workingHours.length > 0 && !isWithinAvailability(scheduledAt, durationMinutes, {
+    workingHours: schedule.workingHours,
+    breaks: schedule.breaks,
+    leaveDates: schedule.leaves.map(leave => leave.date),
+  })) {
+    return "Requested time is outside the doctor's available hours";
+  }
+  return null;
+}
+
+// Change feed cursors are opaque to clients: base64url JSON of the per-stream position
+const encodeChangeCursor = (position: ChangeFeedPosition) =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+function decodeChangeCursor(cursor: string | undefined): ChangeFeedPosition {
+  if (!cursor) return {};
+  try {
+    return changeFeedPositionSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+  } catch {
+    throw new Error("Invalid change cursor");
+  }
+}
+
+// Validate a queued offline change and find the patient it touches, and for health
+// records the record as it is and as it would be. Patients cannot be reassigned
+// through an update; deletes carry no data.
+async function prepareSyncOperation(operation: SyncOperation): Promise<{
+  operation: SyncOperation;
+  patientId?: string;
+  appointmentId?: string;
+  healthRecords?: Pick<HealthRecord, 'doctorId' | 'type'>[];
+}> {
+  if (operation.entity === 'consultationMessages') {
+    const data = consultationMessageSchema.parse(operation.data);
+    return { operation: { ...operation, data }, appointmentId: data.appointmentId };
+  }
+  if (operation.type === 'create') {
+    if (operation.entity === 'symptomChecks') {
+      const data = insertSymptomCheckSchema.parse(operation.data);
+      return { operation: { ...operation, data }, patientId: data.patientId };
+    }
+    const data = insertHealthRecordSchema.parse(operation.data);
+    return {
+      operation: { ...operation, data },
+      patientId: data.patientId,
+      healthRecords: [{ doctorId: data.doctorId ?? null, type: data.type }],
+    };
+  }
+
+  const existing = await storage.getHealthRecord(operation.entityId!);
+  const data = operation.type === 'update'
+    ? insertHealthRecordSchema.omit({ patientId: true }).partial().parse(operation.data)
+    : {};
+  return {
+    operation: { ...operation, data },
+    patientId: existing?.patientId,
+    // Gone already: the storage layer answers with a conflict or a no-op delete
+    healthRecords: existing ? [existing, { ...existing, ...data }] : [],
+  };
+}
+
+// A video call in progress, keyed by its room "appointment-<id>"
+interface CallRoom {
+  appointmentId: string;
+  members: Map<WebSocket, { user: User; role: CallRole }>;
+  connectedAt: Date | null; // set while the patient and doctor are both in the room
+  endTimer: NodeJS.Timeout | null;
+  mode: CallMode; // only ever steps down from the mode the appointment was booked in
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
+  // Persist the audit stream into the audit_logs table
+  auditService.attachStore(storage);
+
   // Apply security middleware globally
   app.use(SecurityMiddleware.securityHeadersMiddleware);
   app.use(SecurityMiddleware.geolocationMiddleware);
   app.use(SecurityMiddleware.rateLimitMiddleware);
   app.use(SecurityMiddleware.classifyData);
 
-  // WebSocket server for video calls and real-time features
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  const rooms = new Map<string, Set<WebSocket>>();
+  // WebSocket server for video calls and real-time features. Sockets authenticate
+  // during the handshake with the same access token as the REST API.
+  const socketUsers = new WeakMap<IncomingMessage, User>();
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: ({ req }, done) => {
+      SecurityMiddleware.authenticateSocket(req)
+        .then(user => {
+          if (!user) return done(false, 401, 'Unauthorized');
+          socketUsers.set(req, user);
+          done(true);
+        })
+        .catch(error => {
+          console.error('WebSocket authentication error:', error);
+          done(false, 500, 'Authentication failed');
+        });
+    },
+  });
+
+  const callRooms = new Map<string, CallRoom>();
+
+  // Notification channels (e.g. "pharmacy:<id>"). Messages carry ids only;
+  // clients refetch the details through the authenticated REST API.
+  const channels = new Map<string, Set<WebSocket>>();
+
+  const publish = (channel: string, message: Record<string, unknown>) => {
+    channels.get(channel)?.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify(message));
+      }
+    });
+  };
+
+  // Send a saved chat message to everyone watching the appointment's chat
+  const publishChatMessage = (messageId: string) => {
+    storage.getConsultationMessage(messageId)
+      .then(message => {
+        if (message) {
+          publish(consultationChatChannel(message.appointmentId), { type: 'chat-message', message });
+        }
+      })
+      .catch(error => console.error('Chat broadcast error:', error));
+  };
+
+  // Tell each waiting patient their place in line after the walk-in queue moves,
+  // and the patients in `changed` that they were called or left the queue.
+  // The change is already saved, so a failed broadcast only delays the next refetch.
+  const publishWalkInQueue = (changed: WalkIn[] = []) => {
+    storage.getWalkInQueue()
+      .then(waiting => {
+        const positions = new Map(waiting.map(entry => [entry.id, entry.position]));
+        const updates = [...changed.filter(walkIn => !positions.has(walkIn.id)), ...waiting];
+        for (const walkIn of updates) {
+          const message: WalkInUpdateMessage = {
+            type: 'walk-in-updated',
+            walkInId: walkIn.id,
+            status: walkIn.status,
+            position: positions.get(walkIn.id) ?? null,
+            doctorId: walkIn.doctorId,
+            appointmentId: walkIn.appointmentId,
+          };
+          publish(walkInChannel(walkIn.id), message);
+        }
+        publish(WALK_IN_QUEUE_CHANNEL, { type: 'walk-in-queue-changed' });
+      })
+      .catch(error => console.error('Walk-in queue broadcast error:', error));
+  };
+
+  const sendToRoom = (room: CallRoom, message: Record<string, unknown>, except?: WebSocket) => {
+    room.members.forEach((_member, client) => {
+      if (client !== except && client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify(message));
+      }
+    });
+  };
+
+  // Start or stop the connected-time clock as the patient and doctor come and go
+  const updateCallSession = async (room: CallRoom) => {
+    const roles = new Set(Array.from(room.members.values(), member => member.role));
+    const connected = roles.has('patient') && roles.has('doctor');
+    const now = new Date();
+    if (connected && !room.connectedAt) {
+      room.connectedAt = now;
+      await storage.recordCallStart(room.appointmentId, now);
+      sendToRoom(room, { type: 'call-started', appointmentId: room.appointmentId });
+    } else if (!connected && room.connectedAt) {
+      const connectedAt = room.connectedAt;
+      room.connectedAt = null;
+      await storage.recordCallEnd(room.appointmentId, connectedAt, now);
+    }
+  };
+
+  // Close the call for good: stop the clock, complete the appointment and tell whoever is left
+  const endCall = async (roomId: string, room: CallRoom) => {
+    callRooms.delete(roomId);
+    if (room.endTimer) {
+      clearTimeout(room.endTimer);
+    }
+    if (room.connectedAt) {
+      await storage.recordCallEnd(room.appointmentId, room.connectedAt, new Date());
+      room.connectedAt = null;
+    }
+    await storage.completeAppointmentCall(room.appointmentId);
+    sendToRoom(room, { type: 'call-ended', appointmentId: room.appointmentId });
+  };
+
+  const leaveRoom = async (ws: WebSocket, roomId: string) => {
+    const room = callRooms.get(roomId);
+    const member = room?.members.get(ws);
+    if (!room || !member) return;
+
+    room.members.delete(ws);
+    sendToRoom(room, { type: 'user-left', userId: member.user.id });
+    await updateCallSession(room);
+    if (room.members.size === 0) {
+      // Give a dropped connection time to come back before the call is over
+      room.endTimer = setTimeout(() => {
+        endCall(roomId, room).catch(error => console.error('Call session error:', error));
+      }, CALL_RECONNECT_GRACE_MS);
+    }
+  };
 
-  wss.on('connection', (ws: WebSocket) => {
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    const user = socketUsers.get(req)!;
     let currentRoom: string | null = null;
+    const subscriptions = new Set<string>();
 
     ws.on('message', async (message: Buffer) => {
       try {
         const data = JSON.parse(message.toString());
         
         switch (data.type) {
-          case 'join-room':
-            currentRoom = data.roomId;
-            if (currentRoom && !rooms.has(currentRoom)) {
-              rooms.set(currentRoom, new Set());
+          case 'join-room': {
+            const refuse = (reason: JoinRefusedReason) => {
+              const refused: JoinRefusedMessage = { type: 'join-refused', roomId: data.roomId, reason };
+              ws.send(JSON.stringify(refused));
+            };
+            const appointmentId = parseAppointmentRoomId(data.roomId);
+            if (!appointmentId) {
+              refuse('not_an_appointment_room');
+              break;
             }
-            if (currentRoom) {
-              rooms.get(currentRoom)!.add(ws);
-              
-              // Notify other participants
-              rooms.get(currentRoom)!.forEach(client => {
-                if (client !== ws && client.readyState === WebSocket.OPEN) {
-                  client.send(JSON.stringify({ type: 'user-joined', userId: data.userId }));
-                }
-              });
+            const appointment = await storage.getAppointment(appointmentId);
+            if (!appointment) {
+              refuse('appointment_not_found');
+              break;
+            }
+            const role = await AccessPolicy.callRoleFor(user, appointment);
+            if (!role) {
+              auditService.logDataAccess('Appointment', appointment.id, user.id, 'read', {
+                action: 'join_call',
+                outcome: 'denied',
+                reason: 'not_a_participant',
+                userRole: user.role
+              }, 'high');
+              refuse('not_a_participant');
+              break;
+            }
+            if (appointment.status === 'cancelled' || appointment.status === 'completed') {
+              refuse('call_closed');
+              break;
+            }
+
+            if (currentRoom && currentRoom !== data.roomId) {
+              await leaveRoom(ws, currentRoom);
+            }
+            currentRoom = data.roomId as string;
+            let room = callRooms.get(currentRoom);
+            if (!room) {
+              room = { appointmentId, members: new Map(), connectedAt: null, endTimer: null, mode: initialCallMode(appointment.type) };
+              callRooms.set(currentRoom, room);
             }
+            if (room.endTimer) {
+              clearTimeout(room.endTimer);
+              room.endTimer = null;
+            }
+            room.members.set(ws, { user, role });
+            auditService.logDataAccess('Appointment', appointment.id, user.id, 'read', {
+              action: 'join_call',
+              callRole: role
+            }, 'medium');
+
+            const joined: RoomJoinedMessage = { type: 'room-joined', roomId: currentRoom, appointmentId, role, mode: room.mode };
+            ws.send(JSON.stringify(joined));
+            // The participants already in the room send the newcomer an offer
+            sendToRoom(room, { type: 'user-joined', userId: user.id, name: user.name, role }, ws);
+            await updateCallSession(room);
             break;
-            
+          }
+
           case 'webrtc-offer':
           case 'webrtc-answer':
-          case 'webrtc-ice-candidate':
-            // Forward WebRTC signaling to other participants in room
-            if (currentRoom && rooms.has(currentRoom)) {
-              rooms.get(currentRoom)!.forEach(client => {
-                if (client !== ws && client.readyState === WebSocket.OPEN) {
-                  client.send(JSON.stringify(data));
-                }
-              });
+          case 'webrtc-ice-candidate': {
+            // Forward WebRTC signaling only between members of the same call
+            const room = currentRoom ? callRooms.get(currentRoom) : undefined;
+            if (room?.members.has(ws)) {
+              sendToRoom(room, data, ws);
+            }
+            break;
+          }
+
+          case 'call-mode': {
+            // A participant's link got worse; everyone in the call drops to the lighter mode
+            const room = currentRoom ? callRooms.get(currentRoom) : undefined;
+            if (room?.members.has(ws) && isCallMode(data.mode)) {
+              const mode = lighterCallMode(room.mode, data.mode);
+              if (mode !== room.mode) {
+                room.mode = mode;
+                const changed: CallModeMessage = { type: 'call-mode', mode, userId: user.id };
+                sendToRoom(room, changed);
+              }
             }
             break;
+          }
+
+          case 'chat-message': {
+            const refuse = (error: string) => {
+              ws.send(JSON.stringify({ type: 'chat-error', clientMessageId: data.clientMessageId, error }));
+            };
+            const parsed = consultationMessageSchema.safeParse(data);
+            if (!parsed.success) {
+              refuse(parsed.error.errors.map(issue => issue.message).join(', '));
+              break;
+            }
+            const appointment = await storage.getAppointment(parsed.data.appointmentId);
+            if (!appointment || !await AccessPolicy.callRoleFor(user, appointment)) {
+              auditService.logDataAccess('Appointment', parsed.data.appointmentId, user.id, 'write', {
+                action: 'send_chat_message',
+                outcome: 'denied',
+                reason: 'not_chat_participant',
+                userRole: user.role
+              }, 'high');
+              refuse('You are not part of this consultation');
+              break;
+            }
+            const chatMessage = await storage.addConsultationMessage(user.id, parsed.data);
+            // The sender is subscribed too and takes the echo as confirmation that it was saved
+            publish(consultationChatChannel(appointment.id), { type: 'chat-message', message: chatMessage });
+            break;
+          }
+
+          case 'chat-receipt': {
+            const parsed = chatReceiptSchema.safeParse(data);
+            if (!parsed.success) break;
+            const { appointmentId, messageIds, status } = parsed.data;
+            const appointment = await storage.getAppointment(appointmentId);
+            if (!appointment || !await AccessPolicy.callRoleFor(user, appointment)) break;
+            const at = new Date();
+            const changed = await storage.markConsultationMessages(appointmentId, user.id, messageIds, status, at);
+            if (changed.length > 0) {
+              const update: ChatReceiptUpdate = { type: 'chat-receipt', appointmentId, messageIds: changed, status, at: at.toISOString() };
+              publish(consultationChatChannel(appointmentId), update);
+            }
+            break;
+          }
+
+          case 'leave-room':
+            if (currentRoom) {
+              await leaveRoom(ws, currentRoom);
+              currentRoom = null;
+            }
+            break;
+
+          case 'end-call': {
+            // Only the consulting doctor can end the consultation for everyone
+            const room = currentRoom ? callRooms.get(currentRoom) : undefined;
+            if (room && currentRoom && room.members.get(ws)?.role === 'doctor') {
+              await endCall(currentRoom, room);
+              currentRoom = null;
+            }
+            break;
+          }
+
+          case 'subscribe': {
+            if (typeof data.channel !== 'string') break;
+            // A channel is only for those who may read the same data through the REST API
+            if (!await AccessPolicy.canSubscribeToChannel(user, data.channel)) {
+              auditService.logDataAccess('Channel', data.channel, user.id, 'read', {
+                action: 'subscribe',
+                outcome: 'denied',
+                reason: 'channel_not_allowed',
+                userRole: user.role
+              }, 'high');
+              break;
+            }
+            if (!channels.has(data.channel)) {
+              channels.set(data.channel, new Set());
+            }
+            channels.get(data.channel)!.add(ws);
+            subscriptions.add(data.channel);
+            break;
+          }
+
+          case 'unsubscribe':
+            channels.get(data.channel)?.delete(ws);
+            subscriptions.delete(data.channel);
+            break;
         }
       } catch (error) {
         console.error('WebSocket message error:', error);
@@ -304,11 +723,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     ws.on('close', () => {
-      if (currentRoom && rooms.has(currentRoom)) {
-        rooms.get(currentRoom)!.delete(ws);
-        if (rooms.get(currentRoom)!.size === 0) {
-          rooms.delete(currentRoom);
+      subscriptions.forEach(channel => {
+        channels.get(channel)?.delete(ws);
+        if (channels.get(channel)?.size === 0) {
+          channels.delete(channel);
         }
+      });
+      if (currentRoom) {
+        leaveRoom(ws, currentRoom).catch(error => console.error('Call session error:', error));
       }
     });
   });
@@ -317,6 +739,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/fhir/Patient/:id", 
     SecurityMiddleware.authenticateToken,
     SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('Patient', req => req.params.id),
     SecurityMiddleware.checkCompliance('HL7_FHIR'),
     SecurityMiddleware.auditMiddleware('read', 'Patient'),
     async (req: Request, res: Response) => {
@@ -359,6 +782,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/fhir/Appointment/:id",
     SecurityMiddleware.authenticateToken,
     SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requireAppointmentAccess(req => req.params.id),
     SecurityMiddleware.checkCompliance('HL7_FHIR'),
     SecurityMiddleware.auditMiddleware('read', 'Appointment'),
     async (req: Request, res: Response) => {
@@ -391,6 +815,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/fhir/Observation/:id",
     SecurityMiddleware.authenticateToken,
     SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requireHealthRecordAccess(req => req.params.id),
     SecurityMiddleware.checkCompliance('HL7_FHIR'),
     SecurityMiddleware.auditMiddleware('read', 'Observation'),
     async (req: Request, res: Response) => {
@@ -483,9 +908,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Auth routes: exchange a Firebase ID token (or a dev credential) for our own access token
+  // Email-only sign-in issues a token without any credential, so it must be switched on explicitly
+  const devLoginEnabled = process.env.NODE_ENV !== 'production' && process.env.ALLOW_DEV_LOGIN === 'true';
+
+  app.post("/api/auth/token", async (req: Request, res: Response) => {
+    try {
+      const { idToken } = z.object({ idToken: z.string().min(1) }).parse(req.body);
+
+      let identity;
+      try {
+        identity = await verifyFirebaseIdToken(idToken);
+      } catch (error) {
+        auditService.logAuthEvent('login_failed', undefined, {
+          reason: 'invalid_firebase_token',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          ipAddress: req.ip
+        });
+        return res.status(401).json({ error: "Invalid Firebase ID token" });
+      }
+
+      let user = await storage.getUserByFirebaseUid(identity.uid);
+      if (!user) {
+        if (!identity.email) {
+          return res.status(400).json({ error: "Firebase account has no email address" });
+        }
+        // First sign-in: provision a patient account. Other roles are granted by an admin.
+        user = await storage.createUser({
+          firebaseUid: identity.uid,
+          email: identity.email,
+          name: identity.name || identity.email.split('@')[0],
+          phone: identity.phone,
+          role: 'patient',
+          profilePicture: identity.picture,
+        });
+      }
+
+      if (!user.isActive) {
+        auditService.logAuthEvent('account_locked', user.id, { reason: 'account_inactive', ipAddress: req.ip });
+        return res.status(403).json({ error: "Account is deactivated" });
+      }
+
+      auditService.logAuthEvent('login', user.id, { method: 'firebase', ipAddress: req.ip });
+      res.json({ ...SecurityMiddleware.issueAccessToken(user), user });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/auth/dev-token", async (req: Request, res: Response) => {
+    if (!devLoginEnabled) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    try {
+      const { email } = z.object({ email: z.string().email() }).parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      if (!user || !user.isActive) {
+        auditService.logAuthEvent('login_failed', user?.id, { reason: 'dev_login_rejected', ipAddress: req.ip });
+        return res.status(401).json({ error: "No active user with that email" });
+      }
+
+      auditService.logAuthEvent('login', user.id, { method: 'dev_credential', ipAddress: req.ip });
+      res.json({ ...SecurityMiddleware.issueAccessToken(user), user });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/auth/me",
+    SecurityMiddleware.authenticateToken,
+    async (req: Request, res: Response) => {
+      res.json(req.user);
+    }
+  );
+
+  app.post("/api/auth/logout",
+    SecurityMiddleware.authenticateToken,
+    async (req: Request, res: Response) => {
+      auditService.logAuthEvent('logout', req.user!.id, { ipAddress: req.ip });
+      res.status(204).end();
+    }
+  );
+
   // User routes
   app.post("/api/users", 
-    SecurityMiddleware.encryptSensitiveData(['phone', 'email', 'address']),
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
     SecurityMiddleware.checkCompliance('HIPAA'),
     SecurityMiddleware.auditMiddleware('create', 'User'),
     async (req: Request, res: Response) => {
@@ -501,9 +1010,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/users/firebase/:firebaseUid", 
     SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
     SecurityMiddleware.auditMiddleware('read', 'User'),
     async (req: Request, res: Response) => {
       try {
+        if (req.user!.role !== 'admin' && req.user!.firebaseUid !== req.params.firebaseUid) {
+          return AccessPolicy.denyAccess(req, res, 'User', req.params.firebaseUid, 'not_own_account');
+        }
         const user = await storage.getUserByFirebaseUid(req.params.firebaseUid);
         if (!user) {
           return res.status(404).json({ error: "User not found" });
@@ -515,280 +1028,1874 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  app.put("/api/users/:id", async (req, res) => {
-    try {
-      const updates = insertUserSchema.partial().parse(req.body);
-      const user = await storage.updateUser(req.params.id, updates);
-      res.json(user);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.put("/api/users/:id",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
+    AccessPolicy.requireUserAccess('User', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const updates = insertUserSchema.partial().parse(req.body);
+        if (req.user!.role !== 'admin') {
+          // Only admins may change identity, role or account status
+          delete updates.role;
+          delete updates.isActive;
+          delete updates.firebaseUid;
+        }
+        const user = await storage.updateUser(req.params.id, updates);
+        res.json(user);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
   // Doctor routes
-  app.post("/api/doctors", async (req, res) => {
-    try {
-      const doctorData = insertDoctorSchema.parse(req.body);
-      const doctor = await storage.createDoctor(doctorData);
-      res.json(doctor);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.post("/api/doctors",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const doctorData = insertDoctorSchema.parse(req.body);
+        const doctor = await storage.createDoctor(doctorData);
+        res.json(doctor);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.get("/api/doctors/online", async (req, res) => {
-    try {
-      const doctors = await storage.getOnlineDoctors();
-      res.json(doctors);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/doctors/online",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const doctors = await storage.getOnlineDoctors();
+        res.json(doctors);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.get("/api/doctors/specialty/:specialty", async (req, res) => {
-    try {
-      const doctors = await storage.getDoctorsBySpecialty(req.params.specialty);
-      res.json(doctors);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/doctors/specialty/:specialty",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const doctors = await storage.getDoctorsBySpecialty(req.params.specialty);
+        res.json(doctors);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.put("/api/doctors/:id/status", async (req, res) => {
-    try {
-      const { isOnline } = req.body;
-      const doctor = await storage.updateDoctor(req.params.id, { isOnline });
-      res.json(doctor);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.put("/api/doctors/:id/status",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireDoctorAccess('Doctor', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const { isOnline } = req.body;
+        const doctor = await storage.updateDoctor(req.params.id, { isOnline });
+        if (isOnline === false) {
+          const released = await storage.releaseDoctorWalkIns(doctor.id);
+          if (released.length > 0) {
+            publishWalkInQueue(released);
+          }
+        }
+        res.json(doctor);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  // Appointment routes
-  app.post("/api/appointments", async (req, res) => {
-    try {
-      const appointmentData = insertAppointmentSchema.parse(req.body);
-      const appointment = await storage.createAppointment(appointmentData);
-      res.json(appointment);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/doctors/user/:userId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireUserAccess('Doctor', req => req.params.userId),
+    async (req: Request, res: Response) => {
+      try {
+        const doctor = await storage.getDoctorByUserId(req.params.userId);
+        if (!doctor) {
+          return res.status(404).json({ error: "Doctor profile not found" });
+        }
+        res.json(doctor);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.get("/api/appointments/patient/:patientId", async (req, res) => {
-    try {
-      const appointments = await storage.getPatientAppointments(req.params.patientId);
-      res.json(appointments);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
-    }
-  });
+  // The doctor's patient queue for a clinic day (default today), most urgent first
+  app.get("/api/doctors/:id/queue",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireDoctorAccess('Appointment', req => req.params.id),
+    async (req: Request, res: Response) => {
+      const query = doctorQueueQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(issue => issue.message).join(', ') });
+      }
 
-  app.get("/api/appointments/doctor/:doctorId", async (req, res) => {
-    try {
-      const appointments = await storage.getDoctorAppointments(req.params.doctorId);
-      res.json(appointments);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      try {
+        const queue = await storage.getDoctorQueue(req.params.id, query.data.date ?? toClinicDateString(new Date()));
+        res.json(queue);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.put("/api/appointments/:id", async (req, res) => {
-    try {
-      const updates = insertAppointmentSchema.partial().parse(req.body);
-      const appointment = await storage.updateAppointment(req.params.id, updates);
-      res.json(appointment);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
-    }
+  // Doctor scheduling routes
+  const doctorScheduleSchema = z.object({
+    workingHours: z.array(insertDoctorWorkingHoursSchema.omit({ doctorId: true })),
+    breaks: z.array(insertDoctorBreakSchema.omit({ doctorId: true })).default([]),
   });
 
-  // Health records routes
-  app.post("/api/health-records", async (req, res) => {
-    try {
-      const recordData = insertHealthRecordSchema.parse(req.body);
-      const record = await storage.createHealthRecord(recordData);
-      res.json(record);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/doctors/:id/slots",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const { date } = req.query;
+        if (!date || typeof date !== 'string' || !isValidDateString(date)) {
+          return res.status(400).json({ error: "Query parameter 'date' (YYYY-MM-DD) is required" });
+        }
+        const doctor = await storage.getDoctor(req.params.id);
+        if (!doctor) {
+          return res.status(404).json({ error: "Doctor not found" });
+        }
+        const slots = await storage.getDoctorSlots(doctor.id, date);
+        res.json({ doctorId: doctor.id, date, slots });
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.get("/api/health-records/patient/:patientId", async (req, res) => {
-    try {
-      const records = await storage.getPatientHealthRecords(req.params.patientId);
-      res.json(records);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/doctors/:id/schedule",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const schedule = await storage.getDoctorSchedule(req.params.id);
+        res.json(schedule);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
+
+  app.put("/api/doctors/:id/schedule",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireDoctorAccess('DoctorSchedule', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const { workingHours, breaks } = doctorScheduleSchema.parse(req.body);
+        const invalidWindow = [...workingHours, ...breaks].find(window => window.startTime >= window.endTime);
+        if (invalidWindow) {
+          return res.status(400).json({ error: `Start time ${invalidWindow.startTime} must be before end time ${invalidWindow.endTime}` });
+        }
+        const schedule = await storage.replaceDoctorSchedule(req.params.id, workingHours, breaks);
+        res.json(schedule);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.post("/api/doctors/:id/leaves",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireDoctorAccess('DoctorSchedule', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const leaveData = insertDoctorLeaveSchema.parse({ ...req.body, doctorId: req.params.id });
+        const leave = await storage.createDoctorLeave(leaveData);
+        res.json(leave);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.delete("/api/doctors/:id/leaves/:leaveId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireDoctorAccess('DoctorSchedule', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        await storage.deleteDoctorLeave(req.params.id, req.params.leaveId);
+        res.status(204).end();
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Appointment routes
+  app.post("/api/appointments",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('Appointment', req => req.body?.patientId),
+    async (req: Request, res: Response) => {
+      try {
+        const appointmentData = insertAppointmentSchema.parse(req.body);
+        const unavailable = await availabilityError(
+          appointmentData.doctorId,
+          appointmentData.scheduledAt,
+          appointmentData.durationMinutes ?? DEFAULT_SLOT_MINUTES
+        );
+        if (unavailable) {
+          return res.status(400).json({ error: unavailable });
+        }
+
+        const appointment = await storage.createAppointment(appointmentData);
+        res.json(appointment);
+      } catch (error) {
+        if (error instanceof AppointmentConflictError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/appointments/patient/:patientId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('Appointment', req => req.params.patientId),
+    async (req: Request, res: Response) => {
+      try {
+        const appointments = await storage.getPatientAppointments(req.params.patientId);
+        res.json(appointments);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/appointments/doctor/:doctorId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireDoctorAccess('Appointment', req => req.params.doctorId),
+    async (req: Request, res: Response) => {
+      try {
+        const appointments = await storage.getDoctorAppointments(req.params.doctorId);
+        res.json(appointments);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.put("/api/appointments/:id",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requireAppointmentAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const updates = appointmentUpdateSchema.parse(req.body);
+        if (updates.scheduledAt !== undefined || updates.durationMinutes !== undefined) {
+          return res.status(400).json({ error: "Use POST /api/appointments/:id/reschedule to change the time" });
+        }
+        const { status } = appointmentStatusChangeSchema.parse(req.body);
+        const allowed = APPOINTMENT_UPDATE_FIELDS[req.user!.role] ?? [];
+        const refused = Object.keys(updates).filter(field => !allowed.includes(field));
+        if (refused.length > 0) {
+          return res.status(403).json({ error: `You cannot change ${refused.join(', ')} on this appointment` });
+        }
+
+        if (status !== undefined) {
+          const from = APPOINTMENT_STATUS_CHANGES[req.user!.role]?.[status];
+          if (!from) {
+            return res.status(403).json({ error: `You cannot mark this appointment ${status}` });
+          }
+          const moved = await storage.transitionAppointmentStatus(req.params.id, from, status);
+          if (!moved) {
+            const current = await storage.getAppointment(req.params.id);
+            return res.status(409).json({ error: `A ${current?.status ?? 'missing'} appointment cannot be ${status}` });
+          }
+          auditService.logDataAccess('Appointment', req.params.id, req.user!.id, 'write', {
+            action: 'change_status',
+            status,
+            ipAddress: req.ip
+          }, 'low');
+        }
+
+        const appointment = Object.keys(updates).length > 0
+          ? await storage.updateAppointment(req.params.id, updates)
+          : await storage.getAppointment(req.params.id);
+        res.json(appointment);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Move the appointment to another time, checked against the doctor's hours and other bookings
+  app.post("/api/appointments/:id/reschedule",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requireAppointmentAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const { scheduledAt, durationMinutes } = rescheduleAppointmentSchema.parse(req.body);
+        const current = await storage.getAppointment(req.params.id);
+        if (!current) {
+          return res.status(404).json({ error: "Appointment not found" });
+        }
+        const duration = durationMinutes ?? current.durationMinutes;
+        const unavailable = await availabilityError(current.doctorId, scheduledAt, duration);
+        if (unavailable) {
+          return res.status(400).json({ error: unavailable });
+        }
+        const appointment = await storage.rescheduleAppointment(current.id, scheduledAt, duration);
+        auditService.logDataAccess('Appointment', current.id, req.user!.id, 'write', {
+          action: 'reschedule',
+          from: current.scheduledAt,
+          to: scheduledAt,
+          ipAddress: req.ip
+        }, 'low');
+        res.json(appointment);
+      } catch (error) {
+        if (error instanceof AppointmentConflictError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.put("/api/appointments/:id/consultation-note",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireAppointmentAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const note = consultationNoteSchema.parse(req.body);
+        const result = await storage.saveConsultationNote(req.params.id, note);
+        auditService.logDataAccess('Appointment', req.params.id, req.user!.id, 'write', {
+          action: 'consultation_note',
+          diagnosesFiled: result.diagnoses.length,
+          completed: note.complete,
+          ipAddress: req.ip
+        }, 'medium');
+        res.json(result);
+      } catch (error) {
+        if (error instanceof ConsultationNoteError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // People invited into the appointment's video call besides the patient and doctor
+  app.get("/api/appointments/:id/participants",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requireAppointmentAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const participants = await storage.getAppointmentParticipants(req.params.id);
+        res.json(participants);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.post("/api/appointments/:id/participants",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requireAppointmentAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const invite = inviteParticipantSchema.parse(req.body);
+        const appointment = (await storage.getAppointment(req.params.id))!;
+        // The patient's guests wait for the doctor to confirm them
+        const confirmed = req.user!.role !== 'patient';
+        const response: InviteParticipantResponse = {
+          message: confirmed ? "Invitation sent" : "Invitation sent; they can join once the doctor confirms",
+        };
+
+        const invitee = invite.userId
+          ? await storage.getUser(invite.userId)
+          : await storage.getUserByPhone(invite.phone!);
+        if (!invitee || !await AccessPolicy.canJoinAsGuest(invitee, appointment)) {
+          auditService.logDataAccess('Appointment', appointment.id, req.user!.id, 'write', {
+            action: 'invite_participant',
+            outcome: 'denied',
+            reason: invitee ? 'guest_not_allowed' : 'invitee_not_found',
+            participantId: invitee?.id,
+            ipAddress: req.ip
+          }, 'medium');
+          // Same answer as a successful phone invitation, so the lookup does not reveal who is registered
+          return invite.userId
+            ? res.status(404).json({ error: "User not found" })
+            : res.status(202).json(response);
+        }
+
+        await storage.addAppointmentParticipant(appointment.id, invitee.id, req.user!.id, confirmed);
+        auditService.logDataAccess('Appointment', appointment.id, req.user!.id, 'write', {
+          action: 'invite_participant',
+          participantId: invitee.id,
+          confirmed,
+          ipAddress: req.ip
+        }, 'medium');
+        res.status(202).json(response);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // The doctor lets in a guest the patient invited
+  app.post("/api/appointments/:id/participants/:userId/confirm",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireAppointmentAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const participant = await storage.confirmAppointmentParticipant(req.params.id, req.params.userId);
+        if (!participant) {
+          return res.status(404).json({ error: "This person has not been invited" });
+        }
+        auditService.logDataAccess('Appointment', req.params.id, req.user!.id, 'write', {
+          action: 'confirm_participant',
+          participantId: req.params.userId,
+          ipAddress: req.ip
+        }, 'medium');
+        res.json(participant);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.delete("/api/appointments/:id/participants/:userId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requireAppointmentAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        await storage.removeAppointmentParticipant(req.params.id, req.params.userId);
+        auditService.logDataAccess('Appointment', req.params.id, req.user!.id, 'write', {
+          action: 'remove_participant',
+          participantId: req.params.userId,
+          ipAddress: req.ip
+        }, 'medium');
+        res.status(204).end();
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Chat transcript of the appointment's call
+  app.get("/api/appointments/:id/messages",
+    SecurityMiddleware.authenticateToken,
+    AccessPolicy.requireConsultationChatAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const messages = await storage.getConsultationMessages(req.params.id);
+        auditService.logDataAccess('Appointment', req.params.id, req.user!.id, 'read', {
+          action: 'view_consultation_messages',
+          count: messages.length,
+          ipAddress: req.ip
+        }, 'medium');
+        res.json(messages);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Share a photo or lab report in the chat; it is filed as one of the patient's health records
+  app.post("/api/appointments/:id/attachments",
+    SecurityMiddleware.authenticateToken,
+    AccessPolicy.requireConsultationChatAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const attachment = chatAttachmentSchema.parse(req.body);
+        const appointment = await storage.getAppointment(req.params.id);
+        if (!appointment) {
+          return res.status(404).json({ error: "Appointment not found" });
+        }
+        const message = await storage.shareConsultationFile(appointment, req.user!.id, attachment);
+        auditService.logDataAccess('HealthRecord', message.healthRecordId!, req.user!.id, 'write', {
+          action: 'share_file',
+          appointmentId: appointment.id,
+          contentType: attachment.contentType,
+          size: message.attachment?.size,
+          ipAddress: req.ip
+        }, 'medium');
+        publish(consultationChatChannel(appointment.id), { type: 'chat-message', message });
+        res.status(201).json(message);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: error.errors.map(issue => issue.message).join(', ') });
+        }
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Health records routes
+  app.post("/api/health-records",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('HealthRecord', req => req.body?.patientId),
+    async (req: Request, res: Response) => {
+      try {
+        const recordData = insertHealthRecordSchema.parse(req.body);
+        if (!await AccessPolicy.canEditHealthRecord(req.user!, { doctorId: recordData.doctorId ?? null, type: recordData.type })) {
+          return AccessPolicy.denyAccess(req, res, 'HealthRecord', recordData.patientId, 'not_record_author');
+        }
+        const record = await storage.createHealthRecord(recordData);
+        res.json(record);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/health-records/patient/:patientId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('HealthRecord', req => req.params.patientId),
+    async (req: Request, res: Response) => {
+      try {
+        const records = await storage.getPatientHealthRecords(req.params.patientId);
+        res.json(records);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // The file behind a health record's fileUrl
+  app.get("/api/health-records/:id/file",
+    SecurityMiddleware.authenticateToken,
+    AccessPolicy.requireHealthRecordFileAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const file = await storage.getHealthRecordFile(req.params.id);
+        if (!file) {
+          return res.status(404).json({ error: "File not found" });
+        }
+        auditService.logDataAccess('HealthRecord', req.params.id, req.user!.id, 'read', {
+          action: 'download_file',
+          contentType: file.contentType,
+          ipAddress: req.ip
+        }, 'medium');
+        res.set({
+          'Content-Type': file.contentType,
+          'Content-Disposition': `inline; filename="${encodeURIComponent(file.fileName)}"`,
+          'Cache-Control': 'private, no-store'
+        });
+        res.send(Buffer.from(file.data, 'base64'));
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Health records, symptom checks, prescriptions and past visits in one view for the consulting doctor
+  app.get("/api/patients/:patientId/chart",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('PatientChart', req => req.params.patientId),
+    async (req: Request, res: Response) => {
+      try {
+        const chart = await storage.getPatientChart(req.params.patientId);
+        if (!chart) {
+          return res.status(404).json({ error: "Patient not found" });
+        }
+        auditService.logDataAccess('PatientChart', req.params.patientId, req.user!.id, 'read', {
+          ipAddress: req.ip
+        }, 'medium');
+        res.json(chart);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Walk-in triage routes. Patients register themselves; ASHA workers and desk
+  // staff register a patient on their behalf by id or registered phone number.
+  app.post("/api/walk-ins",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'asha', 'doctor', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const registration = walkInRegistrationSchema.parse(req.body);
+        const role = req.user!.role;
+
+        let patient;
+        if (registration.patientId) {
+          patient = await storage.getUser(registration.patientId);
+        } else if (registration.phone) {
+          patient = await storage.getUserByPhone(registration.phone);
+        } else if (role === 'patient') {
+          patient = req.user!;
+        } else {
+          return res.status(400).json({ error: "Patient ID or phone number is required" });
+        }
+        const notFound = registration.phone ? "No patient is registered with this phone number" : "Patient not found";
+        if (!patient || patient.role !== 'patient') {
+          return res.status(404).json({ error: notFound });
+        }
+        if (role === 'patient' && patient.id !== req.user!.id) {
+          return AccessPolicy.denyAccess(req, res, 'WalkIn', patient.id, 'register_other_patient');
+        }
+        if (!await AccessPolicy.canRegisterWalkIn(req.user!, patient.id)) {
+          // Answered like an unknown patient so the lookup does not reveal who is registered
+          auditService.logDataAccess('WalkIn', patient.id, req.user!.id, 'write', {
+            outcome: 'denied',
+            reason: 'patient_not_linked',
+            userRole: role,
+            ipAddress: req.ip
+          }, 'high');
+          return res.status(404).json({ error: notFound });
+        }
+
+        const source: WalkInSource = role === 'patient' ? 'self' : role === 'asha' ? 'asha' : registration.source ?? 'desk';
+        const walkIn = await storage.registerWalkIn({
+          patientId: patient.id,
+          registeredBy: req.user!.id,
+          source,
+          location: registration.location,
+          reason: registration.reason,
+        });
+        auditService.logDataAccess('WalkIn', walkIn.id, req.user!.id, 'write', {
+          action: 'register',
+          patientId: patient.id,
+          source,
+          priority: walkIn.priority,
+          ipAddress: req.ip
+        }, 'medium');
+        publishWalkInQueue();
+        res.status(201).json(await storage.getWalkIn(walkIn.id));
+      } catch (error) {
+        if (error instanceof WalkInError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Everyone waiting, or with `doctorId` only the patients that doctor may call; doctors see only their own list
+  app.get("/api/walk-ins",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    async (req: Request, res: Response) => {
+      const query = walkInQueueQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(e => e.message).join(', ') });
+      }
+      try {
+        const { doctorId } = query.data;
+        if (req.user!.role !== 'admin' && (!doctorId || !await AccessPolicy.canAccessDoctor(req.user!, doctorId))) {
+          return AccessPolicy.denyAccess(req, res, 'WalkIn', doctorId || 'unknown', 'not_own_doctor_profile');
+        }
+        const queue = await storage.getWalkInQueue(doctorId);
+        res.json(queue);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/walk-ins/patient/:patientId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('WalkIn', req => req.params.patientId),
+    async (req: Request, res: Response) => {
+      try {
+        const walkIn = await storage.getActiveWalkIn(req.params.patientId);
+        res.json(walkIn ?? null);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/walk-ins/:id",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'asha', 'doctor', 'admin']),
+    AccessPolicy.requireWalkInAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        res.json(await storage.getWalkIn(req.params.id));
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.post("/api/walk-ins/:id/cancel",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'asha', 'doctor', 'admin']),
+    AccessPolicy.requireWalkInAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const walkIn = await storage.cancelWalkIn(req.params.id);
+        auditService.logDataAccess('WalkIn', walkIn.id, req.user!.id, 'write', {
+          action: 'cancel',
+          ipAddress: req.ip
+        });
+        publishWalkInQueue([walkIn]);
+        res.json(walkIn);
+      } catch (error) {
+        if (error instanceof WalkInError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // The doctor calls the next walk-in; the patient joins video room "appointment-<id>"
+  app.post("/api/doctors/:id/walk-ins/next",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    AccessPolicy.requireDoctorAccess('WalkIn', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const called = await storage.callNextWalkIn(req.params.id);
+        if (!called) {
+          return res.status(404).json({ error: "No patients are waiting" });
+        }
+        auditService.logDataAccess('WalkIn', called.walkIn.id, req.user!.id, 'write', {
+          action: 'call',
+          doctorId: req.params.id,
+          appointmentId: called.appointment.id,
+          ipAddress: req.ip
+        }, 'medium');
+        publishWalkInQueue([called.walkIn]);
+        res.json(called);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Medicine routes
+  app.get("/api/medicines/search",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      const query = medicineSearchQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      try {
+        const { q, limit, group } = query.data;
+        const medicines = await storage.searchMedicines(q, limit);
+        res.json(group === 'generic' ? groupByGeneric(medicines) : medicines);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // In-stock substitutes with the same generic and strength, nearest first when lat/lng are given
+  app.get("/api/medicines/:id/alternatives",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      const query = medicineAlternativesQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      try {
+        const { lat, lng, radiusKm } = query.data;
+        const origin = lat !== undefined && lng !== undefined ? { lat, lng } : null;
+        const alternatives = await storage.getMedicineAlternatives(req.params.id, origin, radiusKm);
+        if (!alternatives) {
+          return res.status(404).json({ error: "Medicine not found" });
+        }
+        res.json(alternatives);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Pharmacies with this medicine in stock, nearest first; the location is used for this request only
+  app.get("/api/medicines/:id/nearby",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      const query = nearbyStockQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      try {
+        const medicine = await storage.getMedicine(req.params.id);
+        if (!medicine) {
+          return res.status(404).json({ error: "Medicine not found" });
+        }
+
+        const { lat, lng, village, radiusKm } = query.data;
+        const origin = lat !== undefined && lng !== undefined
+          ? { lat, lng, label: null }
+          : await geocodeVillage(village!);
+
+        const results = await storage.getNearbyMedicineStock(medicine.id, origin, radiusKm);
+        const response: NearbyStockResponse = { origin, results };
+        res.json(response);
+      } catch (error) {
+        if (error instanceof GeocodingError) {
+          return res.status(404).json({ error: error.message });
+        }
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/medicines/:id/stock",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const stock = await storage.getMedicineStock(req.params.id);
+        res.json(stock);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Pharmacy routes
+  app.get("/api/pharmacies",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const pharmacies = await storage.getPharmacies();
+        res.json(pharmacies);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Symptom checker routes
+  app.post("/api/symptom-check", 
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor']),
+    AccessPolicy.requirePatientAccess('SymptomCheck', req => req.body?.patientId),
+    SecurityMiddleware.checkCompliance('HIPAA'),
+    SecurityMiddleware.auditMiddleware('create', 'SymptomCheck'),
+    async (req: Request, res: Response) => {
+      try {
+        const { symptoms, patientId } = req.body;
+        
+        if (!symptoms || !Array.isArray(symptoms) || symptoms.length === 0) {
+          return res.status(400).json({ error: "Symptoms array is required" });
+        }
+
+        if (!patientId) {
+          return res.status(400).json({ error: "Patient ID is required" });
+        }
+
+        // AI analysis using EndlessMedical API (Free)
+        const aiResponse = await analyzeWithEndlessMedical(symptoms);
+        
+        // Save symptom check to database
+        const symptomCheck = await storage.createSymptomCheck({
+          patientId,
+          symptoms,
+          aiResponse,
+          severity: aiResponse.severity
+        });
+
+        res.json(symptomCheck);
+      } catch (error) {
+        console.error('Symptom check error:', error);
+        res.status(500).json({ error: "Failed to analyze symptoms. Please try again later." });
+      }
+    }
+  );
+
+  app.get("/api/symptom-checks/patient/:patientId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('SymptomCheck', req => req.params.patientId),
+    async (req: Request, res: Response) => {
+      try {
+        const checks = await storage.getPatientSymptomChecks(req.params.patientId);
+        res.json(checks);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Offline sync: replays changes a device queued while it had no connection
+  app.post("/api/sync",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const { operations } = syncRequestSchema.parse(req.body);
+
+        const results = new Map<string, SyncOperationResult>();
+        const accepted: SyncOperation[] = [];
+        for (const operation of operations) {
+          const base = { idempotencyKey: operation.idempotencyKey, entity: operation.entity };
+          try {
+            const prepared = await prepareSyncOperation(operation);
+            if (prepared.patientId && !await AccessPolicy.canAccessPatient(req.user!, prepared.patientId)) {
+              auditService.logDataAccess(operation.entity, operation.entityId ?? prepared.patientId, req.user!.id, 'write', {
+                outcome: 'denied',
+                reason: 'not_care_team',
+                operation: operation.type,
+                endpoint: req.path,
+                ipAddress: req.ip
+              }, 'high');
+              results.set(operation.idempotencyKey, { ...base, status: 'rejected', error: 'You do not have access to this resource' });
+              continue;
+            }
+            const editable = await Promise.all((prepared.healthRecords ?? []).map(record => AccessPolicy.canEditHealthRecord(req.user!, record)));
+            if (editable.includes(false)) {
+              auditService.logDataAccess(operation.entity, operation.entityId ?? prepared.patientId!, req.user!.id, 'write', {
+                outcome: 'denied',
+                reason: 'not_record_author',
+                operation: operation.type,
+                endpoint: req.path,
+                ipAddress: req.ip
+              }, 'high');
+              results.set(operation.idempotencyKey, { ...base, status: 'rejected', error: 'You cannot change a record filed by someone else' });
+              continue;
+            }
+            if (prepared.appointmentId) {
+              const appointment = await storage.getAppointment(prepared.appointmentId);
+              if (!appointment || !await AccessPolicy.callRoleFor(req.user!, appointment)) {
+                auditService.logDataAccess('Appointment', prepared.appointmentId, req.user!.id, 'write', {
+                  outcome: 'denied',
+                  reason: 'not_chat_participant',
+                  operation: operation.type,
+                  endpoint: req.path,
+                  ipAddress: req.ip
+                }, 'high');
+                results.set(operation.idempotencyKey, { ...base, status: 'rejected', error: 'You are not part of this consultation' });
+                continue;
+              }
+            }
+            accepted.push(prepared.operation);
+          } catch (error) {
+            const message = error instanceof z.ZodError ? error.errors.map(issue => issue.message).join(', ') : 'Invalid change';
+            results.set(operation.idempotencyKey, { ...base, status: 'rejected', error: message });
+          }
+        }
+
+        for (const result of await storage.applySyncOperations(req.user!.id, accepted)) {
+          results.set(result.idempotencyKey, result);
+          // Chat written offline reaches the other side once it is saved
+          if (result.entity === 'consultationMessages' && result.status === 'applied' && result.record) {
+            publishChatMessage(result.record.id);
+          }
+        }
+
+        const ordered = operations.map(operation => results.get(operation.idempotencyKey)!);
+        const count = (status: SyncOperationResult['status']) => ordered.filter(result => result.status === status).length;
+        auditService.logDataAccess('OfflineSync', req.user!.id, req.user!.id, 'write', {
+          action: 'sync',
+          submitted: operations.length,
+          applied: count('applied'),
+          duplicates: count('duplicate'),
+          conflicts: count('conflict'),
+          rejected: count('rejected'),
+          ipAddress: req.ip
+        }, count('rejected') > 0 ? 'medium' : 'low');
+
+        res.json({ results: ordered, serverTime: new Date().toISOString() });
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Change feed: what changed in the caller's offline scope since their cursor
+  app.get("/api/changes",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'pharmacist']),
+    async (req: Request, res: Response) => {
+      try {
+        const { since, limit } = changesQuerySchema.parse(req.query);
+        const position = decodeChangeCursor(since);
+
+        let scope: ChangeFeedScope;
+        if (req.user!.role === 'doctor') {
+          const doctor = await storage.getDoctorByUserId(req.user!.id);
+          if (!doctor) {
+            return res.status(404).json({ error: "Doctor profile not found" });
+          }
+          scope = { doctorId: doctor.id };
+        } else if (req.user!.role === 'pharmacist') {
+          const pharmacist = await storage.getPharmacistByUserId(req.user!.id);
+          if (!pharmacist?.pharmacyId) {
+            return res.status(404).json({ error: "You are not assigned to a pharmacy" });
+          }
+          scope = { pharmacyId: pharmacist.pharmacyId };
+        } else {
+          scope = { patientId: req.user!.id };
+        }
+
+        const page = await storage.getChanges(scope, position, limit);
+        if (page.changes.length > 0) {
+          auditService.logDataAccess('ChangeFeed', Object.values(scope)[0], req.user!.id, 'read', {
+            action: 'pull',
+            changes: page.changes.length,
+            initial: !since,
+            ipAddress: req.ip
+          }, 'low');
+        }
+
+        res.json({ changes: page.changes, cursor: encodeChangeCursor(page.position), hasMore: page.hasMore });
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Pharmacist routes
+  app.post("/api/pharmacists",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const pharmacistData = insertPharmacistSchema.parse(req.body);
+        const pharmacist = await storage.createPharmacist(pharmacistData);
+        res.json(pharmacist);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/pharmacists/user/:userId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requireUserAccess('Pharmacist', req => req.params.userId),
+    async (req: Request, res: Response) => {
+      try {
+        const pharmacist = await storage.getPharmacistByUserId(req.params.userId);
+        if (!pharmacist) {
+          return res.status(404).json({ error: "Pharmacist profile not found" });
+        }
+        res.json(pharmacist);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/pharmacists/:id/prescriptions",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacistAccess('Prescription', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const prescriptions = await storage.getPharmacistPrescriptions(req.params.id);
+        res.json(prescriptions.map(withParsedMedicines));
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Prescription routes
+  app.post("/api/prescriptions",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['doctor', 'admin']),
+    SecurityMiddleware.checkCompliance('HIPAA'),
+    SecurityMiddleware.auditMiddleware('create', 'Prescription'),
+    async (req: Request, res: Response) => {
+      try {
+        const { appointmentId, medicines, instructions } = createPrescriptionSchema.parse(req.body);
+
+        const appointment = await storage.getAppointment(appointmentId);
+        if (!appointment) {
+          return res.status(404).json({ error: "Appointment not found" });
+        }
+        // Only the doctor who held the consultation may prescribe against it
+        if (!await AccessPolicy.canAccessDoctor(req.user!, appointment.doctorId)) {
+          return AccessPolicy.denyAccess(req, res, 'Prescription', appointment.id, 'not_appointment_doctor');
+        }
+        if (appointment.status === 'cancelled') {
+          return res.status(400).json({ error: "Cannot prescribe against a cancelled appointment" });
+        }
+
+        // Every line must reference a catalogue medicine; store its canonical name
+        const resolved = [];
+        for (const line of medicines) {
+          const medicine = await storage.getMedicine(line.medicineId);
+          if (!medicine) {
+            return res.status(400).json({ error: `Unknown medicine: ${line.medicineId}` });
+          }
+          resolved.push({ ...line, medicineName: medicine.name });
+        }
+
+        const doctor = await storage.getDoctor(appointment.doctorId);
+        const draft = {
+          id: crypto.randomUUID(),
+          patientId: appointment.patientId,
+          appointmentId: appointment.id,
+          medicines: resolved,
+          instructions: instructions ?? null,
+        };
+        const signed = await signPrescription(doctor!, draft);
+
+        const prescription = await storage.createPrescription({
+          ...draft,
+          ...signed,
+          doctorId: appointment.doctorId,
+          medicines: JSON.stringify(resolved),
+          status: 'pending',
+        });
+        res.status(201).json(withParsedMedicines(prescription));
+      } catch (error) {
+        if (error instanceof PrescriptionSigningError) {
+          return res.status(422).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/prescriptions/patient/:patientId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'doctor', 'admin']),
+    AccessPolicy.requirePatientAccess('Prescription', req => req.params.patientId),
+    async (req: Request, res: Response) => {
+      try {
+        const prescriptions = await storage.getPatientPrescriptions(req.params.patientId);
+        res.json(prescriptions.map(withParsedMedicines));
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Check a prescription's signature, expiry and dispensing state. Callers who
+  // cannot otherwise see the prescription (e.g. a pharmacy it was not routed to)
+  // must present the signature printed in its QR code.
+  app.get("/api/prescriptions/:id/verify",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'doctor', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const { signature } = z.object({ signature: z.string().min(1).optional() }).parse(req.query);
+
+        const prescription = await storage.getPrescription(req.params.id);
+        if (!prescription) {
+          return res.status(404).json({ error: "Prescription not found" });
+        }
+        const related = await AccessPolicy.canAccessPrescription(req.user!, prescription);
+        if (!related && signature !== prescription.signature) {
+          return AccessPolicy.denyAccess(req, res, 'Prescription', prescription.id, 'verification_without_matching_code');
+        }
+
+        const verification = await verifyPrescription(prescription, signature);
+        auditService.logDataAccess('Prescription', prescription.id, req.user!.id, 'read', {
+          action: 'verify',
+          valid: verification.valid,
+          problems: verification.problems,
+          viaQrCode: signature !== undefined,
+          userRole: req.user!.role,
+          ipAddress: req.ip
+        }, verification.checks.signature ? 'medium' : 'high');
+
+        res.json(verification);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/prescriptions/:id/pdf",
+    SecurityMiddleware.authenticateToken,
+    AccessPolicy.requirePrescriptionAccess(req => req.params.id),
+    SecurityMiddleware.auditMiddleware('export', 'Prescription'),
+    async (req: Request, res: Response) => {
+      try {
+        const prescription = (await storage.getPrescription(req.params.id))!;
+        const [patient, doctor, key] = await Promise.all([
+          storage.getUser(prescription.patientId),
+          storage.getDoctor(prescription.doctorId),
+          prescription.signingKeyId ? storage.getSigningKey(prescription.signingKeyId) : undefined,
+        ]);
+        const doctorUser = doctor ? await storage.getUser(doctor.userId) : undefined;
+        if (!patient || !doctor || !doctorUser) {
+          return res.status(404).json({ error: "Prescription details not found" });
+        }
+
+        const pdf = await renderPrescriptionPdf({
+          prescription,
+          patient,
+          doctor: { ...doctor, user: doctorUser },
+          keyFingerprint: key?.fingerprint ?? null,
+        });
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="prescription-${prescription.id}.pdf"`);
+        res.setHeader('Cache-Control', 'no-store');
+        res.send(pdf);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // The patient chooses where to collect their medicines
+  app.put("/api/prescriptions/:id/pharmacy",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['patient', 'admin']),
+    AccessPolicy.requirePrescriptionAccess(req => req.params.id),
+    SecurityMiddleware.auditMiddleware('update', 'Prescription'),
+    async (req: Request, res: Response) => {
+      try {
+        const { pharmacyId } = z.object({ pharmacyId: z.string().min(1) }).parse(req.body);
+
+        const existing = await storage.getPrescription(req.params.id);
+        if (existing!.status !== 'pending') {
+          return res.status(409).json({ error: "This prescription is already being processed by a pharmacy" });
+        }
+        const pharmacy = await storage.getPharmacy(pharmacyId);
+        if (!pharmacy || !pharmacy.isActive) {
+          return res.status(400).json({ error: "Pharmacy not found" });
+        }
+
+        const prescription = await storage.routePrescriptionToPharmacy(req.params.id, pharmacyId);
+        publish(`pharmacy:${pharmacyId}`, { type: 'prescription-routed', prescriptionId: prescription.id, pharmacyId });
+        if (existing!.pharmacyId && existing!.pharmacyId !== pharmacyId) {
+          publish(`pharmacy:${existing!.pharmacyId}`, { type: 'prescription-withdrawn', prescriptionId: prescription.id });
+        }
+        res.json(withParsedMedicines(prescription));
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Pharmacists move a prescription through processing, ready and dispensed;
+  // the prescribing doctor may only cancel it
+  app.put("/api/prescriptions/:id/status",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'doctor', 'admin']),
+    AccessPolicy.requirePrescriptionAccess(req => req.params.id),
+    SecurityMiddleware.auditMiddleware('update', 'Prescription'),
+    async (req: Request, res: Response) => {
+      try {
+        const { status, note, items } = updatePrescriptionStatusSchema.parse(req.body);
+        if (req.user!.role === 'doctor' && status !== 'cancelled') {
+          return AccessPolicy.denyAccess(req, res, 'Prescription', req.params.id, 'doctor_cannot_dispense');
+        }
+
+        const existing = await storage.getPrescription(req.params.id);
+        const pharmacist = req.user!.role === 'pharmacist' ? await storage.getPharmacistByUserId(req.user!.id) : undefined;
+
+        const result = await storage.transitionPrescription(req.params.id, {
+          status,
+          note,
+          items,
+          changedBy: req.user!.id,
+          pharmacistId: pharmacist?.id,
+          // Stock comes from the pharmacy doing the dispensing
+          pharmacyId: pharmacist?.pharmacyId ?? existing!.pharmacyId ?? undefined,
+        });
+
+        const { prescription } = result;
+        if (prescription.pharmacyId) {
+          publish(`pharmacy:${prescription.pharmacyId}`, { type: 'prescription-updated', prescriptionId: prescription.id, status: prescription.status });
+        }
+        res.json({ ...result, prescription: withParsedMedicines(prescription) });
+      } catch (error) {
+        if (error instanceof PrescriptionTransitionError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/prescriptions/:id/history",
+    SecurityMiddleware.authenticateToken,
+    AccessPolicy.requirePrescriptionAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const history = await storage.getPrescriptionHistory(req.params.id);
+        res.json(history);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Delta sync for the pharmacist dashboard's MedicineStockManager
+  app.post("/api/medicine-stock/sync",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const { lastSync, pharmacyId, localChanges } = stockSyncRequestSchema.parse(req.body);
+
+        let scope = pharmacyId;
+        if (req.user!.role === 'pharmacist') {
+          const pharmacist = await storage.getPharmacistByUserId(req.user!.id);
+          if (!pharmacist?.pharmacyId) {
+            return res.status(404).json({ error: "You are not assigned to a pharmacy" });
+          }
+          scope = pharmacist.pharmacyId;
+        }
+
+        const result = await storage.syncMedicineStock(scope, new Date(lastSync), localChanges, req.user!.id);
+        if (localChanges.length > 0) {
+          auditService.logDataAccess('MedicineStock', scope ?? 'all', req.user!.id, 'write', {
+            action: 'sync',
+            submitted: localChanges.length,
+            conflicts: result.conflicts.length,
+            ipAddress: req.ip
+          }, result.conflicts.length > 0 ? 'medium' : 'low');
+        }
+        res.json(result);
+      } catch (error) {
+        if (error instanceof StockSyncScopeError) {
+          return AccessPolicy.denyAccess(req, res, 'MedicineStock', req.body?.pharmacyId ?? 'unknown', 'stock_outside_pharmacy');
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.put("/api/medicine-stock/:id",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requireMedicineStockAccess(req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const { quantity, reason } = stockAdjustmentSchema.parse(req.body);
+        const stock = await storage.updateMedicineStock(req.params.id, quantity, { userId: req.user!.id, reason });
+        auditService.logDataAccess('MedicineStock', stock.id, req.user!.id, 'write', {
+          action: 'adjust',
+          quantity,
+          ipAddress: req.ip
+        }, 'medium');
+        res.json(stock);
+      } catch (error) {
+        if (error instanceof InventoryError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Batch inventory routes
+  app.post("/api/pharmacies/:id/batches",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('StockBatch', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const input = receiveBatchSchema.parse(req.body);
+        const result = await storage.receiveStockBatch(req.params.id, input, req.user!.id);
+        auditService.logDataAccess('StockBatch', result.batch.id, req.user!.id, 'write', {
+          action: 'receive',
+          pharmacyId: req.params.id,
+          medicineId: input.medicineId,
+          quantity: input.quantity,
+          ipAddress: req.ip
+        }, 'low');
+        res.status(201).json(result);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.get("/api/pharmacies/:id/batches",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('StockBatch', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const medicineId = typeof req.query.medicineId === 'string' ? req.query.medicineId : undefined;
+        const batches = await storage.getStockBatches(req.params.id, medicineId);
+        res.json(batches);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Expired batches still in stock, and batches expiring within `days`
+  app.get("/api/pharmacies/:id/batches/expiry-alerts",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('StockBatch', req => req.params.id),
+    async (req: Request, res: Response) => {
+      const query = expiryAlertsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      try {
+        const alerts = await storage.getExpiryAlerts(req.params.id, query.data.days);
+        res.json(alerts);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.post("/api/pharmacies/:id/batches/:batchId/write-off",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('StockBatch', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const writeOff = writeOffBatchSchema.parse(req.body ?? {});
+        const result = await storage.writeOffStockBatch(req.params.id, req.params.batchId, writeOff, req.user!.id);
+        auditService.logDataAccess('StockBatch', result.batch.id, req.user!.id, 'write', {
+          action: 'write_off',
+          type: writeOff.type,
+          quantity: -result.movement.quantity,
+          ipAddress: req.ip
+        }, 'medium');
+        res.json(result);
+      } catch (error) {
+        if (error instanceof InventoryError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Stock movement ledger: every change to a pharmacy's stock, newest first
+  app.get("/api/pharmacies/:id/stock-movements",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('StockMovement', req => req.params.id),
+    async (req: Request, res: Response) => {
+      const query = stockMovementsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      try {
+        const page = await storage.getStockMovements(req.params.id, query.data);
+        res.json(page);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
 
-  // Medicine routes
-  app.get("/api/medicines/search", async (req, res) => {
-    try {
-      const { q } = req.query;
-      if (!q || typeof q !== 'string') {
-        return res.status(400).json({ error: "Query parameter 'q' is required" });
+  // Per-medicine movement totals over a period, with large manual adjustments flagged
+  app.get("/api/pharmacies/:id/stock-reconciliation",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('StockMovement', req => req.params.id),
+    async (req: Request, res: Response) => {
+      const query = stockReconciliationQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      try {
+        const { from, to, threshold } = query.data;
+        const report = await storage.getStockReconciliation(req.params.id, from, to, threshold);
+        res.json(report);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
       }
-      const medicines = await storage.searchMedicines(q);
-      res.json(medicines);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
     }
-  });
+  );
 
-  app.get("/api/medicines/:id/stock", async (req, res) => {
-    try {
-      const stock = await storage.getMedicineStock(req.params.id);
-      res.json(stock);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  // Supplier routes
+  app.get("/api/suppliers",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const supplierList = await storage.getSuppliers(req.query.includeInactive === 'true');
+        res.json(supplierList);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  // Pharmacy routes
-  app.get("/api/pharmacies", async (req, res) => {
-    try {
-      const pharmacies = await storage.getPharmacies();
-      res.json(pharmacies);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.post("/api/suppliers",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const supplierData = supplierSchema.parse(req.body);
+        const supplier = await storage.createSupplier(supplierData);
+        auditService.logDataAccess('Supplier', supplier.id, req.user!.id, 'write', {
+          action: 'create',
+          ipAddress: req.ip
+        }, 'low');
+        res.status(201).json(supplier);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  // Symptom checker routes
-  app.post("/api/symptom-check", 
+  app.put("/api/suppliers/:id",
     SecurityMiddleware.authenticateToken,
-    SecurityMiddleware.authorizeRole(['patient', 'doctor']),
-    SecurityMiddleware.checkCompliance('HIPAA'),
-    SecurityMiddleware.auditMiddleware('create', 'SymptomCheck'),
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
     async (req: Request, res: Response) => {
       try {
-        const { symptoms, patientId } = req.body;
-        
-        if (!symptoms || !Array.isArray(symptoms) || symptoms.length === 0) {
-          return res.status(400).json({ error: "Symptoms array is required" });
+        const updates = supplierSchema.partial().parse(req.body);
+        const supplier = await storage.updateSupplier(req.params.id, updates);
+        if (!supplier) {
+          return res.status(404).json({ error: 'Supplier not found' });
         }
+        auditService.logDataAccess('Supplier', supplier.id, req.user!.id, 'write', {
+          action: 'update',
+          fields: Object.keys(updates),
+          ipAddress: req.ip
+        }, 'low');
+        res.json(supplier);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
 
-        if (!patientId) {
-          return res.status(400).json({ error: "Patient ID is required" });
+  // Reorder rule routes
+  app.get("/api/pharmacies/:id/reorder-rules",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('ReorderRule', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const rules = await storage.getReorderRules(req.params.id);
+        res.json(rules);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  app.put("/api/pharmacies/:id/reorder-rules/:medicineId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('ReorderRule', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const ruleData = reorderRuleSchema.parse(req.body);
+        const rule = await storage.saveReorderRule(req.params.id, req.params.medicineId, ruleData);
+        auditService.logDataAccess('ReorderRule', rule.id, req.user!.id, 'write', {
+          action: 'save',
+          medicineId: req.params.medicineId,
+          reorderPoint: rule.reorderPoint,
+          reorderQuantity: rule.reorderQuantity,
+          ipAddress: req.ip
+        }, 'low');
+        res.json(rule);
+      } catch (error) {
+        if (error instanceof InventoryError) {
+          return res.status(409).json({ error: error.message });
         }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
 
-        // AI analysis using EndlessMedical API (Free)
-        const aiResponse = await analyzeWithEndlessMedical(symptoms);
-        
-        // Save symptom check to database
-        const symptomCheck = await storage.createSymptomCheck({
-          patientId,
-          symptoms,
-          aiResponse,
-          severity: aiResponse.severity
-        });
+  app.delete("/api/pharmacies/:id/reorder-rules/:medicineId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('ReorderRule', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        if (!await storage.deleteReorderRule(req.params.id, req.params.medicineId)) {
+          return res.status(404).json({ error: 'Reorder rule not found' });
+        }
+        res.status(204).end();
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
 
-        res.json(symptomCheck);
+  // Purchase order routes
+  app.get("/api/pharmacies/:id/purchase-orders",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('PurchaseOrder', req => req.params.id),
+    async (req: Request, res: Response) => {
+      const query = purchaseOrdersQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: query.error.errors.map(issue => issue.message).join(', ') });
+      }
+
+      try {
+        const orders = await storage.getPurchaseOrders(req.params.id, query.data.status);
+        res.json(orders);
       } catch (error) {
-        console.error('Symptom check error:', error);
-        res.status(500).json({ error: "Failed to analyze symptoms. Please try again later." });
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
       }
     }
   );
 
-  app.get("/api/symptom-checks/patient/:patientId", async (req, res) => {
-    try {
-      const checks = await storage.getPatientSymptomChecks(req.params.patientId);
-      res.json(checks);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.post("/api/pharmacies/:id/purchase-orders",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('PurchaseOrder', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const orderData = createPurchaseOrderSchema.parse(req.body);
+        const order = await storage.createPurchaseOrder(req.params.id, orderData, req.user!.id);
+        auditService.logDataAccess('PurchaseOrder', order.id, req.user!.id, 'write', {
+          action: 'create',
+          pharmacyId: req.params.id,
+          lines: order.lines.length,
+          ipAddress: req.ip
+        }, 'low');
+        res.status(201).json(order);
+      } catch (error) {
+        if (error instanceof InventoryError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  // Pharmacist routes
-  app.post("/api/pharmacists", async (req, res) => {
-    try {
-      const pharmacistData = insertPharmacistSchema.parse(req.body);
-      const pharmacist = await storage.createPharmacist(pharmacistData);
-      res.json(pharmacist);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  // Draft orders for the medicines behind reorder alerts; returns the drafts that changed
+  app.post("/api/pharmacies/:id/purchase-orders/auto-draft",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('PurchaseOrder', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const { medicineIds } = autoDraftPurchaseOrdersSchema.parse(req.body);
+        const orders = await storage.draftReorderPurchaseOrders(req.params.id, medicineIds);
+        for (const order of orders) {
+          auditService.logDataAccess('PurchaseOrder', order.id, req.user!.id, 'write', {
+            action: 'auto_draft',
+            pharmacyId: req.params.id,
+            ipAddress: req.ip
+          }, 'low');
+        }
+        res.json(orders);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.get("/api/pharmacists/:id/prescriptions", async (req, res) => {
-    try {
-      const prescriptions = await storage.getPharmacistPrescriptions(req.params.id);
-      res.json(prescriptions);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/pharmacies/:id/purchase-orders/:orderId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('PurchaseOrder', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const order = await storage.getPurchaseOrder(req.params.id, req.params.orderId);
+        if (!order) {
+          return res.status(404).json({ error: 'Purchase order not found' });
+        }
+        res.json(order);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.put("/api/prescriptions/:id/status", async (req, res) => {
-    try {
-      const { status } = req.body;
-      const prescription = await storage.updatePrescriptionStatus(req.params.id, status);
-      res.json(prescription);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.put("/api/pharmacies/:id/purchase-orders/:orderId",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('PurchaseOrder', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const updates = updatePurchaseOrderSchema.parse(req.body);
+        const order = await storage.updatePurchaseOrder(req.params.id, req.params.orderId, updates);
+        res.json(order);
+      } catch (error) {
+        if (error instanceof InventoryError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.put("/api/medicine-stock/:id", async (req, res) => {
-    try {
-      const { quantity } = req.body;
-      const stock = await storage.updateMedicineStock(req.params.id, quantity);
-      res.json(stock);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  // Pharmacist approval: the draft is sent to its supplier and locked for editing
+  app.post("/api/pharmacies/:id/purchase-orders/:orderId/send",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('PurchaseOrder', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const order = await storage.sendPurchaseOrder(req.params.id, req.params.orderId, req.user!.id);
+        auditService.logDataAccess('PurchaseOrder', order.id, req.user!.id, 'write', {
+          action: 'send',
+          supplierId: order.supplierId,
+          ipAddress: req.ip
+        }, 'medium');
+        res.json(order);
+      } catch (error) {
+        if (error instanceof InventoryError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
+
+  app.post("/api/pharmacies/:id/purchase-orders/:orderId/cancel",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('PurchaseOrder', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const { reason } = cancelPurchaseOrderSchema.parse(req.body ?? {});
+        const order = await storage.cancelPurchaseOrder(req.params.id, req.params.orderId, reason);
+        auditService.logDataAccess('PurchaseOrder', order.id, req.user!.id, 'write', {
+          action: 'cancel',
+          ipAddress: req.ip
+        }, 'low');
+        res.json(order);
+      } catch (error) {
+        if (error instanceof InventoryError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
+  // Goods-received note: books the delivered batches into stock
+  app.post("/api/pharmacies/:id/purchase-orders/:orderId/receipts",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['pharmacist', 'admin']),
+    AccessPolicy.requirePharmacyAccess('PurchaseOrder', req => req.params.id),
+    async (req: Request, res: Response) => {
+      try {
+        const receiptData = goodsReceiptSchema.parse(req.body);
+        const result = await storage.receivePurchaseOrderGoods(req.params.id, req.params.orderId, receiptData, req.user!.id);
+        auditService.logDataAccess('PurchaseOrder', result.order.id, req.user!.id, 'write', {
+          action: 'receive',
+          receiptId: result.receipt.id,
+          batches: result.batches.map(batch => batch.id),
+          status: result.order.status,
+          ipAddress: req.ip
+        }, 'low');
+        res.status(201).json(result);
+      } catch (error) {
+        if (error instanceof InventoryError) {
+          return res.status(409).json({ error: error.message });
+        }
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
 
   // Admin routes
-  app.get("/api/admin/users", async (req, res) => {
-    try {
-      const users = await storage.getAllUsers();
-      res.json(users);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/admin/users",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const users = await storage.getAllUsers();
+        res.json(users);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.put("/api/admin/users/:id/status", async (req, res) => {
-    try {
-      const { isActive } = req.body;
-      const user = await storage.updateUserStatus(req.params.id, isActive);
-      res.json(user);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.put("/api/admin/users/:id/status",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const { isActive } = req.body;
+        const user = await storage.updateUserStatus(req.params.id, isActive);
+        res.json(user);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.get("/api/admin/analytics", async (req, res) => {
-    try {
-      const analytics = await storage.getAnalytics();
-      res.json(analytics);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/admin/analytics",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const analytics = await storage.getAnalytics();
+        res.json(analytics);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.get("/api/admin/audit-logs", async (req, res) => {
-    try {
-      const logs = await storage.getAuditLogs();
-      res.json(logs);
-    } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/admin/audit-logs",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const { page, pageSize, ...filters } = auditLogQuerySchema.parse(req.query);
+        const result = await auditService.getLogs(filters, page, pageSize);
+        res.json(result);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
 
-  app.post("/api/admin/analytics", async (req, res) => {
-    try {
-      const analyticsData = insertAnalyticsSchema.parse(req.body);
-      const analytics = await storage.createAnalytics(analyticsData);
-      res.json(analytics);
-    } catch (error) {
-      res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  app.get("/api/admin/audit-logs/verify",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        await auditService.flushLogs();
+        const verification = await storage.verifyAuditChain();
+        if (!verification.valid) {
+          auditService.logSystemEvent('audit_chain_tampering_detected', {
+            firstInvalidSequence: verification.firstInvalidSequence,
+            checkedBy: req.user!.id
+          }, 'critical');
+        }
+        res.json(verification);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
     }
-  });
+  );
+
+  app.post("/api/admin/analytics",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const analyticsData = insertAnalyticsSchema.parse(req.body);
+        const analytics = await storage.createAnalytics(analyticsData);
+        res.json(analytics);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
 
   app.post("/api/admin/audit-logs", 
     SecurityMiddleware.authenticateToken,
@@ -797,15 +2904,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     SecurityMiddleware.auditMiddleware('create', 'AuditLog'),
     async (req: Request, res: Response) => {
       try {
-        const auditData = insertAuditLogSchema.parse(req.body);
-        const auditLog = await storage.createAuditLog(auditData);
-        res.json(auditLog);
+        // Manual entries go through the same hash chain as generated events
+        const entry = manualAuditEntrySchema.parse(req.body);
+        auditService.logEvent({
+          ...entry,
+          userId: req.user!.id,
+          ipAddress: req.auditInfo?.ipAddress,
+          userAgent: req.auditInfo?.userAgent,
+          complianceFlags: ['HIPAA'],
+          dataClassification: 'internal',
+          retentionPeriod: SECURITY_CONFIG.AUDIT_RETENTION_DAYS,
+        });
+        await auditService.flushLogs();
+        res.status(201).json({ recorded: true });
       } catch (error) {
         res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
       }
     }
   );
 
+  // Key rotation: move stored ciphertexts onto the active MASTER_ENCRYPTION_KEY
+  app.post("/api/admin/encryption/reencrypt",
+    SecurityMiddleware.authenticateToken,
+    SecurityMiddleware.authorizeRole(['admin']),
+    async (req: Request, res: Response) => {
+      try {
+        const report = await storage.reencryptSensitiveFields();
+        auditService.logSystemEvent('encryption_key_rotation', {
+          keyId: report.keyId,
+          scanned: report.scanned,
+          reencrypted: report.reencrypted,
+          failed: report.failed.length,
+          triggeredBy: req.user!.id
+        }, report.failed.length > 0 ? 'high' : 'medium');
+        res.json(report);
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  );
+
   // Apply security error handler
   app.use(SecurityMiddleware.securityErrorHandler);
 
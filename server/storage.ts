@@ -1,18 +1,176 @@
 import { 
-  users, doctors, pharmacists, appointments, healthRecords, medicines, pharmacies, medicineStock, symptomChecks, prescriptions, analytics, auditLogs,
+  users, doctors, pharmacists, appointments, doctorWorkingHours, doctorBreaks, doctorLeaves, doctorSigningKeys, healthRecords, medicines, pharmacies, medicineStock, symptomChecks, appointmentParticipants, consultationMessages, healthRecordFiles, walkIns, prescriptions, prescriptionStatusHistory, prescriptionDispenseItems, syncOperations, tombstones, stockBatches, stockMovements, suppliers, reorderRules, purchaseOrders, purchaseOrderLines, goodsReceipts, analytics, auditLogs,
   type User, type InsertUser, type Doctor, type InsertDoctor, type Pharmacist, type InsertPharmacist, type Appointment, type InsertAppointment,
+  type DoctorWorkingHours, type InsertDoctorWorkingHours, type DoctorBreak, type InsertDoctorBreak, type DoctorLeave, type InsertDoctorLeave,
+  type DoctorSigningKey, type InsertDoctorSigningKey,
   type HealthRecord, type InsertHealthRecord, type Medicine, type InsertMedicine,
   type Pharmacy, type InsertPharmacy, type MedicineStock, type InsertMedicineStock,
-  type SymptomCheck, type InsertSymptomCheck, type Prescription, type InsertPrescription,
-  type Analytics, type InsertAnalytics, type AuditLog, type InsertAuditLog
+  type SymptomCheck, type InsertSymptomCheck, type WalkIn, type InsertWalkIn, type AppointmentParticipant, type ConsultationMessage, type HealthRecordFile, type Prescription, type InsertPrescription,
+  type PrescriptionStatusHistory, type PrescriptionDispenseItem, type StockBatch, type StockMovement,
+  type Supplier, type InsertSupplier, type ReorderRule, type PurchaseOrder, type GoodsReceipt,
+  type Analytics, type InsertAnalytics, type AuditLog as AuditLogRow
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc } from "drizzle-orm";
+import { eq, ne, and, or, inArray, isNull, isNotNull, notExists, desc, asc, gt, gte, lt, lte, sql, type SQL } from "drizzle-orm";
+import { alias, type SQLiteColumn } from "drizzle-orm/sqlite-core";
+import {
+  computeAuditHash, encryptionService, SECURITY_CONFIG,
+  type AuditLog, type AuditLogStore, type AuditLogFilters, type AuditLogPage, type StoredAuditLog
+} from "@shared/security";
+import { computeAvailableSlots, clinicTimeToDate, toBookedInterval, intervalsOverlap, type AvailableSlot, type BookedInterval } from "@shared/scheduling";
+import { canTransitionPrescription, parsePrescriptionMedicines, withParsedMedicines, type PrescriptionStatus } from "@shared/prescriptions";
+import { stockSyncStatus, type StockLocalChange, type StockSyncItem, type StockSyncResponse } from "@shared/stockSync";
+import type { SyncEntity, SyncOperation, SyncOperationResult, SyncedRow } from "@shared/offlineSync";
+import {
+  parseConsultationNote, toPatientSummary,
+  type ConsultationNote, type ConsultationNoteRequest, type ConsultationNoteResult, type PatientChart, type QueueEntry
+} from "@shared/consultation";
+import type { CallParticipant } from "@shared/callSessions";
+import {
+  base64ByteLength,
+  type ChatAttachmentRequest, type ChatReceiptStatus, type ConsultationChatMessage, type ConsultationMessageRequest
+} from "@shared/consultationChat";
+import { TRIAGE_SYMPTOM_CHECK_MAX_AGE_HOURS, computeQueuePositions, priorityForSeverity, type WalkInEntry } from "@shared/triage";
+import { CHANGE_FEED_ENTITIES, type Change, type ChangeFeedEntity, type ChangeFeedPosition } from "@shared/changeFeed";
+import { normalizeSearchText, type MedicineAlternative } from "@shared/medicineSearch";
+import { distanceKm, parseCoordinates, type Coordinates } from "@shared/geo";
+import { estimateTravel, getOpenStatus, parseOpeningHours, type NearbyStock } from "@shared/pharmacyLocator";
+import {
+  allocateFefo, daysUntil, isExpired, todayInClinic, DEFAULT_MAXIMUM_STOCK, DEFAULT_MINIMUM_STOCK,
+  type ExpiryAlert, type ReceiveBatchRequest, type WriteOffBatchRequest, type StockMovementType,
+  type StockMovementsQuery, type StockMovementPage, type StockMovementEntry, type StockReconciliationReport
+} from "@shared/inventory";
+import {
+  canTransitionPurchaseOrder, statusAfterReceipt, suggestedOrderQuantity, OPEN_PURCHASE_ORDER_STATUSES,
+  type CreatePurchaseOrderRequest, type GoodsReceiptRequest, type PurchaseOrderDetail, type PurchaseOrderStatus,
+  type ReorderRuleRequest, type UpdatePurchaseOrderRequest
+} from "@shared/purchasing";
+import { indexMedicine, searchGenericIds, searchMedicineIds } from "./medicineSearch";
 
-export interface IStorage {
+// Longest consultation we allow; bounds the window scanned for overlapping bookings
+const MAX_APPOINTMENT_MINUTES = 240;
+
+export class AppointmentConflictError extends Error {
+  constructor(message = "The doctor already has an appointment at this time") {
+    super(message);
+    this.name = "AppointmentConflictError";
+  }
+}
+
+// A synced change referenced stock outside the caller's pharmacy
+export class StockSyncScopeError extends Error {
+  constructor(stockId: string) {
+    super(`Stock entry ${stockId} is not part of this pharmacy`);
+    this.name = "StockSyncScopeError";
+  }
+}
+
+// Refused status change: illegal transition, expired prescription or not enough stock
+export class PrescriptionTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrescriptionTransitionError";
+  }
+}
+
+// Consultation note refused, e.g. on a cancelled appointment
+export class ConsultationNoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConsultationNoteError";
+  }
+}
+
+// Walk-in refused or no longer possible, e.g. the patient is already waiting
+export class WalkInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WalkInError";
+  }
+}
+
+// Refused inventory change: unknown batch, writing off stock that has not expired, and the like
+export class InventoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InventoryError";
+  }
+}
+
+// Who set a counted quantity by hand, and why
+export interface StockAdjustment {
+  userId?: string;
+  reason?: string;
+}
+
+export interface PrescriptionTransition {
+  status: PrescriptionStatus;
+  changedBy: string;
+  note?: string;
+  // Pharmacist taking charge of the prescription, recorded on the prescription
+  pharmacistId?: string;
+  // Pharmacy whose stock is drawn down when dispensing
+  pharmacyId?: string;
+  // Quantities handed over now; defaults to everything outstanding that is in stock
+  items?: { medicineId: string; quantity: number }[];
+}
+
+export interface PrescriptionTransitionResult {
+  prescription: Prescription;
+  history: PrescriptionStatusHistory;
+  dispensed: PrescriptionDispenseItem[];
+  outstanding: { medicineId: string; quantity: number }[];
+}
+
+export type PrescriptionHistoryEntry = PrescriptionStatusHistory & {
+  changedByName: string;
+  dispenseItems: PrescriptionDispenseItem[];
+};
+
+// Whose offline copy a change feed fills: a patient's own data, a doctor's
+// patients, or a pharmacy's prescriptions and stock
+export type ChangeFeedScope = { patientId: string } | { doctorId: string } | { pharmacyId: string };
+
+export interface ChangePage {
+  changes: Change[];
+  position: ChangeFeedPosition;
+  hasMore: boolean;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  firstInvalidSequence?: number;
+}
+
+export interface ReencryptionReport {
+  keyId: string;
+  scanned: number;
+  reencrypted: number;
+  failed: { table: string; id: string; field: string; error: string }[];
+}
+
+// PHI/PII columns DatabaseStorage encrypts on write and decrypts on read.
+// Callers always see plaintext; only the database holds ciphertext.
+const ENCRYPTED_USER_FIELDS = ['email', 'phone', 'address', 'emergencyContact', 'emergencyPhone'] as const;
+const ENCRYPTED_HEALTH_RECORD_FIELDS = ['data', 'notes'] as const;
+const ENCRYPTED_PRESCRIPTION_FIELDS = ['medicines'] as const;
+const ENCRYPTED_SIGNING_KEY_FIELDS = ['privateKey'] as const;
+const ENCRYPTED_CONSULTATION_MESSAGE_FIELDS = ['body'] as const;
+const ENCRYPTED_HEALTH_RECORD_FILE_FIELDS = ['data'] as const;
+
+export interface DoctorSchedule {
+  workingHours: DoctorWorkingHours[];
+  breaks: DoctorBreak[];
+  leaves: DoctorLeave[];
+}
+
+export interface IStorage extends AuditLogStore {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByFirebaseUid(firebaseUid: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByPhone(phone: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<InsertUser>): Promise<User>;
 
@@ -30,16 +188,52 @@ export interface IStorage {
   getPatientAppointments(patientId: string): Promise<(Appointment & { doctor: Doctor & { user: User } })[]>;
   getDoctorAppointments(doctorId: string): Promise<(Appointment & { patient: User })[]>;
   updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment>;
+  rescheduleAppointment(id: string, scheduledAt: Date, durationMinutes: number): Promise<Appointment>;
+  transitionAppointmentStatus(id: string, from: readonly string[], status: string): Promise<Appointment | undefined>;
+  getDoctorQueue(doctorId: string, date: string): Promise<QueueEntry[]>;
+  saveConsultationNote(appointmentId: string, note: ConsultationNoteRequest): Promise<ConsultationNoteResult>;
+
+  // Video call operations
+  getAppointmentParticipants(appointmentId: string): Promise<CallParticipant[]>;
+  isAppointmentParticipant(appointmentId: string, userId: string): Promise<boolean>;
+  addAppointmentParticipant(appointmentId: string, userId: string, invitedBy: string, confirmed: boolean): Promise<AppointmentParticipant>;
+  confirmAppointmentParticipant(appointmentId: string, userId: string): Promise<AppointmentParticipant | undefined>;
+  removeAppointmentParticipant(appointmentId: string, userId: string): Promise<void>;
+  recordCallStart(appointmentId: string, at: Date): Promise<Appointment>;
+  recordCallEnd(appointmentId: string, connectedAt: Date, at: Date): Promise<Appointment>;
+  completeAppointmentCall(appointmentId: string): Promise<Appointment | undefined>;
+
+  // Consultation chat operations
+  addConsultationMessage(senderId: string, message: ConsultationMessageRequest): Promise<ConsultationChatMessage>;
+  shareConsultationFile(appointment: Appointment, uploadedBy: string, attachment: ChatAttachmentRequest): Promise<ConsultationChatMessage>;
+  getConsultationMessage(id: string): Promise<ConsultationChatMessage | undefined>;
+  getConsultationMessages(appointmentId: string): Promise<ConsultationChatMessage[]>;
+  markConsultationMessages(appointmentId: string, userId: string, messageIds: string[], status: ChatReceiptStatus, at: Date): Promise<string[]>;
+  getHealthRecordFile(recordId: string): Promise<HealthRecordFile | undefined>;
+
+  // Scheduling operations
+  getDoctorSchedule(doctorId: string): Promise<DoctorSchedule>;
+  replaceDoctorSchedule(
+    doctorId: string,
+    workingHours: Omit<InsertDoctorWorkingHours, 'doctorId'>[],
+    breaks: Omit<InsertDoctorBreak, 'doctorId'>[]
+  ): Promise<DoctorSchedule>;
+  createDoctorLeave(leave: InsertDoctorLeave): Promise<DoctorLeave>;
+  deleteDoctorLeave(doctorId: string, leaveId: string): Promise<void>;
+  getDoctorSlots(doctorId: string, date: string): Promise<AvailableSlot[]>;
 
   // Health record operations
   createHealthRecord(record: InsertHealthRecord): Promise<HealthRecord>;
   getPatientHealthRecords(patientId: string): Promise<HealthRecord[]>;
   getHealthRecord(id: string): Promise<HealthRecord | undefined>;
+  hasCareRelationship(doctorId: string, patientId: string): Promise<boolean>;
+  getPatientChart(patientId: string): Promise<PatientChart | undefined>;
 
   // Medicine operations
-  searchMedicines(query: string): Promise<Medicine[]>;
+  searchMedicines(query: string, limit?: number): Promise<Medicine[]>;
   getMedicine(id: string): Promise<Medicine | undefined>;
   createMedicine(medicine: InsertMedicine): Promise<Medicine>;
+  getMedicineAlternatives(medicineId: string, origin: Coordinates | null, radiusKm: number): Promise<MedicineAlternative[] | undefined>;
 
   // Pharmacy operations
   getPharmacies(): Promise<Pharmacy[]>;
@@ -48,56 +242,122 @@ export interface IStorage {
 
   // Medicine stock operations
   getMedicineStock(medicineId: string): Promise<(MedicineStock & { pharmacy: Pharmacy })[]>;
-  updateMedicineStock(pharmacyId: string, medicineId: string, updates: Partial<InsertMedicineStock>): Promise<MedicineStock>;
-  createMedicineStock(stock: InsertMedicineStock): Promise<MedicineStock>;
+  getNearbyMedicineStock(medicineId: string, origin: Coordinates, radiusKm: number): Promise<NearbyStock[]>;
+  getMedicineStockById(id: string): Promise<MedicineStock | undefined>;
+  updateMedicineStock(pharmacyId: string, medicineId: string, updates: Partial<Omit<InsertMedicineStock, 'quantity'>>): Promise<MedicineStock>;
+  createMedicineStock(stock: InsertMedicineStock, userId?: string): Promise<MedicineStock>;
+  syncMedicineStock(pharmacyId: string | undefined, since: Date, changes: StockLocalChange[], userId: string): Promise<StockSyncResponse>;
+
+  // Batch inventory operations
+  receiveStockBatch(pharmacyId: string, batch: ReceiveBatchRequest, receivedBy: string): Promise<{ batch: StockBatch; stock: MedicineStock }>;
+  getStockBatches(pharmacyId: string, medicineId?: string): Promise<StockBatch[]>;
+  getExpiryAlerts(pharmacyId: string, withinDays: number): Promise<ExpiryAlert[]>;
+  writeOffStockBatch(pharmacyId: string, batchId: string, writeOff: WriteOffBatchRequest, userId: string): Promise<{ batch: StockBatch; stock: MedicineStock; movement: StockMovement }>;
+  getStockMovements(pharmacyId: string, query: StockMovementsQuery): Promise<StockMovementPage>;
+  getStockReconciliation(pharmacyId: string, from: string, to: string, threshold: number): Promise<StockReconciliationReport>;
+
+  // Purchasing operations
+  getSuppliers(includeInactive?: boolean): Promise<Supplier[]>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  getReorderRules(pharmacyId: string): Promise<(ReorderRule & { medicineName: string })[]>;
+  saveReorderRule(pharmacyId: string, medicineId: string, rule: ReorderRuleRequest): Promise<ReorderRule>;
+  deleteReorderRule(pharmacyId: string, medicineId: string): Promise<boolean>;
+  getPurchaseOrders(pharmacyId: string, status?: PurchaseOrderStatus): Promise<PurchaseOrderDetail[]>;
+  getPurchaseOrder(pharmacyId: string, id: string): Promise<PurchaseOrderDetail | undefined>;
+  createPurchaseOrder(pharmacyId: string, order: CreatePurchaseOrderRequest, createdBy: string): Promise<PurchaseOrderDetail>;
+  updatePurchaseOrder(pharmacyId: string, id: string, updates: UpdatePurchaseOrderRequest): Promise<PurchaseOrderDetail>;
+  draftReorderPurchaseOrders(pharmacyId: string, medicineIds: string[]): Promise<PurchaseOrderDetail[]>;
+  sendPurchaseOrder(pharmacyId: string, id: string, approvedBy: string): Promise<PurchaseOrderDetail>;
+  cancelPurchaseOrder(pharmacyId: string, id: string, reason?: string): Promise<PurchaseOrderDetail>;
+  receivePurchaseOrderGoods(pharmacyId: string, id: string, receipt: GoodsReceiptRequest, receivedBy: string): Promise<{ receipt: GoodsReceipt; batches: StockBatch[]; order: PurchaseOrderDetail }>;
 
   // Symptom check operations
   createSymptomCheck(check: InsertSymptomCheck): Promise<SymptomCheck>;
   getPatientSymptomChecks(patientId: string): Promise<SymptomCheck[]>;
 
+  // Walk-in triage operations
+  registerWalkIn(walkIn: Pick<InsertWalkIn, 'patientId' | 'registeredBy' | 'source' | 'location' | 'reason'>): Promise<WalkIn>;
+  getWalkIn(id: string): Promise<WalkInEntry | undefined>;
+  getActiveWalkIn(patientId: string): Promise<WalkInEntry | undefined>;
+  getWalkInQueue(doctorId?: string): Promise<WalkInEntry[]>;
+  hasRegisteredWalkIn(registeredBy: string, patientId: string): Promise<boolean>;
+  hasCareHistory(patientId: string): Promise<boolean>;
+  callNextWalkIn(doctorId: string): Promise<{ walkIn: WalkInEntry; appointment: Appointment } | undefined>;
+  cancelWalkIn(id: string): Promise<WalkIn>;
+  releaseDoctorWalkIns(doctorId: string): Promise<WalkIn[]>;
+
+  // Offline sync
+  applySyncOperations(userId: string, operations: SyncOperation[]): Promise<SyncOperationResult[]>;
+  getChanges(scope: ChangeFeedScope, position: ChangeFeedPosition, limit: number): Promise<ChangePage>;
+
   // Pharmacist operations
   createPharmacist(pharmacist: InsertPharmacist): Promise<Pharmacist>;
   getPharmacist(id: string): Promise<Pharmacist | undefined>;
   getPharmacistByUserId(userId: string): Promise<Pharmacist | undefined>;
   updatePharmacist(id: string, updates: Partial<InsertPharmacist>): Promise<Pharmacist>;
 
+  // Prescription signing keys
+  getSigningKey(id: string): Promise<DoctorSigningKey | undefined>;
+  getActiveSigningKey(doctorId: string): Promise<DoctorSigningKey | undefined>;
+  createSigningKey(key: InsertDoctorSigningKey): Promise<DoctorSigningKey>;
+
   // Prescription operations
-  createPrescription(prescription: InsertPrescription): Promise<Prescription>;
+  createPrescription(prescription: InsertPrescription & { id?: string }): Promise<Prescription>;
   getPrescription(id: string): Promise<Prescription | undefined>;
   getPharmacistPrescriptions(pharmacistId: string): Promise<(Prescription & { patient: User; doctor: Doctor & { user: User } })[]>;
-  updatePrescriptionStatus(id: string, status: string): Promise<Prescription>;
+  getPatientPrescriptions(patientId: string): Promise<(Prescription & { doctor: Doctor & { user: User }; pharmacy: Pharmacy | null })[]>;
+  routePrescriptionToPharmacy(id: string, pharmacyId: string): Promise<Prescription>;
+  transitionPrescription(id: string, transition: PrescriptionTransition): Promise<PrescriptionTransitionResult>;
+  getPrescriptionHistory(id: string): Promise<PrescriptionHistoryEntry[]>;
 
   // Medicine stock operations (updated)
-  updateMedicineStock(id: string, quantity: number): Promise<MedicineStock>;
+  updateMedicineStock(id: string, quantity: number, adjustment?: StockAdjustment): Promise<MedicineStock>;
 
   // Admin operations
   getAllUsers(): Promise<User[]>;
   updateUserStatus(id: string, isActive: boolean): Promise<User>;
   getAnalytics(): Promise<Analytics[]>;
   createAnalytics(analytics: InsertAnalytics): Promise<Analytics>;
-  getAuditLogs(): Promise<AuditLog[]>;
-  createAuditLog(auditLog: InsertAuditLog): Promise<AuditLog>;
+  verifyAuditChain(): Promise<AuditChainVerification>;
+
+  // Key rotation
+  reencryptSensitiveFields(): Promise<ReencryptionReport>;
 }
 
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user || undefined;
+    return user ? decryptUser(user) : undefined;
   }
 
   async getUserByFirebaseUid(firebaseUid: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.firebaseUid, firebaseUid));
-    return user || undefined;
+    return user ? decryptUser(user) : undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    // Rows written before field encryption have no index yet and still hold plaintext
+    const [user] = await db.select().from(users).where(or(
+      eq(users.emailIndex, emailBlindIndex(email)),
+      and(isNull(users.emailIndex), eq(users.email, email))
+    ));
+    return user ? decryptUser(user) : undefined;
+  }
+
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.phoneIndex, phoneBlindIndex(phone)));
+    return user ? decryptUser(user) : undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
-    return user;
+    const [user] = await db.insert(users).values(encryptUser(insertUser)).returning();
+    return decryptUser(user);
   }
 
   async updateUser(id: string, updates: Partial<InsertUser>): Promise<User> {
-    const [user] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
-    return user;
+    const [user] = await db.update(users).set(encryptUser(updates)).where(eq(users.id, id)).returning();
+    return user ? decryptUser(user) : user;
   }
 
   async getDoctor(id: string): Promise<Doctor | undefined> {
@@ -128,7 +388,7 @@ export class DatabaseStorage implements IStorage {
       .where(eq(doctors.isOnline, true))
       .orderBy(desc(doctors.rating));
     
-    return result.map(({ doctors: doctor, users: user }) => ({ ...doctor, user }));
+    return result.map(({ doctors: doctor, users: user }) => ({ ...doctor, user: decryptUser(user) }));
   }
 
   async getDoctorsBySpecialty(specialty: string): Promise<(Doctor & { user: User })[]> {
@@ -139,12 +399,38 @@ export class DatabaseStorage implements IStorage {
       .where(eq(doctors.specialty, specialty))
       .orderBy(desc(doctors.rating));
     
-    return result.map(({ doctors: doctor, users: user }) => ({ ...doctor, user }));
+    return result.map(({ doctors: doctor, users: user }) => ({ ...doctor, user: decryptUser(user) }));
   }
 
   async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
-    const [appointment] = await db.insert(appointments).values(insertAppointment).returning();
-    return appointment;
+    // IMMEDIATE takes the SQLite write lock up front, so the overlap check and the
+    // insert cannot interleave with a concurrent booking for the same doctor.
+    return db.transaction((tx) => {
+      assertDoctorFree(tx, insertAppointment.doctorId, {
+        scheduledAt: insertAppointment.scheduledAt,
+        durationMinutes: insertAppointment.durationMinutes,
+      });
+      return tx.insert(appointments).values(insertAppointment).returning().get();
+    }, { behavior: 'immediate' });
+  }
+
+  // Move a booking to a new time under the same overlap check as a new booking
+  async rescheduleAppointment(id: string, scheduledAt: Date, durationMinutes: number): Promise<Appointment> {
+    return db.transaction((tx) => {
+      const current = tx.select().from(appointments).where(eq(appointments.id, id)).get();
+      if (!current) {
+        throw new AppointmentConflictError("Appointment not found");
+      }
+      if (current.status !== 'scheduled') {
+        throw new AppointmentConflictError(`A ${current.status} appointment cannot be rescheduled`);
+      }
+      assertDoctorFree(tx, current.doctorId, { scheduledAt, durationMinutes }, current.id);
+      return tx.update(appointments)
+        .set({ scheduledAt, durationMinutes, updatedAt: new Date() })
+        .where(eq(appointments.id, id))
+        .returning()
+        .get();
+    }, { behavior: 'immediate' });
   }
 
   async getAppointment(id: string): Promise<Appointment | undefined> {
@@ -163,7 +449,7 @@ export class DatabaseStorage implements IStorage {
     
     return result.map(({ appointments: appointment, doctors: doctor, users: user }) => ({
       ...appointment,
-      doctor: { ...doctor, user }
+      doctor: { ...doctor, user: decryptUser(user) }
     }));
   }
 
@@ -177,39 +463,458 @@ export class DatabaseStorage implements IStorage {
     
     return result.map(({ appointments: appointment, users: patient }) => ({
       ...appointment,
-      patient
+      patient: decryptUser(patient)
     }));
   }
 
   async updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment> {
-    const [appointment] = await db.update(appointments).set(updates).where(eq(appointments.id, id)).returning();
+    const [appointment] = await db.update(appointments).set({ ...updates, updatedAt: new Date() }).where(eq(appointments.id, id)).returning();
     return appointment;
   }
 
+  // Change the status only if it is still one of `from`; undefined when it has moved on
+  async transitionAppointmentStatus(id: string, from: readonly string[], status: string): Promise<Appointment | undefined> {
+    const [appointment] = await db
+      .update(appointments)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(appointments.id, id), inArray(appointments.status, [...from])))
+      .returning();
+    return appointment;
+  }
+
+  // Today's (or `date`'s) appointments still to be seen or already seen, in the order the doctor should take them
+  async getDoctorQueue(doctorId: string, date: string): Promise<QueueEntry[]> {
+    const rows = await db
+      .select({ appointment: appointments, patient: users })
+      .from(appointments)
+      .innerJoin(users, eq(appointments.patientId, users.id))
+      .where(and(
+        eq(appointments.doctorId, doctorId),
+        ne(appointments.status, 'cancelled'),
+        gte(appointments.scheduledAt, clinicTimeToDate(date, 0)),
+        lt(appointments.scheduledAt, clinicTimeToDate(date, 24 * 60))
+      ))
+      // Higher priority first (0 is routine), then by appointment time
+      .orderBy(desc(sql`coalesce(${appointments.priority}, 0)`), asc(appointments.scheduledAt));
+
+    return rows.map(({ appointment, patient }) => toQueueEntry(appointment, decryptUser(patient)));
+  }
+
+  /**
+   * Save the doctor's SOAP note on the appointment, replacing any earlier
+   * version, and file each new diagnosis as a "diagnosis" health record.
+   */
+  async saveConsultationNote(appointmentId: string, request: ConsultationNoteRequest): Promise<ConsultationNoteResult> {
+    const saved = db.transaction((tx) => {
+      const current = tx.select().from(appointments).where(eq(appointments.id, appointmentId)).get();
+      if (!current) {
+        throw new ConsultationNoteError("Appointment not found");
+      }
+      if (current.status === 'cancelled') {
+        throw new ConsultationNoteError("This appointment was cancelled");
+      }
+
+      const now = new Date();
+      const { complete, ...content } = request;
+      const note: ConsultationNote = { ...content, updatedAt: now.toISOString() };
+      const appointment = tx.update(appointments)
+        .set({ consultationNote: JSON.stringify(note), ...(complete ? { status: 'completed' } : {}), updatedAt: now })
+        .where(eq(appointments.id, current.id))
+        .returning()
+        .get();
+
+      // Saving the note again must not file the same diagnosis twice
+      const filedTitles = new Set(tx
+        .select({ title: healthRecords.title })
+        .from(healthRecords)
+        .where(and(eq(healthRecords.appointmentId, current.id), eq(healthRecords.type, 'diagnosis')))
+        .all()
+        .map(record => record.title.toLowerCase()));
+
+      const diagnoses: HealthRecord[] = [];
+      for (const diagnosis of note.diagnoses) {
+        if (filedTitles.has(diagnosis.title.toLowerCase())) continue;
+        filedTitles.add(diagnosis.title.toLowerCase());
+        diagnoses.push(tx.insert(healthRecords).values(encryptFields({
+          patientId: current.patientId,
+          doctorId: current.doctorId,
+          appointmentId: current.id,
+          type: 'diagnosis',
+          title: diagnosis.title,
+          data: JSON.stringify({ code: diagnosis.code ?? null, assessment: note.assessment }),
+          notes: diagnosis.notes ?? null,
+          recordDate: current.scheduledAt,
+          createdAt: now,
+          updatedAt: now,
+        }, ENCRYPTED_HEALTH_RECORD_FIELDS, 'restricted')).returning().get());
+      }
+
+      const patient = tx.select().from(users).where(eq(users.id, current.patientId)).get()!;
+      return { appointment, patient, diagnoses };
+    }, { behavior: 'immediate' });
+
+    return {
+      appointment: toQueueEntry(saved.appointment, decryptUser(saved.patient)),
+      diagnoses: saved.diagnoses.map(record => decryptFields(record, ENCRYPTED_HEALTH_RECORD_FIELDS)),
+    };
+  }
+
+  async getAppointmentParticipants(appointmentId: string): Promise<CallParticipant[]> {
+    const rows = await db
+      .select({ participant: appointmentParticipants, user: { id: users.id, name: users.name, role: users.role } })
+      .from(appointmentParticipants)
+      .innerJoin(users, eq(appointmentParticipants.userId, users.id))
+      .where(eq(appointmentParticipants.appointmentId, appointmentId))
+      .orderBy(asc(appointmentParticipants.createdAt));
+    return rows.map(({ participant, user }) => ({ ...participant, user }));
+  }
+
+  // Only confirmed guests count; an invitation waiting for the doctor lets nobody in
+  async isAppointmentParticipant(appointmentId: string, userId: string): Promise<boolean> {
+    const [participant] = await db
+      .select({ id: appointmentParticipants.id })
+      .from(appointmentParticipants)
+      .where(and(
+        eq(appointmentParticipants.appointmentId, appointmentId),
+        eq(appointmentParticipants.userId, userId),
+        isNotNull(appointmentParticipants.confirmedAt)
+      ))
+      .limit(1);
+    return !!participant;
+  }
+
+  // Inviting someone already invited returns the existing invitation, confirming it when `confirmed`
+  async addAppointmentParticipant(appointmentId: string, userId: string, invitedBy: string, confirmed: boolean): Promise<AppointmentParticipant> {
+    return db.transaction((tx) => {
+      const existing = tx
+        .select()
+        .from(appointmentParticipants)
+        .where(and(eq(appointmentParticipants.appointmentId, appointmentId), eq(appointmentParticipants.userId, userId)))
+        .get();
+      if (!existing) {
+        return tx.insert(appointmentParticipants)
+          .values({ appointmentId, userId, invitedBy, confirmedAt: confirmed ? new Date() : null })
+          .returning()
+          .get();
+      }
+      if (!confirmed || existing.confirmedAt) return existing;
+      return tx.update(appointmentParticipants)
+        .set({ confirmedAt: new Date() })
+        .where(eq(appointmentParticipants.id, existing.id))
+        .returning()
+        .get();
+    }, { behavior: 'immediate' });
+  }
+
+  async confirmAppointmentParticipant(appointmentId: string, userId: string): Promise<AppointmentParticipant | undefined> {
+    const [participant] = await db
+      .update(appointmentParticipants)
+      .set({ confirmedAt: sql`coalesce(${appointmentParticipants.confirmedAt}, ${Date.now()})` })
+      .where(and(eq(appointmentParticipants.appointmentId, appointmentId), eq(appointmentParticipants.userId, userId)))
+      .returning();
+    return participant;
+  }
+
+  async removeAppointmentParticipant(appointmentId: string, userId: string): Promise<void> {
+    await db
+      .delete(appointmentParticipants)
+      .where(and(eq(appointmentParticipants.appointmentId, appointmentId), eq(appointmentParticipants.userId, userId)));
+  }
+
+  // The patient and doctor are both connected: the first time starts the consultation
+  async recordCallStart(appointmentId: string, at: Date): Promise<Appointment> {
+    return db.transaction((tx) => {
+      const current = tx.select().from(appointments).where(eq(appointments.id, appointmentId)).get();
+      if (!current) {
+        throw new Error("Appointment not found");
+      }
+      return tx.update(appointments)
+        .set({
+          callStartedAt: current.callStartedAt ?? at,
+          ...(current.status === 'scheduled' ? { status: 'ongoing' } : {}),
+          updatedAt: at,
+        })
+        .where(eq(appointments.id, appointmentId))
+        .returning()
+        .get();
+    }, { behavior: 'immediate' });
+  }
+
+  // One of them dropped or hung up; the time connected since `connectedAt` counts towards the call
+  async recordCallEnd(appointmentId: string, connectedAt: Date, at: Date): Promise<Appointment> {
+    const seconds = Math.max(0, Math.round((at.getTime() - connectedAt.getTime()) / 1000));
+    const [appointment] = await db
+      .update(appointments)
+      .set({
+        callEndedAt: at,
+        callDurationSeconds: sql`${appointments.callDurationSeconds} + ${seconds}`,
+        updatedAt: at,
+      })
+      .where(eq(appointments.id, appointmentId))
+      .returning();
+    return appointment;
+  }
+
+  // The call is over for good; a consultation that never connected stays scheduled
+  async completeAppointmentCall(appointmentId: string): Promise<Appointment | undefined> {
+    const [appointment] = await db
+      .update(appointments)
+      .set({ status: 'completed', updatedAt: new Date() })
+      .where(and(eq(appointments.id, appointmentId), eq(appointments.status, 'ongoing')))
+      .returning();
+    return appointment ?? await this.getAppointment(appointmentId);
+  }
+
+  // Sending the same client message id again returns the message already stored
+  async addConsultationMessage(senderId: string, message: ConsultationMessageRequest): Promise<ConsultationChatMessage> {
+    const saved = db.transaction((tx) => insertConsultationMessage(tx, { ...message, senderId }), { behavior: 'immediate' });
+    return (await this.getConsultationMessage(saved.id))!;
+  }
+
+  /**
+   * File a shared photo or report as the patient's health record (type
+   * "report") with its contents, and post the message that shares it, in one
+   * transaction.
+   */
+  async shareConsultationFile(appointment: Appointment, uploadedBy: string, attachment: ChatAttachmentRequest): Promise<ConsultationChatMessage> {
+    const saved = db.transaction((tx) => {
+      const existing = findConsultationMessage(tx, appointment.id, uploadedBy, attachment.clientMessageId);
+      if (existing) return existing;
+
+      const now = new Date();
+      const recordId = crypto.randomUUID();
+      const size = base64ByteLength(attachment.data);
+      tx.insert(healthRecords).values(encryptFields({
+        id: recordId,
+        patientId: appointment.patientId,
+        doctorId: appointment.doctorId,
+        appointmentId: appointment.id,
+        type: 'report',
+        title: attachment.title ?? attachment.fileName,
+        data: JSON.stringify({ source: 'consultation_chat', fileName: attachment.fileName, contentType: attachment.contentType, size }),
+        fileUrl: `/api/health-records/${recordId}/file`,
+        recordDate: now,
+        createdAt: now,
+        updatedAt: now,
+      }, ENCRYPTED_HEALTH_RECORD_FIELDS, 'restricted')).run();
+      tx.insert(healthRecordFiles).values(encryptFields({
+        recordId,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size,
+        data: attachment.data,
+        uploadedBy,
+      }, ENCRYPTED_HEALTH_RECORD_FILE_FIELDS, 'restricted')).run();
+
+      return insertConsultationMessage(tx, {
+        appointmentId: appointment.id,
+        senderId: uploadedBy,
+        clientMessageId: attachment.clientMessageId,
+        body: attachment.body,
+        healthRecordId: recordId,
+      });
+    }, { behavior: 'immediate' });
+
+    return (await this.getConsultationMessage(saved.id))!;
+  }
+
+  async getConsultationMessage(id: string): Promise<ConsultationChatMessage | undefined> {
+    const [message] = await loadConsultationMessages(eq(consultationMessages.id, id));
+    return message;
+  }
+
+  // The appointment's chat transcript, oldest first
+  async getConsultationMessages(appointmentId: string): Promise<ConsultationChatMessage[]> {
+    return loadConsultationMessages(eq(consultationMessages.appointmentId, appointmentId));
+  }
+
+  // Stamp messages someone else sent as delivered or read; returns the ids that changed
+  async markConsultationMessages(appointmentId: string, userId: string, messageIds: string[], status: ChatReceiptStatus, at: Date): Promise<string[]> {
+    return db.transaction((tx) => {
+      const stamp = status === 'read' ? consultationMessages.readAt : consultationMessages.deliveredAt;
+      const ids = tx
+        .select({ id: consultationMessages.id })
+        .from(consultationMessages)
+        .where(and(
+          eq(consultationMessages.appointmentId, appointmentId),
+          inArray(consultationMessages.id, messageIds),
+          ne(consultationMessages.senderId, userId),
+          isNull(stamp)
+        ))
+        .all()
+        .map(row => row.id);
+      if (ids.length === 0) return ids;
+
+      if (status === 'read') {
+        tx.update(consultationMessages).set({ readAt: at }).where(inArray(consultationMessages.id, ids)).run();
+      }
+      // Reading a message also means it arrived
+      tx.update(consultationMessages)
+        .set({ deliveredAt: at })
+        .where(and(inArray(consultationMessages.id, ids), isNull(consultationMessages.deliveredAt)))
+        .run();
+      return ids;
+    }, { behavior: 'immediate' });
+  }
+
+  async getHealthRecordFile(recordId: string): Promise<HealthRecordFile | undefined> {
+    const [file] = await db.select().from(healthRecordFiles).where(eq(healthRecordFiles.recordId, recordId));
+    return file ? decryptFields(file, ENCRYPTED_HEALTH_RECORD_FILE_FIELDS) : undefined;
+  }
+
+  async getDoctorSchedule(doctorId: string): Promise<DoctorSchedule> {
+    const workingHours = await db
+      .select()
+      .from(doctorWorkingHours)
+      .where(eq(doctorWorkingHours.doctorId, doctorId))
+      .orderBy(asc(doctorWorkingHours.dayOfWeek), asc(doctorWorkingHours.startTime));
+    const breaks = await db
+      .select()
+      .from(doctorBreaks)
+      .where(eq(doctorBreaks.doctorId, doctorId))
+      .orderBy(asc(doctorBreaks.dayOfWeek), asc(doctorBreaks.startTime));
+    const leaves = await db
+      .select()
+      .from(doctorLeaves)
+      .where(eq(doctorLeaves.doctorId, doctorId))
+      .orderBy(asc(doctorLeaves.date));
+
+    return { workingHours, breaks, leaves };
+  }
+
+  async replaceDoctorSchedule(
+    doctorId: string,
+    workingHours: Omit<InsertDoctorWorkingHours, 'doctorId'>[],
+    breaks: Omit<InsertDoctorBreak, 'doctorId'>[]
+  ): Promise<DoctorSchedule> {
+    db.transaction((tx) => {
+      tx.delete(doctorWorkingHours).where(eq(doctorWorkingHours.doctorId, doctorId)).run();
+      tx.delete(doctorBreaks).where(eq(doctorBreaks.doctorId, doctorId)).run();
+      if (workingHours.length > 0) {
+        tx.insert(doctorWorkingHours).values(workingHours.map(hours => ({ ...hours, doctorId }))).run();
+      }
+      if (breaks.length > 0) {
+        tx.insert(doctorBreaks).values(breaks.map(breakWindow => ({ ...breakWindow, doctorId }))).run();
+      }
+    });
+
+    return this.getDoctorSchedule(doctorId);
+  }
+
+  async createDoctorLeave(insertLeave: InsertDoctorLeave): Promise<DoctorLeave> {
+    const [leave] = await db.insert(doctorLeaves).values(insertLeave).returning();
+    return leave;
+  }
+
+  async deleteDoctorLeave(doctorId: string, leaveId: string): Promise<void> {
+    await db.delete(doctorLeaves).where(and(eq(doctorLeaves.id, leaveId), eq(doctorLeaves.doctorId, doctorId)));
+  }
+
+  async getDoctorSlots(doctorId: string, date: string): Promise<AvailableSlot[]> {
+    const schedule = await this.getDoctorSchedule(doctorId);
+    const dayStart = clinicTimeToDate(date, 0);
+    const dayEnd = clinicTimeToDate(date, 24 * 60);
+
+    const booked = await db
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.doctorId, doctorId),
+        ne(appointments.status, 'cancelled'),
+        gte(appointments.scheduledAt, new Date(dayStart.getTime() - MAX_APPOINTMENT_MINUTES * 60 * 1000)),
+        lt(appointments.scheduledAt, dayEnd)
+      ));
+
+    return computeAvailableSlots(date, {
+      workingHours: schedule.workingHours,
+      breaks: schedule.breaks,
+      leaveDates: schedule.leaves.map(leave => leave.date),
+      booked,
+    });
+  }
+
   async createHealthRecord(insertRecord: InsertHealthRecord): Promise<HealthRecord> {
-    const [record] = await db.insert(healthRecords).values(insertRecord).returning();
-    return record;
+    const [record] = await db
+      .insert(healthRecords)
+      .values(encryptFields(insertRecord, ENCRYPTED_HEALTH_RECORD_FIELDS, 'restricted'))
+      .returning();
+    return decryptFields(record, ENCRYPTED_HEALTH_RECORD_FIELDS);
   }
 
   async getPatientHealthRecords(patientId: string): Promise<HealthRecord[]> {
-    return await db
+    const records = await db
       .select()
       .from(healthRecords)
       .where(eq(healthRecords.patientId, patientId))
       .orderBy(desc(healthRecords.createdAt));
+    return records.map(record => decryptFields(record, ENCRYPTED_HEALTH_RECORD_FIELDS));
   }
 
   async getHealthRecord(id: string): Promise<HealthRecord | undefined> {
     const [record] = await db.select().from(healthRecords).where(eq(healthRecords.id, id));
-    return record || undefined;
+    return record ? decryptFields(record, ENCRYPTED_HEALTH_RECORD_FIELDS) : undefined;
   }
 
-  async searchMedicines(query: string): Promise<Medicine[]> {
-    return await db
-      .select()
-      .from(medicines)
-      .where(eq(medicines.name, query))
-      .orderBy(asc(medicines.name));
+  async getPatientChart(patientId: string): Promise<PatientChart | undefined> {
+    const patient = await this.getUser(patientId);
+    if (!patient) return undefined;
+
+    const [records, checks, patientPrescriptions, visits] = await Promise.all([
+      this.getPatientHealthRecords(patientId),
+      this.getPatientSymptomChecks(patientId),
+      this.getPatientPrescriptions(patientId),
+      this.getPatientAppointments(patientId),
+    ]);
+
+    return {
+      patient: toPatientSummary(patient),
+      healthRecords: records,
+      symptomChecks: checks,
+      prescriptions: patientPrescriptions.map(({ doctor, pharmacy, ...prescription }) => ({
+        ...withParsedMedicines(prescription),
+        doctorName: doctor.user.name,
+      })),
+      visits: visits.map(({ doctor, consultationNote, ...visit }) => ({
+        ...visit,
+        doctor: { id: doctor.id, specialty: doctor.specialty, name: doctor.user.name },
+        consultationNote: parseConsultationNote(consultationNote),
+      })),
+    };
+  }
+
+  async hasCareRelationship(doctorId: string, patientId: string): Promise<boolean> {
+    // A doctor cares for a patient once they share an appointment, a health record or a prescription.
+    // Calling a walk-in is not enough: until the doctor files something, they see only the triage
+    const [appointment] = await db
+      .select({ id: appointments.id })
+      .from(appointments)
+      .where(and(eq(appointments.doctorId, doctorId), eq(appointments.patientId, patientId), notFromWalkIn))
+      .limit(1);
+    if (appointment) return true;
+
+    const [record] = await db
+      .select({ id: healthRecords.id })
+      .from(healthRecords)
+      .where(and(eq(healthRecords.doctorId, doctorId), eq(healthRecords.patientId, patientId)))
+      .limit(1);
+    if (record) return true;
+
+    const [prescription] = await db
+      .select({ id: prescriptions.id })
+      .from(prescriptions)
+      .where(and(eq(prescriptions.doctorId, doctorId), eq(prescriptions.patientId, patientId)))
+      .limit(1);
+    return !!prescription;
+  }
+
+  async searchMedicines(query: string, limit = 20): Promise<Medicine[]> {
+    const ids = searchMedicineIds(query, limit);
+    if (ids.length === 0) return [];
+
+    // Keep the relevance order from the search index
+    const rows = await db.select().from(medicines).where(inArray(medicines.id, ids));
+    const byId = new Map(rows.map(medicine => [medicine.id, medicine]));
+    return ids.flatMap(id => byId.get(id) ?? []);
   }
 
   async getMedicine(id: string): Promise<Medicine | undefined> {
@@ -219,9 +924,62 @@ export class DatabaseStorage implements IStorage {
 
   async createMedicine(insertMedicine: InsertMedicine): Promise<Medicine> {
     const [medicine] = await db.insert(medicines).values(insertMedicine).returning();
+    indexMedicine(medicine);
     return medicine;
   }
 
+  async getMedicineAlternatives(medicineId: string, origin: Coordinates | null, radiusKm: number): Promise<MedicineAlternative[] | undefined> {
+    const medicine = await this.getMedicine(medicineId);
+    if (!medicine) return undefined;
+    if (!medicine.genericName) return [];
+
+    // A substitute has the same generic and strength; the index only narrows the candidates
+    const generic = normalizeSearchText(medicine.genericName);
+    const dosage = normalizeSearchText(medicine.dosage);
+    const candidateIds = searchGenericIds(medicine.genericName, 200).filter(id => id !== medicine.id);
+    if (candidateIds.length === 0) return [];
+
+    const candidates = (await db.select().from(medicines).where(inArray(medicines.id, candidateIds)))
+      .filter(candidate => normalizeSearchText(candidate.genericName ?? '') === generic
+        && normalizeSearchText(candidate.dosage) === dosage);
+    if (candidates.length === 0) return [];
+
+    const stockRows = await db
+      .select()
+      .from(medicineStock)
+      .innerJoin(pharmacies, eq(medicineStock.pharmacyId, pharmacies.id))
+      .where(and(
+        inArray(medicineStock.medicineId, candidates.map(candidate => candidate.id)),
+        eq(pharmacies.isActive, true),
+        gt(medicineStock.quantity, 0),
+        ne(medicineStock.status, 'out_of_stock')
+      ));
+
+    // Pharmacies without coordinates are kept when filtering by distance, listed last
+    const byDistance = (a: number | null, b: number | null) => (a ?? Infinity) - (b ?? Infinity);
+    const alternatives = candidates.map((candidate): MedicineAlternative => {
+      const availability = stockRows
+        .filter(({ medicine_stock: stock }) => stock.medicineId === candidate.id)
+        .map(({ medicine_stock: stock, pharmacies: pharmacy }) => {
+          const location = parseCoordinates(pharmacy.latitude, pharmacy.longitude);
+          return {
+            pharmacy,
+            quantity: stock.quantity,
+            status: stock.status,
+            distanceKm: origin && location ? Math.round(distanceKm(origin, location) * 10) / 10 : null,
+          };
+        })
+        .filter(entry => entry.distanceKm === null || entry.distanceKm <= radiusKm)
+        .sort((a, b) => byDistance(a.distanceKm, b.distanceKm));
+      return { medicine: candidate, availability };
+    });
+
+    return alternatives
+      .filter(alternative => alternative.availability.length > 0)
+      .sort((a, b) =>
+        byDistance(a.availability[0].distanceKm, b.availability[0].distanceKm) || a.medicine.price - b.medicine.price);
+  }
+
   async getPharmacies(): Promise<Pharmacy[]> {
     return await db.select().from(pharmacies).where(eq(pharmacies.isActive, true));
   }
@@ -247,32 +1005,742 @@ export class DatabaseStorage implements IStorage {
     return result.map(({ medicine_stock: stock, pharmacies: pharmacy }) => ({ ...stock, pharmacy }));
   }
 
-  async updateMedicineStock(pharmacyId: string, medicineId: string, updates: Partial<InsertMedicineStock>): Promise<MedicineStock>;
-  async updateMedicineStock(id: string, quantity: number): Promise<MedicineStock>;
-  async updateMedicineStock(pharmacyIdOrId: string, medicineIdOrQuantity: string | number, updates?: Partial<InsertMedicineStock>): Promise<MedicineStock> {
+  async getNearbyMedicineStock(medicineId: string, origin: Coordinates, radiusKm: number): Promise<NearbyStock[]> {
+    const rows = await db
+      .select()
+      .from(medicineStock)
+      .innerJoin(pharmacies, eq(medicineStock.pharmacyId, pharmacies.id))
+      .where(and(
+        eq(medicineStock.medicineId, medicineId),
+        eq(pharmacies.isActive, true),
+        gt(medicineStock.quantity, 0),
+        ne(medicineStock.status, 'out_of_stock')
+      ));
+
+    const now = new Date();
+    return rows
+      .map(({ medicine_stock: stock, pharmacies: pharmacy }): NearbyStock => {
+        const location = parseCoordinates(pharmacy.latitude, pharmacy.longitude);
+        const straightLineKm = location ? distanceKm(origin, location) : null;
+        return {
+          stockId: stock.id,
+          pharmacy,
+          quantity: stock.quantity,
+          status: stock.status,
+          stockUpdatedAt: stock.updatedAt ? stock.updatedAt.toISOString() : null,
+          distanceKm: straightLineKm === null ? null : Math.round(straightLineKm * 10) / 10,
+          travel: straightLineKm === null ? null : estimateTravel(straightLineKm),
+          openStatus: getOpenStatus(parseOpeningHours(pharmacy.openingHours), now),
+        };
+      })
+      // Pharmacies without coordinates cannot be placed, so they are listed after the rest
+      .filter(entry => entry.distanceKm === null || entry.distanceKm <= radiusKm)
+      .sort((a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity));
+  }
+
+  async getMedicineStockById(id: string): Promise<MedicineStock | undefined> {
+    const [stock] = await db.select().from(medicineStock).where(eq(medicineStock.id, id));
+    return stock || undefined;
+  }
+
+  async updateMedicineStock(pharmacyId: string, medicineId: string, updates: Partial<Omit<InsertMedicineStock, 'quantity'>>): Promise<MedicineStock>;
+  async updateMedicineStock(id: string, quantity: number, adjustment?: StockAdjustment): Promise<MedicineStock>;
+  async updateMedicineStock(pharmacyIdOrId: string, medicineIdOrQuantity: string | number, updatesOrAdjustment: Partial<Omit<InsertMedicineStock, 'quantity'>> | StockAdjustment = {}): Promise<MedicineStock> {
     if (typeof medicineIdOrQuantity === 'number') {
-      // Second overload: updateMedicineStock(id: string, quantity: number)
-      const status = medicineIdOrQuantity === 0 ? 'out_of_stock' : medicineIdOrQuantity < 10 ? 'limited' : 'available';
-      const [stock] = await db
-        .update(medicineStock)
-        .set({ quantity: medicineIdOrQuantity, status: status as any, updatedAt: new Date() })
-        .where(eq(medicineStock.id, pharmacyIdOrId))
-        .returning();
-      return stock;
+      // Second overload: updateMedicineStock(id: string, quantity: number, adjustment?)
+      // A counted quantity; the difference from the ledger is recorded as an adjustment
+      const { userId, reason } = updatesOrAdjustment as StockAdjustment;
+      return db.transaction((tx) => {
+        const current = tx.select().from(medicineStock).where(eq(medicineStock.id, pharmacyIdOrId)).get();
+        if (!current) {
+          throw new InventoryError("Stock entry not found");
+        }
+        const now = new Date();
+        const difference = medicineIdOrQuantity - ledgerBalance(tx, current, now);
+        if (difference === 0) {
+          return current;
+        }
+        return recordStockMovement(tx, current.id, {
+          quantity: difference,
+          type: 'adjustment',
+          reason: reason || 'Manual stock count',
+          userId,
+        }, now).stock;
+      }, { behavior: 'immediate' });
     } else {
       // First overload: updateMedicineStock(pharmacyId: string, medicineId: string, updates: Partial<InsertMedicineStock>)
+      // Quantity is excluded: it only changes through the ledger
       const [stock] = await db
         .update(medicineStock)
-        .set({ ...updates, updatedAt: new Date() })
+        .set({ ...updatesOrAdjustment, version: sql`${medicineStock.version} + 1`, updatedAt: new Date() })
         .where(and(eq(medicineStock.pharmacyId, pharmacyIdOrId), eq(medicineStock.medicineId, medicineIdOrQuantity)))
         .returning();
       return stock;
     }
   }
 
-  async createMedicineStock(insertStock: InsertMedicineStock): Promise<MedicineStock> {
-    const [stock] = await db.insert(medicineStock).values(insertStock).returning();
-    return stock;
+  /**
+   * Two-way sync for offline pharmacy dashboards. A local change is applied only
+   * if the row is still at the version the client edited; otherwise it comes
+   * back as a conflict carrying both copies. Rows changed since `since` are
+   * returned as updates (seconds-resolution timestamps, so the window is inclusive).
+   */
+  async syncMedicineStock(pharmacyId: string | undefined, since: Date, changes: StockLocalChange[], userId: string): Promise<StockSyncResponse> {
+    const serverTime = new Date();
+    const inScope = (stock: MedicineStock) => !pharmacyId || stock.pharmacyId === pharmacyId;
+
+    const { acceptedIds, conflicting } = db.transaction((tx) => {
+      const acceptedIds: string[] = [];
+      const conflicting: { change: StockLocalChange; stockId: string }[] = [];
+
+      for (const change of changes) {
+        const current = tx.select().from(medicineStock).where(eq(medicineStock.id, change.id)).get();
+        if (!current || !inScope(current)) {
+          throw new StockSyncScopeError(change.id);
+        }
+        if (current.version !== change.version) {
+          conflicting.push({ change, stockId: current.id });
+          continue;
+        }
+        const difference = change.currentStock - ledgerBalance(tx, current, serverTime);
+        if (difference === 0) {
+          // Nothing moved, but the client still needs a newer version to settle its edit
+          tx.update(medicineStock)
+            .set({ version: current.version + 1, updatedAt: serverTime })
+            .where(eq(medicineStock.id, current.id))
+            .run();
+        } else {
+          recordStockMovement(tx, current.id, {
+            quantity: difference,
+            type: 'adjustment',
+            reason: change.reason || 'Offline stock update',
+            userId,
+          }, serverTime);
+        }
+        acceptedIds.push(current.id);
+      }
+
+      return { acceptedIds, conflicting };
+    }, { behavior: 'immediate' });
+
+    const changedSince = gte(medicineStock.updatedAt, new Date(Math.floor(since.getTime() / 1000) * 1000));
+    const touchedIds = [...acceptedIds, ...conflicting.map(c => c.stockId)];
+    const rows = await db
+      .select()
+      .from(medicineStock)
+      .innerJoin(medicines, eq(medicineStock.medicineId, medicines.id))
+      .innerJoin(pharmacies, eq(medicineStock.pharmacyId, pharmacies.id))
+      .where(and(
+        pharmacyId ? eq(medicineStock.pharmacyId, pharmacyId) : undefined,
+        touchedIds.length > 0 ? or(changedSince, inArray(medicineStock.id, touchedIds)) : changedSince
+      ));
+
+    const items = new Map(rows.map(({ medicine_stock: stock, medicines: medicine, pharmacies: pharmacy }) => [
+      stock.id,
+      toStockSyncItem(stock, medicine, pharmacy),
+    ]));
+    const conflictIds = new Set(conflicting.map(c => c.stockId));
+
+    return {
+      updates: Array.from(items.values()).filter(item => !conflictIds.has(item.id)),
+      conflicts: conflicting.map(({ change, stockId }) => {
+        const serverVersion = items.get(stockId)!;
+        return {
+          id: stockId,
+          medicineId: serverVersion.medicineId,
+          medicineName: serverVersion.medicineName,
+          localVersion: change,
+          serverVersion,
+        };
+      }),
+      serverTime: serverTime.toISOString(),
+    };
+  }
+
+  // The opening quantity is the new row's first ledger entry
+  async createMedicineStock(insertStock: InsertMedicineStock, userId?: string): Promise<MedicineStock> {
+    return db.transaction((tx) => {
+      const now = new Date();
+      const stock = tx.insert(medicineStock)
+        .values({ ...insertStock, quantity: 0, status: stockStatusFor(0), updatedAt: now })
+        .returning()
+        .get();
+      if (insertStock.quantity <= 0) {
+        return stock;
+      }
+      return recordStockMovement(tx, stock.id, {
+        quantity: insertStock.quantity,
+        type: 'adjustment',
+        reason: 'Opening stock',
+        userId,
+      }, now).stock;
+    }, { behavior: 'immediate' });
+  }
+
+  /**
+   * Book a delivery in as a new batch. The pharmacy's stock row for the
+   * medicine is created on its first delivery.
+   */
+  async receiveStockBatch(pharmacyId: string, input: ReceiveBatchRequest, receivedBy: string): Promise<{ batch: StockBatch; stock: MedicineStock }> {
+    return db.transaction((tx) => {
+      const medicine = tx.select({ id: medicines.id }).from(medicines).where(eq(medicines.id, input.medicineId)).get();
+      if (!medicine) {
+        throw new InventoryError("Medicine not found");
+      }
+
+      return bookBatchIn(tx, pharmacyId, input, receivedBy, new Date());
+    }, { behavior: 'immediate' });
+  }
+
+  // Batches with stock left, soonest expiry first
+  async getStockBatches(pharmacyId: string, medicineId?: string): Promise<StockBatch[]> {
+    return await db
+      .select()
+      .from(stockBatches)
+      .where(and(
+        eq(stockBatches.pharmacyId, pharmacyId),
+        medicineId ? eq(stockBatches.medicineId, medicineId) : undefined,
+        isNull(stockBatches.writtenOffAt),
+        gt(stockBatches.quantity, 0)
+      ))
+      .orderBy(asc(stockBatches.expiryDate), asc(stockBatches.receivedAt));
+  }
+
+  async getExpiryAlerts(pharmacyId: string, withinDays: number): Promise<ExpiryAlert[]> {
+    const today = todayInClinic();
+    const horizon = todayInClinic(new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000));
+    const rows = await db
+      .select({ batch: stockBatches, medicineName: medicines.name })
+      .from(stockBatches)
+      .innerJoin(medicines, eq(stockBatches.medicineId, medicines.id))
+      .where(and(
+        eq(stockBatches.pharmacyId, pharmacyId),
+        isNull(stockBatches.writtenOffAt),
+        gt(stockBatches.quantity, 0),
+        lte(stockBatches.expiryDate, horizon)
+      ))
+      .orderBy(asc(stockBatches.expiryDate));
+
+    return rows.map(({ batch, medicineName }) => ({
+      batch,
+      medicineName,
+      state: isExpired(batch.expiryDate, today) ? 'expired' : 'near_expiry',
+      daysLeft: daysUntil(batch.expiryDate, today),
+    }));
+  }
+
+  /**
+   * Take expired or damaged units out of stock, with a matching stock movement.
+   * Expired batches are always written off whole, and only once they have expired.
+   */
+  async writeOffStockBatch(pharmacyId: string, batchId: string, writeOff: WriteOffBatchRequest, userId: string): Promise<{ batch: StockBatch; stock: MedicineStock; movement: StockMovement }> {
+    return db.transaction((tx) => {
+      const current = tx.select().from(stockBatches).where(eq(stockBatches.id, batchId)).get();
+      if (!current || current.pharmacyId !== pharmacyId) {
+        throw new InventoryError("Batch not found");
+      }
+      if (current.writtenOffAt || current.quantity === 0) {
+        throw new InventoryError("This batch has no stock left to write off");
+      }
+      if (writeOff.type === 'expired' && !isExpired(current.expiryDate)) {
+        throw new InventoryError(`Batch ${current.batchNumber} does not expire until ${current.expiryDate}`);
+      }
+
+      const quantity = writeOff.type === 'expired' ? current.quantity : (writeOff.quantity ?? current.quantity);
+      if (quantity > current.quantity) {
+        throw new InventoryError(`Only ${current.quantity} units are left in batch ${current.batchNumber}`);
+      }
+
+      const now = new Date();
+      const remaining = current.quantity - quantity;
+      const batch = tx.update(stockBatches)
+        .set({ quantity: remaining, ...(remaining === 0 ? { writtenOffAt: now } : {}) })
+        .where(eq(stockBatches.id, current.id))
+        .returning()
+        .get();
+
+      // Manual counts may already have taken the stock total below what the batches hold
+      const stockRow = tx.select().from(medicineStock).where(eq(medicineStock.id, current.stockId)).get()!;
+      const { stock, movement } = recordStockMovement(tx, stockRow.id, {
+        quantity: -Math.min(quantity, ledgerBalance(tx, stockRow, now)),
+        type: writeOff.type,
+        reason: writeOff.reason || (writeOff.type === 'expired'
+          ? `Batch ${current.batchNumber} expired on ${current.expiryDate}`
+          : `Damaged stock from batch ${current.batchNumber}`),
+        userId,
+        batchId: current.id,
+      }, now);
+
+      return { batch, stock, movement };
+    }, { behavior: 'immediate' });
+  }
+
+  async getStockMovements(pharmacyId: string, query: StockMovementsQuery): Promise<StockMovementPage> {
+    const conditions: SQL[] = [eq(stockMovements.pharmacyId, pharmacyId)];
+    if (query.medicineId) conditions.push(eq(stockMovements.medicineId, query.medicineId));
+    if (query.type) conditions.push(eq(stockMovements.type, query.type));
+    if (query.from) conditions.push(gte(stockMovements.createdAt, clinicTimeToDate(query.from, 0)));
+    if (query.to) conditions.push(lt(stockMovements.createdAt, clinicTimeToDate(query.to, 24 * 60)));
+    const where = and(...conditions);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(stockMovements)
+      .where(where);
+
+    const rows = await stockMovementEntries(where)
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { movements: rows.map(toStockMovementEntry), total: Number(total), page: query.page, pageSize: query.pageSize };
+  }
+
+  /**
+   * Opening balance, movements by kind and closing balance for each medicine
+   * over whole clinic days `from`..`to`, plus the manual adjustments in that
+   * period of at least `threshold` units.
+   */
+  async getStockReconciliation(pharmacyId: string, from: string, to: string, threshold: number): Promise<StockReconciliationReport> {
+    const start = clinicTimeToDate(from, 0);
+    const end = clinicTimeToDate(to, 24 * 60);
+
+    const [stocks, totals, adjustments] = await Promise.all([
+      db
+        .select({ stock: medicineStock, medicineName: medicines.name })
+        .from(medicineStock)
+        .innerJoin(medicines, eq(medicineStock.medicineId, medicines.id))
+        .where(eq(medicineStock.pharmacyId, pharmacyId))
+        .orderBy(asc(medicines.name)),
+      db
+        .select({
+          stockId: stockMovements.stockId,
+          type: stockMovements.type,
+          before: sql<number>`coalesce(sum(case when ${stockMovements.createdAt} < ${start.getTime()} then ${stockMovements.quantity} else 0 end), 0)`.mapWith(Number),
+          during: sql<number>`coalesce(sum(case when ${stockMovements.createdAt} >= ${start.getTime()} and ${stockMovements.createdAt} < ${end.getTime()} then ${stockMovements.quantity} else 0 end), 0)`.mapWith(Number),
+          overall: sql<number>`coalesce(sum(${stockMovements.quantity}), 0)`.mapWith(Number),
+        })
+        .from(stockMovements)
+        .where(eq(stockMovements.pharmacyId, pharmacyId))
+        .groupBy(stockMovements.stockId, stockMovements.type),
+      stockMovementEntries(and(
+        eq(stockMovements.pharmacyId, pharmacyId),
+        eq(stockMovements.type, 'adjustment'),
+        gte(stockMovements.createdAt, start),
+        lt(stockMovements.createdAt, end),
+        sql`abs(${stockMovements.quantity}) >= ${threshold}`,
+        or(isNull(stockMovements.reason), ne(stockMovements.reason, OPENING_BALANCE_REASON))
+      )),
+    ]);
+
+    const lines = stocks.map(({ stock, medicineName }) => {
+      const rows = totals.filter(row => row.stockId === stock.id);
+      const during = (...types: StockMovementType[]) => rows
+        .filter(row => types.includes(row.type))
+        .reduce((sum, row) => sum + row.during, 0);
+      const openingBalance = rows.reduce((sum, row) => sum + row.before, 0);
+      const ledgerTotal = rows.reduce((sum, row) => sum + row.overall, 0);
+
+      return {
+        stockId: stock.id,
+        medicineId: stock.medicineId,
+        medicineName,
+        openingBalance,
+        received: during('in'),
+        dispensed: -during('dispensed'),
+        issued: -during('out'),
+        writtenOff: -during('expired', 'damaged'),
+        adjusted: during('adjustment'),
+        closingBalance: openingBalance + rows.reduce((sum, row) => sum + row.during, 0),
+        discrepancy: stock.quantity - ledgerTotal,
+      };
+    });
+
+    return {
+      pharmacyId,
+      from,
+      to,
+      threshold,
+      lines,
+      flaggedAdjustments: adjustments.map(toStockMovementEntry),
+    };
+  }
+
+  async getSuppliers(includeInactive = false): Promise<Supplier[]> {
+    return await db
+      .select()
+      .from(suppliers)
+      .where(includeInactive ? undefined : eq(suppliers.isActive, true))
+      .orderBy(asc(suppliers.name));
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await db.insert(suppliers).values(insertSupplier).returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const [supplier] = await db.update(suppliers).set(updates).where(eq(suppliers.id, id)).returning();
+    return supplier || undefined;
+  }
+
+  async getReorderRules(pharmacyId: string): Promise<(ReorderRule & { medicineName: string })[]> {
+    const rows = await db
+      .select({ rule: reorderRules, medicineName: medicines.name })
+      .from(reorderRules)
+      .innerJoin(medicines, eq(reorderRules.medicineId, medicines.id))
+      .where(eq(reorderRules.pharmacyId, pharmacyId))
+      .orderBy(asc(medicines.name));
+    return rows.map(({ rule, medicineName }) => ({ ...rule, medicineName }));
+  }
+
+  /**
+   * Create or replace the pharmacy's rule for a medicine. The stock row's
+   * minimum follows the reorder point, so dashboards raise their reorder
+   * alerts at the same level the rule drafts orders.
+   */
+  async saveReorderRule(pharmacyId: string, medicineId: string, input: ReorderRuleRequest): Promise<ReorderRule> {
+    return db.transaction((tx) => {
+      if (!tx.select({ id: medicines.id }).from(medicines).where(eq(medicines.id, medicineId)).get()) {
+        throw new InventoryError("Medicine not found");
+      }
+      if (input.preferredSupplierId && !tx.select({ id: suppliers.id }).from(suppliers).where(eq(suppliers.id, input.preferredSupplierId)).get()) {
+        throw new InventoryError("Supplier not found");
+      }
+
+      const now = new Date();
+      const values = {
+        reorderPoint: input.reorderPoint,
+        reorderQuantity: input.reorderQuantity,
+        preferredSupplierId: input.preferredSupplierId ?? null,
+        updatedAt: now,
+      };
+      const existing = tx
+        .select()
+        .from(reorderRules)
+        .where(and(eq(reorderRules.pharmacyId, pharmacyId), eq(reorderRules.medicineId, medicineId)))
+        .get();
+      const rule = existing
+        ? tx.update(reorderRules).set(values).where(eq(reorderRules.id, existing.id)).returning().get()
+        : tx.insert(reorderRules).values({ pharmacyId, medicineId, ...values }).returning().get();
+
+      const stock = tx
+        .select()
+        .from(medicineStock)
+        .where(and(eq(medicineStock.pharmacyId, pharmacyId), eq(medicineStock.medicineId, medicineId)))
+        .get();
+      if (stock && stock.minimumStock !== input.reorderPoint) {
+        tx.update(medicineStock)
+          .set({ minimumStock: input.reorderPoint, version: stock.version + 1, updatedAt: now })
+          .where(eq(medicineStock.id, stock.id))
+          .run();
+      }
+
+      return rule;
+    }, { behavior: 'immediate' });
+  }
+
+  async deleteReorderRule(pharmacyId: string, medicineId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(reorderRules)
+      .where(and(eq(reorderRules.pharmacyId, pharmacyId), eq(reorderRules.medicineId, medicineId)))
+      .returning({ id: reorderRules.id });
+    return deleted.length > 0;
+  }
+
+  async getPurchaseOrders(pharmacyId: string, status?: PurchaseOrderStatus): Promise<PurchaseOrderDetail[]> {
+    const orders = await db
+      .select()
+      .from(purchaseOrders)
+      .where(and(eq(purchaseOrders.pharmacyId, pharmacyId), status ? eq(purchaseOrders.status, status) : undefined))
+      .orderBy(desc(purchaseOrders.createdAt));
+    return loadPurchaseOrderDetails(orders);
+  }
+
+  async getPurchaseOrder(pharmacyId: string, id: string): Promise<PurchaseOrderDetail | undefined> {
+    const [order] = await db
+      .select()
+      .from(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.pharmacyId, pharmacyId)));
+    if (!order) return undefined;
+    const [detail] = await loadPurchaseOrderDetails([order]);
+    return detail;
+  }
+
+  async createPurchaseOrder(pharmacyId: string, input: CreatePurchaseOrderRequest, createdBy: string): Promise<PurchaseOrderDetail> {
+    const order = db.transaction((tx) => {
+      checkPurchaseOrderReferences(tx, input.supplierId, input.lines.map(line => line.medicineId));
+
+      const now = new Date();
+      const order = tx.insert(purchaseOrders).values({
+        pharmacyId,
+        supplierId: input.supplierId,
+        status: 'draft',
+        notes: input.notes,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      }).returning().get();
+      tx.insert(purchaseOrderLines).values(input.lines.map(line => ({
+        purchaseOrderId: order.id,
+        medicineId: line.medicineId,
+        quantityOrdered: line.quantity,
+        unitCost: line.unitCost,
+      }))).run();
+      return order;
+    }, { behavior: 'immediate' });
+
+    const [detail] = await loadPurchaseOrderDetails([order]);
+    return detail;
+  }
+
+  async updatePurchaseOrder(pharmacyId: string, id: string, updates: UpdatePurchaseOrderRequest): Promise<PurchaseOrderDetail> {
+    const order = db.transaction((tx) => {
+      const current = findPurchaseOrder(tx, pharmacyId, id);
+      if (current.status !== 'draft') {
+        throw new InventoryError(`Only draft orders can be edited; this one is ${current.status.replace('_', ' ')}`);
+      }
+      checkPurchaseOrderReferences(tx, updates.supplierId, updates.lines?.map(line => line.medicineId) ?? []);
+
+      if (updates.lines) {
+        tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id)).run();
+        tx.insert(purchaseOrderLines).values(updates.lines.map(line => ({
+          purchaseOrderId: id,
+          medicineId: line.medicineId,
+          quantityOrdered: line.quantity,
+          unitCost: line.unitCost,
+        }))).run();
+      }
+
+      return tx.update(purchaseOrders)
+        .set({
+          ...(updates.supplierId !== undefined ? { supplierId: updates.supplierId } : {}),
+          ...(updates.notes !== undefined ? { notes: updates.notes } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning()
+        .get();
+    }, { behavior: 'immediate' });
+
+    const [detail] = await loadPurchaseOrderDetails([order]);
+    return detail;
+  }
+
+  /**
+   * Draft orders for reorder alerts. Only medicines at or below their reorder
+   * point and not already on an open order are added, grouped by preferred
+   * supplier onto the pharmacy's existing auto-drafted order where there is one.
+   * Nothing is sent: a pharmacist reviews and approves each draft.
+   */
+  async draftReorderPurchaseOrders(pharmacyId: string, medicineIds: string[]): Promise<PurchaseOrderDetail[]> {
+    const orderIds = db.transaction((tx) => {
+      const stocks = new Map(tx
+        .select()
+        .from(medicineStock)
+        .where(and(eq(medicineStock.pharmacyId, pharmacyId), inArray(medicineStock.medicineId, medicineIds)))
+        .all()
+        .map(stock => [stock.medicineId, stock]));
+      const rules = new Map(tx
+        .select()
+        .from(reorderRules)
+        .where(and(eq(reorderRules.pharmacyId, pharmacyId), inArray(reorderRules.medicineId, medicineIds)))
+        .all()
+        .map(rule => [rule.medicineId, rule]));
+      const onOrder = new Set(tx
+        .select({ medicineId: purchaseOrderLines.medicineId })
+        .from(purchaseOrderLines)
+        .innerJoin(purchaseOrders, eq(purchaseOrderLines.purchaseOrderId, purchaseOrders.id))
+        .where(and(
+          eq(purchaseOrders.pharmacyId, pharmacyId),
+          inArray(purchaseOrders.status, [...OPEN_PURCHASE_ORDER_STATUSES]),
+          inArray(purchaseOrderLines.medicineId, medicineIds),
+          lt(purchaseOrderLines.quantityReceived, purchaseOrderLines.quantityOrdered)
+        ))
+        .all()
+        .map(line => line.medicineId));
+
+      const linesBySupplier = new Map<string | null, { medicineId: string; quantityOrdered: number }[]>();
+      for (const medicineId of new Set(medicineIds)) {
+        const stock = stocks.get(medicineId);
+        const rule = rules.get(medicineId);
+        if (!stock || onOrder.has(medicineId) || stock.quantity > (rule?.reorderPoint ?? stock.minimumStock)) {
+          continue;
+        }
+        const supplierId = rule?.preferredSupplierId ?? null;
+        linesBySupplier.set(supplierId, [
+          ...(linesBySupplier.get(supplierId) ?? []),
+          { medicineId, quantityOrdered: suggestedOrderQuantity(stock, rule) },
+        ]);
+      }
+
+      const now = new Date();
+      const orderIds: string[] = [];
+      for (const [supplierId, lines] of Array.from(linesBySupplier)) {
+        const existing = tx
+          .select()
+          .from(purchaseOrders)
+          .where(and(
+            eq(purchaseOrders.pharmacyId, pharmacyId),
+            eq(purchaseOrders.status, 'draft'),
+            eq(purchaseOrders.autoDrafted, true),
+            supplierId ? eq(purchaseOrders.supplierId, supplierId) : isNull(purchaseOrders.supplierId)
+          ))
+          .get();
+        const order = existing
+          ? tx.update(purchaseOrders).set({ updatedAt: now }).where(eq(purchaseOrders.id, existing.id)).returning().get()
+          : tx.insert(purchaseOrders).values({
+            pharmacyId,
+            supplierId,
+            status: 'draft',
+            notes: 'Drafted from reorder alerts',
+            autoDrafted: true,
+            createdAt: now,
+            updatedAt: now,
+          }).returning().get();
+        tx.insert(purchaseOrderLines).values(lines.map(line => ({ purchaseOrderId: order.id, ...line }))).run();
+        orderIds.push(order.id);
+      }
+      return orderIds;
+    }, { behavior: 'immediate' });
+
+    if (orderIds.length === 0) return [];
+    const orders = await db.select().from(purchaseOrders).where(inArray(purchaseOrders.id, orderIds));
+    return loadPurchaseOrderDetails(orders);
+  }
+
+  // Approve a draft; from here on it may be received against but no longer edited
+  async sendPurchaseOrder(pharmacyId: string, id: string, approvedBy: string): Promise<PurchaseOrderDetail> {
+    const order = db.transaction((tx) => {
+      const current = findPurchaseOrder(tx, pharmacyId, id);
+      if (!canTransitionPurchaseOrder(current.status, 'sent')) {
+        throw new InventoryError(`A ${current.status.replace('_', ' ')} order cannot be sent`);
+      }
+      const supplier = current.supplierId
+        ? tx.select().from(suppliers).where(eq(suppliers.id, current.supplierId)).get()
+        : undefined;
+      if (!supplier) {
+        throw new InventoryError("Choose a supplier before sending the order");
+      }
+      if (!supplier.isActive) {
+        throw new InventoryError(`${supplier.name} is no longer an active supplier`);
+      }
+      if (!tx.select({ id: purchaseOrderLines.id }).from(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id)).get()) {
+        throw new InventoryError("The order has no lines");
+      }
+
+      const now = new Date();
+      return tx.update(purchaseOrders)
+        .set({ status: 'sent', approvedBy, sentAt: now, updatedAt: now })
+        .where(eq(purchaseOrders.id, id))
+        .returning()
+        .get();
+    }, { behavior: 'immediate' });
+
+    const [detail] = await loadPurchaseOrderDetails([order]);
+    return detail;
+  }
+
+  async cancelPurchaseOrder(pharmacyId: string, id: string, reason?: string): Promise<PurchaseOrderDetail> {
+    const order = db.transaction((tx) => {
+      const current = findPurchaseOrder(tx, pharmacyId, id);
+      if (!canTransitionPurchaseOrder(current.status, 'cancelled')) {
+        throw new InventoryError(`A ${current.status.replace('_', ' ')} order cannot be cancelled`);
+      }
+
+      const now = new Date();
+      return tx.update(purchaseOrders)
+        .set({
+          status: 'cancelled',
+          notes: reason ? [current.notes, `Cancelled: ${reason}`].filter(Boolean).join('\n') : current.notes,
+          closedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning()
+        .get();
+    }, { behavior: 'immediate' });
+
+    const [detail] = await loadPurchaseOrderDetails([order]);
+    return detail;
+  }
+
+  /**
+   * Record a goods-received note. Each delivered line is booked in as a batch
+   * (stock and an 'in' movement), and the order becomes partially received or
+   * received. Delivering more than is outstanding on a line is refused.
+   */
+  async receivePurchaseOrderGoods(pharmacyId: string, id: string, input: GoodsReceiptRequest, receivedBy: string): Promise<{ receipt: GoodsReceipt; batches: StockBatch[]; order: PurchaseOrderDetail }> {
+    const { receipt, batches, order } = db.transaction((tx) => {
+      const current = findPurchaseOrder(tx, pharmacyId, id);
+      if (!canTransitionPurchaseOrder(current.status, 'received')) {
+        throw new InventoryError(`Goods cannot be received against a ${current.status.replace('_', ' ')} order`);
+      }
+      const supplier = current.supplierId
+        ? tx.select().from(suppliers).where(eq(suppliers.id, current.supplierId)).get()
+        : undefined;
+      const lines = new Map(tx
+        .select()
+        .from(purchaseOrderLines)
+        .where(eq(purchaseOrderLines.purchaseOrderId, id))
+        .all()
+        .map(line => [line.id, line]));
+
+      const now = new Date();
+      const receipt = tx.insert(goodsReceipts).values({
+        purchaseOrderId: id,
+        pharmacyId,
+        invoiceNumber: input.invoiceNumber,
+        notes: input.notes,
+        receivedBy,
+        receivedAt: now,
+      }).returning().get();
+
+      // A line may arrive as several batches, so outstanding quantities are tracked as we go
+      const batches: StockBatch[] = [];
+      for (const delivered of input.lines) {
+        const line = lines.get(delivered.lineId);
+        if (!line) {
+          throw new InventoryError(`Line ${delivered.lineId} is not on this order`);
+        }
+        const outstanding = line.quantityOrdered - line.quantityReceived;
+        if (delivered.quantity > outstanding) {
+          throw new InventoryError(`Batch ${delivered.batchNumber}: only ${outstanding} units are still outstanding on its order line`);
+        }
+
+        const { batch } = bookBatchIn(tx, pharmacyId, {
+          medicineId: line.medicineId,
+          batchNumber: delivered.batchNumber,
+          expiryDate: delivered.expiryDate,
+          quantity: delivered.quantity,
+          unitCost: delivered.unitCost ?? line.unitCost ?? undefined,
+          supplier: supplier?.name,
+        }, receivedBy, now, {
+          goodsReceiptId: receipt.id,
+          purchaseOrderLineId: line.id,
+          reason: `Goods received against purchase order (batch ${delivered.batchNumber})`,
+        });
+        batches.push(batch);
+        lines.set(line.id, { ...line, quantityReceived: line.quantityReceived + delivered.quantity });
+      }
+
+      for (const line of Array.from(lines.values())) {
+        tx.update(purchaseOrderLines)
+          .set({ quantityReceived: line.quantityReceived })
+          .where(eq(purchaseOrderLines.id, line.id))
+          .run();
+      }
+      const status = statusAfterReceipt(Array.from(lines.values()));
+      const order = tx.update(purchaseOrders)
+        .set({ status, updatedAt: now, ...(status === 'received' ? { closedAt: now } : {}) })
+        .where(eq(purchaseOrders.id, id))
+        .returning()
+        .get();
+
+      return { receipt, batches, order };
+    }, { behavior: 'immediate' });
+
+    const [detail] = await loadPurchaseOrderDetails([order]);
+    return { receipt, batches, order: detail };
   }
 
   async createSymptomCheck(insertCheck: InsertSymptomCheck): Promise<SymptomCheck> {
@@ -288,6 +1756,330 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(symptomChecks.createdAt));
   }
 
+  /**
+   * Put a patient in the walk-in waiting room. Priority is taken from their
+   * latest recent symptom check, and the walk-in goes to the online doctor
+   * with the fewest patients waiting; with nobody online it stays unassigned
+   * until a doctor calls it.
+   */
+  async registerWalkIn(registration: Pick<InsertWalkIn, 'patientId' | 'registeredBy' | 'source' | 'location' | 'reason'>): Promise<WalkIn> {
+    const onlineDoctorIds = (await this.getOnlineDoctors()).map(doctor => doctor.id);
+    const triagedSince = new Date(Date.now() - TRIAGE_SYMPTOM_CHECK_MAX_AGE_HOURS * 60 * 60 * 1000);
+
+    return db.transaction((tx) => {
+      const waiting = tx
+        .select({ id: walkIns.id })
+        .from(walkIns)
+        .where(and(eq(walkIns.patientId, registration.patientId), eq(walkIns.status, 'waiting')))
+        .get();
+      if (waiting) {
+        throw new WalkInError("This patient is already in the waiting room");
+      }
+
+      const check = tx
+        .select()
+        .from(symptomChecks)
+        .where(and(eq(symptomChecks.patientId, registration.patientId), gte(symptomChecks.createdAt, triagedSince)))
+        .orderBy(desc(symptomChecks.createdAt))
+        .limit(1)
+        .get();
+
+      return tx.insert(walkIns).values({
+        ...registration,
+        symptomCheckId: check?.id ?? null,
+        severity: check?.severity ?? null,
+        priority: priorityForSeverity(check?.severity),
+        doctorId: leastBusyDoctor(tx, onlineDoctorIds),
+      }).returning().get();
+    }, { behavior: 'immediate' });
+  }
+
+  async getWalkIn(id: string): Promise<WalkInEntry | undefined> {
+    const [entry] = await loadWalkInEntries(eq(walkIns.id, id));
+    return entry;
+  }
+
+  // The patient's walk-in still waiting, or called for a consultation that has not finished
+  async getActiveWalkIn(patientId: string): Promise<WalkInEntry | undefined> {
+    const [latest] = await db
+      .select({ walkIn: walkIns, appointmentStatus: appointments.status })
+      .from(walkIns)
+      .leftJoin(appointments, eq(walkIns.appointmentId, appointments.id))
+      .where(and(eq(walkIns.patientId, patientId), ne(walkIns.status, 'cancelled')))
+      .orderBy(desc(walkIns.createdAt))
+      .limit(1);
+    if (!latest || latest.appointmentStatus === 'completed' || latest.appointmentStatus === 'cancelled') {
+      return undefined;
+    }
+    return this.getWalkIn(latest.walkIn.id);
+  }
+
+  // Everyone waiting in calling order, or only those `doctorId` may call
+  async getWalkInQueue(doctorId?: string): Promise<WalkInEntry[]> {
+    const waiting = eq(walkIns.status, 'waiting');
+    return loadWalkInEntries(doctorId
+      ? and(waiting, or(eq(walkIns.doctorId, doctorId), isNull(walkIns.doctorId)))
+      : waiting);
+  }
+
+  async hasRegisteredWalkIn(registeredBy: string, patientId: string): Promise<boolean> {
+    const [walkIn] = await db
+      .select({ id: walkIns.id })
+      .from(walkIns)
+      .where(and(eq(walkIns.registeredBy, registeredBy), eq(walkIns.patientId, patientId)))
+      .limit(1);
+    return !!walkIn;
+  }
+
+  // Whether the patient has been seen or queued before, or has filed any records
+  async hasCareHistory(patientId: string): Promise<boolean> {
+    const [appointment] = await db.select({ id: appointments.id }).from(appointments).where(eq(appointments.patientId, patientId)).limit(1);
+    if (appointment) return true;
+    const [walkIn] = await db.select({ id: walkIns.id }).from(walkIns).where(eq(walkIns.patientId, patientId)).limit(1);
+    if (walkIn) return true;
+    const [record] = await db.select({ id: healthRecords.id }).from(healthRecords).where(eq(healthRecords.patientId, patientId)).limit(1);
+    return !!record;
+  }
+
+  /**
+   * Call the next patient waiting for this doctor, or the next unassigned
+   * one: books a video appointment starting now so the visit continues in
+   * the doctor's workspace. Returns undefined when nobody is waiting.
+   */
+  async callNextWalkIn(doctorId: string): Promise<{ walkIn: WalkInEntry; appointment: Appointment } | undefined> {
+    const called = db.transaction((tx) => {
+      const next = tx
+        .select()
+        .from(walkIns)
+        .where(and(
+          eq(walkIns.status, 'waiting'),
+          or(eq(walkIns.doctorId, doctorId), isNull(walkIns.doctorId))
+        ))
+        .orderBy(...WALK_IN_CALLING_ORDER)
+        .limit(1)
+        .get();
+      if (!next) return undefined;
+
+      const now = new Date();
+      const appointment = tx.insert(appointments).values({
+        patientId: next.patientId,
+        doctorId,
+        scheduledAt: now,
+        type: 'video',
+        reason: next.reason,
+        priority: next.priority,
+        notes: next.location ? `Walk-in at ${next.location}` : 'Walk-in',
+      }).returning().get();
+
+      tx.update(walkIns)
+        .set({ status: 'called', doctorId, appointmentId: appointment.id, calledAt: now })
+        .where(eq(walkIns.id, next.id))
+        .run();
+      return { walkInId: next.id, appointment };
+    }, { behavior: 'immediate' });
+
+    if (!called) return undefined;
+    const walkIn = await this.getWalkIn(called.walkInId);
+    return { walkIn: walkIn!, appointment: called.appointment };
+  }
+
+  async cancelWalkIn(id: string): Promise<WalkIn> {
+    return db.transaction((tx) => {
+      const current = tx.select().from(walkIns).where(eq(walkIns.id, id)).get();
+      if (!current) {
+        throw new WalkInError("Walk-in not found");
+      }
+      if (current.status !== 'waiting') {
+        throw new WalkInError(current.status === 'called'
+          ? "The doctor has already called this patient"
+          : "This walk-in was already cancelled");
+      }
+      return tx.update(walkIns)
+        .set({ status: 'cancelled', cancelledAt: new Date() })
+        .where(eq(walkIns.id, id))
+        .returning()
+        .get();
+    }, { behavior: 'immediate' });
+  }
+
+  // A doctor going offline hands their waiting patients to the other online doctors
+  async releaseDoctorWalkIns(doctorId: string): Promise<WalkIn[]> {
+    const onlineDoctorIds = (await this.getOnlineDoctors())
+      .map(doctor => doctor.id)
+      .filter(id => id !== doctorId);
+
+    return db.transaction((tx) => {
+      const assigned = tx
+        .select()
+        .from(walkIns)
+        .where(and(eq(walkIns.doctorId, doctorId), eq(walkIns.status, 'waiting')))
+        .orderBy(...WALK_IN_CALLING_ORDER)
+        .all();
+
+      // One at a time, so each reassignment sees the load left by the previous one
+      return assigned.map(walkIn => tx.update(walkIns)
+        .set({ doctorId: leastBusyDoctor(tx, onlineDoctorIds) })
+        .where(eq(walkIns.id, walkIn.id))
+        .returning()
+        .get());
+    }, { behavior: 'immediate' });
+  }
+
+  /**
+   * Replay a batch of offline changes in one IMMEDIATE transaction. Each
+   * operation runs in its own savepoint, so a rejected or conflicting change
+   * does not undo the rest of the batch. Applied keys are remembered, and a
+   * replayed key is answered as a duplicate instead of being applied again.
+   * Callers validate `data` and check access before handing operations over.
+   */
+  async applySyncOperations(userId: string, operations: SyncOperation[]): Promise<SyncOperationResult[]> {
+    return db.transaction((tx) => operations.map((operation): SyncOperationResult => {
+      const base = { idempotencyKey: operation.idempotencyKey, entity: operation.entity };
+
+      const seen = tx.select().from(syncOperations).where(eq(syncOperations.idempotencyKey, operation.idempotencyKey)).get();
+      if (seen) {
+        if (seen.userId !== userId || seen.entity !== operation.entity) {
+          return { ...base, status: 'rejected', error: 'Idempotency key was already used for another change' };
+        }
+        const record = seen.entityId ? readSyncRecord(tx, operation.entity, seen.entityId) : null;
+        return { ...base, status: 'duplicate', record };
+      }
+
+      try {
+        return tx.transaction((savepoint) => {
+          const result = applySyncOperation(savepoint, operation, userId);
+          if (result.status === 'applied') {
+            savepoint.insert(syncOperations).values({
+              idempotencyKey: operation.idempotencyKey,
+              userId,
+              entity: operation.entity,
+              operation: operation.type,
+              entityId: result.record?.id ?? operation.entityId ?? null,
+            }).run();
+          }
+          return result;
+        });
+      } catch (error) {
+        return { ...base, status: 'rejected', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }), { behavior: 'immediate' });
+  }
+
+  /**
+   * One page of the change feed: tombstones first, then each entity in turn,
+   * each read in (changedAt, id) order after the caller's position. Rows
+   * stamped in the current second are held back until it has passed, since
+   * timestamps are stored to the second and a later write could otherwise
+   * land behind the returned position.
+   */
+  async getChanges(scope: ChangeFeedScope, position: ChangeFeedPosition, limit: number): Promise<ChangePage> {
+    const horizon = Math.floor(Date.now() / 1000) * 1000;
+    const next: ChangeFeedPosition = { ...position };
+    const changes: Change[] = [];
+
+    for (const stream of CHANGE_STREAMS) {
+      const room = limit - changes.length;
+      if (room <= 0) {
+        return { changes, position: next, hasMore: true };
+      }
+
+      const rows = await this.readChangeStream(stream, scope, position[stream], horizon, room + 1);
+      for (const row of rows.slice(0, room)) {
+        changes.push(row.change);
+        next[stream] = [row.changedAt, row.key];
+      }
+      if (rows.length > room) {
+        return { changes, position: next, hasMore: true };
+      }
+    }
+
+    return { changes, position: next, hasMore: false };
+  }
+
+  private async readChangeStream(
+    stream: ChangeStream,
+    scope: ChangeFeedScope,
+    after: [number, string] | undefined,
+    horizon: number,
+    limit: number
+  ): Promise<ChangeRow[]> {
+    const inScope = changeScopeCondition(stream, scope);
+    if (inScope === null) return [];
+
+    switch (stream) {
+      case 'tombstones': {
+        const changedAt = sql<number>`${tombstones.deletedAt}`.mapWith(Number);
+        const rows = await db
+          .select({ row: tombstones, changedAt })
+          .from(tombstones)
+          .where(and(inScope, changeWindow(changedAt, tombstones.id, after, horizon)))
+          .orderBy(asc(changedAt), asc(tombstones.id))
+          .limit(limit);
+        return rows.map(({ row, changedAt }) => ({
+          changedAt,
+          key: row.id,
+          change: { entity: row.entity as ChangeFeedEntity, op: 'delete', id: row.entityId },
+        }));
+      }
+      case 'appointments': {
+        const changedAt = secondsToMs(appointments.updatedAt, appointments.createdAt);
+        const rows = await db
+          .select({ row: appointments, changedAt })
+          .from(appointments)
+          .where(and(inScope, changeWindow(changedAt, appointments.id, after, horizon)))
+          .orderBy(asc(changedAt), asc(appointments.id))
+          .limit(limit);
+        return rows.map(({ row, changedAt }) => upsertRow('appointments', row.id, changedAt, row));
+      }
+      case 'healthRecords': {
+        const changedAt = secondsToMs(healthRecords.updatedAt, healthRecords.createdAt);
+        const rows = await db
+          .select({ row: healthRecords, changedAt })
+          .from(healthRecords)
+          .where(and(inScope, changeWindow(changedAt, healthRecords.id, after, horizon)))
+          .orderBy(asc(changedAt), asc(healthRecords.id))
+          .limit(limit);
+        return rows.map(({ row, changedAt }) =>
+          upsertRow('healthRecords', row.id, changedAt, decryptFields(row, ENCRYPTED_HEALTH_RECORD_FIELDS)));
+      }
+      case 'prescriptions': {
+        const changedAt = secondsToMs(prescriptions.updatedAt, prescriptions.createdAt);
+        const rows = await db
+          .select({ row: prescriptions, changedAt })
+          .from(prescriptions)
+          .where(and(inScope, changeWindow(changedAt, prescriptions.id, after, horizon)))
+          .orderBy(asc(changedAt), asc(prescriptions.id))
+          .limit(limit);
+        return rows.map(({ row, changedAt }) =>
+          upsertRow('prescriptions', row.id, changedAt, withParsedMedicines(decryptFields(row, ENCRYPTED_PRESCRIPTION_FIELDS))));
+      }
+      case 'symptomChecks': {
+        // Never edited, so creation is the only change
+        const changedAt = secondsToMs(symptomChecks.createdAt);
+        const rows = await db
+          .select({ row: symptomChecks, changedAt })
+          .from(symptomChecks)
+          .where(and(inScope, changeWindow(changedAt, symptomChecks.id, after, horizon)))
+          .orderBy(asc(changedAt), asc(symptomChecks.id))
+          .limit(limit);
+        return rows.map(({ row, changedAt }) => upsertRow('symptomChecks', row.id, changedAt, row));
+      }
+      case 'stock': {
+        const changedAt = secondsToMs(medicineStock.updatedAt);
+        const rows = await db
+          .select({ stock: medicineStock, medicine: medicines, pharmacy: pharmacies, changedAt })
+          .from(medicineStock)
+          .innerJoin(medicines, eq(medicineStock.medicineId, medicines.id))
+          .innerJoin(pharmacies, eq(medicineStock.pharmacyId, pharmacies.id))
+          .where(and(inScope, changeWindow(changedAt, medicineStock.id, after, horizon)))
+          .orderBy(asc(changedAt), asc(medicineStock.id))
+          .limit(limit);
+        return rows.map(({ stock, medicine, pharmacy, changedAt }) =>
+          upsertRow('stock', stock.id, changedAt, toStockSyncItem(stock, medicine, pharmacy)));
+      }
+    }
+  }
+
   // Pharmacist operations
   async createPharmacist(insertPharmacist: InsertPharmacist): Promise<Pharmacist> {
     const [pharmacist] = await db.insert(pharmacists).values(insertPharmacist).returning();
@@ -309,62 +2101,309 @@ export class DatabaseStorage implements IStorage {
     return pharmacist;
   }
 
+  // Prescription signing keys
+  async getSigningKey(id: string): Promise<DoctorSigningKey | undefined> {
+    const [key] = await db.select().from(doctorSigningKeys).where(eq(doctorSigningKeys.id, id));
+    return key ? decryptFields(key, ENCRYPTED_SIGNING_KEY_FIELDS) : undefined;
+  }
+
+  async getActiveSigningKey(doctorId: string): Promise<DoctorSigningKey | undefined> {
+    const [key] = await db
+      .select()
+      .from(doctorSigningKeys)
+      .where(and(eq(doctorSigningKeys.doctorId, doctorId), isNull(doctorSigningKeys.revokedAt)))
+      .orderBy(desc(doctorSigningKeys.createdAt))
+      .limit(1);
+    return key ? decryptFields(key, ENCRYPTED_SIGNING_KEY_FIELDS) : undefined;
+  }
+
+  // Issuing a key retires the doctor's previous one; prescriptions it signed stay verifiable
+  async createSigningKey(insertKey: InsertDoctorSigningKey): Promise<DoctorSigningKey> {
+    const values = encryptFields(insertKey, ENCRYPTED_SIGNING_KEY_FIELDS, 'restricted');
+    const key = db.transaction((tx) => {
+      tx.update(doctorSigningKeys)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(doctorSigningKeys.doctorId, insertKey.doctorId), isNull(doctorSigningKeys.revokedAt)))
+        .run();
+      return tx.insert(doctorSigningKeys).values(values).returning().get();
+    }, { behavior: 'immediate' });
+    return decryptFields(key, ENCRYPTED_SIGNING_KEY_FIELDS);
+  }
+
   // Prescription operations
-  async createPrescription(insertPrescription: InsertPrescription): Promise<Prescription> {
-    const [prescription] = await db.insert(prescriptions).values(insertPrescription).returning();
-    return prescription;
+  async createPrescription(insertPrescription: InsertPrescription & { id?: string }): Promise<Prescription> {
+    const [prescription] = await db
+      .insert(prescriptions)
+      .values(encryptFields(insertPrescription, ENCRYPTED_PRESCRIPTION_FIELDS, 'restricted'))
+      .returning();
+    return decryptFields(prescription, ENCRYPTED_PRESCRIPTION_FIELDS);
   }
 
   async getPrescription(id: string): Promise<Prescription | undefined> {
     const [prescription] = await db.select().from(prescriptions).where(eq(prescriptions.id, id));
-    return prescription || undefined;
+    return prescription ? decryptFields(prescription, ENCRYPTED_PRESCRIPTION_FIELDS) : undefined;
   }
 
   async getPharmacistPrescriptions(pharmacistId: string): Promise<(Prescription & { patient: User; doctor: Doctor & { user: User } })[]> {
+    const pharmacist = await this.getPharmacist(pharmacistId);
+    if (!pharmacist) return [];
+
+    // Anything assigned to this pharmacist, plus everything patients routed to their pharmacy
+    const routedHere = pharmacist.pharmacyId
+      ? or(eq(prescriptions.pharmacistId, pharmacistId), eq(prescriptions.pharmacyId, pharmacist.pharmacyId))
+      : eq(prescriptions.pharmacistId, pharmacistId);
+
+    const doctorUsers = alias(users, "doctor_users");
     const result = await db
       .select()
       .from(prescriptions)
       .innerJoin(users, eq(prescriptions.patientId, users.id))
       .innerJoin(doctors, eq(prescriptions.doctorId, doctors.id))
-      .innerJoin(users, eq(doctors.userId, users.id))
-      .where(eq(prescriptions.pharmacistId, pharmacistId))
+      .innerJoin(doctorUsers, eq(doctors.userId, doctorUsers.id))
+      .where(routedHere)
       .orderBy(desc(prescriptions.createdAt));
     
-    return result.map(({ prescriptions: prescription, users: patient, doctors: doctor }) => ({
-      ...prescription,
-      patient,
-      doctor: { ...doctor, user: patient } // Note: This needs proper user mapping
+    return result.map(({ prescriptions: prescription, users: patient, doctors: doctor, doctor_users: doctorUser }) => ({
+      ...decryptFields(prescription, ENCRYPTED_PRESCRIPTION_FIELDS),
+      patient: decryptUser(patient),
+      doctor: { ...doctor, user: decryptUser(doctorUser) }
     }));
   }
 
-  async updatePrescriptionStatus(id: string, status: string): Promise<Prescription> {
-    const [prescription] = await db
-      .update(prescriptions)
-      .set({ status: status as any, updatedAt: new Date() })
-      .where(eq(prescriptions.id, id))
-      .returning();
-    return prescription;
+  async getPatientPrescriptions(patientId: string): Promise<(Prescription & { doctor: Doctor & { user: User }; pharmacy: Pharmacy | null })[]> {
+    const result = await db
+      .select()
+      .from(prescriptions)
+      .innerJoin(doctors, eq(prescriptions.doctorId, doctors.id))
+      .innerJoin(users, eq(doctors.userId, users.id))
+      .leftJoin(pharmacies, eq(prescriptions.pharmacyId, pharmacies.id))
+      .where(eq(prescriptions.patientId, patientId))
+      .orderBy(desc(prescriptions.createdAt));
+
+    return result.map(({ prescriptions: prescription, doctors: doctor, users: doctorUser, pharmacies: pharmacy }) => ({
+      ...decryptFields(prescription, ENCRYPTED_PRESCRIPTION_FIELDS),
+      doctor: { ...doctor, user: decryptUser(doctorUser) },
+      pharmacy
+    }));
+  }
+
+  async routePrescriptionToPharmacy(id: string, pharmacyId: string): Promise<Prescription> {
+    const prescription = db.transaction((tx) => {
+      const current = tx.select().from(prescriptions).where(eq(prescriptions.id, id)).get();
+      if (current?.pharmacyId && current.pharmacyId !== pharmacyId) {
+        // The pharmacy it is moving away from should drop its offline copy
+        tx.insert(tombstones).values({ entity: 'prescriptions', entityId: id, pharmacyId: current.pharmacyId }).run();
+      }
+      return tx
+        .update(prescriptions)
+        .set({ pharmacyId, pharmacistId: null, updatedAt: new Date() })
+        .where(eq(prescriptions.id, id))
+        .returning()
+        .get();
+    });
+    return prescription ? decryptFields(prescription, ENCRYPTED_PRESCRIPTION_FIELDS) : prescription;
+  }
+
+  /**
+   * Apply a status change and record it in the history. Dispensing draws the
+   * handed-over quantities from the pharmacy's stock in the same IMMEDIATE
+   * transaction, so stock and prescription can never disagree; anything not
+   * covered leaves the prescription partially_dispensed. Batches are drawn
+   * first-expiry-first-out and expired batches are never handed over.
+   */
+  async transitionPrescription(id: string, transition: PrescriptionTransition): Promise<PrescriptionTransitionResult> {
+    const result = db.transaction((tx) => {
+      const current = tx.select().from(prescriptions).where(eq(prescriptions.id, id)).get();
+      if (!current) {
+        throw new PrescriptionTransitionError("Prescription not found");
+      }
+      if (!canTransitionPrescription(current.status, transition.status)) {
+        throw new PrescriptionTransitionError(`Cannot change a ${current.status} prescription to ${transition.status}`);
+      }
+
+      const now = new Date();
+      const today = todayInClinic(now);
+      let toStatus: PrescriptionStatus = transition.status;
+      const handedOver: {
+        medicineId: string;
+        stock: MedicineStock;
+        // null batch: stock counted before batch tracking began
+        allocations: { batchId: string | null; quantity: number }[];
+      }[] = [];
+      const outstanding: { medicineId: string; quantity: number }[] = [];
+
+      if (transition.status === 'dispensed') {
+        const pharmacyId = transition.pharmacyId;
+        if (!pharmacyId) {
+          throw new PrescriptionTransitionError("Prescription has not been routed to a pharmacy");
+        }
+        if (current.validUntil && new Date(current.validUntil) <= now) {
+          throw new PrescriptionTransitionError("Prescription has expired");
+        }
+
+        const alreadyDispensed = new Map<string, number>();
+        const previousItems = tx.select().from(prescriptionDispenseItems).where(eq(prescriptionDispenseItems.prescriptionId, id)).all();
+        for (const item of previousItems) {
+          alreadyDispensed.set(item.medicineId, (alreadyDispensed.get(item.medicineId) ?? 0) + item.quantity);
+        }
+        const medicines = parsePrescriptionMedicines(decryptFields(current, ENCRYPTED_PRESCRIPTION_FIELDS).medicines);
+        const nameOf = (medicineId: string) => medicines.find(m => m.medicineId === medicineId)?.medicineName ?? medicineId;
+
+        const requested = new Map<string, number>();
+        for (const item of transition.items ?? []) {
+          const line = medicines.find(m => m.medicineId === item.medicineId);
+          if (!line) {
+            throw new PrescriptionTransitionError(`Medicine ${item.medicineId} is not on this prescription`);
+          }
+          if (item.quantity > line.quantity - (alreadyDispensed.get(line.medicineId) ?? 0)) {
+            throw new PrescriptionTransitionError(`More ${line.medicineName} requested than is still owed`);
+          }
+          requested.set(item.medicineId, item.quantity);
+        }
+
+        for (const line of medicines) {
+          const owed = Math.max(0, line.quantity - (alreadyDispensed.get(line.medicineId) ?? 0));
+          if (owed === 0) continue;
+
+          const stock = tx
+            .select()
+            .from(medicineStock)
+            .where(and(eq(medicineStock.pharmacyId, pharmacyId), eq(medicineStock.medicineId, line.medicineId)))
+            .get();
+          const batches = stock
+            ? tx.select().from(stockBatches)
+              .where(and(eq(stockBatches.stockId, stock.id), isNull(stockBatches.writtenOffAt), gt(stockBatches.quantity, 0)))
+              .all()
+            : [];
+          // Expired batches still count in stock until written off, but cannot be handed over
+          const untracked = Math.max(0, (stock?.quantity ?? 0) - batches.reduce((sum, batch) => sum + batch.quantity, 0));
+          const usable = batches
+            .filter(batch => !isExpired(batch.expiryDate, today))
+            .reduce((sum, batch) => sum + batch.quantity, 0);
+          const available = untracked + usable;
+
+          let quantity = Math.min(owed, available);
+          if (transition.items) {
+            quantity = requested.get(line.medicineId) ?? 0;
+            if (quantity > available) {
+              throw new PrescriptionTransitionError(`Only ${available} of ${nameOf(line.medicineId)} in stock`);
+            }
+          }
+
+          if (stock && quantity > 0) {
+            // Untracked stock predates every batch, so it goes first; then first-expiry-first-out
+            const fromUntracked = Math.min(untracked, quantity);
+            handedOver.push({
+              medicineId: line.medicineId,
+              stock,
+              allocations: [
+                ...(fromUntracked > 0 ? [{ batchId: null, quantity: fromUntracked }] : []),
+                ...allocateFefo(batches, quantity - fromUntracked, today)
+                  .map(allocation => ({ batchId: allocation.batch.id, quantity: allocation.quantity })),
+              ],
+            });
+          }
+          if (owed > quantity) {
+            outstanding.push({ medicineId: line.medicineId, quantity: owed - quantity });
+          }
+        }
+
+        if (handedOver.length === 0) {
+          throw new PrescriptionTransitionError("None of the outstanding medicines are in stock");
+        }
+        toStatus = outstanding.length > 0 ? 'partially_dispensed' : 'dispensed';
+
+        for (const item of handedOver) {
+          for (const allocation of item.allocations) {
+            if (allocation.batchId) {
+              tx.update(stockBatches)
+                .set({ quantity: sql`${stockBatches.quantity} - ${allocation.quantity}` })
+                .where(eq(stockBatches.id, allocation.batchId))
+                .run();
+            }
+            recordStockMovement(tx, item.stock.id, {
+              quantity: -allocation.quantity,
+              type: 'dispensed',
+              userId: transition.changedBy,
+              batchId: allocation.batchId,
+              prescriptionId: id,
+            }, now);
+          }
+        }
+      }
+
+      const history = tx.insert(prescriptionStatusHistory).values({
+        prescriptionId: id,
+        fromStatus: current.status,
+        toStatus,
+        changedBy: transition.changedBy,
+        note: transition.note,
+        createdAt: now,
+      }).returning().get();
+
+      // One item per batch drawn from, so every pack handed over can be traced to its lot
+      const dispensed = handedOver.length === 0 ? [] : tx.insert(prescriptionDispenseItems).values(
+        handedOver.flatMap(item => item.allocations.map(allocation => ({
+          prescriptionId: id,
+          historyId: history.id,
+          pharmacyId: transition.pharmacyId!,
+          medicineId: item.medicineId,
+          batchId: allocation.batchId,
+          quantity: allocation.quantity,
+          dispensedBy: transition.changedBy,
+          createdAt: now,
+        })))
+      ).returning().all();
+
+      const prescription = tx
+        .update(prescriptions)
+        .set({
+          status: toStatus,
+          ...(transition.pharmacistId ? { pharmacistId: transition.pharmacistId } : {}),
+          updatedAt: now,
+        })
+        .where(eq(prescriptions.id, id))
+        .returning()
+        .get();
+
+      return { prescription, history, dispensed, outstanding };
+    }, { behavior: 'immediate' });
+
+    return { ...result, prescription: decryptFields(result.prescription, ENCRYPTED_PRESCRIPTION_FIELDS) };
+  }
+
+  async getPrescriptionHistory(id: string): Promise<PrescriptionHistoryEntry[]> {
+    const [entries, items] = await Promise.all([
+      db
+        .select({ history: prescriptionStatusHistory, changedByName: users.name })
+        .from(prescriptionStatusHistory)
+        .innerJoin(users, eq(prescriptionStatusHistory.changedBy, users.id))
+        .where(eq(prescriptionStatusHistory.prescriptionId, id))
+        .orderBy(asc(prescriptionStatusHistory.createdAt)),
+      db.select().from(prescriptionDispenseItems).where(eq(prescriptionDispenseItems.prescriptionId, id)),
+    ]);
+
+    return entries.map(({ history, changedByName }) => ({
+      ...history,
+      changedByName,
+      dispenseItems: items.filter(item => item.historyId === history.id),
+    }));
   }
 
   // Medicine stock operations (updated)
   async updateMedicineStockById(id: string, quantity: number): Promise<MedicineStock> {
-    const status = quantity === 0 ? 'out_of_stock' : quantity < 10 ? 'limited' : 'available';
-    const [stock] = await db
-      .update(medicineStock)
-      .set({ quantity, status: status as any, updatedAt: new Date() })
-      .where(eq(medicineStock.id, id))
-      .returning();
-    return stock;
+    return this.updateMedicineStock(id, quantity);
   }
 
   // Admin operations
   async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(desc(users.createdAt));
+    const rows = await db.select().from(users).orderBy(desc(users.createdAt));
+    return rows.map(decryptUser);
   }
 
   async updateUserStatus(id: string, isActive: boolean): Promise<User> {
     const [user] = await db.update(users).set({ isActive: isActive as any }).where(eq(users.id, id)).returning();
-    return user;
+    return user ? decryptUser(user) : user;
   }
 
   async getAnalytics(): Promise<Analytics[]> {
@@ -376,14 +2415,773 @@ export class DatabaseStorage implements IStorage {
     return analyticsRecord;
   }
 
-  async getAuditLogs(): Promise<AuditLog[]> {
-    return await db.select().from(auditLogs).orderBy(desc(auditLogs.createdAt));
+  // Audit log operations (hash-chained, append-only)
+  async appendAuditEvents(events: AuditLog[]): Promise<void> {
+    if (events.length === 0) return;
+
+    // IMMEDIATE locks the table so two flushes can never fork the chain
+    db.transaction((tx) => {
+      const [last] = tx
+        .select({ sequence: auditLogs.sequence, hash: auditLogs.hash })
+        .from(auditLogs)
+        .orderBy(desc(auditLogs.sequence))
+        .limit(1)
+        .all();
+
+      let sequence: number = last?.sequence ?? 0;
+      let previousHash: string = last?.hash ?? SECURITY_CONFIG.AUDIT_GENESIS_HASH;
+
+      for (const event of events) {
+        const hash = computeAuditHash(previousHash, event);
+        const createdAt = new Date(event.timestamp);
+        sequence += 1;
+
+        tx.insert(auditLogs).values({
+          id: event.id,
+          sequence,
+          userId: event.userId,
+          sessionId: event.sessionId,
+          action: event.action,
+          resource: event.resource,
+          resourceId: event.resourceId,
+          details: event.details === undefined ? null : JSON.stringify(event.details),
+          ipAddress: event.ipAddress,
+          userAgent: event.userAgent,
+          location: event.location === undefined ? null : JSON.stringify(event.location),
+          riskLevel: event.riskLevel,
+          complianceFlags: JSON.stringify(event.complianceFlags),
+          dataClassification: event.dataClassification,
+          retentionDays: event.retentionPeriod,
+          retainUntil: new Date(createdAt.getTime() + event.retentionPeriod * 24 * 60 * 60 * 1000),
+          previousHash,
+          hash,
+          createdAt,
+        }).run();
+
+        previousHash = hash;
+      }
+    }, { behavior: 'immediate' });
+  }
+
+  async queryAuditEvents(filters: AuditLogFilters, page: number, pageSize: number): Promise<AuditLogPage> {
+    const conditions: SQL[] = [];
+    if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+    if (filters.resource) conditions.push(eq(auditLogs.resource, filters.resource));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.riskLevel) conditions.push(eq(auditLogs.riskLevel, filters.riskLevel));
+    if (filters.startDate) conditions.push(gte(auditLogs.createdAt, new Date(filters.startDate)));
+    if (filters.endDate) conditions.push(lte(auditLogs.createdAt, new Date(filters.endDate)));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)` })
+      .from(auditLogs)
+      .where(where);
+
+    const rows = await db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.sequence))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return { logs: rows.map(toStoredAuditLog), total: Number(total), page, pageSize };
+  }
+
+  async verifyAuditChain(): Promise<AuditChainVerification> {
+    let previousHash: string = SECURITY_CONFIG.AUDIT_GENESIS_HASH;
+    let expectedSequence = 1;
+    let checked = 0;
+
+    // Walk the chain in sequence order, one batch at a time
+    for (;;) {
+      const rows = await db
+        .select()
+        .from(auditLogs)
+        .where(gt(auditLogs.sequence, expectedSequence - 1))
+        .orderBy(asc(auditLogs.sequence))
+        .limit(SECURITY_CONFIG.AUDIT_BATCH_SIZE);
+
+      if (rows.length === 0) {
+        return { valid: true, checked };
+      }
+
+      for (const row of rows) {
+        const log = toStoredAuditLog(row);
+        if (
+          log.sequence !== expectedSequence ||
+          log.previousHash !== previousHash ||
+          computeAuditHash(previousHash, log) !== log.hash
+        ) {
+          return { valid: false, checked, firstInvalidSequence: expectedSequence };
+        }
+        previousHash = log.hash;
+        expectedSequence += 1;
+        checked += 1;
+      }
+    }
   }
 
-  async createAuditLog(insertAuditLog: InsertAuditLog): Promise<AuditLog> {
-    const [auditLog] = await db.insert(auditLogs).values(insertAuditLog).returning();
-    return auditLog;
+  /**
+   * Move every protected column onto the active encryption key.
+   * Plaintext left over from before field encryption is encrypted and, for users,
+   * its blind indexes are filled in. Runs in batches so a large table never holds
+   * one long write lock; values already on the active key are left untouched, so
+   * the job can be re-run safely.
+   */
+  async reencryptSensitiveFields(): Promise<ReencryptionReport> {
+    const report: ReencryptionReport = {
+      keyId: encryptionService.activeKeyId,
+      scanned: 0,
+      reencrypted: 0,
+      failed: [],
+    };
+
+    await reencryptTable(users, 'users', ENCRYPTED_USER_FIELDS, 'confidential', report, userRowBlindIndexes);
+    await reencryptTable(healthRecords, 'health_records', ENCRYPTED_HEALTH_RECORD_FIELDS, 'restricted', report);
+    await reencryptTable(prescriptions, 'prescriptions', ENCRYPTED_PRESCRIPTION_FIELDS, 'restricted', report);
+    await reencryptTable(doctorSigningKeys, 'doctor_signing_keys', ENCRYPTED_SIGNING_KEY_FIELDS, 'restricted', report);
+    await reencryptTable(consultationMessages, 'consultation_messages', ENCRYPTED_CONSULTATION_MESSAGE_FIELDS, 'restricted', report);
+    await reencryptTable(healthRecordFiles, 'health_record_files', ENCRYPTED_HEALTH_RECORD_FILE_FIELDS, 'restricted', report);
+
+    return report;
   }
 }
 
+type EncryptedTable = typeof users | typeof healthRecords | typeof prescriptions | typeof doctorSigningKeys
+  | typeof consultationMessages | typeof healthRecordFiles;
+
+type EncryptedRow = { id: string; [column: string]: unknown };
+
+async function reencryptTable(
+  table: EncryptedTable,
+  tableName: string,
+  fields: readonly string[],
+  classification: string,
+  report: ReencryptionReport,
+  deriveColumns?: (plaintext: EncryptedRow) => Record<string, unknown>
+): Promise<void> {
+  let lastId = '';
+
+  for (;;) {
+    const batch: EncryptedRow[] = await db
+      .select()
+      .from(table)
+      .where(gt(table.id, lastId))
+      .orderBy(asc(table.id))
+      .limit(SECURITY_CONFIG.AUDIT_BATCH_SIZE);
+
+    if (batch.length === 0) {
+      return;
+    }
+
+    db.transaction((tx) => {
+      for (const row of batch) {
+        report.scanned += 1;
+        const updates: Record<string, unknown> = {};
+        const plaintext: EncryptedRow = { ...row };
+        let readable = true;
+
+        for (const field of fields) {
+          const value = row[field];
+          if (typeof value !== 'string') continue;
+          try {
+            if (!encryptionService.isEncrypted(value)) {
+              updates[field] = encryptionService.encrypt(value, classification);
+            } else {
+              const decrypted = encryptionService.decrypt(value);
+              plaintext[field] = decrypted;
+              if (encryptionService.needsReencryption(value)) {
+                updates[field] = encryptionService.encrypt(decrypted, classification);
+              }
+            }
+          } catch (error) {
+            readable = false;
+            report.failed.push({
+              table: tableName,
+              id: row.id,
+              field,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
+
+        if (readable && deriveColumns) {
+          for (const [column, value] of Object.entries(deriveColumns(plaintext))) {
+            if (row[column] !== value) updates[column] = value;
+          }
+        }
+
+        if (Object.keys(updates).length > 0) {
+          tx.update(table).set(updates).where(eq(table.id, row.id)).run();
+          report.reencrypted += 1;
+        }
+      }
+    }, { behavior: 'immediate' });
+
+    lastId = batch[batch.length - 1].id;
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Refuse a booking that overlaps one of the doctor's others; `excludeId` is the booking being moved
+function assertDoctorFree(tx: Transaction, doctorId: string, booking: BookedInterval, excludeId?: string): void {
+  const requested = toBookedInterval(booking);
+  const existing = tx
+    .select()
+    .from(appointments)
+    .where(and(
+      eq(appointments.doctorId, doctorId),
+      ne(appointments.status, 'cancelled'),
+      excludeId ? ne(appointments.id, excludeId) : undefined,
+      gte(appointments.scheduledAt, new Date(requested.start - MAX_APPOINTMENT_MINUTES * 60 * 1000)),
+      lt(appointments.scheduledAt, new Date(requested.end))
+    ))
+    .all();
+
+  if (existing.some((appointment: Appointment) => intervalsOverlap(requested, toBookedInterval(appointment)))) {
+    throw new AppointmentConflictError();
+  }
+}
+
+function toQueueEntry({ consultationNote, ...appointment }: Appointment, patient: User): QueueEntry {
+  return { ...appointment, patient: toPatientSummary(patient), consultationNote: parseConsultationNote(consultationNote) };
+}
+
+// Most urgent first, then in order of arrival
+const WALK_IN_CALLING_ORDER = [desc(walkIns.priority), asc(walkIns.createdAt)];
+
+// Online doctor with the fewest patients waiting; ties go to the earlier (higher rated) doctor
+function leastBusyDoctor(tx: Transaction, onlineDoctorIds: string[]): string | null {
+  if (onlineDoctorIds.length === 0) return null;
+  const load = new Map(tx
+    .select({ doctorId: walkIns.doctorId, waiting: sql<number>`count(*)` })
+    .from(walkIns)
+    .where(and(eq(walkIns.status, 'waiting'), inArray(walkIns.doctorId, onlineDoctorIds)))
+    .groupBy(walkIns.doctorId)
+    .all()
+    .map(row => [row.doctorId, Number(row.waiting)]));
+  return onlineDoctorIds.reduce((best, id) => (load.get(id) ?? 0) < (load.get(best) ?? 0) ? id : best);
+}
+
+/**
+ * Walk-ins matching `where` with the patient, the assigned doctor's name and
+ * each waiting patient's place in line, in calling order
+ */
+// Appointments booked by calling a walk-in
+const notFromWalkIn = notExists(
+  db.select({ id: walkIns.id }).from(walkIns).where(eq(walkIns.appointmentId, appointments.id))
+);
+
+async function loadWalkInEntries(where: SQL | undefined): Promise<WalkInEntry[]> {
+  const doctorUsers = alias(users, 'doctor_users');
+  const rows = await db
+    .select({ walkIn: walkIns, patient: users, doctorName: doctorUsers.name })
+    .from(walkIns)
+    .innerJoin(users, eq(walkIns.patientId, users.id))
+    .leftJoin(doctors, eq(walkIns.doctorId, doctors.id))
+    .leftJoin(doctorUsers, eq(doctors.userId, doctorUsers.id))
+    .where(where)
+    .orderBy(...WALK_IN_CALLING_ORDER);
+  if (rows.length === 0) return [];
+
+  // Positions depend on everyone waiting, not only the rows asked for
+  const waiting = await db
+    .select({ id: walkIns.id, doctorId: walkIns.doctorId })
+    .from(walkIns)
+    .where(eq(walkIns.status, 'waiting'))
+    .orderBy(...WALK_IN_CALLING_ORDER);
+  const positions = computeQueuePositions(waiting);
+
+  return rows.map(({ walkIn, patient, doctorName }) => ({
+    ...walkIn,
+    patient: toPatientSummary(decryptUser(patient)),
+    doctorName,
+    position: positions.get(walkIn.id) ?? null,
+  }));
+}
+
+function findConsultationMessage(tx: Transaction, appointmentId: string, senderId: string, clientMessageId: string): ConsultationMessage | undefined {
+  const message = tx
+    .select()
+    .from(consultationMessages)
+    .where(and(
+      eq(consultationMessages.appointmentId, appointmentId),
+      eq(consultationMessages.senderId, senderId),
+      eq(consultationMessages.clientMessageId, clientMessageId)
+    ))
+    .get();
+  return message ? decryptFields(message, ENCRYPTED_CONSULTATION_MESSAGE_FIELDS) : undefined;
+}
+
+// Store a chat message once per client message id, whichever way it arrived
+function insertConsultationMessage(
+  tx: Transaction,
+  message: Pick<ConsultationMessage, 'appointmentId' | 'senderId' | 'clientMessageId' | 'body'> & { healthRecordId?: string }
+): ConsultationMessage {
+  const existing = message.clientMessageId
+    ? findConsultationMessage(tx, message.appointmentId, message.senderId, message.clientMessageId)
+    : undefined;
+  if (existing) return existing;
+
+  const saved = tx
+    .insert(consultationMessages)
+    .values(encryptFields(message, ENCRYPTED_CONSULTATION_MESSAGE_FIELDS, 'restricted'))
+    .returning()
+    .get();
+  return decryptFields(saved, ENCRYPTED_CONSULTATION_MESSAGE_FIELDS);
+}
+
+// Chat messages matching `where` with their sender and any shared file, oldest first
+async function loadConsultationMessages(where: SQL | undefined): Promise<ConsultationChatMessage[]> {
+  const rows = await db
+    .select({
+      message: consultationMessages,
+      sender: { id: users.id, name: users.name, role: users.role },
+      fileUrl: healthRecords.fileUrl,
+      file: { fileName: healthRecordFiles.fileName, contentType: healthRecordFiles.contentType, size: healthRecordFiles.size },
+    })
+    .from(consultationMessages)
+    .innerJoin(users, eq(consultationMessages.senderId, users.id))
+    .leftJoin(healthRecords, eq(consultationMessages.healthRecordId, healthRecords.id))
+    .leftJoin(healthRecordFiles, eq(healthRecordFiles.recordId, healthRecords.id))
+    .where(where)
+    .orderBy(asc(consultationMessages.createdAt));
+
+  return rows.map(({ message, sender, fileUrl, file }) => ({
+    ...decryptFields(message, ENCRYPTED_CONSULTATION_MESSAGE_FIELDS),
+    sender,
+    attachment: message.healthRecordId && fileUrl && file
+      ? { recordId: message.healthRecordId, fileUrl, fileName: file.fileName, contentType: file.contentType, size: file.size }
+      : null,
+  }));
+}
+
+interface StockChange {
+  quantity: number; // signed: positive adds stock
+  type: StockMovementType;
+  reason?: string;
+  userId?: string | null;
+  batchId?: string | null;
+  prescriptionId?: string;
+}
+
+// Written by the system, not a person, so never flagged for reconciliation
+const OPENING_BALANCE_REASON = 'Opening balance';
+
+function stockMovementEntries(where: SQL | undefined) {
+  return db
+    .select({ movement: stockMovements, medicineName: medicines.name, userName: users.name })
+    .from(stockMovements)
+    .innerJoin(medicines, eq(stockMovements.medicineId, medicines.id))
+    .leftJoin(users, eq(stockMovements.userId, users.id))
+    .where(where)
+    .orderBy(desc(stockMovements.createdAt));
+}
+
+function toStockMovementEntry({ movement, medicineName, userName }: { movement: StockMovement; medicineName: string; userName: string | null }): StockMovementEntry {
+  return { ...movement, medicineName, userName };
+}
+
+/**
+ * Current ledger total for a stock row. Rows stocked before the ledger existed
+ * get an opening-balance adjustment first, so their history starts from the
+ * quantity they already held.
+ */
+function ledgerBalance(tx: Transaction, stock: MedicineStock, now: Date): number {
+  const { total, entries } = tx
+    .select({
+      total: sql<number>`coalesce(sum(${stockMovements.quantity}), 0)`,
+      entries: sql<number>`count(*)`,
+    })
+    .from(stockMovements)
+    .where(eq(stockMovements.stockId, stock.id))
+    .get()!;
+  if (entries > 0 || stock.quantity === 0) {
+    return total;
+  }
+
+  tx.insert(stockMovements).values({
+    stockId: stock.id,
+    pharmacyId: stock.pharmacyId,
+    medicineId: stock.medicineId,
+    type: 'adjustment',
+    quantity: stock.quantity,
+    balanceAfter: stock.quantity,
+    reason: OPENING_BALANCE_REASON,
+    createdAt: now,
+  }).run();
+  return stock.quantity;
+}
+
+/**
+ * Append a movement to the ledger and set the stock row's quantity to the new
+ * ledger total. Every change to a stock quantity goes through here.
+ */
+function recordStockMovement(tx: Transaction, stockId: string, change: StockChange, now: Date): { stock: MedicineStock; movement: StockMovement } {
+  const current = tx.select().from(medicineStock).where(eq(medicineStock.id, stockId)).get();
+  if (!current) {
+    throw new InventoryError("Stock entry not found");
+  }
+  const balance = ledgerBalance(tx, current, now) + change.quantity;
+  if (balance < 0) {
+    throw new InventoryError(`Only ${balance - change.quantity} units are in stock`);
+  }
+
+  const movement = tx.insert(stockMovements).values({
+    stockId,
+    pharmacyId: current.pharmacyId,
+    medicineId: current.medicineId,
+    batchId: change.batchId,
+    type: change.type,
+    quantity: change.quantity,
+    balanceAfter: balance,
+    reason: change.reason,
+    prescriptionId: change.prescriptionId,
+    userId: change.userId,
+    createdAt: now,
+  }).returning().get();
+
+  const stock = tx.update(medicineStock)
+    .set({ quantity: balance, status: stockStatusFor(balance), version: current.version + 1, updatedAt: now })
+    .where(eq(medicineStock.id, stockId))
+    .returning()
+    .get();
+
+  return { stock, movement };
+}
+
+/**
+ * Insert a delivered batch and record its 'in' movement. The stock row is
+ * created on the medicine's first delivery.
+ */
+function bookBatchIn(
+  tx: Transaction,
+  pharmacyId: string,
+  input: ReceiveBatchRequest,
+  receivedBy: string,
+  now: Date,
+  links: { goodsReceiptId?: string; purchaseOrderLineId?: string; reason?: string } = {}
+): { batch: StockBatch; stock: MedicineStock } {
+  const current = tx
+    .select()
+    .from(medicineStock)
+    .where(and(eq(medicineStock.pharmacyId, pharmacyId), eq(medicineStock.medicineId, input.medicineId)))
+    .get()
+    ?? tx.insert(medicineStock).values({
+      pharmacyId,
+      medicineId: input.medicineId,
+      quantity: 0,
+      minimumStock: DEFAULT_MINIMUM_STOCK,
+      maximumStock: DEFAULT_MAXIMUM_STOCK,
+      status: 'out_of_stock',
+      updatedAt: now,
+    }).returning().get();
+
+  const batch = tx.insert(stockBatches).values({
+    stockId: current.id,
+    pharmacyId,
+    medicineId: input.medicineId,
+    batchNumber: input.batchNumber,
+    expiryDate: input.expiryDate,
+    quantityReceived: input.quantity,
+    quantity: input.quantity,
+    unitCost: input.unitCost,
+    supplier: input.supplier,
+    goodsReceiptId: links.goodsReceiptId,
+    purchaseOrderLineId: links.purchaseOrderLineId,
+    receivedBy,
+    receivedAt: now,
+  }).returning().get();
+
+  const { stock } = recordStockMovement(tx, current.id, {
+    quantity: input.quantity,
+    type: 'in',
+    reason: links.reason ?? `Received batch ${input.batchNumber}`,
+    userId: receivedBy,
+    batchId: batch.id,
+  }, now);
+
+  return { batch, stock };
+}
+
+function findPurchaseOrder(tx: Transaction, pharmacyId: string, id: string): PurchaseOrder {
+  const order = tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).get();
+  if (!order || order.pharmacyId !== pharmacyId) {
+    throw new InventoryError("Purchase order not found");
+  }
+  return order;
+}
+
+function checkPurchaseOrderReferences(tx: Transaction, supplierId: string | undefined, medicineIds: string[]): void {
+  if (supplierId) {
+    const supplier = tx.select().from(suppliers).where(eq(suppliers.id, supplierId)).get();
+    if (!supplier || !supplier.isActive) {
+      throw new InventoryError("Supplier not found");
+    }
+  }
+  if (medicineIds.length > 0) {
+    const found = tx.select({ id: medicines.id }).from(medicines).where(inArray(medicines.id, medicineIds)).all();
+    if (found.length !== new Set(medicineIds).size) {
+      throw new InventoryError("One or more medicines on the order were not found");
+    }
+  }
+}
+
+async function loadPurchaseOrderDetails(orders: PurchaseOrder[]): Promise<PurchaseOrderDetail[]> {
+  if (orders.length === 0) return [];
+  const orderIds = orders.map(order => order.id);
+  const supplierIds = orders.flatMap(order => order.supplierId ? [order.supplierId] : []);
+
+  const lines = await db
+    .select({ line: purchaseOrderLines, medicineName: medicines.name })
+    .from(purchaseOrderLines)
+    .innerJoin(medicines, eq(purchaseOrderLines.medicineId, medicines.id))
+    .where(inArray(purchaseOrderLines.purchaseOrderId, orderIds))
+    .orderBy(asc(medicines.name));
+  const receipts = await db
+    .select()
+    .from(goodsReceipts)
+    .where(inArray(goodsReceipts.purchaseOrderId, orderIds))
+    .orderBy(asc(goodsReceipts.receivedAt));
+  const supplierById = new Map((supplierIds.length > 0
+    ? await db.select().from(suppliers).where(inArray(suppliers.id, supplierIds))
+    : []).map(supplier => [supplier.id, supplier]));
+
+  return orders.map(order => ({
+    ...order,
+    supplier: (order.supplierId && supplierById.get(order.supplierId)) || null,
+    lines: lines
+      .filter(({ line }) => line.purchaseOrderId === order.id)
+      .map(({ line, medicineName }) => ({ ...line, medicineName })),
+    receipts: receipts.filter(receipt => receipt.purchaseOrderId === order.id),
+  }));
+}
+
+const CHANGE_STREAMS = ['tombstones', ...CHANGE_FEED_ENTITIES] as const;
+type ChangeStream = typeof CHANGE_STREAMS[number];
+type ChangeRow = { changedAt: number; key: string; change: Change };
+
+const upsertRow = (entity: ChangeFeedEntity, id: string, changedAt: number, record: Record<string, unknown>): ChangeRow =>
+  ({ changedAt, key: id, change: { entity, op: 'upsert', id, record } });
+
+// Change time in ms for second-precision columns; rows from before a column existed fall back to the next one
+const secondsToMs = (...columns: SQLiteColumn[]) =>
+  sql<number>`coalesce(${sql.join(columns, sql`, `)}, 0) * 1000`.mapWith(Number);
+
+function changeWindow(changedAt: SQL, id: SQLiteColumn, after: [number, string] | undefined, horizon: number): SQL | undefined {
+  return and(
+    sql`${changedAt} < ${horizon}`,
+    after ? sql`(${changedAt} > ${after[0]} or (${changedAt} = ${after[0]} and ${id} > ${after[1]}))` : undefined
+  );
+}
+
+// Patients a doctor cares for, as in hasCareRelationship
+const doctorPatientIds = (doctorId: string) => sql`(
+  select ${appointments.patientId} from ${appointments} where ${appointments.doctorId} = ${doctorId} and ${notFromWalkIn}
+  union
+  select ${healthRecords.patientId} from ${healthRecords} where ${healthRecords.doctorId} = ${doctorId}
+  union
+  select ${prescriptions.patientId} from ${prescriptions} where ${prescriptions.doctorId} = ${doctorId}
+)`;
+
+// null: the stream is not part of this scope at all; undefined: no restriction
+function changeScopeCondition(stream: ChangeStream, scope: ChangeFeedScope): SQL | undefined | null {
+  if ('patientId' in scope) {
+    switch (stream) {
+      case 'tombstones': return eq(tombstones.patientId, scope.patientId);
+      case 'appointments': return eq(appointments.patientId, scope.patientId);
+      case 'healthRecords': return eq(healthRecords.patientId, scope.patientId);
+      case 'prescriptions': return eq(prescriptions.patientId, scope.patientId);
+      case 'symptomChecks': return eq(symptomChecks.patientId, scope.patientId);
+      case 'stock': return undefined;
+    }
+  }
+  if ('doctorId' in scope) {
+    const patients = doctorPatientIds(scope.doctorId);
+    switch (stream) {
+      case 'tombstones': return or(eq(tombstones.doctorId, scope.doctorId), sql`${tombstones.patientId} in ${patients}`);
+      case 'appointments': return eq(appointments.doctorId, scope.doctorId);
+      case 'healthRecords': return or(eq(healthRecords.doctorId, scope.doctorId), sql`${healthRecords.patientId} in ${patients}`);
+      case 'prescriptions': return eq(prescriptions.doctorId, scope.doctorId);
+      case 'symptomChecks': return sql`${symptomChecks.patientId} in ${patients}`;
+      case 'stock': return undefined;
+    }
+  }
+  switch (stream) {
+    case 'tombstones': return eq(tombstones.pharmacyId, scope.pharmacyId);
+    case 'prescriptions': return eq(prescriptions.pharmacyId, scope.pharmacyId);
+    case 'stock': return eq(medicineStock.pharmacyId, scope.pharmacyId);
+    default: return null;
+  }
+}
+
+function readSyncRecord(tx: Transaction, entity: SyncEntity, id: string): SyncedRow | null {
+  if (entity === 'symptomChecks') {
+    return tx.select().from(symptomChecks).where(eq(symptomChecks.id, id)).get() ?? null;
+  }
+  if (entity === 'consultationMessages') {
+    const message = tx.select().from(consultationMessages).where(eq(consultationMessages.id, id)).get();
+    return message ? decryptFields(message, ENCRYPTED_CONSULTATION_MESSAGE_FIELDS) : null;
+  }
+  const record = tx.select().from(healthRecords).where(eq(healthRecords.id, id)).get();
+  return record ? decryptFields(record, ENCRYPTED_HEALTH_RECORD_FIELDS) : null;
+}
+
+// Updates and deletes only go through against the version the client edited
+function applySyncOperation(tx: Transaction, operation: SyncOperation, userId: string): SyncOperationResult {
+  const base = { idempotencyKey: operation.idempotencyKey, entity: operation.entity };
+
+  if (operation.entity === 'symptomChecks') {
+    const record = tx.insert(symptomChecks).values(operation.data as InsertSymptomCheck).returning().get();
+    return { ...base, status: 'applied', record };
+  }
+
+  if (operation.entity === 'consultationMessages') {
+    const record = insertConsultationMessage(tx, { ...(operation.data as ConsultationMessageRequest), senderId: userId });
+    return { ...base, status: 'applied', record };
+  }
+
+  if (operation.type === 'create') {
+    const record = tx
+      .insert(healthRecords)
+      .values(encryptFields(operation.data as InsertHealthRecord, ENCRYPTED_HEALTH_RECORD_FIELDS, 'restricted'))
+      .returning()
+      .get();
+    return { ...base, status: 'applied', record: decryptFields(record, ENCRYPTED_HEALTH_RECORD_FIELDS) };
+  }
+
+  const current = tx.select().from(healthRecords).where(eq(healthRecords.id, operation.entityId!)).get();
+  if (!current && operation.type === 'delete') {
+    // Already gone, which is what the client wanted
+    return { ...base, status: 'applied', record: null };
+  }
+  if (!current || current.version !== operation.baseVersion) {
+    return { ...base, status: 'conflict', serverRecord: current ? decryptFields(current, ENCRYPTED_HEALTH_RECORD_FIELDS) : null };
+  }
+
+  if (operation.type === 'delete') {
+    // A record shared in a consultation chat stays: the file and the message point at it
+    const shared = tx.select({ id: healthRecordFiles.id }).from(healthRecordFiles).where(eq(healthRecordFiles.recordId, current.id)).get()
+      ?? tx.select({ id: consultationMessages.id }).from(consultationMessages).where(eq(consultationMessages.healthRecordId, current.id)).get();
+    if (shared) {
+      return { ...base, status: 'rejected', error: 'This record was shared in a consultation and cannot be deleted' };
+    }
+    tx.delete(healthRecords).where(eq(healthRecords.id, current.id)).run();
+    tx.insert(tombstones).values({ entity: 'healthRecords', entityId: current.id, patientId: current.patientId, doctorId: current.doctorId }).run();
+    return { ...base, status: 'applied', record: null };
+  }
+
+  const record = tx
+    .update(healthRecords)
+    .set({
+      ...encryptFields(operation.data as Partial<InsertHealthRecord>, ENCRYPTED_HEALTH_RECORD_FIELDS, 'restricted'),
+      version: sql`${healthRecords.version} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(eq(healthRecords.id, current.id))
+    .returning()
+    .get();
+  return { ...base, status: 'applied', record: decryptFields(record, ENCRYPTED_HEALTH_RECORD_FIELDS) };
+}
+
+const stockStatusFor = (quantity: number) =>
+  quantity === 0 ? 'out_of_stock' : quantity < 10 ? 'limited' : 'available';
+
+function toStockSyncItem(stock: MedicineStock, medicine: Medicine, pharmacy: Pharmacy): StockSyncItem {
+  return {
+    id: stock.id,
+    medicineId: stock.medicineId,
+    medicineName: medicine.name,
+    pharmacyId: stock.pharmacyId,
+    pharmacyName: pharmacy.name,
+    currentStock: stock.quantity,
+    minimumStock: stock.minimumStock,
+    maximumStock: stock.maximumStock,
+    unitPrice: medicine.price,
+    lastUpdated: new Date(stock.updatedAt ?? 0).toISOString(),
+    status: stockSyncStatus(stock.quantity, stock.minimumStock, stock.status),
+    supplier: medicine.manufacturer ?? '',
+    expiryDate: medicine.expiryDate ?? undefined,
+    version: stock.version,
+  };
+}
+
+function encryptFields<T extends object>(values: T, fields: readonly string[], classification: string): T {
+  const encrypted = { ...values } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = encrypted[field];
+    if (typeof value === 'string') {
+      encrypted[field] = encryptionService.encrypt(value, classification);
+    }
+  }
+  return encrypted as T;
+}
+
+// Values that are not envelopes are rows written before field encryption; the
+// re-encryption job converts them, until then they are returned as stored.
+function decryptFields<T extends object>(row: T, fields: readonly string[]): T {
+  const decrypted = { ...row } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = decrypted[field];
+    if (encryptionService.isEncrypted(value)) {
+      decrypted[field] = encryptionService.decrypt(value);
+    }
+  }
+  return decrypted as T;
+}
+
+const emailBlindIndex = (email: string) =>
+  encryptionService.blindIndex(email.trim().toLowerCase(), 'users.email');
+
+const phoneBlindIndex = (phone: string) =>
+  encryptionService.blindIndex(phone.replace(/\D/g, ''), 'users.phone');
+
+function userBlindIndexes(values: { email?: string; phone?: string | null }): { emailIndex?: string; phoneIndex?: string | null } {
+  const indexes: { emailIndex?: string; phoneIndex?: string | null } = {};
+  if (values.email !== undefined) indexes.emailIndex = emailBlindIndex(values.email);
+  if (values.phone !== undefined) indexes.phoneIndex = values.phone ? phoneBlindIndex(values.phone) : null;
+  return indexes;
+}
+
+function userRowBlindIndexes(row: EncryptedRow): ReturnType<typeof userBlindIndexes> {
+  return userBlindIndexes({
+    email: typeof row.email === 'string' ? row.email : undefined,
+    phone: typeof row.phone === 'string' ? row.phone : null,
+  });
+}
+
+function encryptUser<T extends Partial<InsertUser>>(values: T): T & ReturnType<typeof userBlindIndexes> {
+  return { ...encryptFields(values, ENCRYPTED_USER_FIELDS, 'confidential'), ...userBlindIndexes(values) };
+}
+
+function decryptUser(user: User): User {
+  return decryptFields(user, ENCRYPTED_USER_FIELDS);
+}
+
+function toStoredAuditLog(row: AuditLogRow): StoredAuditLog {
+  return {
+    id: row.id,
+    timestamp: new Date(row.createdAt).toISOString(),
+    userId: row.userId ?? undefined,
+    sessionId: row.sessionId ?? undefined,
+    action: row.action,
+    resource: row.resource,
+    resourceId: row.resourceId ?? undefined,
+    details: row.details ? JSON.parse(row.details) : undefined,
+    ipAddress: row.ipAddress ?? undefined,
+    userAgent: row.userAgent ?? undefined,
+    location: row.location ? JSON.parse(row.location) : undefined,
+    riskLevel: row.riskLevel as StoredAuditLog['riskLevel'],
+    complianceFlags: JSON.parse(row.complianceFlags),
+    dataClassification: row.dataClassification as StoredAuditLog['dataClassification'],
+    retentionPeriod: row.retentionDays,
+    sequence: row.sequence,
+    previousHash: row.previousHash,
+    hash: row.hash,
+  };
+}
+
 export const storage = new DatabaseStorage();
@@ -0,0 +1,75 @@
+/**
+ * Video Call Sessions
+ * Every video call belongs to an appointment and runs in the signaling room
+ * "appointment-<id>". Only the appointment's patient and doctor, and people
+ * they invite, may join. The server records when the call started and ended
+ * and how long the participants were connected, and moves the appointment to
+ * "ongoing" and "completed" as the call starts and ends.
+ *
+ * On a weak link the call steps down from video to audio-only and then to
+ * the appointment's text chat (see consultationChat.ts).
+ */
+
+import { z } from 'zod';
+import type { AppointmentParticipant, User } from './schema';
+
+const APPOINTMENT_ROOM_PREFIX = 'appointment-';
+
+// A dropped rural connection gets this long to come back before the call is treated as over
+export const CALL_RECONNECT_GRACE_MS = 2 * 60 * 1000;
+
+export function appointmentRoomId(appointmentId: string): string {
+  return `${APPOINTMENT_ROOM_PREFIX}${appointmentId}`;
+}
+
+export function parseAppointmentRoomId(roomId: unknown): string | null {
+  if (typeof roomId !== 'string' || !roomId.startsWith(APPOINTMENT_ROOM_PREFIX)) return null;
+  return roomId.slice(APPOINTMENT_ROOM_PREFIX.length) || null;
+}
+
+// How someone in the call relates to the appointment; invited participants are guests
+export type CallRole = 'patient' | 'doctor' | 'guest';
+
+export const inviteParticipantSchema = z.object({
+  // Invite a registered user by id or by their registered phone number
+  userId: z.string().min(1).optional(),
+  phone: z.string().trim().min(10, 'Phone number must be at least 10 digits').max(15).optional(),
+}).refine(invite => invite.userId || invite.phone, 'User ID or phone number is required');
+
+export type InviteParticipantRequest = z.infer<typeof inviteParticipantSchema>;
+
+// The same answer whether or not the phone number belongs to someone who may join
+export interface InviteParticipantResponse {
+  message: string;
+}
+
+export interface CallParticipant extends AppointmentParticipant {
+  user: Pick<User, 'id' | 'name' | 'role'>;
+}
+
+// Why the server turned a join-room request away
+export type JoinRefusedReason = 'not_an_appointment_room' | 'appointment_not_found' | 'not_a_participant' | 'call_closed';
+
+// How the consultation is carried, richest first; the same values as appointments.type
+export const CALL_MODES = ['video', 'audio', 'chat'] as const;
+export type CallMode = typeof CALL_MODES[number];
+
+// What the server tells a socket about the call it asked to join
+export type RoomJoinedMessage = { type: 'room-joined'; roomId: string; appointmentId: string; role: CallRole; mode: CallMode };
+export type JoinRefusedMessage = { type: 'join-refused'; roomId?: string; reason: JoinRefusedReason };
+// Someone in the call stepped the whole room down to a lighter mode
+export type CallModeMessage = { type: 'call-mode'; mode: CallMode; userId: string };
+
+export function isCallMode(value: unknown): value is CallMode {
+  return CALL_MODES.includes(value as CallMode);
+}
+
+// The mode a call opens in: whatever the appointment was booked as
+export function initialCallMode(appointmentType: string | null | undefined): CallMode {
+  return isCallMode(appointmentType) ? appointmentType : 'video';
+}
+
+// Calls only ever step down, so the whole room follows whoever has the weakest link
+export function lighterCallMode(a: CallMode, b: CallMode): CallMode {
+  return CALL_MODES.indexOf(a) >= CALL_MODES.indexOf(b) ? a : b;
+}
@@ -0,0 +1,42 @@
+/**
+ * Change Feed
+ * Contract for GET /api/changes. Offline clients pull only rows that changed
+ * since their cursor instead of re-downloading whole lists. Results come in
+ * pages; the cursor returned with each page is safe to store, so a sync cut off
+ * by a dropped 2G connection resumes where it stopped.
+ */
+
+import { z } from 'zod';
+
+export const DEFAULT_CHANGE_PAGE_SIZE = 200;
+export const MAX_CHANGE_PAGE_SIZE = 500;
+
+// Named like the client's offline store collections
+export const CHANGE_FEED_ENTITIES = ['appointments', 'healthRecords', 'prescriptions', 'symptomChecks', 'stock'] as const;
+export type ChangeFeedEntity = typeof CHANGE_FEED_ENTITIES[number];
+
+export const changesQuerySchema = z.object({
+  // Omit on first sync to receive everything in scope
+  since: z.string().max(2000).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_CHANGE_PAGE_SIZE).default(DEFAULT_CHANGE_PAGE_SIZE),
+});
+
+// Last [updatedAt ms, id] delivered from each stream; tombstones are a stream of their own
+export type ChangeFeedPosition = Partial<Record<ChangeFeedEntity | 'tombstones', [number, string]>>;
+
+export const changeFeedPositionSchema = z.record(
+  z.enum([...CHANGE_FEED_ENTITIES, 'tombstones']),
+  z.tuple([z.number().int().min(0), z.string()])
+);
+
+export type Change =
+  | { entity: ChangeFeedEntity; op: 'upsert'; id: string; record: Record<string, unknown> }
+  | { entity: ChangeFeedEntity; op: 'delete'; id: string };
+
+export interface ChangesResponse {
+  // Deletes first, then upserts; apply in order
+  changes: Change[];
+  cursor: string;
+  // More changes are waiting; request again with the new cursor
+  hasMore: boolean;
+}
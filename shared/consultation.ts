@@ -0,0 +1,101 @@
+/**
+ * Doctor Workspace
+ * The doctor's daily patient queue and the SOAP consultation note written
+ * during a visit. The note is stored on the appointment; each diagnosis in
+ * it is also filed as a health record of type "diagnosis" so it shows up in
+ * the patient's chart.
+ */
+
+import { z } from 'zod';
+import { isValidDateString } from './scheduling';
+import type { PrescriptionMedicine } from './prescriptions';
+import type { Appointment, Doctor, HealthRecord, Prescription, SymptomCheck, User } from './schema';
+
+export const consultationDiagnosisSchema = z.object({
+  title: z.string().trim().min(1, 'Diagnosis is required').max(200),
+  // ICD-10 code, when the doctor knows it
+  code: z.string().trim().max(20).optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const consultationNoteSchema = z.object({
+  subjective: z.string().trim().max(5000).default(''),
+  objective: z.string().trim().max(5000).default(''),
+  assessment: z.string().trim().max(5000).default(''),
+  plan: z.string().trim().max(5000).default(''),
+  diagnoses: z.array(consultationDiagnosisSchema).max(10).default([]),
+  // Close the appointment once the note is saved
+  complete: z.boolean().default(false),
+});
+
+export const doctorQueueQuerySchema = z.object({
+  date: z.string().refine(isValidDateString, 'Expected a YYYY-MM-DD date').optional(),
+});
+
+export type ConsultationDiagnosis = z.infer<typeof consultationDiagnosisSchema>;
+export type ConsultationNoteRequest = z.infer<typeof consultationNoteSchema>;
+
+export interface ConsultationNote {
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  diagnoses: ConsultationDiagnosis[];
+  updatedAt: string;
+}
+
+/**
+ * Stored as a JSON string on the appointment
+ */
+export function parseConsultationNote(value: string | null | undefined): ConsultationNote | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed as ConsultationNote : null;
+  } catch {
+    return null;
+  }
+}
+
+// What the doctor needs to identify a patient; contact and identity details stay out
+export type PatientSummary = Pick<User, 'id' | 'name' | 'gender' | 'dateOfBirth' | 'profilePicture'>;
+
+export function toPatientSummary(user: User): PatientSummary {
+  return {
+    id: user.id,
+    name: user.name,
+    gender: user.gender,
+    dateOfBirth: user.dateOfBirth,
+    profilePicture: user.profilePicture,
+  };
+}
+
+export interface QueueEntry extends Omit<Appointment, 'consultationNote'> {
+  patient: PatientSummary;
+  consultationNote: ConsultationNote | null;
+}
+
+export interface ChartPrescription extends Omit<Prescription, 'medicines'> {
+  medicines: PrescriptionMedicine[];
+  doctorName: string;
+}
+
+export interface ChartVisit extends Omit<Appointment, 'consultationNote'> {
+  doctor: Pick<Doctor, 'id' | 'specialty'> & { name: string };
+  consultationNote: ConsultationNote | null;
+}
+
+// Everything the doctor sees about a patient while consulting, newest first
+export interface PatientChart {
+  patient: PatientSummary;
+  healthRecords: HealthRecord[];
+  symptomChecks: SymptomCheck[];
+  prescriptions: ChartPrescription[];
+  visits: ChartVisit[];
+}
+
+export interface ConsultationNoteResult {
+  appointment: QueueEntry;
+  // Diagnosis records filed by this save; diagnoses already on record are not repeated
+  diagnoses: HealthRecord[];
+}
@@ -0,0 +1,93 @@
+/**
+ * Consultation Chat
+ * Every appointment has a text chat between the patient, the doctor and
+ * anyone invited into its call. Messages travel over /ws on the channel
+ * "appointment-chat:<id>", which only those people may subscribe to, and are
+ * kept with the appointment. Each message carries an id generated by the
+ * sender's device, so one queued offline and replayed through POST /api/sync,
+ * or sent again after a dropped connection, is stored once.
+ *
+ * A shared photo or lab report is filed as the patient's health record of type
+ * "report", its fileUrl pointing at the stored file, and the message links to
+ * that record.
+ */
+
+import { z } from 'zod';
+import type { ConsultationMessage, HealthRecordFile, User } from './schema';
+
+const CHAT_CHANNEL_PREFIX = 'appointment-chat:';
+
+export const CONSULTATION_MESSAGE_MAX_LENGTH = 2000;
+
+// Photos are shrunk on the device before upload; this is for reports and the odd large scan
+export const CHAT_ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024;
+export const CHAT_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'] as const;
+export type ChatAttachmentType = typeof CHAT_ATTACHMENT_TYPES[number];
+
+export function consultationChatChannel(appointmentId: string): string {
+  return `${CHAT_CHANNEL_PREFIX}${appointmentId}`;
+}
+
+export function parseConsultationChatChannel(channel: unknown): string | null {
+  if (typeof channel !== 'string' || !channel.startsWith(CHAT_CHANNEL_PREFIX)) return null;
+  return channel.slice(CHAT_CHANNEL_PREFIX.length) || null;
+}
+
+const clientMessageId = z.string().min(8).max(100);
+
+export const consultationMessageSchema = z.object({
+  appointmentId: z.string().min(1),
+  clientMessageId,
+  body: z.string().trim().min(1, 'Message cannot be empty').max(CONSULTATION_MESSAGE_MAX_LENGTH),
+});
+
+export type ConsultationMessageRequest = z.infer<typeof consultationMessageSchema>;
+
+// Size of the decoded file, without decoding it
+export function base64ByteLength(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor(data.length * 3 / 4) - padding;
+}
+
+export const chatAttachmentSchema = z.object({
+  clientMessageId,
+  fileName: z.string().trim().min(1).max(200),
+  contentType: z.enum(CHAT_ATTACHMENT_TYPES, { errorMap: () => ({ message: 'Only photos (JPEG, PNG, WebP) and PDF reports can be shared' }) }),
+  // File contents, base64 encoded
+  data: z.string().min(1).regex(/^[A-Za-z0-9+/]+={0,2}$/, 'File data must be base64 encoded')
+    .refine(data => base64ByteLength(data) <= CHAT_ATTACHMENT_MAX_BYTES, 'File is larger than 5 MB'),
+  // Filed as the health record's title; defaults to the file name
+  title: z.string().trim().min(1).max(200).optional(),
+  // Optional caption sent with the file
+  body: z.string().trim().max(CONSULTATION_MESSAGE_MAX_LENGTH).default(''),
+});
+
+export type ChatAttachmentRequest = z.infer<typeof chatAttachmentSchema>;
+
+export const CHAT_RECEIPT_STATUSES = ['delivered', 'read'] as const;
+export type ChatReceiptStatus = typeof CHAT_RECEIPT_STATUSES[number];
+
+export const chatReceiptSchema = z.object({
+  appointmentId: z.string().min(1),
+  messageIds: z.array(z.string().min(1)).min(1).max(200),
+  status: z.enum(CHAT_RECEIPT_STATUSES),
+});
+
+export interface ChatAttachment extends Pick<HealthRecordFile, 'fileName' | 'contentType' | 'size'> {
+  recordId: string;
+  fileUrl: string;
+}
+
+export interface ConsultationChatMessage extends ConsultationMessage {
+  sender: Pick<User, 'id' | 'name' | 'role'>;
+  attachment: ChatAttachment | null;
+}
+
+// Published on the chat channel when messages were delivered to or read by someone other than their sender
+export type ChatReceiptUpdate = {
+  type: 'chat-receipt';
+  appointmentId: string;
+  messageIds: string[];
+  status: ChatReceiptStatus;
+  at: string;
+};
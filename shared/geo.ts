@@ -0,0 +1,29 @@
+/**
+ * Geography helpers. Pharmacy coordinates are stored as text, so parsing is
+ * lenient: anything that is not a valid latitude/longitude counts as unknown.
+ */
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export function parseCoordinates(lat: string | number | null | undefined, lng: string | number | null | undefined): Coordinates | null {
+  if (lat === null || lat === undefined || lng === null || lng === undefined || lat === '' || lng === '') return null;
+  const parsed = { lat: Number(lat), lng: Number(lng) };
+  if (!Number.isFinite(parsed.lat) || !Number.isFinite(parsed.lng)) return null;
+  if (Math.abs(parsed.lat) > 90 || Math.abs(parsed.lng) > 180) return null;
+  return parsed;
+}
+
+// Great-circle (haversine) distance; road distance in hilly areas can be much longer
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
@@ -0,0 +1,161 @@
+/**
+ * Pharmacy Inventory
+ * Batch-level stock: every delivery is received as a batch with its lot number
+ * and expiry date, dispensing draws from the batch that expires first (FEFO),
+ * and expired batches are written off with a stock movement on record.
+ * Every change to a stock quantity is appended to the stock_movements ledger;
+ * medicine_stock.quantity is the ledger's running total, kept for fast reads.
+ */
+
+import { z } from 'zod';
+import { isValidDateString, toClinicDateString } from './scheduling';
+import type { StockBatch, StockMovement } from './schema';
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 90;
+export const DEFAULT_MINIMUM_STOCK = 10;
+export const DEFAULT_MAXIMUM_STOCK = 500;
+// Manual adjustments of at least this many units are flagged for review
+export const DEFAULT_ADJUSTMENT_THRESHOLD = 10;
+
+// Signed quantities: 'in' and positive adjustments add stock, everything else removes it
+export const STOCK_MOVEMENT_TYPES = ['in', 'out', 'adjustment', 'expired', 'damaged', 'dispensed'] as const;
+export type StockMovementType = typeof STOCK_MOVEMENT_TYPES[number];
+
+const dateSchema = z.string().refine(isValidDateString, 'Expected a YYYY-MM-DD date');
+
+export const receiveBatchSchema = z.object({
+  medicineId: z.string().min(1),
+  batchNumber: z.string().trim().min(1).max(50),
+  expiryDate: dateSchema,
+  quantity: z.number().int().positive().max(1_000_000),
+  // Per unit, in the same currency unit as medicines.price
+  unitCost: z.number().int().min(0).optional(),
+  supplier: z.string().trim().max(200).optional(),
+});
+
+export const writeOffBatchSchema = z.object({
+  type: z.enum(['expired', 'damaged']).default('expired'),
+  // Damaged stock may be part of a batch; expired stock is always the whole remainder
+  quantity: z.number().int().positive().optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// A counted quantity entered by hand; the difference is recorded as an adjustment
+export const stockAdjustmentSchema = z.object({
+  quantity: z.number().int().min(0).max(1_000_000),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const stockMovementsQuerySchema = z.object({
+  medicineId: z.string().optional(),
+  type: z.enum(STOCK_MOVEMENT_TYPES).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const stockReconciliationQuerySchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  threshold: z.coerce.number().int().min(1).max(1_000_000).default(DEFAULT_ADJUSTMENT_THRESHOLD),
+}).refine(query => query.from <= query.to, 'from must not be after to');
+
+export const expiryAlertsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(DEFAULT_EXPIRY_WARNING_DAYS),
+});
+
+export type ReceiveBatchRequest = z.infer<typeof receiveBatchSchema>;
+export type WriteOffBatchRequest = z.infer<typeof writeOffBatchSchema>;
+export type StockAdjustmentRequest = z.infer<typeof stockAdjustmentSchema>;
+export type StockMovementsQuery = z.infer<typeof stockMovementsQuerySchema>;
+
+export interface ExpiryAlert {
+  batch: StockBatch;
+  medicineName: string;
+  state: 'expired' | 'near_expiry';
+  // Negative once expired
+  daysLeft: number;
+}
+
+export interface StockMovementEntry extends StockMovement {
+  medicineName: string;
+  userName: string | null;
+}
+
+export interface StockMovementPage {
+  movements: StockMovementEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// One medicine's stock over the report period; outflows are positive numbers
+export interface StockReconciliationLine {
+  stockId: string;
+  medicineId: string;
+  medicineName: string;
+  openingBalance: number;
+  received: number;
+  dispensed: number;
+  issued: number;
+  writtenOff: number;
+  adjusted: number; // net, signed
+  closingBalance: number;
+  // Stored quantity minus the ledger total; anything but 0 means a change bypassed the ledger
+  discrepancy: number;
+}
+
+export interface StockReconciliationReport {
+  pharmacyId: string;
+  from: string;
+  to: string;
+  threshold: number;
+  lines: StockReconciliationLine[];
+  // Manual adjustments in the period of at least `threshold` units either way
+  flaggedAdjustments: StockMovementEntry[];
+}
+
+export interface BatchAllocation<T> {
+  batch: T;
+  quantity: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function todayInClinic(now: Date = new Date()): string {
+  return toClinicDateString(now);
+}
+
+// A batch can be sold up to and including its expiry date
+export function isExpired(expiryDate: string, today: string = todayInClinic()): boolean {
+  return expiryDate < today;
+}
+
+export function daysUntil(date: string, today: string = todayInClinic()): number {
+  return Math.round((Date.parse(date) - Date.parse(today)) / DAY_MS);
+}
+
+/**
+ * First-expiry-first-out: take `quantity` units from unexpired batches, the
+ * soonest expiry first. Returns fewer units than asked when stock runs out.
+ */
+export function allocateFefo<T extends { id: string; expiryDate: string; quantity: number }>(
+  batches: T[],
+  quantity: number,
+  today: string = todayInClinic()
+): BatchAllocation<T>[] {
+  const usable = batches
+    .filter(batch => batch.quantity > 0 && !isExpired(batch.expiryDate, today))
+    .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate) || a.id.localeCompare(b.id));
+
+  const allocations: BatchAllocation<T>[] = [];
+  let remaining = quantity;
+  for (const batch of usable) {
+    if (remaining === 0) break;
+    const taken = Math.min(batch.quantity, remaining);
+    allocations.push({ batch, quantity: taken });
+    remaining -= taken;
+  }
+  return allocations;
+}
@@ -0,0 +1,174 @@
+/**
+ * Medicine Search
+ * Text normalisation shared by the server's search index and offline clients.
+ * Queries typed in Devanagari or Gurmukhi are transliterated to Latin, and
+ * every word also gets a phonetic key, so "paracetamol", "paracetmol" and
+ * "ਪੈਰਾਸੀਟਾਮੋਲ" all find the same medicine.
+ */
+
+import { z } from 'zod';
+import type { Medicine, Pharmacy } from './schema';
+
+export const MAX_MEDICINE_SEARCH_RESULTS = 50;
+export const DEFAULT_ALTERNATIVES_RADIUS_KM = 25;
+
+export const medicineSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Query parameter 'q' is required").max(100),
+  limit: z.coerce.number().int().min(1).max(MAX_MEDICINE_SEARCH_RESULTS).default(20),
+  // 'generic' returns brands grouped under their generic name
+  group: z.enum(['none', 'generic']).default('none'),
+});
+
+export const medicineAlternativesQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radiusKm: z.coerce.number().positive().max(200).default(DEFAULT_ALTERNATIVES_RADIUS_KM),
+}).refine(query => (query.lat === undefined) === (query.lng === undefined), {
+  message: 'lat and lng must be given together',
+});
+
+export interface MedicineGroup {
+  // null for medicines with no generic name recorded; each is its own group
+  genericName: string | null;
+  medicines: Medicine[];
+}
+
+export interface MedicineAlternative {
+  medicine: Medicine;
+  // In-stock pharmacies, nearest first when a location was given
+  availability: {
+    pharmacy: Pharmacy;
+    quantity: number;
+    status: string;
+    distanceKm: number | null;
+  }[];
+}
+
+// Devanagari (U+0900) and Gurmukhi (U+0A00) letters to a plain Latin spelling
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n', 'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n', 'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm', 'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v', 'श': 'sh',
+  'ष': 'sh', 'स': 's', 'ह': 'h',
+  'ਕ': 'k', 'ਖ': 'kh', 'ਗ': 'g', 'ਘ': 'gh', 'ਙ': 'n', 'ਚ': 'ch', 'ਛ': 'chh', 'ਜ': 'j', 'ਝ': 'jh', 'ਞ': 'n',
+  'ਟ': 't', 'ਠ': 'th', 'ਡ': 'd', 'ਢ': 'dh', 'ਣ': 'n', 'ਤ': 't', 'ਥ': 'th', 'ਦ': 'd', 'ਧ': 'dh', 'ਨ': 'n',
+  'ਪ': 'p', 'ਫ': 'ph', 'ਬ': 'b', 'ਭ': 'bh', 'ਮ': 'm', 'ਯ': 'y', 'ਰ': 'r', 'ਲ': 'l', 'ਵ': 'v', 'ੜ': 'r',
+  'ਸ': 's', 'ਹ': 'h',
+};
+
+// Consonant + nukta (क़, ज़, ਸ਼ ...), which Unicode normalisation always keeps as two characters
+const NUKTA_CONSONANTS: Record<string, string> = {
+  'क': 'q', 'ख': 'kh', 'ग': 'g', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f', 'य': 'y',
+  'ਸ': 'sh', 'ਖ': 'kh', 'ਗ': 'g', 'ਜ': 'z', 'ਫ': 'f', 'ਲ': 'l',
+};
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ii', 'उ': 'u', 'ऊ': 'uu', 'ऋ': 'ri', 'ए': 'e', 'ऐ': 'ai', 'ओ': 'o',
+  'औ': 'au', 'ऑ': 'o',
+  'ਅ': 'a', 'ਆ': 'aa', 'ਇ': 'i', 'ਈ': 'ii', 'ਉ': 'u', 'ਊ': 'uu', 'ਏ': 'e', 'ਐ': 'ai', 'ਓ': 'o', 'ਔ': 'au',
+};
+
+// Vowel signs replace a consonant's inherent "a"
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ii', 'ु': 'u', 'ू': 'uu', 'ृ': 'ri', 'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au',
+  'ॉ': 'o', 'ॅ': 'e',
+  'ਾ': 'aa', 'ਿ': 'i', 'ੀ': 'ii', 'ੁ': 'u', 'ੂ': 'uu', 'ੇ': 'e', 'ੈ': 'ai', 'ੋ': 'o', 'ੌ': 'au',
+};
+
+const NASALS = new Set(['\u0902', '\u0901', '\u0a02', '\u0a70']);
+const VIRAMAS = new Set(['\u094d', '\u0a4d']);
+const NUKTAS = new Set(['\u093c', '\u0a3c']);
+// Visarga is written as "h"; Gurmukhi addak (gemination) has no sound of its own
+const VISARGA = '\u0903';
+const ADDAK = '\u0a71';
+
+const isLetter = (char: string | undefined) =>
+  char !== undefined && (CONSONANTS[char] !== undefined || VOWELS[char] !== undefined || NASALS.has(char));
+
+/**
+ * Latin spelling of Devanagari/Gurmukhi text; other characters pass through.
+ * A consonant's inherent "a" is dropped at the end of a word, as in speech.
+ */
+export function transliterate(text: string): string {
+  const chars = Array.from(text.normalize('NFD'));
+  let out = '';
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (CONSONANTS[char] !== undefined) {
+      const nukta = NUKTAS.has(chars[i + 1]) && NUKTA_CONSONANTS[char] !== undefined;
+      out += nukta ? NUKTA_CONSONANTS[char] : CONSONANTS[char];
+      if (nukta) i++;
+
+      const next = chars[i + 1];
+      if (VOWEL_SIGNS[next] === undefined && !VIRAMAS.has(next) && isLetter(next)) {
+        out += 'a';
+      }
+    } else if (VOWELS[char] !== undefined) {
+      out += VOWELS[char];
+    } else if (VOWEL_SIGNS[char] !== undefined) {
+      out += VOWEL_SIGNS[char];
+    } else if (NASALS.has(char)) {
+      out += 'n';
+    } else if (char === VISARGA) {
+      out += 'h';
+    } else if (!VIRAMAS.has(char) && !NUKTAS.has(char) && char !== ADDAK) {
+      out += char;
+    }
+  }
+  return out;
+}
+
+// Lowercase Latin words and digits only
+export function normalizeSearchText(text: string): string {
+  return transliterate(text)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function searchWords(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Consonant skeleton of a word: spellings that sound alike (c/k/s, ph/f,
+ * doubled letters, any vowels) share a key. Words starting with a vowel keep
+ * an "a" so "amox" and "mox" stay apart.
+ */
+export function phoneticKey(word: string): string {
+  if (/^\d/.test(word)) return word;
+
+  const key = word
+    .replace(/ph/g, 'f')
+    .replace(/([kgtdbcjs])h/g, '$1')
+    .replace(/ck|q/g, 'k')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/c/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/w/g, 'v');
+  const start = /^[aeiouy]/.test(key) ? 'a' : '';
+  return (start + key.replace(/[aeiouyh]/g, '')).replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Brands grouped under their generic name, case- and spacing-insensitively.
+ * Groups keep the order in which they first appear, so search ranking holds.
+ */
+export function groupByGeneric(medicines: Medicine[]): MedicineGroup[] {
+  const groups = new Map<string, MedicineGroup>();
+  for (const medicine of medicines) {
+    const generic = medicine.genericName ? normalizeSearchText(medicine.genericName) : '';
+    const key = generic || `medicine:${medicine.id}`;
+    const group = groups.get(key);
+    if (group) {
+      group.medicines.push(medicine);
+    } else {
+      groups.set(key, { genericName: generic ? medicine.genericName : null, medicines: [medicine] });
+    }
+  }
+  return Array.from(groups.values());
+}
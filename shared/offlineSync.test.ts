@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { syncRequestSchema } from './offlineSync';
+
+const create = (idempotencyKey: string) => ({
+  idempotencyKey,
+  entity: 'healthRecords',
+  type: 'create',
+  data: { patientId: 'patient-1', type: 'vital', title: 'BP reading' },
+});
+
+describe('syncRequestSchema', () => {
+  it('accepts a batch of creates and versioned updates', () => {
+    const parsed = syncRequestSchema.parse({
+      operations: [
+        create('offline-0001'),
+        { idempotencyKey: 'offline-0002', entity: 'healthRecords', type: 'update', entityId: 'record-1', baseVersion: 3, data: { title: 'BP reading (sitting)' } },
+      ],
+    });
+
+    expect(parsed.operations).toHaveLength(2);
+  });
+
+  it('rejects an update that does not say which version it was edited from', () => {
+    const result = syncRequestSchema.safeParse({
+      operations: [{ idempotencyKey: 'offline-0001', entity: 'healthRecords', type: 'update', entityId: 'record-1' }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects edits to symptom checks, which are only ever created', () => {
+    const result = syncRequestSchema.safeParse({
+      operations: [{ idempotencyKey: 'offline-0001', entity: 'symptomChecks', type: 'delete', entityId: 'check-1', baseVersion: 1 }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a batch that repeats an idempotency key', () => {
+    const result = syncRequestSchema.safeParse({ operations: [create('offline-0001'), create('offline-0001')] });
+
+    expect(result.success).toBe(false);
+  });
+});
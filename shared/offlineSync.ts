@@ -0,0 +1,77 @@
+/**
+ * Offline Sync
+ * Contract for POST /api/sync. Clients queue changes made offline and replay
+ * them in batches. Every operation carries a client-generated idempotency key,
+ * so a batch retried after a dropped response is never applied twice, and
+ * updates/deletes carry the version they were edited from so concurrent edits
+ * come back as conflicts instead of overwriting each other.
+ */
+
+import { z } from 'zod';
+
+export const MAX_SYNC_OPERATIONS = 100;
+
+// Entities that can be changed while offline, named like the client's offline store collections
+export const SYNC_ENTITIES = ['healthRecords', 'symptomChecks', 'consultationMessages'] as const;
+export type SyncEntity = typeof SYNC_ENTITIES[number];
+
+export const SYNC_OPERATION_TYPES = ['create', 'update', 'delete'] as const;
+export type SyncOperationType = typeof SYNC_OPERATION_TYPES[number];
+
+// Symptom checks are a record of what the offline AI said at the time, and chat
+// messages of what was said; neither is ever edited
+const CREATE_ONLY_ENTITIES: SyncEntity[] = ['symptomChecks', 'consultationMessages'];
+
+export const syncOperationSchema = z.object({
+  idempotencyKey: z.string().min(8).max(100),
+  entity: z.enum(SYNC_ENTITIES),
+  type: z.enum(SYNC_OPERATION_TYPES),
+  // Server id of the row being updated or deleted
+  entityId: z.string().optional(),
+  // Version the client's edit was based on
+  baseVersion: z.number().int().min(1).optional(),
+  data: z.record(z.any()).default({}),
+}).superRefine((operation, ctx) => {
+  if (operation.type !== 'create' && CREATE_ONLY_ENTITIES.includes(operation.entity)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${operation.entity} can only be created`, path: ['type'] });
+  }
+  if (operation.type !== 'create' && (!operation.entityId || !operation.baseVersion)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${operation.type} needs entityId and baseVersion`, path: ['entityId'] });
+  }
+});
+
+export const syncRequestSchema = z.object({
+  operations: z.array(syncOperationSchema).min(1).max(MAX_SYNC_OPERATIONS)
+    .refine(operations => new Set(operations.map(operation => operation.idempotencyKey)).size === operations.length, {
+      message: 'Idempotency keys must be unique within a batch',
+    }),
+});
+
+export type SyncOperation = z.infer<typeof syncOperationSchema>;
+export type SyncRequest = z.infer<typeof syncRequestSchema>;
+
+/**
+ * applied   - the change was made; record is the row as stored
+ * duplicate - this idempotency key was applied before; record is the row as it is now (null once deleted)
+ * conflict  - the row changed (or was deleted) since baseVersion; serverRecord is the current row, or null
+ * rejected  - the change is invalid or not allowed and retrying will not help
+ */
+export type SyncResultStatus = 'applied' | 'duplicate' | 'conflict' | 'rejected';
+
+// A row as the server stored it, in the shape of the entity's offline collection
+export type SyncedRow = { id: string; [field: string]: unknown };
+
+export interface SyncOperationResult {
+  idempotencyKey: string;
+  status: SyncResultStatus;
+  entity: SyncEntity;
+  record?: SyncedRow | null;
+  serverRecord?: SyncedRow | null;
+  error?: string;
+}
+
+export interface SyncResponse {
+  // One result per operation, in request order
+  results: SyncOperationResult[];
+  serverTime: string;
+}
@@ -0,0 +1,125 @@
+/**
+ * Pharmacy Locator
+ * "Where is this medicine in stock closest to me": distance and travel time
+ * estimates, and whether each pharmacy is open right now.
+ */
+
+import { z } from 'zod';
+import type { Pharmacy } from './schema';
+import { clinicTimeToDate, getClinicDayOfWeek, parseTimeOfDay, toClinicDateString } from './scheduling';
+import { DEFAULT_ALTERNATIVES_RADIUS_KM } from './medicineSearch';
+
+// Rural roads around Nabha wind more than a straight line; speeds include stops
+const ROAD_DETOUR_FACTOR = 1.3;
+const WALKING_SPEED_KMH = 4.5;
+const DRIVING_SPEED_KMH = 30;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const nearbyStockQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  // Used when the patient has no GPS fix; resolved to coordinates on the server
+  village: z.string().trim().min(2).max(100).optional(),
+  radiusKm: z.coerce.number().positive().max(200).default(DEFAULT_ALTERNATIVES_RADIUS_KM),
+}).refine(query => (query.lat === undefined) === (query.lng === undefined), {
+  message: 'lat and lng must be given together',
+}).refine(query => query.lat !== undefined || query.village !== undefined, {
+  message: 'Either lat and lng or a village name is required',
+});
+
+/**
+ * One opening window; a close time at or before the open time runs past
+ * midnight (e.g. 20:00-02:00 for a night pharmacy).
+ */
+export const openingWindowSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  open: z.string().regex(TIME_PATTERN, 'Time must be HH:MM'),
+  close: z.string().regex(TIME_PATTERN, 'Time must be HH:MM'),
+});
+
+export const openingHoursSchema = z.array(openingWindowSchema).max(21);
+
+export type OpeningWindow = z.infer<typeof openingWindowSchema>;
+
+export interface OpenStatus {
+  // null when the pharmacy has not published its hours
+  isOpen: boolean | null;
+  closesAt: string | null;
+  opensAt: string | null;
+}
+
+export interface TravelEstimate {
+  roadKm: number;
+  walkingMinutes: number;
+  drivingMinutes: number;
+}
+
+export interface NearbyStock {
+  stockId: string;
+  pharmacy: Pharmacy;
+  quantity: number;
+  status: string;
+  stockUpdatedAt: string | null;
+  distanceKm: number | null;
+  travel: TravelEstimate | null;
+  openStatus: OpenStatus;
+}
+
+export interface NearbyStockResponse {
+  origin: { lat: number; lng: number; label: string | null };
+  results: NearbyStock[];
+}
+
+export function parseOpeningHours(value: unknown): OpeningWindow[] | null {
+  if (value === null || value === undefined || value === '') return null;
+  try {
+    const parsed = openingHoursSchema.safeParse(typeof value === 'string' ? JSON.parse(value) : value);
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Open/closed state at `now` in clinic time, with the next change. Yesterday's
+ * windows are checked too so an overnight window is still open after midnight.
+ */
+export function getOpenStatus(hours: OpeningWindow[] | null, now: Date = new Date()): OpenStatus {
+  if (!hours || hours.length === 0) {
+    return { isOpen: null, closesAt: null, opensAt: null };
+  }
+
+  let nextOpening: Date | null = null;
+  for (let offset = -1; offset <= 7; offset++) {
+    const date = toClinicDateString(new Date(now.getTime() + offset * DAY_MS));
+    const dayOfWeek = getClinicDayOfWeek(date);
+
+    for (const window of hours.filter(w => w.dayOfWeek === dayOfWeek)) {
+      const open = parseTimeOfDay(window.open);
+      const close = parseTimeOfDay(window.close);
+      const start = clinicTimeToDate(date, open);
+      const end = clinicTimeToDate(date, close <= open ? close + 24 * 60 : close);
+
+      if (start <= now && now < end) {
+        return { isOpen: true, closesAt: end.toISOString(), opensAt: null };
+      }
+      if (start > now && (!nextOpening || start < nextOpening)) {
+        nextOpening = start;
+      }
+    }
+  }
+
+  return { isOpen: false, closesAt: null, opensAt: nextOpening?.toISOString() ?? null };
+}
+
+// Rough estimates from straight-line distance; there is no routing service behind them
+export function estimateTravel(straightLineKm: number): TravelEstimate {
+  const roadKm = straightLineKm * ROAD_DETOUR_FACTOR;
+  return {
+    roadKm: Math.round(roadKm * 10) / 10,
+    walkingMinutes: Math.max(1, Math.round(roadKm / WALKING_SPEED_KMH * 60)),
+    drivingMinutes: Math.max(1, Math.round(roadKm / DRIVING_SPEED_KMH * 60)),
+  };
+}
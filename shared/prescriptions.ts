@@ -0,0 +1,171 @@
+/**
+ * Prescription Utilities
+ * Shape and validation of the medicines list a doctor writes on a prescription
+ */
+
+import { z } from 'zod';
+
+// Upper bounds keep a single prescription reviewable by the pharmacist
+export const MAX_MEDICINES_PER_PRESCRIPTION = 20;
+export const MAX_PRESCRIPTION_DAYS = 365;
+
+export const prescriptionMedicineSchema = z.object({
+  medicineId: z.string().min(1),
+  medicineName: z.string().min(1).max(200),
+  dosage: z.string().min(1).max(50),
+  // Free text such as "1-0-1" or "every 8 hours"
+  frequency: z.string().min(1).max(50),
+  durationDays: z.number().int().min(1).max(MAX_PRESCRIPTION_DAYS),
+  quantity: z.number().int().min(1).max(1000),
+  instructions: z.string().max(500).optional(),
+});
+
+export const prescriptionMedicinesSchema = z
+  .array(prescriptionMedicineSchema)
+  .min(1, 'A prescription needs at least one medicine')
+  .max(MAX_MEDICINES_PER_PRESCRIPTION)
+  .refine(
+    medicines => new Set(medicines.map(m => m.medicineId)).size === medicines.length,
+    'Each medicine may appear only once'
+  );
+
+export type PrescriptionMedicine = z.infer<typeof prescriptionMedicineSchema>;
+
+// Request body for POST /api/prescriptions; patient and doctor come from the appointment
+export const createPrescriptionSchema = z.object({
+  appointmentId: z.string().min(1),
+  medicines: prescriptionMedicinesSchema,
+  instructions: z.string().max(2000).optional(),
+});
+
+export type CreatePrescriptionRequest = z.infer<typeof createPrescriptionSchema>;
+
+export const PRESCRIPTION_STATUSES = ['pending', 'processing', 'ready', 'partially_dispensed', 'dispensed', 'cancelled'] as const;
+
+export type PrescriptionStatus = typeof PRESCRIPTION_STATUSES[number];
+
+/**
+ * Allowed status changes. A prescription can be cancelled until the first item is
+ * handed over; asking for "dispensed" ends in partially_dispensed when stock runs short.
+ */
+export const PRESCRIPTION_TRANSITIONS: Record<PrescriptionStatus, readonly PrescriptionStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['ready', 'cancelled'],
+  ready: ['dispensed', 'cancelled'],
+  partially_dispensed: ['dispensed'],
+  dispensed: [],
+  cancelled: [],
+};
+
+export function canTransitionPrescription(from: string, to: PrescriptionStatus): boolean {
+  return (PRESCRIPTION_TRANSITIONS[from as PrescriptionStatus] ?? []).includes(to);
+}
+
+// Request body for PUT /api/prescriptions/:id/status
+export const updatePrescriptionStatusSchema = z.object({
+  status: z.enum(['processing', 'ready', 'dispensed', 'cancelled']),
+  note: z.string().max(500).optional(),
+  // Only for "dispensed": what is handed over now. Omitted means everything outstanding that is in stock.
+  items: z.array(z.object({
+    medicineId: z.string().min(1),
+    quantity: z.number().int().min(0).max(1000),
+  })).max(MAX_MEDICINES_PER_PRESCRIPTION).optional(),
+});
+
+export type UpdatePrescriptionStatusRequest = z.infer<typeof updatePrescriptionStatusSchema>;
+
+/**
+ * Medicines are stored as a JSON string (SQLite) or jsonb (PostgreSQL)
+ */
+export function parsePrescriptionMedicines(value: unknown): PrescriptionMedicine[] {
+  if (Array.isArray(value)) return value as PrescriptionMedicine[];
+  if (typeof value !== 'string' || value.length === 0) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function withParsedMedicines<T extends { medicines: unknown }>(
+  prescription: T
+): Omit<T, 'medicines'> & { medicines: PrescriptionMedicine[] } {
+  return { ...prescription, medicines: parsePrescriptionMedicines(prescription.medicines) };
+}
+
+// How long a signed prescription may be dispensed against
+export const PRESCRIPTION_VALIDITY_DAYS = 30;
+
+export interface SignablePrescription {
+  id: string;
+  patientId: string;
+  doctorId: string;
+  appointmentId: string | null;
+  medicines: PrescriptionMedicine[];
+  instructions: string | null;
+  licenseNumber: string;
+  signingKeyId: string;
+  signedAt: Date;
+  validUntil: Date;
+}
+
+/**
+ * The exact bytes a doctor signs. Field order is fixed so the server can
+ * recompute it from the stored row at verification time.
+ */
+export function canonicalPrescriptionPayload(prescription: SignablePrescription): string {
+  return JSON.stringify([
+    'sehatsetu-prescription-v1',
+    prescription.id,
+    prescription.patientId,
+    prescription.doctorId,
+    prescription.appointmentId,
+    prescription.licenseNumber,
+    prescription.signingKeyId,
+    prescription.signedAt.toISOString(),
+    prescription.validUntil.toISOString(),
+    prescription.medicines.map(m => [
+      m.medicineId, m.medicineName, m.dosage, m.frequency, m.durationDays, m.quantity, m.instructions ?? null,
+    ]),
+    prescription.instructions,
+  ]);
+}
+
+// Printed QR codes carry the prescription id and its signature
+const QR_PREFIX = 'SEHATRX1';
+
+export function encodePrescriptionQr(prescriptionId: string, signature: string): string {
+  return `${QR_PREFIX}:${prescriptionId}:${signature}`;
+}
+
+export function decodePrescriptionQr(text: string): { prescriptionId: string; signature: string } | null {
+  const [prefix, prescriptionId, signature] = text.trim().split(':');
+  if (prefix !== QR_PREFIX || !prescriptionId || !signature) return null;
+  return { prescriptionId, signature };
+}
+
+export interface PrescriptionVerification {
+  valid: boolean;
+  checks: {
+    signature: boolean;
+    matchesPresentedCode: boolean;
+    keyActive: boolean;
+    notExpired: boolean;
+    notDispensed: boolean;
+    notCancelled: boolean;
+  };
+  problems: string[];
+  prescription: {
+    id: string;
+    status: string;
+    signedAt: string | null;
+    validUntil: string | null;
+    patientName: string;
+    doctorName: string;
+    licenseNumber: string | null;
+    keyFingerprint: string | null;
+    medicines: PrescriptionMedicine[];
+    instructions: string | null;
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Purchasing
+ * Suppliers, purchase orders and goods-received notes (GRNs). A reorder alert
+ * drafts an order; nothing is sent to a supplier until a pharmacist approves
+ * it, and stock only goes up when a GRN books the delivered batches in.
+ */
+
+import { z } from 'zod';
+import { isValidDateString } from './scheduling';
+import type { GoodsReceipt, PurchaseOrder, PurchaseOrderLine, Supplier } from './schema';
+
+export const PURCHASE_ORDER_STATUSES = ['draft', 'sent', 'partially_received', 'received', 'cancelled'] as const;
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
+// Orders that still expect goods (or may still be edited), so a medicine on one is not drafted again
+export const OPEN_PURCHASE_ORDER_STATUSES: readonly PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, readonly PurchaseOrderStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['partially_received', 'received'],
+  received: [],
+  cancelled: [],
+};
+
+export function canTransitionPurchaseOrder(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return PURCHASE_ORDER_TRANSITIONS[from].includes(to);
+}
+
+export const MAX_PURCHASE_ORDER_LINES = 100;
+
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+export const supplierSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  contactName: optionalText(200),
+  phone: optionalText(20),
+  email: z.string().trim().email().optional(),
+  address: optionalText(500),
+  leadTimeDays: z.number().int().min(0).max(365).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const reorderRuleSchema = z.object({
+  reorderPoint: z.number().int().min(0).max(1_000_000),
+  reorderQuantity: z.number().int().positive().max(1_000_000),
+  preferredSupplierId: z.string().min(1).nullable().optional(),
+});
+
+const purchaseOrderLineSchema = z.object({
+  medicineId: z.string().min(1),
+  quantity: z.number().int().positive().max(1_000_000),
+  // Per unit, in the same currency unit as medicines.price
+  unitCost: z.number().int().min(0).optional(),
+});
+
+const uniqueMedicines = (lines: { medicineId: string }[]) =>
+  new Set(lines.map(line => line.medicineId)).size === lines.length;
+
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1).optional(),
+  notes: optionalText(1000),
+  lines: z.array(purchaseOrderLineSchema).min(1).max(MAX_PURCHASE_ORDER_LINES)
+    .refine(uniqueMedicines, 'Each medicine may appear on an order only once'),
+});
+
+// Drafts only; lines, when given, replace the order's lines
+export const updatePurchaseOrderSchema = createPurchaseOrderSchema.partial();
+
+export const autoDraftPurchaseOrdersSchema = z.object({
+  medicineIds: z.array(z.string().min(1)).min(1).max(MAX_PURCHASE_ORDER_LINES),
+});
+
+export const cancelPurchaseOrderSchema = z.object({
+  reason: optionalText(500),
+});
+
+export const goodsReceiptSchema = z.object({
+  invoiceNumber: optionalText(100),
+  notes: optionalText(1000),
+  lines: z.array(z.object({
+    lineId: z.string().min(1),
+    quantity: z.number().int().positive().max(1_000_000),
+    batchNumber: z.string().trim().min(1).max(50),
+    expiryDate: z.string().refine(isValidDateString, 'Expected a YYYY-MM-DD date'),
+    // Defaults to the cost on the order line
+    unitCost: z.number().int().min(0).optional(),
+  })).min(1).max(MAX_PURCHASE_ORDER_LINES),
+});
+
+export const purchaseOrdersQuerySchema = z.object({
+  status: z.enum(PURCHASE_ORDER_STATUSES).optional(),
+});
+
+export type SupplierRequest = z.infer<typeof supplierSchema>;
+export type ReorderRuleRequest = z.infer<typeof reorderRuleSchema>;
+export type CreatePurchaseOrderRequest = z.infer<typeof createPurchaseOrderSchema>;
+export type UpdatePurchaseOrderRequest = z.infer<typeof updatePurchaseOrderSchema>;
+export type GoodsReceiptRequest = z.infer<typeof goodsReceiptSchema>;
+
+export interface PurchaseOrderDetail extends PurchaseOrder {
+  supplier: Supplier | null;
+  lines: (PurchaseOrderLine & { medicineName: string })[];
+  receipts: GoodsReceipt[];
+}
+
+/**
+ * Order status once a delivery has been booked against the lines: received
+ * when every line is complete, partially received otherwise.
+ */
+export function statusAfterReceipt(lines: Pick<PurchaseOrderLine, 'quantityOrdered' | 'quantityReceived'>[]): PurchaseOrderStatus {
+  return lines.every(line => line.quantityReceived >= line.quantityOrdered) ? 'received' : 'partially_received';
+}
+
+/**
+ * Quantity to draft for a medicine at or below its reorder point: the rule's
+ * reorder quantity, or enough to refill to the stock row's maximum.
+ */
+export function suggestedOrderQuantity(
+  stock: { quantity: number; maximumStock: number },
+  rule?: { reorderQuantity: number }
+): number {
+  return rule ? rule.reorderQuantity : Math.max(1, stock.maximumStock - stock.quantity);
+}
@@ -0,0 +1,187 @@
+/**
+ * Doctor Scheduling Utilities
+ * Computes bookable appointment slots from weekly hours, breaks, leave days and existing bookings
+ */
+
+// All clinic times are stored as local Indian Standard Time (UTC+05:30)
+export const CLINIC_UTC_OFFSET_MINUTES = 330;
+export const DEFAULT_SLOT_MINUTES = 15;
+
+export interface WorkingWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  slotMinutes?: number;
+}
+
+export interface BreakWindow {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface BookedInterval {
+  scheduledAt: Date | string | number;
+  durationMinutes?: number | null;
+  status?: string;
+}
+
+export interface AvailableSlot {
+  start: string;
+  end: string;
+  durationMinutes: number;
+}
+
+export interface SlotInput {
+  workingHours: WorkingWindow[];
+  breaks: BreakWindow[];
+  leaveDates: string[];
+  booked: BookedInterval[];
+  now?: Date;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function isValidDateString(date: string): boolean {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) return false;
+  const [, y, m, d] = match.map(Number);
+  const parsed = new Date(Date.UTC(y, m - 1, d));
+  return parsed.getUTCFullYear() === y && parsed.getUTCMonth() === m - 1 && parsed.getUTCDate() === d;
+}
+
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Day of week (0 = Sunday) for a clinic-local YYYY-MM-DD date
+ */
+export function getClinicDayOfWeek(date: string): number {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/**
+ * Convert a clinic-local date and minutes-from-midnight into an absolute instant
+ */
+export function clinicTimeToDate(date: string, minutesOfDay: number): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d, 0, minutesOfDay) - CLINIC_UTC_OFFSET_MINUTES * 60 * 1000);
+}
+
+/**
+ * Clinic-local YYYY-MM-DD date for an absolute instant
+ */
+export function toClinicDateString(instant: Date): string {
+  const local = new Date(instant.getTime() + CLINIC_UTC_OFFSET_MINUTES * 60 * 1000);
+  return local.toISOString().slice(0, 10);
+}
+
+export function intervalsOverlap(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+export function toBookedInterval(booking: BookedInterval): Interval {
+  const start = new Date(booking.scheduledAt).getTime();
+  const duration = booking.durationMinutes || DEFAULT_SLOT_MINUTES;
+  return { start, end: start + duration * 60 * 1000 };
+}
+
+/**
+ * Compute free slots for a single clinic-local date.
+ * Slots are laid out from the start of each working window, skipping any that
+ * touch a break, an existing non-cancelled booking, or that have already started.
+ */
+export function computeAvailableSlots(date: string, input: SlotInput): AvailableSlot[] {
+  if (input.leaveDates.includes(date)) {
+    return [];
+  }
+
+  const dayOfWeek = getClinicDayOfWeek(date);
+  const now = (input.now ?? new Date()).getTime();
+
+  const breaks: Interval[] = input.breaks
+    .filter(b => b.dayOfWeek === dayOfWeek)
+    .map(b => ({
+      start: clinicTimeToDate(date, parseTimeOfDay(b.startTime)).getTime(),
+      end: clinicTimeToDate(date, parseTimeOfDay(b.endTime)).getTime(),
+    }));
+
+  const booked: Interval[] = input.booked
+    .filter(b => b.status !== 'cancelled')
+    .map(toBookedInterval);
+
+  const slots: AvailableSlot[] = [];
+  const windows = input.workingHours
+    .filter(w => w.dayOfWeek === dayOfWeek)
+    .sort((a, b) => parseTimeOfDay(a.startTime) - parseTimeOfDay(b.startTime));
+
+  for (const window of windows) {
+    const slotMinutes = window.slotMinutes || DEFAULT_SLOT_MINUTES;
+    const windowEnd = parseTimeOfDay(window.endTime);
+
+    for (let minute = parseTimeOfDay(window.startTime); minute + slotMinutes <= windowEnd; minute += slotMinutes) {
+      const slot: Interval = {
+        start: clinicTimeToDate(date, minute).getTime(),
+        end: clinicTimeToDate(date, minute + slotMinutes).getTime(),
+      };
+
+      if (slot.start <= now) continue;
+      if (breaks.some(b => intervalsOverlap(slot, b))) continue;
+      if (booked.some(b => intervalsOverlap(slot, b))) continue;
+
+      slots.push({
+        start: new Date(slot.start).toISOString(),
+        end: new Date(slot.end).toISOString(),
+        durationMinutes: slotMinutes,
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Check that a requested booking lies inside the doctor's working hours and outside breaks/leave
+ */
+export function isWithinAvailability(
+  scheduledAt: Date,
+  durationMinutes: number,
+  schedule: Pick<SlotInput, 'workingHours' | 'breaks' | 'leaveDates'>
+): boolean {
+  const date = toClinicDateString(scheduledAt);
+  if (schedule.leaveDates.includes(date)) {
+    return false;
+  }
+
+  const dayOfWeek = getClinicDayOfWeek(date);
+  const requested: Interval = {
+    start: scheduledAt.getTime(),
+    end: scheduledAt.getTime() + durationMinutes * 60 * 1000,
+  };
+
+  const insideWorkingHours = schedule.workingHours
+    .filter(w => w.dayOfWeek === dayOfWeek)
+    .some(w =>
+      requested.start >= clinicTimeToDate(date, parseTimeOfDay(w.startTime)).getTime() &&
+      requested.end <= clinicTimeToDate(date, parseTimeOfDay(w.endTime)).getTime()
+    );
+
+  if (!insideWorkingHours) {
+    return false;
+  }
+
+  return !schedule.breaks
+    .filter(b => b.dayOfWeek === dayOfWeek)
+    .some(b => intervalsOverlap(requested, {
+      start: clinicTimeToDate(date, parseTimeOfDay(b.startTime)).getTime(),
+      end: clinicTimeToDate(date, parseTimeOfDay(b.endTime)).getTime(),
+    }));
+}
@@ -7,9 +7,11 @@ import { relations } from "drizzle-orm";
 export const users = sqliteTable("users", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   firebaseUid: text("firebase_uid").notNull().unique(),
-  email: text("email").notNull().unique(),
+  email: text("email").notNull(), // encrypted; look up via emailIndex
+  emailIndex: text("email_index").unique(), // blind index of the normalized email
   name: text("name").notNull(),
-  phone: text("phone"),
+  phone: text("phone"), // encrypted; look up via phoneIndex
+  phoneIndex: text("phone_index"),
   role: text("role").notNull().default("patient"),
   profilePicture: text("profile_picture"),
   isActive: integer("is_active", { mode: "boolean" }).default(true),
@@ -42,6 +44,7 @@ export const appointments = pgTable("appointments", {
   patientId: varchar("patient_id").notNull().references(() => users.id),
   doctorId: varchar("doctor_id").notNull().references(() => doctors.id),
   scheduledAt: timestamp("scheduled_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(15),
   status: text("status", { enum: ["scheduled", "ongoing", "completed", "cancelled"] }).notNull().default("scheduled"),
   type: text("type", { enum: ["video", "audio", "chat"] }).notNull().default("video"),
   notes: text("notes"),
@@ -51,7 +54,52 @@ export const appointments = pgTable("appointments", {
   priority: integer("priority").default(0),
   appointmentTime: timestamp("appointment_time"),
   instructions: text("instructions"),
+  consultationNote: text("consultation_note"), // JSON SOAP note written by the doctor
+  callStartedAt: integer("call_started_at", { mode: "timestamp" }), // first time the patient and doctor were both connected
+  callEndedAt: integer("call_ended_at", { mode: "timestamp" }),
+  callDurationSeconds: integer("call_duration_seconds").notNull().default(0), // time connected, summed over reconnects
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+// Doctor scheduling: weekly working hours, recurring breaks and leave days.
+// Times are "HH:mm" in clinic-local time (IST), dayOfWeek is 0 (Sunday) - 6.
+export const doctorWorkingHours = sqliteTable("doctor_working_hours", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  doctorId: text("doctor_id").notNull().references(() => doctors.id),
+  dayOfWeek: integer("day_of_week").notNull(),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  slotMinutes: integer("slot_minutes").notNull().default(15),
+});
+
+export const doctorBreaks = sqliteTable("doctor_breaks", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  doctorId: text("doctor_id").notNull().references(() => doctors.id),
+  dayOfWeek: integer("day_of_week").notNull(),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  label: text("label"),
+});
+
+export const doctorLeaves = sqliteTable("doctor_leaves", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  doctorId: text("doctor_id").notNull().references(() => doctors.id),
+  date: text("date").notNull(), // YYYY-MM-DD
+  reason: text("reason"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+// Per-doctor Ed25519 keys for e-prescription signatures, bound to the licence they were issued under
+export const doctorSigningKeys = sqliteTable("doctor_signing_keys", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  doctorId: text("doctor_id").notNull().references(() => doctors.id),
+  licenseNumber: text("license_number").notNull(),
+  publicKey: text("public_key").notNull(), // SPKI PEM
+  privateKey: text("private_key").notNull(), // PKCS#8 PEM, encrypted at rest
+  fingerprint: text("fingerprint").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
 });
 
 export const healthRecords = pgTable("health_records", {
@@ -68,7 +116,10 @@ export const healthRecords = pgTable("health_records", {
   unit: text("unit"),
   normalRange: text("normal_range"),
   notes: text("notes"),
+  // Bumped on every edit; offline clients send the version they edited for conflict detection
+  version: integer("version").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
 
 export const medicines = pgTable("medicines", {
@@ -94,6 +145,8 @@ export const pharmacies = pgTable("pharmacies", {
   isActive: boolean("is_active").default(true),
   pharmacistId: varchar("pharmacist_id").references(() => users.id),
   licenseNumber: text("license_number"),
+  // Weekly opening windows in clinic time, see openingHoursSchema in shared/pharmacyLocator
+  openingHours: text("opening_hours"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -115,19 +168,170 @@ export const prescriptions = pgTable("prescriptions", {
   appointmentId: varchar("appointment_id").references(() => appointments.id),
   medicines: jsonb("medicines").notNull(),
   instructions: text("instructions"),
-  status: text("status", { enum: ["pending", "processing", "ready", "dispensed", "cancelled"] }).notNull().default("pending"),
+  status: text("status", { enum: ["pending", "processing", "ready", "partially_dispensed", "dispensed", "cancelled"] }).notNull().default("pending"),
   pharmacyId: varchar("pharmacy_id").references(() => pharmacies.id),
   pharmacistId: varchar("pharmacist_id").references(() => pharmacists.id),
+  signature: text("signature"), // base64url Ed25519 signature over the canonical prescription
+  signingKeyId: text("signing_key_id").references(() => doctorSigningKeys.id),
+  signedAt: integer("signed_at", { mode: "timestamp_ms" }),
+  validUntil: integer("valid_until", { mode: "timestamp_ms" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One row per status change, so every prescription has a who/when trail
+export const prescriptionStatusHistory = sqliteTable("prescription_status_history", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  prescriptionId: text("prescription_id").notNull().references(() => prescriptions.id),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  changedBy: text("changed_by").notNull().references(() => users.id),
+  note: text("note"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+// Quantities handed over at each dispensing; several rows per medicine when dispensed in parts
+export const prescriptionDispenseItems = sqliteTable("prescription_dispense_items", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  prescriptionId: text("prescription_id").notNull().references(() => prescriptions.id),
+  historyId: text("history_id").notNull().references(() => prescriptionStatusHistory.id),
+  pharmacyId: text("pharmacy_id").notNull().references(() => pharmacies.id),
+  medicineId: text("medicine_id").notNull().references(() => medicines.id),
+  // null for stock counted before batch tracking
+  batchId: text("batch_id").references(() => stockBatches.id),
+  quantity: integer("quantity").notNull(),
+  dispensedBy: text("dispensed_by").notNull().references(() => users.id),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+// Rows deleted from (or moved out of) a GET /api/changes scope, so offline copies
+// are removed too. Each scope column names who should hear about it.
+export const tombstones = sqliteTable("tombstones", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  entity: text("entity").notNull(),
+  entityId: text("entity_id").notNull(),
+  patientId: text("patient_id"),
+  doctorId: text("doctor_id"),
+  pharmacyId: text("pharmacy_id"),
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Offline changes already applied through POST /api/sync, keyed by the client's
+// idempotency key so a replayed batch is not applied twice. Holds no record
+// content: replays are answered with the row as it is now.
+export const syncOperations = sqliteTable("sync_operations", {
+  idempotencyKey: text("idempotency_key").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id),
+  entity: text("entity").notNull(),
+  operation: text("operation").notNull(),
+  entityId: text("entity_id"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+// One delivery of a medicine to a pharmacy. quantity is what is left of it;
+// medicine_stock.quantity is the pharmacy's total across batches.
+export const stockBatches = sqliteTable("stock_batches", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  stockId: text("stock_id").notNull().references(() => medicineStock.id),
+  pharmacyId: text("pharmacy_id").notNull().references(() => pharmacies.id),
+  medicineId: text("medicine_id").notNull().references(() => medicines.id),
+  batchNumber: text("batch_number").notNull(),
+  expiryDate: text("expiry_date").notNull(), // YYYY-MM-DD, last day the batch may be sold
+  quantityReceived: integer("quantity_received").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitCost: integer("unit_cost"),
+  supplier: text("supplier"),
+  receivedBy: text("received_by").notNull().references(() => users.id),
+  receivedAt: integer("received_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  writtenOffAt: integer("written_off_at", { mode: "timestamp_ms" }),
+  // Set when the batch was booked in against a purchase order
+  goodsReceiptId: text("goods_receipt_id").references(() => goodsReceipts.id),
+  purchaseOrderLineId: text("purchase_order_line_id").references(() => purchaseOrderLines.id),
+});
+
+// Append-only record of stock changes; quantity is signed (negative for stock leaving)
+export const stockMovements = sqliteTable("stock_movements", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  stockId: text("stock_id").notNull().references(() => medicineStock.id),
+  pharmacyId: text("pharmacy_id").notNull().references(() => pharmacies.id),
+  medicineId: text("medicine_id").notNull().references(() => medicines.id),
+  batchId: text("batch_id").references(() => stockBatches.id),
+  type: text("type", { enum: ["in", "out", "adjustment", "expired", "damaged", "dispensed"] }).notNull(),
+  quantity: integer("quantity").notNull(),
+  balanceAfter: integer("balance_after").notNull(),
+  reason: text("reason"),
+  prescriptionId: text("prescription_id").references(() => prescriptions.id),
+  userId: text("user_id").references(() => users.id),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const suppliers = sqliteTable("suppliers", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  phone: text("phone"),
+  email: text("email"),
+  address: text("address"),
+  leadTimeDays: integer("lead_time_days"),
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+// When a pharmacy's stock of a medicine falls to reorderPoint, draft an order for reorderQuantity
+export const reorderRules = sqliteTable("reorder_rules", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  pharmacyId: text("pharmacy_id").notNull().references(() => pharmacies.id),
+  medicineId: text("medicine_id").notNull().references(() => medicines.id),
+  reorderPoint: integer("reorder_point").notNull(),
+  reorderQuantity: integer("reorder_quantity").notNull(),
+  preferredSupplierId: text("preferred_supplier_id").references(() => suppliers.id),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+export const purchaseOrders = sqliteTable("purchase_orders", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  pharmacyId: text("pharmacy_id").notNull().references(() => pharmacies.id),
+  // A draft may be saved without a supplier; one is required before it is sent
+  supplierId: text("supplier_id").references(() => suppliers.id),
+  status: text("status", { enum: ["draft", "sent", "partially_received", "received", "cancelled"] }).notNull().default("draft"),
+  notes: text("notes"),
+  autoDrafted: integer("auto_drafted", { mode: "boolean" }).notNull().default(false),
+  createdBy: text("created_by").references(() => users.id), // null when drafted from a reorder alert
+  approvedBy: text("approved_by").references(() => users.id),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  sentAt: integer("sent_at", { mode: "timestamp_ms" }),
+  closedAt: integer("closed_at", { mode: "timestamp_ms" }), // fully received or cancelled
+});
+
+export const purchaseOrderLines = sqliteTable("purchase_order_lines", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  purchaseOrderId: text("purchase_order_id").notNull().references(() => purchaseOrders.id),
+  medicineId: text("medicine_id").notNull().references(() => medicines.id),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").notNull().default(0),
+  unitCost: integer("unit_cost"),
+});
+
+// Goods-received note; each line it books in becomes a stock batch
+export const goodsReceipts = sqliteTable("goods_receipts", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  purchaseOrderId: text("purchase_order_id").notNull().references(() => purchaseOrders.id),
+  pharmacyId: text("pharmacy_id").notNull().references(() => pharmacies.id),
+  invoiceNumber: text("invoice_number"),
+  notes: text("notes"),
+  receivedBy: text("received_by").notNull().references(() => users.id),
+  receivedAt: integer("received_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
 export const medicineStock = pgTable("medicine_stock", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   pharmacyId: varchar("pharmacy_id").notNull().references(() => pharmacies.id),
   medicineId: varchar("medicine_id").notNull().references(() => medicines.id),
   quantity: integer("quantity").notNull().default(0),
   status: text("status", { enum: ["available", "limited", "out_of_stock"] }).notNull(),
+  // Bumped on every write; offline clients send the version they edited for conflict detection
+  version: integer("version").notNull().default(1),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -140,6 +344,66 @@ export const symptomChecks = pgTable("symptom_checks", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// People other than the patient and doctor allowed into an appointment's video call,
+// e.g. an interpreter, an ASHA worker or a family member
+export const appointmentParticipants = sqliteTable("appointment_participants", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  appointmentId: text("appointment_id").notNull().references(() => appointments.id),
+  userId: text("user_id").notNull().references(() => users.id),
+  invitedBy: text("invited_by").notNull().references(() => users.id),
+  // A guest the patient invites can join once the doctor confirms; the doctor's own guests are confirmed at once
+  confirmedAt: integer("confirmed_at", { mode: "timestamp_ms" }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Chat between the people in an appointment; the transcript stays with the appointment
+export const consultationMessages = sqliteTable("consultation_messages", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  appointmentId: text("appointment_id").notNull().references(() => appointments.id),
+  senderId: text("sender_id").notNull().references(() => users.id),
+  // Generated by the sender's device so a message sent again after a dropped connection is stored once
+  clientMessageId: text("client_message_id"),
+  body: text("body").notNull(), // encrypted at rest; may be empty when a file is shared
+  // A shared photo or report, filed as the patient's health record
+  healthRecordId: text("health_record_id").references(() => healthRecords.id),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  // First time someone other than the sender received and read it
+  deliveredAt: integer("delivered_at", { mode: "timestamp_ms" }),
+  readAt: integer("read_at", { mode: "timestamp_ms" }),
+});
+
+// Contents of files attached to health records; the record's fileUrl serves them
+export const healthRecordFiles = sqliteTable("health_record_files", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  recordId: text("record_id").notNull().references(() => healthRecords.id),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  data: text("data").notNull(), // base64, encrypted at rest
+  uploadedBy: text("uploaded_by").notNull().references(() => users.id),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Walk-in teleconsult queue: patients who arrive at the hospital desk or a
+// village centre without an appointment wait here until a doctor calls them
+export const walkIns = sqliteTable("walk_ins", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  patientId: text("patient_id").notNull().references(() => users.id),
+  registeredBy: text("registered_by").notNull().references(() => users.id), // the patient, or the ASHA worker / desk staff on their behalf
+  source: text("source", { enum: ["self", "asha", "desk"] }).notNull().default("self"),
+  location: text("location"), // village centre or hospital desk the patient is waiting at
+  reason: text("reason"),
+  symptomCheckId: text("symptom_check_id").references(() => symptomChecks.id), // the check the priority was taken from
+  severity: text("severity"), // copied from that check
+  priority: integer("priority").notNull().default(0),
+  doctorId: text("doctor_id").references(() => doctors.id), // null until an online doctor is available
+  appointmentId: text("appointment_id").references(() => appointments.id), // set when the doctor calls the patient
+  status: text("status", { enum: ["waiting", "called", "cancelled"] }).notNull().default("waiting"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  calledAt: integer("called_at", { mode: "timestamp_ms" }),
+  cancelledAt: integer("cancelled_at", { mode: "timestamp_ms" }),
+});
+
 export const analytics = pgTable("analytics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   type: text("type", { enum: ["appointment", "consultation", "medicine_usage", "disease_pattern", "user_activity"] }).notNull(),
@@ -149,16 +413,26 @@ export const analytics = pgTable("analytics", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const auditLogs = pgTable("audit_logs", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
+export const auditLogs = sqliteTable("audit_logs", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  sequence: integer("sequence").notNull().unique(),
+  userId: text("user_id"), // no FK: audit entries outlive the accounts they mention; null for system events
+  sessionId: text("session_id"),
   action: text("action").notNull(),
   resource: text("resource").notNull(),
-  resourceId: varchar("resource_id"),
-  details: jsonb("details"),
+  resourceId: text("resource_id"),
+  details: text("details"), // JSON string for SQLite
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
-  createdAt: timestamp("created_at").defaultNow(),
+  location: text("location"), // JSON string for SQLite
+  riskLevel: text("risk_level").notNull().default("low"),
+  complianceFlags: text("compliance_flags").notNull().default("[]"), // JSON string for SQLite
+  dataClassification: text("data_classification").notNull().default("internal"),
+  retentionDays: integer("retention_days").notNull(),
+  retainUntil: integer("retain_until", { mode: "timestamp" }).notNull(),
+  previousHash: text("previous_hash").notNull(),
+  hash: text("hash").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(), // ms precision: part of the hashed event
 });
 
 // Relations
@@ -174,11 +448,32 @@ export const usersRelations = relations(users, ({ one, many }) => ({
 
 export const doctorsRelations = relations(doctors, ({ one, many }) => ({
   user: one(users, { fields: [doctors.userId], references: [users.id] }),
+  workingHours: many(doctorWorkingHours),
+  breaks: many(doctorBreaks),
+  leaves: many(doctorLeaves),
+  signingKeys: many(doctorSigningKeys),
   appointments: many(appointments),
   healthRecords: many(healthRecords),
   prescriptions: many(prescriptions),
 }));
 
+export const doctorWorkingHoursRelations = relations(doctorWorkingHours, ({ one }) => ({
+  doctor: one(doctors, { fields: [doctorWorkingHours.doctorId], references: [doctors.id] }),
+}));
+
+export const doctorBreaksRelations = relations(doctorBreaks, ({ one }) => ({
+  doctor: one(doctors, { fields: [doctorBreaks.doctorId], references: [doctors.id] }),
+}));
+
+export const doctorLeavesRelations = relations(doctorLeaves, ({ one }) => ({
+  doctor: one(doctors, { fields: [doctorLeaves.doctorId], references: [doctors.id] }),
+}));
+
+export const doctorSigningKeysRelations = relations(doctorSigningKeys, ({ one, many }) => ({
+  doctor: one(doctors, { fields: [doctorSigningKeys.doctorId], references: [doctors.id] }),
+  prescriptions: many(prescriptions),
+}));
+
 export const pharmacistsRelations = relations(pharmacists, ({ one, many }) => ({
   user: one(users, { fields: [pharmacists.userId], references: [users.id] }),
   pharmacy: one(pharmacies, { fields: [pharmacists.pharmacyId], references: [pharmacies.id] }),
@@ -198,12 +493,28 @@ export const appointmentsRelations = relations(appointments, ({ one, many }) =>
   prescriptions: many(prescriptions),
 }));
 
-export const prescriptionsRelations = relations(prescriptions, ({ one }) => ({
+export const prescriptionsRelations = relations(prescriptions, ({ one, many }) => ({
   patient: one(users, { fields: [prescriptions.patientId], references: [users.id] }),
   doctor: one(doctors, { fields: [prescriptions.doctorId], references: [doctors.id] }),
   appointment: one(appointments, { fields: [prescriptions.appointmentId], references: [appointments.id] }),
   pharmacy: one(pharmacies, { fields: [prescriptions.pharmacyId], references: [pharmacies.id] }),
   pharmacist: one(pharmacists, { fields: [prescriptions.pharmacistId], references: [pharmacists.id] }),
+  signingKey: one(doctorSigningKeys, { fields: [prescriptions.signingKeyId], references: [doctorSigningKeys.id] }),
+  statusHistory: many(prescriptionStatusHistory),
+  dispenseItems: many(prescriptionDispenseItems),
+}));
+
+export const prescriptionStatusHistoryRelations = relations(prescriptionStatusHistory, ({ one, many }) => ({
+  prescription: one(prescriptions, { fields: [prescriptionStatusHistory.prescriptionId], references: [prescriptions.id] }),
+  changedByUser: one(users, { fields: [prescriptionStatusHistory.changedBy], references: [users.id] }),
+  dispenseItems: many(prescriptionDispenseItems),
+}));
+
+export const prescriptionDispenseItemsRelations = relations(prescriptionDispenseItems, ({ one }) => ({
+  prescription: one(prescriptions, { fields: [prescriptionDispenseItems.prescriptionId], references: [prescriptions.id] }),
+  history: one(prescriptionStatusHistory, { fields: [prescriptionDispenseItems.historyId], references: [prescriptionStatusHistory.id] }),
+  pharmacy: one(pharmacies, { fields: [prescriptionDispenseItems.pharmacyId], references: [pharmacies.id] }),
+  medicine: one(medicines, { fields: [prescriptionDispenseItems.medicineId], references: [medicines.id] }),
 }));
 
 export const healthRecordsRelations = relations(healthRecords, ({ one }) => ({
@@ -221,19 +532,126 @@ export const symptomChecksRelations = relations(symptomChecks, ({ one }) => ({
   patient: one(users, { fields: [symptomChecks.patientId], references: [users.id] }),
 }));
 
+export const appointmentParticipantsRelations = relations(appointmentParticipants, ({ one }) => ({
+  appointment: one(appointments, { fields: [appointmentParticipants.appointmentId], references: [appointments.id] }),
+  user: one(users, { fields: [appointmentParticipants.userId], references: [users.id] }),
+}));
+
+export const consultationMessagesRelations = relations(consultationMessages, ({ one }) => ({
+  appointment: one(appointments, { fields: [consultationMessages.appointmentId], references: [appointments.id] }),
+  sender: one(users, { fields: [consultationMessages.senderId], references: [users.id] }),
+  healthRecord: one(healthRecords, { fields: [consultationMessages.healthRecordId], references: [healthRecords.id] }),
+}));
+
+export const healthRecordFilesRelations = relations(healthRecordFiles, ({ one }) => ({
+  record: one(healthRecords, { fields: [healthRecordFiles.recordId], references: [healthRecords.id] }),
+  uploader: one(users, { fields: [healthRecordFiles.uploadedBy], references: [users.id] }),
+}));
+
+export const walkInsRelations = relations(walkIns, ({ one }) => ({
+  patient: one(users, { fields: [walkIns.patientId], references: [users.id] }),
+  doctor: one(doctors, { fields: [walkIns.doctorId], references: [doctors.id] }),
+  symptomCheck: one(symptomChecks, { fields: [walkIns.symptomCheckId], references: [symptomChecks.id] }),
+  appointment: one(appointments, { fields: [walkIns.appointmentId], references: [appointments.id] }),
+}));
+
+export const syncOperationsRelations = relations(syncOperations, ({ one }) => ({
+  user: one(users, { fields: [syncOperations.userId], references: [users.id] }),
+}));
+
+export const stockBatchesRelations = relations(stockBatches, ({ one, many }) => ({
+  stock: one(medicineStock, { fields: [stockBatches.stockId], references: [medicineStock.id] }),
+  pharmacy: one(pharmacies, { fields: [stockBatches.pharmacyId], references: [pharmacies.id] }),
+  medicine: one(medicines, { fields: [stockBatches.medicineId], references: [medicines.id] }),
+  goodsReceipt: one(goodsReceipts, { fields: [stockBatches.goodsReceiptId], references: [goodsReceipts.id] }),
+  purchaseOrderLine: one(purchaseOrderLines, { fields: [stockBatches.purchaseOrderLineId], references: [purchaseOrderLines.id] }),
+  movements: many(stockMovements),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  stock: one(medicineStock, { fields: [stockMovements.stockId], references: [medicineStock.id] }),
+  batch: one(stockBatches, { fields: [stockMovements.batchId], references: [stockBatches.id] }),
+  user: one(users, { fields: [stockMovements.userId], references: [users.id] }),
+}));
+
+export const suppliersRelations = relations(suppliers, ({ many }) => ({
+  purchaseOrders: many(purchaseOrders),
+}));
+
+export const reorderRulesRelations = relations(reorderRules, ({ one }) => ({
+  pharmacy: one(pharmacies, { fields: [reorderRules.pharmacyId], references: [pharmacies.id] }),
+  medicine: one(medicines, { fields: [reorderRules.medicineId], references: [medicines.id] }),
+  preferredSupplier: one(suppliers, { fields: [reorderRules.preferredSupplierId], references: [suppliers.id] }),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  pharmacy: one(pharmacies, { fields: [purchaseOrders.pharmacyId], references: [pharmacies.id] }),
+  supplier: one(suppliers, { fields: [purchaseOrders.supplierId], references: [suppliers.id] }),
+  lines: many(purchaseOrderLines),
+  receipts: many(goodsReceipts),
+}));
+
+export const purchaseOrderLinesRelations = relations(purchaseOrderLines, ({ one, many }) => ({
+  purchaseOrder: one(purchaseOrders, { fields: [purchaseOrderLines.purchaseOrderId], references: [purchaseOrders.id] }),
+  medicine: one(medicines, { fields: [purchaseOrderLines.medicineId], references: [medicines.id] }),
+  batches: many(stockBatches),
+}));
+
+export const goodsReceiptsRelations = relations(goodsReceipts, ({ one, many }) => ({
+  purchaseOrder: one(purchaseOrders, { fields: [goodsReceipts.purchaseOrderId], references: [purchaseOrders.id] }),
+  batches: many(stockBatches),
+}));
+
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:mm");
+
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, emailIndex: true, phoneIndex: true, createdAt: true });
 export const insertDoctorSchema = createInsertSchema(doctors).omit({ id: true });
 export const insertPharmacistSchema = createInsertSchema(pharmacists).omit({ id: true, createdAt: true });
-export const insertAppointmentSchema = createInsertSchema(appointments).omit({ id: true, createdAt: true });
-export const insertHealthRecordSchema = createInsertSchema(healthRecords).omit({ id: true, createdAt: true });
+// Queue priority is set by triage or the care team, never by the patient booking; the status follows
+// the call and the consultation note, apart from the changes PUT /api/appointments/:id allows
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  scheduledAt: z.coerce.date(),
+  durationMinutes: z.number().int().min(5).max(240),
+}).omit({ id: true, createdAt: true, updatedAt: true, consultationNote: true, callStartedAt: true, callEndedAt: true, callDurationSeconds: true, priority: true, status: true });
+export const insertDoctorWorkingHoursSchema = createInsertSchema(doctorWorkingHours, {
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+  slotMinutes: z.number().int().min(5).max(240),
+}).omit({ id: true });
+export const insertDoctorBreakSchema = createInsertSchema(doctorBreaks, {
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+}).omit({ id: true });
+export const insertDoctorLeaveSchema = createInsertSchema(doctorLeaves, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+}).omit({ id: true, createdAt: true });
+export const insertDoctorSigningKeySchema = createInsertSchema(doctorSigningKeys).omit({ id: true, createdAt: true });
+export const insertHealthRecordSchema = createInsertSchema(healthRecords).omit({ id: true, version: true, createdAt: true, updatedAt: true });
 export const insertMedicineSchema = createInsertSchema(medicines).omit({ id: true });
 export const insertPharmacySchema = createInsertSchema(pharmacies).omit({ id: true, createdAt: true });
 export const insertPrescriptionSchema = createInsertSchema(prescriptions).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertMedicineStockSchema = createInsertSchema(medicineStock).omit({ id: true, updatedAt: true });
+export const insertPrescriptionStatusHistorySchema = createInsertSchema(prescriptionStatusHistory).omit({ id: true, createdAt: true });
+export const insertPrescriptionDispenseItemSchema = createInsertSchema(prescriptionDispenseItems).omit({ id: true, createdAt: true });
+export const insertTombstoneSchema = createInsertSchema(tombstones).omit({ id: true, deletedAt: true });
+export const insertSyncOperationSchema = createInsertSchema(syncOperations).omit({ createdAt: true });
+export const insertStockBatchSchema = createInsertSchema(stockBatches).omit({ id: true, receivedAt: true, writtenOffAt: true });
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({ id: true, createdAt: true });
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({ id: true, createdAt: true });
+export const insertReorderRuleSchema = createInsertSchema(reorderRules).omit({ id: true, updatedAt: true });
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({ id: true, createdAt: true, updatedAt: true, sentAt: true, closedAt: true });
+export const insertPurchaseOrderLineSchema = createInsertSchema(purchaseOrderLines).omit({ id: true, quantityReceived: true });
+export const insertGoodsReceiptSchema = createInsertSchema(goodsReceipts).omit({ id: true, receivedAt: true });
+export const insertMedicineStockSchema = createInsertSchema(medicineStock).omit({ id: true, version: true, updatedAt: true });
 export const insertSymptomCheckSchema = createInsertSchema(symptomChecks).omit({ id: true, createdAt: true });
+export const insertAppointmentParticipantSchema = createInsertSchema(appointmentParticipants).omit({ id: true, createdAt: true });
+export const insertConsultationMessageSchema = createInsertSchema(consultationMessages).omit({ id: true, createdAt: true, deliveredAt: true, readAt: true });
+export const insertHealthRecordFileSchema = createInsertSchema(healthRecordFiles).omit({ id: true, createdAt: true });
+export const insertWalkInSchema = createInsertSchema(walkIns).omit({ id: true, createdAt: true, calledAt: true, cancelledAt: true });
 export const insertAnalyticsSchema = createInsertSchema(analytics).omit({ id: true, createdAt: true });
-export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, createdAt: true });
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, sequence: true, previousHash: true, hash: true });
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -244,6 +662,14 @@ export type Pharmacist = typeof pharmacists.$inferSelect;
 export type InsertPharmacist = z.infer<typeof insertPharmacistSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type DoctorWorkingHours = typeof doctorWorkingHours.$inferSelect;
+export type InsertDoctorWorkingHours = z.infer<typeof insertDoctorWorkingHoursSchema>;
+export type DoctorBreak = typeof doctorBreaks.$inferSelect;
+export type InsertDoctorBreak = z.infer<typeof insertDoctorBreakSchema>;
+export type DoctorLeave = typeof doctorLeaves.$inferSelect;
+export type InsertDoctorLeave = z.infer<typeof insertDoctorLeaveSchema>;
+export type DoctorSigningKey = typeof doctorSigningKeys.$inferSelect;
+export type InsertDoctorSigningKey = z.infer<typeof insertDoctorSigningKeySchema>;
 export type HealthRecord = typeof healthRecords.$inferSelect;
 export type InsertHealthRecord = z.infer<typeof insertHealthRecordSchema>;
 export type Medicine = typeof medicines.$inferSelect;
@@ -252,10 +678,40 @@ export type Pharmacy = typeof pharmacies.$inferSelect;
 export type InsertPharmacy = z.infer<typeof insertPharmacySchema>;
 export type Prescription = typeof prescriptions.$inferSelect;
 export type InsertPrescription = z.infer<typeof insertPrescriptionSchema>;
+export type PrescriptionStatusHistory = typeof prescriptionStatusHistory.$inferSelect;
+export type InsertPrescriptionStatusHistory = z.infer<typeof insertPrescriptionStatusHistorySchema>;
+export type PrescriptionDispenseItem = typeof prescriptionDispenseItems.$inferSelect;
+export type InsertPrescriptionDispenseItem = z.infer<typeof insertPrescriptionDispenseItemSchema>;
+export type Tombstone = typeof tombstones.$inferSelect;
+export type InsertTombstone = z.infer<typeof insertTombstoneSchema>;
+export type SyncOperationRecord = typeof syncOperations.$inferSelect;
+export type InsertSyncOperationRecord = z.infer<typeof insertSyncOperationSchema>;
+export type StockBatch = typeof stockBatches.$inferSelect;
+export type InsertStockBatch = z.infer<typeof insertStockBatchSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type ReorderRule = typeof reorderRules.$inferSelect;
+export type InsertReorderRule = z.infer<typeof insertReorderRuleSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type InsertPurchaseOrderLine = z.infer<typeof insertPurchaseOrderLineSchema>;
+export type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+export type InsertGoodsReceipt = z.infer<typeof insertGoodsReceiptSchema>;
 export type MedicineStock = typeof medicineStock.$inferSelect;
 export type InsertMedicineStock = z.infer<typeof insertMedicineStockSchema>;
 export type SymptomCheck = typeof symptomChecks.$inferSelect;
 export type InsertSymptomCheck = z.infer<typeof insertSymptomCheckSchema>;
+export type AppointmentParticipant = typeof appointmentParticipants.$inferSelect;
+export type InsertAppointmentParticipant = z.infer<typeof insertAppointmentParticipantSchema>;
+export type ConsultationMessage = typeof consultationMessages.$inferSelect;
+export type InsertConsultationMessage = z.infer<typeof insertConsultationMessageSchema>;
+export type HealthRecordFile = typeof healthRecordFiles.$inferSelect;
+export type InsertHealthRecordFile = z.infer<typeof insertHealthRecordFileSchema>;
+export type WalkIn = typeof walkIns.$inferSelect;
+export type InsertWalkIn = z.infer<typeof insertWalkInSchema>;
 export type Analytics = typeof analytics.$inferSelect;
 export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
@@ -10,9 +10,12 @@ import crypto from 'crypto';
 export const SECURITY_CONFIG = {
   // Encryption settings
   ENCRYPTION_ALGORITHM: 'aes-256-gcm',
+  ENCRYPTION_ENVELOPE_VERSION: 2,
+  ENCRYPTION_KEY_SALT: 'sehatsetu-salt',
+  DEFAULT_ENCRYPTION_KEY_ID: 'k1',
   KEY_DERIVATION_ITERATIONS: 100000,
   SALT_LENGTH: 32,
-  IV_LENGTH: 16,
+  IV_LENGTH: 12, // 96-bit nonce, as recommended for GCM
   TAG_LENGTH: 16,
   
   // JWT settings
@@ -31,6 +34,8 @@ export const SECURITY_CONFIG = {
   // Audit settings
   AUDIT_RETENTION_DAYS: 2555, // 7 years (healthcare compliance)
   AUDIT_BATCH_SIZE: 1000,
+  AUDIT_FLUSH_INTERVAL_MS: 1000,
+  AUDIT_GENESIS_HASH: '0'.repeat(64),
   
   // Data classification levels
   DATA_CLASSIFICATION: {
@@ -76,16 +81,142 @@ export const AuditLogSchema = z.object({
 
 export type AuditLog = z.infer<typeof AuditLogSchema>;
 
+// A persisted audit event, linked to its predecessor by hash
+export type StoredAuditLog = AuditLog & {
+  sequence: number;
+  previousHash: string;
+  hash: string;
+};
+
+export interface AuditLogFilters {
+  userId?: string;
+  resource?: string;
+  action?: string;
+  riskLevel?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditLogPage {
+  logs: StoredAuditLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Durable backing store for the audit stream (implemented by the server's storage layer)
+export interface AuditLogStore {
+  appendAuditEvents(events: AuditLog[]): Promise<void>;
+  queryAuditEvents(filters: AuditLogFilters, page: number, pageSize: number): Promise<AuditLogPage>;
+}
+
+/**
+ * Hash an audit event together with the previous entry's hash.
+ * Any edit, deletion or reordering of stored entries breaks every hash after it.
+ */
+export function computeAuditHash(previousHash: string, event: AuditLog): string {
+  const canonical = JSON.stringify([
+    event.id,
+    event.timestamp,
+    event.userId ?? null,
+    event.sessionId ?? null,
+    event.action,
+    event.resource,
+    event.resourceId ?? null,
+    event.details ?? null,
+    event.ipAddress ?? null,
+    event.userAgent ?? null,
+    event.location ?? null,
+    event.riskLevel,
+    event.complianceFlags,
+    event.dataClassification,
+    event.retentionPeriod,
+  ]);
+  return crypto.createHash('sha256').update(previousHash).update(canonical).digest('hex');
+}
+
+// Serialized form of an encrypted field value
+export interface EncryptedEnvelope {
+  v: number;
+  kid: string;
+  encrypted: string;
+  iv: string;
+  tag: string;
+  algorithm: string;
+  classification: string;
+}
+
+// Envelopes written before key ids existed carry no v/kid/iv
+type ParsedEnvelope = Partial<EncryptedEnvelope> & Pick<EncryptedEnvelope, 'encrypted' | 'tag'>;
+
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+// Only used outside production; matches the key earlier builds silently fell back to
+// so existing local databases stay readable
+const DEVELOPMENT_ENCRYPTION_SECRET = 'default-key-change-in-production';
+
+// EVP_BytesToKey with MD5, one round and no salt, as crypto.createCipher used it:
+// each block is MD5(previous block + password) until there is enough for the key and IV
+function deriveLegacyKeyAndIv(password: Buffer): { key: Buffer; iv: Buffer } {
+  const keyLength = 32;
+  const blocks: Buffer[] = [];
+  let block = Buffer.alloc(0);
+  while (blocks.length * 16 < keyLength + SECURITY_CONFIG.IV_LENGTH) {
+    block = crypto.createHash('md5').update(Buffer.concat([block, password])).digest();
+    blocks.push(block);
+  }
+  const derived = Buffer.concat(blocks);
+  return { key: derived.subarray(0, keyLength), iv: derived.subarray(keyLength, keyLength + SECURITY_CONFIG.IV_LENGTH) };
+}
+
 // Encryption Utilities
 export class EncryptionService {
   private static instance: EncryptionService;
-  private masterKey: Buffer;
+  private keys = new Map<string, Buffer>();
+  private currentKeyId: string;
+  private blindIndexKey: Buffer;
 
+  /**
+   * Keys come from the environment:
+   *   MASTER_ENCRYPTION_KEY      secret for new ciphertexts (required in production)
+   *   MASTER_ENCRYPTION_KEY_ID   id stamped on new ciphertexts (default "k1")
+   *   RETIRED_ENCRYPTION_KEYS    "id:secret,id:secret" still accepted for decryption
+   *   BLIND_INDEX_KEY            HMAC key for searchable fields; never rotated with the
+   *                              master key, since every stored index would change
+   */
   private constructor() {
-    // In production, this should come from secure key management
-    this.masterKey = crypto.scryptSync(
-      process.env.MASTER_ENCRYPTION_KEY || 'default-key-change-in-production',
-      'sehatsetu-salt',
+    let secret = process.env.MASTER_ENCRYPTION_KEY;
+    if (!secret) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new EncryptionKeyError(
+          'MASTER_ENCRYPTION_KEY must be set in production; refusing to encrypt patient data with a built-in key'
+        );
+      }
+      console.warn('MASTER_ENCRYPTION_KEY is not set; using the development-only encryption key');
+      secret = DEVELOPMENT_ENCRYPTION_SECRET;
+    }
+
+    this.currentKeyId = process.env.MASTER_ENCRYPTION_KEY_ID || SECURITY_CONFIG.DEFAULT_ENCRYPTION_KEY_ID;
+
+    for (const entry of (process.env.RETIRED_ENCRYPTION_KEYS || '').split(',')) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) continue;
+      this.keys.set(entry.slice(0, separator).trim(), this.deriveKey(entry.slice(separator + 1).trim()));
+    }
+    this.keys.set(this.currentKeyId, this.deriveKey(secret));
+
+    const indexSecret = process.env.BLIND_INDEX_KEY;
+    if (!indexSecret && process.env.NODE_ENV === 'production') {
+      throw new EncryptionKeyError('BLIND_INDEX_KEY must be set in production');
+    }
+    this.blindIndexKey = crypto.scryptSync(
+      indexSecret || `${DEVELOPMENT_ENCRYPTION_SECRET}:blind-index`,
+      SECURITY_CONFIG.ENCRYPTION_KEY_SALT,
       32
     );
   }
@@ -97,44 +228,151 @@ export class EncryptionService {
     return EncryptionService.instance;
   }
 
+  private deriveKey(secret: string): Buffer {
+    return crypto.scryptSync(secret, SECURITY_CONFIG.ENCRYPTION_KEY_SALT, 32);
+  }
+
+  get activeKeyId(): string {
+    return this.currentKeyId;
+  }
+
   /**
    * Encrypt sensitive data (PII, PHI)
    */
   encrypt(data: string, dataClassification: string = 'confidential'): string {
     const iv = crypto.randomBytes(SECURITY_CONFIG.IV_LENGTH);
-    const cipher = crypto.createCipher(SECURITY_CONFIG.ENCRYPTION_ALGORITHM, this.masterKey);
+    const cipher = crypto.createCipheriv(
+      SECURITY_CONFIG.ENCRYPTION_ALGORITHM,
+      this.keys.get(this.currentKeyId)!,
+      iv,
+      { authTagLength: SECURITY_CONFIG.TAG_LENGTH }
+    );
     cipher.setAAD(Buffer.from(dataClassification));
-    
+
     let encrypted = cipher.update(data, 'utf8', 'hex');
     encrypted += cipher.final('hex');
-    
-    const tag = cipher.getAuthTag();
-    
-    return JSON.stringify({
+
+    const envelope: EncryptedEnvelope = {
+      v: SECURITY_CONFIG.ENCRYPTION_ENVELOPE_VERSION,
+      kid: this.currentKeyId,
       encrypted,
       iv: iv.toString('hex'),
-      tag: tag.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
       algorithm: SECURITY_CONFIG.ENCRYPTION_ALGORITHM,
       classification: dataClassification,
-    });
+    };
+    return JSON.stringify(envelope);
   }
 
   /**
    * Decrypt sensitive data
    */
   decrypt(encryptedData: string): string {
-    const { encrypted, iv, tag, algorithm, classification } = JSON.parse(encryptedData);
-    
-    const decipher = crypto.createDecipher(algorithm, this.masterKey);
-    decipher.setAAD(Buffer.from(classification));
-    decipher.setAuthTag(Buffer.from(tag, 'hex'));
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+    const parsed = this.parseEnvelope(encryptedData);
+    if (!parsed) {
+      throw new Error('Value is not an encrypted envelope');
+    }
+    // Every envelope, legacy ones included, was written with the one configured algorithm
+    if (parsed.algorithm !== SECURITY_CONFIG.ENCRYPTION_ALGORITHM) {
+      throw new Error(`Unsupported encryption algorithm "${parsed.algorithm}"`);
+    }
+    if (!parsed.kid) {
+      return this.decryptLegacy(parsed);
+    }
+
+    const envelope = parsed as EncryptedEnvelope;
+    const key = this.keys.get(envelope.kid);
+    if (!key) {
+      throw new EncryptionKeyError(`Unknown encryption key id "${envelope.kid}"`);
+    }
+
+    const decipher = crypto.createDecipheriv(
+      SECURITY_CONFIG.ENCRYPTION_ALGORITHM,
+      key,
+      Buffer.from(envelope.iv, 'hex'),
+      { authTagLength: SECURITY_CONFIG.TAG_LENGTH }
+    );
+    decipher.setAAD(Buffer.from(envelope.classification));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'hex'));
+
+    let decrypted = decipher.update(envelope.encrypted, 'hex', 'utf8');
     decrypted += decipher.final('utf8');
-    
+
     return decrypted;
   }
 
+  /**
+   * Whether a stored value is one of our encrypted envelopes
+   */
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && this.parseEnvelope(value) !== null;
+  }
+
+  /**
+   * Whether an encrypted value was produced by anything other than the active key
+   */
+  needsReencryption(encryptedData: string): boolean {
+    const envelope = this.parseEnvelope(encryptedData);
+    return !!envelope && (
+      envelope.kid !== this.currentKeyId ||
+      envelope.v !== SECURITY_CONFIG.ENCRYPTION_ENVELOPE_VERSION
+    );
+  }
+
+  /**
+   * Decrypt with whichever key produced the value and encrypt again under the active key
+   */
+  reencrypt(encryptedData: string): string {
+    const envelope = this.parseEnvelope(encryptedData);
+    if (!envelope) {
+      throw new Error('Value is not an encrypted envelope');
+    }
+    return this.encrypt(this.decrypt(encryptedData), envelope.classification || 'confidential');
+  }
+
+  private parseEnvelope(value: string): ParsedEnvelope | null {
+    if (!value.startsWith('{')) return null;
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed.encrypted === 'string' && typeof parsed.tag === 'string' ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Envelopes written before key ids existed were produced by the deprecated
+   * crypto.createCipher, which derives the key and IV from the password with
+   * OpenSSL's EVP_BytesToKey. The same derivation is repeated here so they stay
+   * readable on runtimes without createDecipher; the re-encryption job moves
+   * them onto the current format.
+   */
+  private decryptLegacy(envelope: ParsedEnvelope): string {
+    for (const password of Array.from(this.keys.values())) {
+      const { key, iv } = deriveLegacyKeyAndIv(password);
+      try {
+        const decipher = crypto.createDecipheriv(SECURITY_CONFIG.ENCRYPTION_ALGORITHM, key, iv, {
+          authTagLength: SECURITY_CONFIG.TAG_LENGTH
+        });
+        decipher.setAAD(Buffer.from(envelope.classification || 'confidential'));
+        decipher.setAuthTag(Buffer.from(envelope.tag, 'hex'));
+        return decipher.update(envelope.encrypted, 'hex', 'utf8') + decipher.final('utf8');
+      } catch {
+        // Wrong key; the auth tag check failed, try the next one
+      }
+    }
+    throw new EncryptionKeyError('No configured key decrypts this legacy ciphertext');
+  }
+
+  /**
+   * Deterministic keyed hash of an encrypted field, so it can be looked up by
+   * equality without storing plaintext. The scope keeps equal values in
+   * different columns from producing the same index.
+   */
+  blindIndex(value: string, scope: string): string {
+    return crypto.createHmac('sha256', this.blindIndexKey).update(`${scope}:${value}`).digest('hex');
+  }
+
   /**
    * Hash sensitive data (one-way)
    */
@@ -176,7 +414,10 @@ export class EncryptionService {
 // Audit Service
 export class AuditService {
   private static instance: AuditService;
-  private logs: AuditLog[] = [];
+  private pending: AuditLog[] = [];
+  private store: AuditLogStore | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
   private batchSize = SECURITY_CONFIG.AUDIT_BATCH_SIZE;
 
   private constructor() {}
@@ -188,6 +429,14 @@ export class AuditService {
     return AuditService.instance;
   }
 
+  /**
+   * Attach the durable store; anything logged before this is flushed to it
+   */
+  attachStore(store: AuditLogStore): void {
+    this.store = store;
+    this.scheduleFlush();
+  }
+
   /**
    * Log security event
    */
@@ -198,14 +447,13 @@ export class AuditService {
       ...event,
     };
 
-    this.logs.push(log);
-
-    // In production, this would be sent to a secure audit system
-    console.log('AUDIT LOG:', JSON.stringify(log, null, 2));
+    this.pending.push(log);
 
-    // Batch processing for performance
-    if (this.logs.length >= this.batchSize) {
-      this.flushLogs();
+    // Batch writes so request handlers never wait on the audit store
+    if (this.pending.length >= this.batchSize) {
+      void this.flushLogs();
+    } else {
+      this.scheduleFlush();
     }
   }
 
@@ -237,7 +485,8 @@ export class AuditService {
     resourceId: string,
     userId: string,
     action: 'read' | 'write' | 'delete' | 'export',
-    details?: Record<string, any>
+    details?: Record<string, any>,
+    riskLevel?: 'low' | 'medium' | 'high' | 'critical'
   ): void {
     this.logEvent({
       action,
@@ -245,7 +494,7 @@ export class AuditService {
       resourceId,
       userId,
       details,
-      riskLevel: action === 'delete' || action === 'export' ? 'high' : 'medium',
+      riskLevel: riskLevel ?? (action === 'delete' || action === 'export' ? 'high' : 'medium'),
       complianceFlags: ['HIPAA', 'HL7_FHIR'],
       dataClassification: 'restricted',
       retentionPeriod: SECURITY_CONFIG.AUDIT_RETENTION_DAYS,
@@ -272,86 +521,97 @@ export class AuditService {
   }
 
   /**
-   * Get audit logs (with filtering)
+   * Get audit logs (with filtering and pagination), newest first
    */
-  getLogs(filters?: {
-    userId?: string;
-    resource?: string;
-    action?: string;
-    riskLevel?: string;
-    startDate?: string;
-    endDate?: string;
-  }): AuditLog[] {
-    let filteredLogs = [...this.logs];
-
-    if (filters) {
-      if (filters.userId) {
-        filteredLogs = filteredLogs.filter(log => log.userId === filters.userId);
-      }
-      if (filters.resource) {
-        filteredLogs = filteredLogs.filter(log => log.resource === filters.resource);
-      }
-      if (filters.action) {
-        filteredLogs = filteredLogs.filter(log => log.action === filters.action);
-      }
-      if (filters.riskLevel) {
-        filteredLogs = filteredLogs.filter(log => log.riskLevel === filters.riskLevel);
-      }
-      if (filters.startDate) {
-        filteredLogs = filteredLogs.filter(log => log.timestamp >= filters.startDate!);
-      }
-      if (filters.endDate) {
-        filteredLogs = filteredLogs.filter(log => log.timestamp <= filters.endDate!);
-      }
+  async getLogs(filters: AuditLogFilters = {}, page: number = 1, pageSize: number = 50): Promise<AuditLogPage> {
+    if (!this.store) {
+      throw new Error('Audit log store is not attached');
     }
 
-    return filteredLogs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    // Make sure events from the current request are visible to the query
+    await this.flushLogs();
+    return this.store.queryAuditEvents(filters, page, pageSize);
   }
 
   /**
-   * Flush logs to persistent storage
+   * Flush pending logs to persistent storage
    */
-  private flushLogs(): void {
-    // In production, this would send to secure audit database
-    console.log(`Flushing ${this.logs.length} audit logs to persistent storage`);
-    this.logs = [];
+  async flushLogs(): Promise<void> {
+    if (this.flushing) {
+      await this.flushing;
+    }
+    if (!this.store || this.pending.length === 0) {
+      return;
+    }
+
+    const batch = this.pending.splice(0, this.pending.length);
+    this.flushing = this.store.appendAuditEvents(batch)
+      .catch((error) => {
+        // Keep the events and retry on the next flush rather than losing them
+        console.error('Failed to persist audit logs:', error instanceof Error ? error.message : error);
+        this.pending.unshift(...batch);
+      })
+      .finally(() => {
+        this.flushing = null;
+        if (this.pending.length > 0) {
+          this.scheduleFlush();
+        }
+      });
+
+    await this.flushing;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || !this.store || this.pending.length === 0) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flushLogs();
+    }, SECURITY_CONFIG.AUDIT_FLUSH_INTERVAL_MS);
   }
 
   /**
    * Generate compliance report
    */
-  generateComplianceReport(
+  async generateComplianceReport(
     startDate: string,
     endDate: string,
     complianceFramework: string
-  ): {
+  ): Promise<{
     totalEvents: number;
     highRiskEvents: number;
     criticalEvents: number;
     complianceViolations: number;
     summary: Record<string, number>;
-  } {
-    const logs = this.getLogs({ startDate, endDate });
-    
-    const highRiskEvents = logs.filter(log => log.riskLevel === 'high').length;
-    const criticalEvents = logs.filter(log => log.riskLevel === 'critical').length;
-    const complianceViolations = logs.filter(log => 
-      log.complianceFlags.includes(complianceFramework) && 
-      (log.riskLevel === 'high' || log.riskLevel === 'critical')
-    ).length;
-
-    const summary = logs.reduce((acc, log) => {
-      acc[log.action] = (acc[log.action] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return {
-      totalEvents: logs.length,
-      highRiskEvents,
-      criticalEvents,
-      complianceViolations,
-      summary,
+  }> {
+    const report = {
+      totalEvents: 0,
+      highRiskEvents: 0,
+      criticalEvents: 0,
+      complianceViolations: 0,
+      summary: {} as Record<string, number>,
     };
+
+    for (let page = 1; ; page++) {
+      const { logs, total } = await this.getLogs({ startDate, endDate }, page, this.batchSize);
+
+      for (const log of logs) {
+        report.totalEvents++;
+        if (log.riskLevel === 'high') report.highRiskEvents++;
+        if (log.riskLevel === 'critical') report.criticalEvents++;
+        if (log.complianceFlags.includes(complianceFramework) &&
+            (log.riskLevel === 'high' || log.riskLevel === 'critical')) {
+          report.complianceViolations++;
+        }
+        report.summary[log.action] = (report.summary[log.action] || 0) + 1;
+      }
+
+      if (page * this.batchSize >= total) break;
+    }
+
+    return report;
   }
 }
 
@@ -415,75 +675,6 @@ export class DataClassificationService {
     }
     return false;
   }
-
-  /**
-   * Apply data masking based on classification
-   */
-  maskData(data: any, classification: string): any {
-    if (classification === SECURITY_CONFIG.DATA_CLASSIFICATION.PUBLIC) {
-      return data;
-    }
-
-    if (classification === SECURITY_CONFIG.DATA_CLASSIFICATION.INTERNAL) {
-      return this.maskInternalData(data);
-    }
-
-    if (classification === SECURITY_CONFIG.DATA_CLASSIFICATION.CONFIDENTIAL) {
-      return this.maskConfidentialData(data);
-    }
-
-    if (classification === SECURITY_CONFIG.DATA_CLASSIFICATION.RESTRICTED) {
-      return this.maskRestrictedData(data);
-    }
-
-    return data;
-  }
-
-  private maskInternalData(data: any): any {
-    // Mask phone numbers and emails
-    return this.maskFields(data, ['phone', 'email']);
-  }
-
-  private maskConfidentialData(data: any): any {
-    // Mask PII and PHI
-    return this.maskFields(data, [
-      'patientName', 'patientId', 'phone', 'email', 'address',
-      'dateOfBirth', 'socialSecurityNumber', 'aadharNumber'
-    ]);
-  }
-
-  private maskRestrictedData(data: any): any {
-    // Mask all sensitive information
-    return this.maskFields(data, [
-      'patientName', 'patientId', 'phone', 'email', 'address',
-      'dateOfBirth', 'socialSecurityNumber', 'aadharNumber',
-      'financialInfo', 'paymentDetails', 'bankAccount', 'creditCard'
-    ]);
-  }
-
-  private maskFields(data: any, fields: string[]): any {
-    if (typeof data === 'object' && data !== null) {
-      const masked = { ...data };
-      for (const key in masked) {
-        if (fields.some(field => key.toLowerCase().includes(field.toLowerCase()))) {
-          if (typeof masked[key] === 'string') {
-            masked[key] = this.maskString(masked[key]);
-          }
-        } else if (typeof masked[key] === 'object') {
-          masked[key] = this.maskFields(masked[key], fields);
-        }
-      }
-      return masked;
-    }
-    return data;
-  }
-
-  private maskString(str: string): string {
-    if (str.length <= 4) {
-      return '*'.repeat(str.length);
-    }
-    return str.substring(0, 2) + '*'.repeat(str.length - 4) + str.substring(str.length - 2);
-  }
 }
 
 // Compliance Service
@@ -0,0 +1,72 @@
+/**
+ * Medicine Stock Sync
+ * Contract for POST /api/medicine-stock/sync. Clients pull every stock row changed
+ * since their last sync and push quantities they changed locally, each tagged with
+ * the version it was edited from so concurrent edits surface as conflicts.
+ */
+
+import { z } from 'zod';
+
+export const MAX_STOCK_CHANGES_PER_SYNC = 500;
+
+export const stockLocalChangeSchema = z.object({
+  id: z.string().min(1),
+  // Server version the client's edit was based on
+  version: z.number().int().min(1),
+  currentStock: z.number().int().min(0).max(1_000_000),
+  lastUpdated: z.string().datetime().optional(),
+  // Recorded on the adjustment entry in the stock movement ledger
+  reason: z.string().trim().max(200).optional(),
+});
+
+export const stockSyncRequestSchema = z.object({
+  lastSync: z.string().datetime(),
+  // Admins may sync a single pharmacy; pharmacists always get their own
+  pharmacyId: z.string().optional(),
+  localChanges: z.array(stockLocalChangeSchema).max(MAX_STOCK_CHANGES_PER_SYNC).default([]),
+});
+
+export type StockLocalChange = z.infer<typeof stockLocalChangeSchema>;
+export type StockSyncRequest = z.infer<typeof stockSyncRequestSchema>;
+
+export type StockSyncStatus = 'available' | 'limited' | 'out_of_stock' | 'reorder_needed';
+
+// A stock row in the shape MedicineStockManager works with
+export type StockSyncItem = {
+  id: string;
+  medicineId: string;
+  medicineName: string;
+  pharmacyId: string;
+  pharmacyName: string;
+  currentStock: number;
+  minimumStock: number;
+  maximumStock: number;
+  unitPrice: number;
+  lastUpdated: string;
+  status: StockSyncStatus;
+  supplier: string;
+  expiryDate?: string;
+  version: number;
+};
+
+export interface StockConflict {
+  id: string;
+  medicineId: string;
+  medicineName: string;
+  localVersion: StockLocalChange;
+  serverVersion: StockSyncItem;
+}
+
+export interface StockSyncResponse {
+  // Rows changed since lastSync, including the client's own accepted changes
+  updates: StockSyncItem[];
+  conflicts: StockConflict[];
+  // Pass back as lastSync next time; avoids trusting the client clock
+  serverTime: string;
+}
+
+export function stockSyncStatus(quantity: number, minimumStock: number, status: string): StockSyncStatus {
+  if (quantity === 0) return 'out_of_stock';
+  if (quantity <= minimumStock) return 'reorder_needed';
+  return status === 'limited' ? 'limited' : 'available';
+}
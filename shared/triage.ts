@@ -0,0 +1,97 @@
+/**
+ * Walk-in Triage
+ * Patients who arrive at the Nabha civil hospital teleconsult desk or a
+ * village centre without an appointment join a server-managed waiting room.
+ * Priority comes from their latest symptom check; each walk-in is assigned
+ * to an online doctor, who calls the next patient when free. Calling a
+ * patient books a video appointment so the visit continues in the doctor
+ * workspace.
+ */
+
+import { z } from 'zod';
+import type { PatientSummary } from './consultation';
+import type { WalkIn } from './schema';
+
+export const WALK_IN_SOURCES = ['self', 'asha', 'desk'] as const;
+
+export type WalkInSource = typeof WALK_IN_SOURCES[number];
+
+// Higher is seen first; a patient without a recent symptom check is triaged as routine
+export const SEVERITY_PRIORITY: Record<string, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  emergency: 4,
+};
+
+// Older symptom checks describe an earlier illness and are not used for triage
+export const TRIAGE_SYMPTOM_CHECK_MAX_AGE_HOURS = 24;
+
+export function priorityForSeverity(severity: string | null | undefined): number {
+  return (severity && SEVERITY_PRIORITY[severity]) || 0;
+}
+
+export const walkInRegistrationSchema = z.object({
+  // Staff and ASHA workers identify the patient by id or registered phone number;
+  // patients registering themselves leave both out
+  patientId: z.string().min(1).optional(),
+  phone: z.string().trim().min(10, 'Phone number must be at least 10 digits').max(15).optional(),
+  source: z.enum(WALK_IN_SOURCES).optional(),
+  location: z.string().trim().max(200).optional(),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const walkInQueueQuerySchema = z.object({
+  doctorId: z.string().min(1).optional(),
+});
+
+export type WalkInRegistration = z.infer<typeof walkInRegistrationSchema>;
+
+type QueuedWalkIn = Pick<WalkIn, 'id' | 'doctorId'>;
+
+/**
+ * Place in line for each waiting walk-in, given the waiting room in calling
+ * order (priority, then arrival). A doctor calls from their own patients and
+ * from those not yet assigned, so everyone ahead in either group counts.
+ */
+export function computeQueuePositions(waiting: QueuedWalkIn[]): Map<string, number> {
+  const positions = new Map<string, number>();
+  waiting.forEach((walkIn, index) => {
+    const ahead = waiting.slice(0, index).filter(other =>
+      !walkIn.doctorId || !other.doctorId || other.doctorId === walkIn.doctorId
+    );
+    positions.set(walkIn.id, ahead.length + 1);
+  });
+  return positions;
+}
+
+export interface WalkInEntry extends WalkIn {
+  patient: PatientSummary;
+  doctorName: string | null;
+  // 1 for the next patient the assigned doctor will call; null once called or cancelled
+  position: number | null;
+}
+
+/**
+ * Pushed on the walk-in's WebSocket channel whenever the queue moves
+ */
+export type WalkInUpdateMessage = {
+  type: 'walk-in-updated';
+  walkInId: string;
+  status: WalkIn['status'];
+  position: number | null;
+  doctorId: string | null;
+  appointmentId: string | null;
+};
+
+const WALK_IN_CHANNEL_PREFIX = 'walk-in:';
+
+export const walkInChannel = (walkInId: string) => `${WALK_IN_CHANNEL_PREFIX}${walkInId}`;
+
+export function parseWalkInChannel(channel: string): string | null {
+  if (!channel.startsWith(WALK_IN_CHANNEL_PREFIX)) return null;
+  return channel.slice(WALK_IN_CHANNEL_PREFIX.length) || null;
+}
+
+// Doctors and desk staff watch this channel to refresh the waiting list
+export const WALK_IN_QUEUE_CHANNEL = 'walk-ins';
@@ -1,12 +1,60 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
+import { build as esbuild } from "esbuild";
 import runtimeErrorOverlay from "@replit/vite-plugin-runtime-error-modal";
 
+/**
+ * Builds client/sw.ts into sw.js next to the bundle, with this build's files
+ * as its precache list and a version derived from their contents. Any change
+ * to the app therefore changes sw.js, which is how browsers notice an update.
+ */
+function serviceWorker(): Plugin {
+  let publicDir = "";
+  return {
+    name: "sehatsetu-service-worker",
+    apply: "build",
+    // After Vite's HTML plugin has added index.html to the bundle
+    enforce: "post",
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    async generateBundle(_options, bundle) {
+      const hash = createHash("sha256");
+      const files: string[] = [];
+      for (const output of Object.values(bundle)) {
+        if (output.fileName.endsWith(".map")) continue;
+        files.push(`/${output.fileName}`);
+        hash.update(output.fileName).update(output.type === "chunk" ? output.code : output.source);
+      }
+      const publicFiles = fs.existsSync(publicDir)
+        ? fs.readdirSync(publicDir).map((name) => `/${name}`)
+        : [];
+
+      const result = await esbuild({
+        entryPoints: [path.resolve(import.meta.dirname, "client", "sw.ts")],
+        bundle: true,
+        write: false,
+        format: "iife",
+        minify: true,
+        target: "es2020",
+        define: {
+          __SW_VERSION__: JSON.stringify(hash.digest("hex").slice(0, 16)),
+          __PRECACHE_URLS__: JSON.stringify([...files, ...publicFiles].sort()),
+        },
+      });
+      this.emitFile({ type: "asset", fileName: "sw.js", source: result.outputFiles[0].text });
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
     react(),
     runtimeErrorOverlay(),
+    serviceWorker(),
     ...(process.env.NODE_ENV !== "production" &&
     process.env.REPL_ID !== undefined
       ? [